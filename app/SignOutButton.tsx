@@ -4,6 +4,9 @@
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 import { supabase } from "@/app/lib/supabaseClient";
+import { clearClaimEventQueue, flushClaimEvents } from "@/app/lib/claimHistory";
+import { clearPlanCache, pushPlanNow } from "@/app/lib/planSync";
+import { disablePush } from "@/app/lib/push";
 
 export default function SignOutButton() {
   const router = useRouter();
@@ -13,6 +16,17 @@ export default function SignOutButton() {
     if (busy) return;
     setBusy(true);
 
+    // ✅ Flush any plan edits and claims that haven't reached Supabase yet (no-op if offline)
+    await pushPlanNow();
+    await flushClaimEvents();
+
+    // ✅ Stop this browser's notifications while still signed in (RLS needs the session to delete the row)
+    try {
+      await disablePush();
+    } catch {
+      // ignore errors
+    }
+
     try {
       await supabase.auth.signOut();
     } catch {
@@ -22,13 +36,13 @@ export default function SignOutButton() {
     // ✅ Clear user-specific cached keys so another user on same browser doesn't see your data
     try {
       localStorage.removeItem("bs_profile");
-      localStorage.removeItem("bs_plan");
-      localStorage.removeItem("bs_claimed");
       // keep these if you want:
       // localStorage.removeItem("bs_start");
       // localStorage.removeItem("bs_loc_prompt_off");
       // localStorage.removeItem("bs_zip");
     } catch {}
+    clearPlanCache();
+    clearClaimEventQueue();
 
     router.replace("/login");
     router.refresh();
@@ -0,0 +1,78 @@
+// app/api/admin/routing-cache/route.ts
+// GET: hit/miss counters for this server instance.
+// DELETE: purge entries, e.g. ?name=Starbucks, ?lat=36.11&lon=-115.17&radius_km=5, ?kind=matrix, ?all=1
+import { NextResponse } from "next/server";
+import { isCurrentUserAdmin } from "@/app/lib/dealsServer";
+import { CACHE_KINDS, RoutingConfigError, getRoutingCache, type CacheKind, type CachePurge } from "@/app/lib/routing";
+
+const MAX_RADIUS_KM = 200;
+
+function parsePurge(params: URLSearchParams): CachePurge | string {
+  const f: CachePurge = {};
+
+  const kind = params.get("kind");
+  if (kind) {
+    if (!CACHE_KINDS.includes(kind as CacheKind)) return `Unknown kind "${kind}" (use ${CACHE_KINDS.join(", ")})`;
+    f.kind = kind as CacheKind;
+  }
+
+  const name = (params.get("name") || "").trim();
+  if (name) f.name = name;
+
+  if (params.has("lat") || params.has("lon")) {
+    const lat = Number(params.get("lat"));
+    const lon = Number(params.get("lon"));
+    const km = Number(params.get("radius_km") ?? 5);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return "lat/lon must be valid coordinates";
+    }
+    if (!Number.isFinite(km) || km <= 0 || km > MAX_RADIUS_KM) return `radius_km must be between 0 and ${MAX_RADIUS_KM}`;
+    f.near = { lat, lon };
+    f.radiusM = km * 1000;
+  }
+
+  // An empty filter wipes everything, so that has to be asked for explicitly
+  if (!f.name && !f.near && params.get("all") !== "1") return "Give a name, an area (lat, lon, radius_km) or all=1";
+  return f;
+}
+
+async function guard() {
+  if (!(await isCurrentUserAdmin())) {
+    return NextResponse.json({ ok: false, note: "Admins only" }, { status: 403 });
+  }
+  return null;
+}
+
+function failure(e: unknown) {
+  const status = e instanceof RoutingConfigError ? 503 : 500;
+  return NextResponse.json({ ok: false, note: e instanceof Error ? e.message : "Server error" }, { status });
+}
+
+export async function GET() {
+  const denied = await guard();
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ ok: true, stats: getRoutingCache().stats() });
+  } catch (e: unknown) {
+    return failure(e);
+  }
+}
+
+export async function DELETE(req: Request) {
+  const denied = await guard();
+  if (denied) return denied;
+
+  const filter = parsePurge(new URL(req.url).searchParams);
+  if (typeof filter === "string") {
+    return NextResponse.json({ ok: false, note: filter }, { status: 400 });
+  }
+
+  try {
+    const cache = getRoutingCache();
+    const purged = await cache.purge(filter);
+    return NextResponse.json({ ok: true, backend: cache.backend, purged });
+  } catch (e: unknown) {
+    return failure(e);
+  }
+}
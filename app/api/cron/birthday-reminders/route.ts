@@ -0,0 +1,48 @@
+// app/api/cron/birthday-reminders/route.ts
+// GET: sends the birthday reminder emails that are due. Meant to run hourly; each user's goes out
+// after REMINDER_HOUR in their time zone, once per birthday.
+// Auth: isCronAuthorized (Bearer $CRON_SECRET).
+// ?now=2026-03-04T09:00:00Z pretends it's that time; ?dry=1 lists who'd get one without sending.
+import { NextResponse } from "next/server";
+import { isCronAuthorized } from "@/app/lib/cron";
+import { loadDeals } from "@/app/lib/dealsServer";
+import { MailConfigError, getMailer } from "@/app/lib/mail";
+import { runBirthdayReminders } from "@/app/lib/remindersServer";
+import { getSupabaseServiceClient } from "@/app/lib/supabaseAdmin";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const env = process.env;
+  if (!isCronAuthorized(req, env)) {
+    return NextResponse.json({ ok: false, note: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const nowParam = url.searchParams.get("now");
+  const now = nowParam ? new Date(nowParam) : new Date();
+  if (Number.isNaN(now.getTime())) {
+    return NextResponse.json({ ok: false, note: "now must be an ISO date-time" }, { status: 400 });
+  }
+
+  const service = getSupabaseServiceClient(env);
+  if (!service) {
+    return NextResponse.json({ ok: false, note: "SUPABASE_SERVICE_ROLE_KEY is not set" }, { status: 503 });
+  }
+
+  try {
+    const mailer = getMailer(env);
+    const run = await runBirthdayReminders({
+      service,
+      mailer,
+      deals: await loadDeals(),
+      appUrl: (env.APP_URL || url.origin).replace(/\/+$/, ""),
+      now,
+      dryRun: url.searchParams.get("dry") === "1",
+    });
+    return NextResponse.json({ ok: true, mailer: mailer.name, ...run });
+  } catch (e: unknown) {
+    const status = e instanceof MailConfigError ? 503 : 500;
+    return NextResponse.json({ ok: false, note: e instanceof Error ? e.message : "Server error" }, { status });
+  }
+}
@@ -0,0 +1,45 @@
+// app/api/cron/expiring-deals/route.ts
+// GET: push "deal ending soon" warnings for planned, unclaimed deals. Meant to run hourly, like
+// /api/cron/birthday-reminders, with the same auth (isCronAuthorized).
+// ?now=… pretends it's that time; ?dry=1 lists who'd be warned without sending.
+import { NextResponse } from "next/server";
+import { isCronAuthorized } from "@/app/lib/cron";
+import { loadDeals } from "@/app/lib/dealsServer";
+import { runExpiringDealPushes } from "@/app/lib/pushServer";
+import { getSupabaseServiceClient } from "@/app/lib/supabaseAdmin";
+import { PushConfigError, vapidKeysFromEnv } from "@/app/lib/webPush";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const env = process.env;
+  if (!isCronAuthorized(req, env)) {
+    return NextResponse.json({ ok: false, note: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const nowParam = url.searchParams.get("now");
+  const now = nowParam ? new Date(nowParam) : new Date();
+  if (Number.isNaN(now.getTime())) {
+    return NextResponse.json({ ok: false, note: "now must be an ISO date-time" }, { status: 400 });
+  }
+
+  const service = getSupabaseServiceClient(env);
+  if (!service) {
+    return NextResponse.json({ ok: false, note: "SUPABASE_SERVICE_ROLE_KEY is not set" }, { status: 503 });
+  }
+
+  try {
+    const run = await runExpiringDealPushes({
+      service,
+      keys: vapidKeysFromEnv(env),
+      deals: await loadDeals(),
+      now,
+      dryRun: url.searchParams.get("dry") === "1",
+    });
+    return NextResponse.json({ ok: true, ...run });
+  } catch (e: unknown) {
+    const status = e instanceof PushConfigError ? 503 : 500;
+    return NextResponse.json({ ok: false, note: e instanceof Error ? e.message : "Server error" }, { status });
+  }
+}
@@ -1,287 +1,312 @@
 // app/api/optimize-route/route.ts
 import { NextResponse } from "next/server";
+import { brandKeys, textHasBrand, type Deal, type DealBrand } from "@/app/lib/deals";
+import { loadDeals } from "@/app/lib/dealsServer";
+import type { PinnedStore } from "@/app/lib/pinnedStores";
+import { normalizeTravelMode } from "@/app/lib/travelMode";
+import {
+  RoutingConfigError,
+  decodePolyline,
+  encodePolyline,
+  getRoutingProvider,
+  haversineMeters,
+  splitPath,
+  type Geo,
+  type PlaceHit,
+  type RouteJob,
+  type RouteSolution,
+  type RouteStep,
+  type RoutingProvider,
+  type StoreHours,
+  type TimeWindow,
+} from "@/app/lib/routing";
 
 type ReqBody = {
   startQuery?: string;
   startCoords?: { lat: number; lon: number };
-  destinationId?: string;
+  destinationId?: string; // only used when endMode is "stop"
+  endMode?: "stop" | "start" | "address"; // finish at a stop (default), back at the start, or at endQuery
+  endQuery?: string;
   previewOnly?: boolean;
-  stops: { id: string; query: string }[];
+  departAt?: string; // ISO; defaults to now
+  budget_min?: number; // total time for the day (travel + waiting + time at stores)
+  travelMode?: string; // "driving" | "walking" | "cycling" | "transit"; defaults to driving
+  // dealId looks the store up from the catalog; query is only for stops outside it.
+  // pinned = a store the user picked instead of the nearest one.
+  stops: { id: string; dealId?: string; query?: string; service_min?: number; pinned?: PinnedStore }[];
+  excluded?: PinnedStore[]; // stores the user never wants (matched by place id or coordinates)
 };
 
-type Geo = { lon: number; lat: number };
+/** How a stop was located: the user's pinned store, the deal's brand, a brand named in free text, or a plain geocode. */
+type StopStrategy = "pinned" | "brand" | "brand_text" | "geocode";
+type StopLookup = { query: string; brand?: DealBrand; strategy: StopStrategy };
 
-const ORS_KEY = process.env.ORS_API_KEY;
-const GOOGLE_PLACES_KEY = process.env.GOOGLE_PLACES_API_KEY;
+/** Another store of the same brand the user could pin instead. */
+type StoreCandidate = { lat: number; lon: number; placeId?: string; label?: string; dist_mi: number };
 
-// ---------- fetch with timeout ----------
-async function fetchWithTimeout(url: string, init: RequestInit, ms: number): Promise<Response> {
-  const ctrl = new AbortController();
-  const t = setTimeout(() => ctrl.abort(), ms);
-  try {
-    return await fetch(url, { ...init, signal: ctrl.signal });
-  } finally {
-    clearTimeout(t);
-  }
-}
+type ResolvedGeo = {
+  geo: Geo;
+  pickedFrom: string;
+  placeId?: string;
+  label?: string;
+  strategy: StopStrategy;
+  candidates: StoreCandidate[];
+};
 
-// ---------- distance ----------
-function haversineMeters(a: Geo, b: Geo) {
-  const R = 6371000;
-  const toRad = (x: number) => (x * Math.PI) / 180;
-  const dLat = toRad(b.lat - a.lat);
-  const dLon = toRad(b.lon - a.lon);
-  const lat1 = toRad(a.lat);
-  const lat2 = toRad(b.lat);
-  const h =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
-  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
-}
+type UnreachableReason = "closed" | "not_open_on_arrival" | "closed_on_arrival";
+
+/**
+ * One drive between consecutive points of the route. fromId null = the start; toId null = the route's end
+ * when it isn't a stop (back at the start / custom address). polyline only when the provider returns roads.
+ */
+type RouteLeg = { fromId: string | null; toId: string | null; distance_m?: number; duration_s?: number; polyline?: string };
 
 function metersToMiles(m: number) {
   return m / 1609.34;
 }
 
-// ---------- ORS geocode ----------
-async function geocodeSearch(query: string, start: Geo, radiusMeters: number, size: number) {
-  if (!ORS_KEY) throw new Error("Missing ORS_API_KEY in env");
-
-  const u = new URL("https://api.openrouteservice.org/geocode/search");
-  u.searchParams.set("api_key", ORS_KEY);
-  u.searchParams.set("text", query);
-  u.searchParams.set("size", String(size));
-  u.searchParams.set("boundary.country", "US");
-  u.searchParams.set("layers", "venue,address");
-
-  u.searchParams.set("focus.point.lat", String(start.lat));
-  u.searchParams.set("focus.point.lon", String(start.lon));
-
-  u.searchParams.set("boundary.circle.lat", String(start.lat));
-  u.searchParams.set("boundary.circle.lon", String(start.lon));
-  u.searchParams.set("boundary.circle.radius", String(radiusMeters));
-
-  const res = await fetchWithTimeout(u.toString(), { cache: "no-store" }, 9000);
-  if (!res.ok) throw new Error(`Geocode failed (${res.status})`);
-  const data = await res.json();
-  const feats = data?.features;
-  return Array.isArray(feats) ? feats : [];
+// ---------- time budget ----------
+/**
+ * Job priorities from the freebies' estimated value, so a budget-limited solve keeps the stops worth
+ * the most. Stops without an estimate count as an average one.
+ */
+function withValuePriority(
+  jobs: RouteJob[],
+  intToId: Map<number, string>,
+  stops: ReqBody["stops"],
+  catalog: Deal[]
+): RouteJob[] {
+  const valueOf = (jobId: number) => {
+    const stop = stops.find((s) => s.id === intToId.get(jobId));
+    return catalog.find((d) => d.id === stop?.dealId)?.estimatedValue?.usd;
+  };
+  const values = jobs.map((j) => valueOf(j.id));
+  const known = values.filter((v): v is number => typeof v === "number");
+  if (!known.length) return jobs;
+
+  const average = known.reduce((a, b) => a + b, 0) / known.length;
+  const max = Math.max(...known, average);
+  if (max <= 0) return jobs;
+  return jobs.map((j, i) => ({ ...j, priority: Math.max(1, Math.round((100 * (values[i] ?? average)) / max)) }));
 }
 
-async function geocodeClosest(query: string, start: Geo): Promise<Geo> {
-  const passes = [
-    { radius: 8000, size: 35 },
-    { radius: 20000, size: 35 },
-    { radius: 50000, size: 35 },
-  ];
-
-  const all: any[] = [];
-  const seen = new Set<string>();
-
-  for (const p of passes) {
-    const feats = await geocodeSearch(query, start, p.radius, p.size);
-    for (const f of feats) {
-      const coords = f?.geometry?.coordinates;
-      if (!coords || coords.length < 2) continue;
-      const key = `${coords[0].toFixed(5)},${coords[1].toFixed(5)}`;
-      if (seen.has(key)) continue;
-      seen.add(key);
-      all.push(f);
-    }
-    if (all.length >= 15) break;
-  }
+// ---------- chain detection (driven by the deal catalog) ----------
+function stopLookup(stop: ReqBody["stops"][number], catalog: Deal[]): StopLookup | null {
+  const deal = stop.dealId ? catalog.find((d) => d.id === stop.dealId) : undefined;
+  if (deal?.brand) return { query: deal.brand.name, brand: deal.brand, strategy: "brand" };
 
-  if (all.length === 0) throw new Error(`No geocode result for: ${query}`);
+  const query = (stop.query || "").trim() || deal?.mapQuery || deal?.name || "";
+  if (!query) return null;
 
-  let best = all[0];
-  let bestDist = Infinity;
-
-  for (const f of all) {
-    const [lon, lat] = f.geometry.coordinates;
-    const d = haversineMeters(start, { lat, lon });
-    if (d < bestDist) {
-      bestDist = d;
-      best = f;
-    }
-  }
+  // Free text that names a catalog brand still gets the strict nearest-store lookup
+  const named = catalog.find((d) => d.brand && textHasBrand(query, brandKeys(d.brand)))?.brand;
+  if (named) return { query: named.name, brand: named, strategy: "brand_text" };
 
-  const [lon, lat] = best.geometry.coordinates;
-  return { lat, lon };
+  return { query, strategy: "geocode" };
 }
 
-// ---------- ORS matrix (start -> each stop) ----------
-async function matrixFromStart(start: Geo, stops: Geo[]) {
-  if (!ORS_KEY) throw new Error("Missing ORS_API_KEY in env");
+/** Best effort: a stop without known hours is treated as always open. */
+async function resolveStopHours(
+  provider: RoutingProvider,
+  query: string,
+  geo: Geo,
+  placeId?: string
+): Promise<StoreHours | null> {
+  try {
+    return (await provider.openingHours?.(query, geo, placeId)) ?? null;
+  } catch {
+    return null;
+  }
+}
 
-  const locations = [[start.lon, start.lat], ...stops.map((s) => [s.lon, s.lat])];
-  const destinations = stops.map((_, i) => i + 1);
+// ---------- time windows ----------
+const DAY_S = 24 * 60 * 60;
+const WEEK_S = 7 * DAY_S;
 
-  const body = {
-    locations,
-    sources: [0],
-    destinations,
-    metrics: ["distance", "duration"],
-    units: "m",
-  };
+// How far past departure a route may run.
+const HORIZON_S = DAY_S;
 
-  const res = await fetchWithTimeout(
-    "https://api.openrouteservice.org/v2/matrix/driving-car",
-    {
-      method: "POST",
-      headers: { Authorization: ORS_KEY, "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    },
-    9000
-  );
+function hhmmToSeconds(t: string) {
+  return Number(t.slice(0, 2)) * 3600 + Number(t.slice(2, 4)) * 60;
+}
 
-  if (!res.ok) {
-    const txt = await res.text();
-    throw new Error(`ORS matrix failed (${res.status}): ${txt}`);
+/**
+ * Opening hours as windows relative to departure (epoch seconds), clipped to the horizon.
+ * null = no constraint (24/7); [] = closed for the whole horizon.
+ */
+function openWindows(h: StoreHours, departEpoch: number, horizon: number): TimeWindow[] | null {
+  if (h.periods.some((p) => !p.close)) return null;
+
+  // epoch of Sunday 00:00 in the store's time zone for the departure week
+  const off = h.utcOffsetMin * 60;
+  const local = new Date((departEpoch + off) * 1000);
+  const intoWeek =
+    local.getUTCDay() * DAY_S + local.getUTCHours() * 3600 + local.getUTCMinutes() * 60 + local.getUTCSeconds();
+  const weekStart = departEpoch - intoWeek;
+
+  const raw: TimeWindow[] = [];
+  for (const wk of [-1, 0, 1]) {
+    for (const p of h.periods) {
+      const base = weekStart + wk * WEEK_S;
+      const open = base + p.open.day * DAY_S + hhmmToSeconds(p.open.time);
+      let close = base + p.close!.day * DAY_S + hhmmToSeconds(p.close!.time);
+      if (close <= open) close += WEEK_S; // wraps past Saturday night
+
+      const s = Math.max(open - departEpoch, 0);
+      const e = Math.min(close - departEpoch, horizon);
+      if (e > s) raw.push([s, e]);
+    }
   }
 
-  const data = await res.json();
-  const distances = data?.distances?.[0];
-  const durations = data?.durations?.[0];
-
-  if (!Array.isArray(distances) || !Array.isArray(durations)) {
-    throw new Error("ORS matrix returned unexpected format");
+  raw.sort((a, b) => a[0] - b[0]);
+  const merged: TimeWindow[] = [];
+  for (const w of raw) {
+    const last = merged[merged.length - 1];
+    if (last && w[0] <= last[1]) last[1] = Math.max(last[1], w[1]);
+    else merged.push([w[0], w[1]]);
   }
-
-  return { distances, durations };
+  return merged;
 }
 
-// ---------- chain detection ----------
-function detectChain(query: string): { name: string } | null {
-  const q = query.toLowerCase();
-  if (q.includes("starbucks")) return { name: "Starbucks" };
-  if (q.includes("chipotle")) return { name: "Chipotle" };
-  if (q.includes("nothing bundt")) return { name: "Nothing Bundt Cakes" };
-  return null;
+function windowAt(windows: TimeWindow[] | null, t: number): TimeWindow | null {
+  return windows?.find(([s, e]) => s <= t && t <= e) ?? null;
 }
 
-// ---------- Google Places cache ----------
-const placesCache = new Map<string, { at: number; geo: Geo }>();
-
-// During dev you can set this to 30_000 to avoid “sticky wrong answers” while testing.
-// In production, use 24h.
-const PLACES_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_SERVICE_MIN = 240;
 
-function placesCacheKey(name: string, start: Geo) {
-  // ~1km grid so close-by queries reuse cached answer
-  const lat = start.lat.toFixed(2);
-  const lon = start.lon.toFixed(2);
-  return `${name}:${lat},${lon}`;
+function minutesToSeconds(v: unknown, max: number): number {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.round(Math.min(n, max) * 60) : 0;
 }
 
-// ---------- Google Places: nearest STRICT match by name ----------
-async function placesNearestByName(start: Geo, name: string): Promise<Geo> {
-  if (!GOOGLE_PLACES_KEY) throw new Error("Missing GOOGLE_PLACES_API_KEY in env");
-
-  const key = placesCacheKey(name, start);
-  const cached = placesCache.get(key);
-  if (cached && Date.now() - cached.at < PLACES_TTL_MS) return cached.geo;
-
-  const target = name.toLowerCase();
+function parseDepartAt(v: unknown): number {
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof v !== "string") return now;
+  const t = Date.parse(v);
+  // a time in the past means "leave now"
+  return Number.isFinite(t) ? Math.max(now, Math.floor(t / 1000)) : now;
+}
 
-  function isGoodMatch(r: any) {
-    const n = String(r?.name || "").toLowerCase();
-    // strict: must include chain name in the returned place name
-    return n.includes(target);
-  }
+function isoAt(epochSeconds: number) {
+  return new Date(epochSeconds * 1000).toISOString();
+}
 
-  function pickFirst(arr: any[]): Geo | null {
-    const first = arr[0];
-    const lat = first?.geometry?.location?.lat;
-    const lon = first?.geometry?.location?.lng;
-    if (typeof lat !== "number" || typeof lon !== "number") return null;
-    return { lat, lon };
-  }
+function stepDelta(a: number | undefined, b: number | undefined) {
+  return typeof a === "number" && typeof b === "number" && isFinite(a) && isFinite(b) ? Math.max(0, b - a) : undefined;
+}
 
-  // 1) rankby=distance (fast), but filter strictly
-  const u1 = new URL("https://maps.googleapis.com/maps/api/place/nearbysearch/json");
-  u1.searchParams.set("key", GOOGLE_PLACES_KEY);
-  u1.searchParams.set("location", `${start.lat},${start.lon}`);
-  u1.searchParams.set("rankby", "distance");
-  u1.searchParams.set("name", name); // ✅ stricter than keyword
+/** Legs between the solution's steps; travel per leg is the difference of the steps' running totals. */
+function routeLegs(
+  steps: RouteStep[],
+  idOf: (st: RouteStep) => string | null,
+  geoOf: (st: RouteStep) => Geo,
+  geometry: [number, number][] | null
+): RouteLeg[] {
+  const points = steps.filter((st) => st.type === "start" || st.type === "end" || typeof st.job === "number");
+  const pieces = geometry ? splitPath(geometry, points.map(geoOf)) : [];
+
+  return points.slice(1).map((st, i) => {
+    const prev = points[i];
+    const piece = pieces[i];
+    return {
+      fromId: idOf(prev),
+      toId: idOf(st),
+      distance_m: stepDelta(prev.distance, st.distance),
+      duration_s: stepDelta(prev.duration, st.duration),
+      polyline: piece && piece.length >= 2 ? encodePolyline(piece) : undefined,
+    };
+  });
+}
 
-  const res1 = await fetchWithTimeout(u1.toString(), { cache: "no-store" }, 8000);
-  if (!res1.ok) throw new Error(`Places NearbySearch failed (${res1.status})`);
-  const data1 = await res1.json();
+/** Seconds from departure until the vehicle reaches its end point. */
+function endArrival(sol: RouteSolution): number | null {
+  const end = sol.routes?.[0]?.steps?.find((st) => st.type === "end");
+  return typeof end?.arrival === "number" ? end.arrival : null;
+}
 
-  const results1: any[] = Array.isArray(data1?.results) ? data1.results : [];
-  const good1 = results1.filter(isGoodMatch);
-  const got1 = pickFirst(good1);
+// ---------- resolve stop ----------
+function parsePinned(v: unknown): PinnedStore | null {
+  if (!v || typeof v !== "object") return null;
+  const p = v as Record<string, unknown>;
+  const lat = Number(p.lat);
+  const lon = Number(p.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return {
+    lat,
+    lon,
+    placeId: typeof p.placeId === "string" && p.placeId ? p.placeId.slice(0, 300) : undefined,
+    label: typeof p.label === "string" && p.label ? p.label.slice(0, 200) : undefined,
+  };
+}
 
-  if (got1) {
-    placesCache.set(key, { at: Date.now(), geo: got1 });
-    return got1;
-  }
+const MAX_EXCLUDED = 200;
+// Providers disagree by a few meters on where a store is
+const EXCLUDED_MATCH_M = 50;
 
-  // 2) fallback: radius search (more results), then choose closest by haversine
-  const u2 = new URL("https://maps.googleapis.com/maps/api/place/nearbysearch/json");
-  u2.searchParams.set("key", GOOGLE_PLACES_KEY);
-  u2.searchParams.set("location", `${start.lat},${start.lon}`);
-  u2.searchParams.set("radius", "50000"); // 50km
-  u2.searchParams.set("name", name);
+function isExcluded(hit: PlaceHit, excluded: PinnedStore[]) {
+  return excluded.some(
+    (x) => (x.placeId && x.placeId === hit.placeId) || haversineMeters(hit.geo, x) <= EXCLUDED_MATCH_M
+  );
+}
 
-  const res2 = await fetchWithTimeout(u2.toString(), { cache: "no-store" }, 8000);
-  if (!res2.ok) throw new Error(`Places NearbySearch (radius) failed (${res2.status})`);
-  const data2 = await res2.json();
+async function resolveStopGeo(
+  provider: RoutingProvider,
+  lookup: StopLookup,
+  start: Geo,
+  pinned: PinnedStore | null,
+  excluded: PinnedStore[]
+): Promise<ResolvedGeo> {
+  // Brands => strict nearest stores (Google Places when configured), minus excluded ones;
+  //           the nearest wins unless one is pinned
+  // Everything else => closest geocode match, unless it's excluded
+  if (lookup.brand) {
+    const found = await provider.brandStores(lookup.brand, start).catch((e) => {
+      if (pinned) return [];
+      throw e;
+    });
+    const stores = found.filter((h) => !isExcluded(h, excluded));
+    if (!stores.length && !pinned) {
+      throw new Error(`Every ${lookup.brand.name} nearby is on your excluded list`);
+    }
 
-  const results2: any[] = Array.isArray(data2?.results) ? data2.results : [];
-  const good2 = results2.filter(isGoodMatch);
+    const candidates = stores.map((h) => ({
+      lat: h.geo.lat,
+      lon: h.geo.lon,
+      placeId: h.placeId,
+      label: h.label,
+      dist_mi: metersToMiles(haversineMeters(start, h.geo)),
+    }));
 
-  if (good2.length === 0) {
-    const status = data2?.status ? String(data2.status) : "unknown";
-    throw new Error(`Places returned no strict match for "${name}" (status=${status})`);
+    if (pinned) return fromPinned(pinned, candidates);
+    return fromHit(stores[0], lookup.strategy, candidates);
   }
 
-  good2.sort((a, b) => {
-    const al = a?.geometry?.location;
-    const bl = b?.geometry?.location;
-
-    const ag: Geo | null =
-      typeof al?.lat === "number" && typeof al?.lng === "number" ? { lat: al.lat, lon: al.lng } : null;
-    const bg: Geo | null =
-      typeof bl?.lat === "number" && typeof bl?.lng === "number" ? { lat: bl.lat, lon: bl.lng } : null;
-
-    if (!ag && !bg) return 0;
-    if (!ag) return 1;
-    if (!bg) return -1;
-
-    return haversineMeters(start, ag) - haversineMeters(start, bg);
-  });
-
-  const got2 = pickFirst(good2);
-  if (!got2) throw new Error(`Places strict match had bad geometry for "${name}"`);
-
-  placesCache.set(key, { at: Date.now(), geo: got2 });
-  return got2;
+  if (pinned) return fromPinned(pinned, []);
+  const hit = await provider.geocode(lookup.query, start);
+  if (isExcluded(hit, excluded)) {
+    throw new Error(`The closest match for "${lookup.query}" is on your excluded list`);
+  }
+  return fromHit(hit, lookup.strategy, []);
 }
 
-// ---------- resolve stop ----------
-async function resolveStopGeo(query: string, start: Geo): Promise<{ geo: Geo; pickedFrom: string }> {
-  const chain = detectChain(query);
-
-  // Chains => Google Places strict nearest
-  if (chain) {
-    const geo = await placesNearestByName(start, chain.name);
-    return { geo, pickedFrom: `google_places:${chain.name}` };
-  }
+function fromHit(hit: PlaceHit, strategy: StopStrategy, candidates: StoreCandidate[]): ResolvedGeo {
+  return { geo: hit.geo, pickedFrom: hit.source, placeId: hit.placeId, label: hit.label, strategy, candidates };
+}
 
-  // Non-chain => ORS geocode closest
-  const geo = await geocodeClosest(query, start);
-  return { geo, pickedFrom: "ors" };
+function fromPinned(p: PinnedStore, candidates: StoreCandidate[]): ResolvedGeo {
+  return {
+    geo: { lat: p.lat, lon: p.lon },
+    pickedFrom: "pinned",
+    placeId: p.placeId,
+    label: p.label,
+    strategy: "pinned",
+    candidates,
+  };
 }
 
 export async function POST(req: Request) {
   try {
-    if (!ORS_KEY) {
-      return NextResponse.json({ optimized: false, note: "Missing ORS_API_KEY" }, { status: 500 });
-    }
-    if (!GOOGLE_PLACES_KEY) {
-      return NextResponse.json({ optimized: false, note: "Missing GOOGLE_PLACES_API_KEY" }, { status: 500 });
-    }
+    const provider = getRoutingProvider();
 
     const body = (await req.json()) as ReqBody;
     const stopsIn = Array.isArray(body.stops) ? body.stops : [];
@@ -290,6 +315,15 @@ export async function POST(req: Request) {
       return NextResponse.json({ optimized: false, orderedIds: [], note: "No stops provided" }, { status: 400 });
     }
 
+    const travelMode = normalizeTravelMode(body.travelMode);
+
+    const catalog = await loadDeals();
+    const lookups = stopsIn.map((s) => stopLookup(s, catalog));
+    const unknown = stopsIn.find((_, i) => !lookups[i]);
+    if (unknown) {
+      return NextResponse.json({ optimized: false, note: `Unknown deal: ${unknown.dealId || unknown.id}` }, { status: 400 });
+    }
+
     // ---- start ----
     let start: Geo | null = null;
     let startSource: "gps" | "zip" = "zip";
@@ -299,35 +333,51 @@ export async function POST(req: Request) {
       startSource = "gps";
     } else if (body.startQuery && body.startQuery.trim()) {
       const vegasSeed = { lat: 36.1699, lon: -115.1398 };
-      start = await geocodeClosest(`${body.startQuery.trim()} United States`, vegasSeed);
+      start = (await provider.geocode(`${body.startQuery.trim()} United States`, vegasSeed)).geo;
       startSource = "zip";
     } else {
       return NextResponse.json({ optimized: false, note: "Missing start (coords or zip)" }, { status: 400 });
     }
 
     // ---- resolve stop coords ----
+    const excluded = (Array.isArray(body.excluded) ? body.excluded : [])
+      .slice(0, MAX_EXCLUDED)
+      .map(parsePinned)
+      .filter((x): x is PinnedStore => !!x);
+
     const resolvedStopsBase = await Promise.all(
-      stopsIn.map(async (s) => {
-        const { geo, pickedFrom } = await resolveStopGeo(s.query, start!);
+      stopsIn.map(async (s, i) => {
+        const lookup = lookups[i]!;
+        const { geo, pickedFrom, placeId, label, strategy, candidates } = await resolveStopGeo(
+          provider,
+          lookup,
+          start!,
+          parsePinned(s.pinned),
+          excluded
+        );
         const dist_m = haversineMeters(start!, geo);
         return {
           id: s.id,
-          query: s.query,
+          query: lookup.query,
+          strategy,
           pickedFrom,
+          placeId,
+          label,
+          candidates,
           geo,
           dist_mi: metersToMiles(dist_m),
         };
       })
     );
 
-    // ---- driving distance + ETA from start ----
+    // ---- travel distance + ETA from start ----
     let drivingMeters: number[] | null = null;
     let drivingSeconds: number[] | null = null;
 
     try {
-      const { distances, durations } = await matrixFromStart(start!, resolvedStopsBase.map((s) => s.geo));
-      drivingMeters = distances.map((x: any) => (typeof x === "number" ? x : NaN));
-      drivingSeconds = durations.map((x: any) => (typeof x === "number" ? x : NaN));
+      const { distances, durations } = await provider.matrix(start!, resolvedStopsBase.map((s) => s.geo), travelMode);
+      drivingMeters = distances;
+      drivingSeconds = durations;
     } catch {
       drivingMeters = null;
       drivingSeconds = null;
@@ -357,6 +407,7 @@ export async function POST(req: Request) {
         preview: true,
         optimized: false,
         startUsed: { lat: start!.lat, lon: start!.lon, source: startSource },
+        provider: provider.name,
         suggestedDestinationId: suggested.id,
         stops: resolvedStops.map((s) => ({
           id: s.id,
@@ -364,83 +415,228 @@ export async function POST(req: Request) {
           eta_min: s.eta_min,
           lat: s.geo.lat,
           lon: s.geo.lon,
+          placeId: s.placeId,
+          label: s.label,
+          strategy: s.strategy,
           pickedFrom: s.pickedFrom,
+          candidates: s.candidates,
         })),
         note: "Preview distances + ETA computed",
       });
     }
 
-    // ---- destination ----
+    // ---- route end: a destination stop, back at the start, or a custom address ----
+    const endMode = body.endMode === "start" || body.endMode === "address" ? body.endMode : "stop";
+    const endQuery = (body.endQuery || "").trim();
+    if (endMode === "address" && !endQuery) {
+      return NextResponse.json({ optimized: false, note: "Missing end address" }, { status: 400 });
+    }
+
     const requestedDest = (body.destinationId || "").trim();
     const destExists = requestedDest && resolvedStops.some((s) => s.id === requestedDest);
-    const destinationId = destExists ? requestedDest : suggested.id;
+    const destinationId: string | null = endMode !== "stop" ? null : destExists ? requestedDest : suggested.id;
+
+    let end: Geo;
+    if (endMode === "start") {
+      end = start!;
+    } else if (endMode === "address") {
+      end = (await provider.geocode(`${endQuery} United States`, start!)).geo;
+    } else {
+      end = resolvedStops.find((s) => s.id === destinationId)!.geo;
+    }
+
+    // ---- opening hours -> time windows (seconds after departure) ----
+    const departEpoch = parseDepartAt(body.departAt);
+
+    const windowsById = new Map<string, TimeWindow[] | null>();
+    await Promise.all(
+      resolvedStops.map(async (s) => {
+        const hours = await resolveStopHours(provider, s.query, s.geo, s.placeId);
+        windowsById.set(s.id, hours ? openWindows(hours, departEpoch, HORIZON_S) : null);
+      })
+    );
+
+    const unreachable: { id: string; reason: UnreachableReason }[] = [];
+
+    const jobsList = resolvedStops.filter((s) => {
+      if (s.id === destinationId) return false;
+      const w = windowsById.get(s.id);
+      if (w && w.length === 0) {
+        unreachable.push({ id: s.id, reason: "closed" });
+        return false;
+      }
+      return true;
+    });
 
-    const jobsList = resolvedStops.filter((s) => s.id !== destinationId);
+    // ---- time spent at each store ----
+    const serviceById = new Map(stopsIn.map((s) => [s.id, minutesToSeconds(s.service_min, MAX_SERVICE_MIN)]));
+    const destService = destinationId ? serviceById.get(destinationId) ?? 0 : 0;
 
     const intToId = new Map<number, string>();
-    const jobs = jobsList.map((s, idx) => {
+    const jobs: RouteJob[] = jobsList.map((s, idx) => {
       const jobId = idx + 1;
       intToId.set(jobId, s.id);
-      return { id: jobId, location: [s.geo.lon, s.geo.lat] };
+      const w = windowsById.get(s.id);
+      return {
+        id: jobId,
+        location: [s.geo.lon, s.geo.lat],
+        service: serviceById.get(s.id) ?? 0,
+        ...(w ? { time_windows: w } : {}),
+      };
     });
 
-    const destStop = resolvedStops.find((s) => s.id === destinationId)!;
-
     const vehicle = {
       id: 1,
-      profile: "driving-car",
-      start: [start!.lon, start!.lat],
-      end: [destStop.geo.lon, destStop.geo.lat],
+      mode: travelMode,
+      start: [start!.lon, start!.lat] as [number, number],
+      end: [end.lon, end.lat] as [number, number],
+      time_window: [0, HORIZON_S] as TimeWindow,
     };
 
-    const optRes = await fetchWithTimeout(
-      "https://api.openrouteservice.org/optimization",
-      {
-        method: "POST",
-        headers: { Authorization: ORS_KEY, "Content-Type": "application/json" },
-        body: JSON.stringify({ jobs, vehicles: [vehicle] }),
-      },
-      20000
-    );
-
+    const optRes = await provider.optimize(jobs, vehicle);
     if (!optRes.ok) {
-      const txt = await optRes.text();
-      return NextResponse.json({ optimized: false, note: `ORS optimization failed (${optRes.status}): ${txt}` }, { status: 502 });
+      return NextResponse.json({ optimized: false, note: optRes.note }, { status: 502 });
     }
 
-    const opt = await optRes.json();
-    const route = opt?.routes?.[0];
+    const opt = optRes.solution;
+    const route = opt.routes?.[0];
     const steps = route?.steps ?? [];
 
     const orderedIntermediate: string[] = [];
+    const schedule: {
+      id: string;
+      arriveAt: string;
+      leaveAt: string;
+      wait_min: number;
+      service_min: number;
+      openUntil?: string;
+    }[] = [];
+
     for (const step of steps) {
-      if (typeof step?.job === "number") {
-        const realId = intToId.get(step.job);
-        if (realId) orderedIntermediate.push(realId);
-      }
+      const stepId =
+        typeof step?.job === "number" ? intToId.get(step.job) : step?.type === "end" ? destinationId ?? undefined : undefined;
+      if (!stepId) continue;
+      if (typeof step?.job === "number") orderedIntermediate.push(stepId);
+
+      const arrival = typeof step?.arrival === "number" ? step.arrival : null;
+      if (arrival === null) continue;
+
+      const wait = typeof step?.waiting_time === "number" ? step.waiting_time : 0;
+      const service = serviceById.get(stepId) ?? 0;
+      const w = windowsById.get(stepId) ?? null;
+      const openWin = windowAt(w, arrival + wait);
+
+      if (stepId === destinationId && w && !openWin) unreachable.push({ id: stepId, reason: "closed_on_arrival" });
+
+      schedule.push({
+        id: stepId,
+        arriveAt: isoAt(departEpoch + arrival),
+        leaveAt: isoAt(departEpoch + arrival + wait + service),
+        wait_min: Math.round(wait / 60),
+        service_min: Math.round(service / 60),
+        openUntil: openWin && openWin[1] < HORIZON_S ? isoAt(departEpoch + openWin[1]) : undefined,
+      });
+    }
+
+    // jobs the optimizer couldn't fit inside their opening hours
+    for (const u of opt.unassigned ?? []) {
+      const realId = typeof u?.id === "number" ? intToId.get(u.id) : undefined;
+      if (realId) unreachable.push({ id: realId, reason: "not_open_on_arrival" });
     }
 
-    const orderedIds = [...orderedIntermediate, destinationId];
+    const orderedIds = destinationId ? [...orderedIntermediate, destinationId] : orderedIntermediate;
 
     const routeDistance_m = typeof route?.distance === "number" && isFinite(route.distance) ? route.distance : undefined;
     const routeDuration_s = typeof route?.duration === "number" && isFinite(route.duration) ? route.duration : undefined;
+    // [lat, lon] along the roads; null = the provider has none (draw straight lines between stops)
+    const geometry = decodePolyline(route?.geometry);
+
+    const geoById = new Map(resolvedStops.map((s) => [s.id, s.geo]));
+    const legs = routeLegs(
+      steps,
+      (st) => (typeof st.job === "number" ? intToId.get(st.job) ?? null : st.type === "end" ? destinationId ?? null : null),
+      (st) => {
+        if (st.location) return { lon: st.location[0], lat: st.location[1] };
+        const id = typeof st.job === "number" ? intToId.get(st.job) : undefined;
+        return (id && geoById.get(id)) || (st.type === "end" ? end : start!);
+      },
+      geometry
+    );
+
+    // ---- service-inclusive total (travel + waiting + time at every store incl. the destination) ----
+    const service_s = orderedIds.reduce((sum, id) => sum + (serviceById.get(id) ?? 0), 0);
+    const reachedEnd = endArrival(opt);
+    const totalDuration_s =
+      reachedEnd !== null ? reachedEnd + destService : routeDuration_s !== undefined ? routeDuration_s + service_s : undefined;
+
+    // ---- time budget: if the day doesn't fit, re-solve with the budget as a hard limit ----
+    const budget_s = minutesToSeconds(body.budget_min, HORIZON_S / 60) || null;
+    let budget:
+      | { budget_s: number; total_s?: number; exceeded: boolean; suggestedIds?: string[]; suggestedTotal_s?: number }
+      | undefined;
+
+    if (budget_s) {
+      const exceeded = totalDuration_s !== undefined && totalDuration_s > budget_s;
+      budget = { budget_s, total_s: totalDuration_s, exceeded };
+
+      if (exceeded && budget_s > destService) {
+        const fit = await provider.optimize(withValuePriority(jobs, intToId, stopsIn, catalog), {
+          ...vehicle,
+          time_window: [0, budget_s - destService],
+        });
+        const fitEnd = fit.ok ? endArrival(fit.solution) : null;
+
+        if (fit.ok && fitEnd !== null) {
+          const kept = (fit.solution.routes?.[0]?.steps ?? [])
+            .map((st) => (typeof st.job === "number" ? intToId.get(st.job) : undefined))
+            .filter((id): id is string => !!id);
+          budget.suggestedIds = destinationId ? [...kept, destinationId] : kept;
+          budget.suggestedTotal_s = fitEnd + destService;
+        } else {
+          budget.suggestedIds = [];
+        }
+      }
+    }
+
+    const closedCount = unreachable.filter((u) => u.id !== destinationId).length;
 
     return NextResponse.json({
       optimized: true,
       orderedIds,
       destinationId,
-      note: "Optimized route",
+      endMode,
+      endUsed: { lat: end.lat, lon: end.lon },
+      geometry,
+      legs,
+      note: closedCount
+        ? `Optimized route • ${closedCount} stop${closedCount === 1 ? "" : "s"} can’t be reached while open`
+        : "Optimized route",
       routeDistance_m,
       routeDuration_s,
+      service_s,
+      totalDuration_s,
+      budget,
+      departAt: isoAt(departEpoch),
+      travelMode,
+      schedule,
+      unreachable,
       startUsed: { lat: start!.lat, lon: start!.lon, source: startSource },
+      provider: provider.name,
       resolvedStops: resolvedStops.map((s) => ({
         id: s.id,
         lat: s.geo.lat,
         lon: s.geo.lon,
+        placeId: s.placeId,
+        label: s.label,
+        strategy: s.strategy,
         pickedFrom: s.pickedFrom,
+        candidates: s.candidates,
       })),
     });
   } catch (e: any) {
+    if (e instanceof RoutingConfigError) {
+      return NextResponse.json({ optimized: false, note: e.message }, { status: 503 });
+    }
     return NextResponse.json(
       { optimized: false, note: e?.name === "AbortError" ? "Request timed out. Try again." : e?.message || "Server error" },
       { status: 500 }
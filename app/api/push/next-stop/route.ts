@@ -0,0 +1,57 @@
+// app/api/push/next-stop/route.ts
+// POST { dealId, minutes? }: after a claim, tells the user's devices where to go next
+// ("Next: Krispy Kreme, 8 min away"). Skipped when they turned that notification off.
+import { NextResponse } from "next/server";
+import { loadDeal } from "@/app/lib/dealsServer";
+import { sendPushToUser } from "@/app/lib/pushServer";
+import { createSupabaseServerClient } from "@/app/lib/supabaseServer";
+import { PushConfigError, vapidKeysFromEnv } from "@/app/lib/webPush";
+
+export async function POST(req: Request) {
+  let body: { dealId?: unknown; minutes?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, note: "Invalid JSON" }, { status: 400 });
+  }
+
+  const dealId = typeof body?.dealId === "string" ? body.dealId : "";
+  const minutes =
+    typeof body?.minutes === "number" && Number.isFinite(body.minutes) ? Math.max(1, Math.round(body.minutes)) : null;
+  if (!dealId) return NextResponse.json({ ok: false, note: "dealId is required" }, { status: 400 });
+
+  try {
+    const keys = vapidKeysFromEnv();
+    const supabase = await createSupabaseServerClient();
+    const { data: userRes } = await supabase.auth.getUser();
+    const user = userRes.user;
+    if (!user) return NextResponse.json({ ok: false, note: "Not signed in" }, { status: 401 });
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("push_next_stop")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (profile?.push_next_stop === false) return NextResponse.json({ ok: true, sent: 0 });
+
+    const deal = await loadDeal(dealId);
+    if (!deal) return NextResponse.json({ ok: false, note: "Unknown deal" }, { status: 404 });
+
+    const delivery = await sendPushToUser(
+      supabase,
+      user.id,
+      {
+        title: "Claimed ✅",
+        body: minutes ? `Next: ${deal.name}, ${minutes} min away` : `Next: ${deal.name}`,
+        url: "/app/plan",
+        tag: "next-stop",
+      },
+      keys,
+      { ttlSeconds: 15 * 60, urgency: "high" }
+    );
+    return NextResponse.json({ ok: true, ...delivery });
+  } catch (e: unknown) {
+    const status = e instanceof PushConfigError ? 503 : 500;
+    return NextResponse.json({ ok: false, note: e instanceof Error ? e.message : "Server error" }, { status });
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/route-shares/route.ts
+// POST { snapshot } -> { ok, slug }: stores a read-only copy of the route for /r/<slug>. Signed-in users only.
+import { NextResponse } from "next/server";
+import { cleanRouteShare } from "@/app/lib/routeShare";
+import { createRouteShare } from "@/app/lib/routeShareServer";
+
+export async function POST(req: Request) {
+  let body: { snapshot?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, note: "Invalid JSON" }, { status: 400 });
+  }
+
+  const snapshot = cleanRouteShare(body?.snapshot);
+  if (!snapshot) {
+    return NextResponse.json({ ok: false, note: "Nothing to share — optimize a route first." }, { status: 400 });
+  }
+
+  try {
+    const slug = await createRouteShare(snapshot);
+    if (!slug) return NextResponse.json({ ok: false, note: "Sign in to share a link." }, { status: 401 });
+    return NextResponse.json({ ok: true, slug });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, note: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,593 @@
+// app/app/admin/deals/AdminDealsClient.tsx
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import {
+  ALL_DEALS,
+  CATEGORIES,
+  DEFAULT_SERVICE_MINUTES,
+  MAX_DEAL_VALUE_USD,
+  MAX_SERVICE_MINUTES,
+  cleanUsd,
+  dealToRow,
+  normalizeBrand,
+  normalizeDealValue,
+  normalizeRedemptionWindow,
+  type Category,
+  type DealRow,
+  type RedemptionWindow,
+} from "@/app/lib/deals";
+import { supabase } from "@/app/lib/supabaseClient";
+
+type Draft = {
+  id: string;
+  name: string;
+  category: Category;
+  freebie: string;
+  valueUsd: string; // blank = no estimate
+  valueLow: string; // low/high: both blank unless the reward varies
+  valueHigh: string;
+  conditions: string;
+  image: string;
+  mapQuery: string;
+  brandName: string; // blank = not a chain; stores are found by Maps query
+  brandAliases: string; // comma-separated
+  brandWikidata: string;
+  signupUrl: string;
+  claimSteps: string; // one step per line
+  windowKind: RedemptionWindow["kind"] | "";
+  daysBefore: string;
+  daysAfter: string;
+  signupLeadDays: string; // blank = no lead time
+  serviceMinutes: string; // blank = DEFAULT_SERVICE_MINUTES
+};
+
+const WINDOW_KINDS: { id: Draft["windowKind"]; label: string }[] = [
+  { id: "", label: "Not set" },
+  { id: "day", label: "Birthday only" },
+  { id: "week", label: "Birthday week (±3 days)" },
+  { id: "month", label: "Birthday month" },
+  { id: "range", label: "Custom days before / after" },
+];
+
+const EMPTY_DRAFT: Draft = {
+  id: "",
+  name: "",
+  category: "Food",
+  freebie: "",
+  valueUsd: "",
+  valueLow: "",
+  valueHigh: "",
+  conditions: "",
+  image: "",
+  mapQuery: "",
+  brandName: "",
+  brandAliases: "",
+  brandWikidata: "",
+  signupUrl: "",
+  claimSteps: "",
+  windowKind: "",
+  daysBefore: "0",
+  daysAfter: "0",
+  signupLeadDays: "",
+  serviceMinutes: "",
+};
+
+function slugify(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .replace(/[^a-z0-9]+/g, "")
+    .slice(0, 40);
+}
+
+function draftFromRow(r: DealRow): Draft {
+  return {
+    id: r.id,
+    name: r.name,
+    category: r.category,
+    freebie: r.freebie,
+    valueUsd: r.estimated_value ? String(r.estimated_value.usd) : "",
+    valueLow: typeof r.estimated_value?.low === "number" ? String(r.estimated_value.low) : "",
+    valueHigh: typeof r.estimated_value?.high === "number" ? String(r.estimated_value.high) : "",
+    conditions: r.conditions ?? "",
+    image: r.image ?? "",
+    mapQuery: r.map_query ?? "",
+    brandName: r.brand?.name ?? "",
+    brandAliases: (r.brand?.aliases ?? []).join(", "),
+    brandWikidata: r.brand?.wikidata ?? "",
+    signupUrl: r.signup_url ?? "",
+    claimSteps: (r.claim_steps ?? []).join("\n"),
+    windowKind: r.redemption_window?.kind ?? "",
+    daysBefore: String(r.redemption_window?.kind === "range" ? r.redemption_window.daysBefore : 0),
+    daysAfter: String(r.redemption_window?.kind === "range" ? r.redemption_window.daysAfter : 0),
+    signupLeadDays: typeof r.signup_lead_days === "number" ? String(r.signup_lead_days) : "",
+    serviceMinutes: typeof r.service_minutes === "number" ? String(r.service_minutes) : "",
+  };
+}
+
+function rowFromDraft(d: Draft, sortOrder: number, archived: boolean): DealRow {
+  const lead = d.signupLeadDays.trim() ? Math.round(Number(d.signupLeadDays)) : NaN;
+  const service = d.serviceMinutes.trim() ? Math.round(Number(d.serviceMinutes)) : NaN;
+
+  const steps = d.claimSteps
+    .split("\n")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  return {
+    id: d.id.trim(),
+    name: d.name.trim(),
+    category: d.category,
+    freebie: d.freebie.trim(),
+    estimated_value: normalizeDealValue({ usd: d.valueUsd, low: d.valueLow, high: d.valueHigh }) ?? null,
+    conditions: d.conditions.trim() || null,
+    image: d.image.trim() || null,
+    map_query: d.mapQuery.trim() || null,
+    brand:
+      normalizeBrand({ name: d.brandName, aliases: d.brandAliases.split(","), wikidata: d.brandWikidata }) ?? null,
+    signup_url: d.signupUrl.trim() || null,
+    claim_steps: steps.length ? steps : null,
+    redemption_window:
+      normalizeRedemptionWindow({ kind: d.windowKind, daysBefore: d.daysBefore, daysAfter: d.daysAfter }) ?? null,
+    signup_lead_days: Number.isFinite(lead) && lead >= 0 ? lead : null,
+    service_minutes:
+      Number.isFinite(service) && service >= 0 ? Math.min(service, MAX_SERVICE_MINUTES) : null,
+    sort_order: sortOrder,
+    archived,
+  };
+}
+
+export default function AdminDealsClient({ initialRows }: { initialRows: DealRow[] }) {
+  const router = useRouter();
+
+  const [rows, setRows] = useState<DealRow[]>(initialRows);
+  const [editing, setEditing] = useState<{ isNew: boolean; draft: Draft } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+  const [status, setStatus] = useState("");
+
+  async function writeRows(next: DealRow[], msg: string) {
+    setBusy(true);
+    setErr("");
+    setStatus("");
+    try {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from("deals")
+        .upsert(next.map((r) => ({ ...r, updated_at: now })), { onConflict: "id" });
+      if (error) throw error;
+
+      setRows((prev) => {
+        const byId = new Map(prev.map((r) => [r.id, r]));
+        for (const r of next) byId.set(r.id, r);
+        return Array.from(byId.values()).sort((a, b) => a.sort_order - b.sort_order);
+      });
+      setStatus(msg);
+      router.refresh();
+      return true;
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Save failed.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function importBuiltIn() {
+    await writeRows(
+      ALL_DEALS.map((d, i) => dealToRow(d, i)),
+      `Imported ${ALL_DEALS.length} built-in deals.`
+    );
+  }
+
+  async function move(id: string, dir: -1 | 1) {
+    const idx = rows.findIndex((r) => r.id === id);
+    const swapIdx = idx + dir;
+    if (idx === -1 || swapIdx < 0 || swapIdx >= rows.length) return;
+
+    const next = rows.slice();
+    [next[idx], next[swapIdx]] = [next[swapIdx], next[idx]];
+    await writeRows(
+      next.map((r, i) => ({ ...r, sort_order: i })),
+      "Order saved."
+    );
+  }
+
+  async function toggleArchived(r: DealRow) {
+    await writeRows([{ ...r, archived: !r.archived }], r.archived ? `Restored ${r.name}.` : `Archived ${r.name}.`);
+  }
+
+  function openNew() {
+    setErr("");
+    setEditing({ isNew: true, draft: { ...EMPTY_DRAFT } });
+  }
+
+  function openEdit(r: DealRow) {
+    setErr("");
+    setEditing({ isNew: false, draft: draftFromRow(r) });
+  }
+
+  function patchDraft(patch: Partial<Draft>) {
+    setEditing((prev) => (prev ? { ...prev, draft: { ...prev.draft, ...patch } } : prev));
+  }
+
+  async function saveDraft() {
+    if (!editing) return;
+    const { isNew, draft } = editing;
+
+    const id = (draft.id.trim() || slugify(draft.name)).trim();
+    if (!draft.name.trim()) return setErr("Name is required.");
+    if (!draft.freebie.trim()) return setErr("Freebie is required.");
+    if (draft.valueUsd.trim() && cleanUsd(draft.valueUsd) === null) return setErr("Value must be a dollar amount.");
+    const ranged = normalizeDealValue({ usd: draft.valueUsd, low: draft.valueLow, high: draft.valueHigh })?.high;
+    if ((draft.valueLow.trim() || draft.valueHigh.trim()) && !ranged) {
+      return setErr("Value range needs a low and a high around the typical value.");
+    }
+    if (!id) return setErr("Id is required.");
+    if (isNew && rows.some((r) => r.id === id)) return setErr(`A deal with id "${id}" already exists.`);
+
+    const existing = rows.find((r) => r.id === id);
+    const sortOrder = existing ? existing.sort_order : rows.length ? rows[rows.length - 1].sort_order + 1 : 0;
+    const row = rowFromDraft({ ...draft, id }, sortOrder, existing?.archived ?? false);
+
+    const ok = await writeRows([row], isNew ? `Created ${row.name}.` : `Saved ${row.name}.`);
+    if (ok) setEditing(null);
+  }
+
+  // ======= aesthetics (match Profile page) =======
+  const GlassSection =
+    "relative rounded-[28px] border border-white/14 bg-black/30 " +
+    "shadow-[0_24px_90px_rgba(0,0,0,0.60)]";
+
+  const Field =
+    "mt-2 w-full rounded-2xl border border-white/12 bg-black/35 px-4 py-3 text-sm outline-none " +
+    "focus:border-emerald-300/20 focus:ring-1 focus:ring-emerald-300/10";
+
+  const BtnSub =
+    "rounded-xl border border-white/12 bg-black/35 px-3 py-1.5 text-sm text-zinc-200 hover:bg-white/5 " +
+    "disabled:opacity-40 transition";
+
+  const BtnEdit =
+    "rounded-xl border border-emerald-200/30 bg-emerald-400/15 px-4 py-2 text-sm text-emerald-50 " +
+    "hover:bg-emerald-400/20 disabled:opacity-50 transition";
+
+  return (
+    <main className="relative min-h-screen overflow-x-hidden text-white">
+      <div className="relative z-20 px-6 pt-6 pb-[160px]">
+        <div className="mx-auto w-full max-w-[980px]">
+          <header className="mb-8">
+            <Link href="/app/deals" className="text-sm text-zinc-400 underline underline-offset-4">
+              ← Back to Deals
+            </Link>
+            <h1 className="mt-4 text-[38px] leading-[1.05] font-semibold tracking-tight">Deal catalog</h1>
+            <p className="mt-2 text-[16px] text-zinc-300/90">
+              Create, edit, archive and reorder deals. Changes go live without a redeploy.
+            </p>
+          </header>
+
+          <section className={GlassSection}>
+            <div className="px-6 py-5 border-b border-white/12 flex items-center justify-between gap-4">
+              <div>
+                <div className="text-[11px] uppercase tracking-wider text-zinc-500">Deals</div>
+                <div className="text-sm text-zinc-300">
+                  {rows.length} total • {rows.filter((r) => r.archived).length} archived
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                {rows.length === 0 ? (
+                  <button onClick={importBuiltIn} disabled={busy} className={BtnSub}>
+                    Import built-in catalog
+                  </button>
+                ) : null}
+                <button onClick={openNew} disabled={busy} className={BtnEdit}>
+                  New deal
+                </button>
+              </div>
+            </div>
+
+            {rows.length === 0 ? (
+              <div className="p-8 text-sm text-zinc-400">
+                The table is empty, so the app is serving the built-in catalog. Import it to start editing.
+              </div>
+            ) : (
+              <ul className="divide-y divide-white/8">
+                {rows.map((r, i) => (
+                  <li key={r.id} className={`flex items-center gap-4 px-6 py-4 ${r.archived ? "opacity-55" : ""}`}>
+                    <div className="w-8 text-xs text-zinc-500">{i + 1}</div>
+
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold truncate">{r.name}</span>
+                        <span className="text-xs text-zinc-500">{r.id}</span>
+                        <span className="rounded-full border border-white/14 px-2 py-0.5 text-[11px] text-zinc-300">
+                          {r.category}
+                        </span>
+                        {r.archived ? (
+                          <span className="rounded-full border border-amber-300/18 px-2 py-0.5 text-[11px] text-amber-100">
+                            Archived
+                          </span>
+                        ) : null}
+                      </div>
+                      <div className="mt-1 text-sm text-zinc-400 truncate">{r.freebie}</div>
+                    </div>
+
+                    <div className="flex shrink-0 items-center gap-1.5">
+                      <button onClick={() => move(r.id, -1)} disabled={busy || i === 0} className={BtnSub} title="Move up">
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => move(r.id, 1)}
+                        disabled={busy || i === rows.length - 1}
+                        className={BtnSub}
+                        title="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button onClick={() => openEdit(r)} disabled={busy} className={BtnSub}>
+                        Edit
+                      </button>
+                      <button onClick={() => toggleArchived(r)} disabled={busy} className={BtnSub}>
+                        {r.archived ? "Restore" : "Archive"}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {status ? (
+            <div className="mt-5 rounded-2xl border border-white/12 bg-black/35 p-4 text-sm text-zinc-200">{status}</div>
+          ) : null}
+
+          {err && !editing ? (
+            <div className="mt-5 rounded-2xl border border-red-500/30 bg-red-500/10 p-4 text-sm text-red-200">{err}</div>
+          ) : null}
+        </div>
+      </div>
+
+      {/* EDIT MODAL */}
+      {editing ? (
+        <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/70 p-4">
+          <div className="w-full max-w-xl max-h-[90vh] overflow-y-auto rounded-2xl border border-white/12 bg-black/80 backdrop-blur-xl shadow-[0_30px_120px_rgba(0,0,0,0.85)]">
+            <div className="px-5 py-4 border-b border-white/10">
+              <div className="text-lg font-semibold">{editing.isNew ? "New deal" : `Edit ${editing.draft.name}`}</div>
+              <div className="text-sm text-zinc-400">Saved straight to the deals table.</div>
+            </div>
+
+            <div className="p-5 space-y-4">
+              {editing.isNew ? (
+                <div>
+                  <label className="text-sm text-zinc-200">Id</label>
+                  <input
+                    value={editing.draft.id}
+                    onChange={(e) => patchDraft({ id: slugify(e.target.value) })}
+                    placeholder={slugify(editing.draft.name) || "krispykreme"}
+                    className={Field}
+                  />
+                  <div className="mt-1 text-xs text-zinc-500">Used in URLs and saved plans. Can’t be changed later.</div>
+                </div>
+              ) : null}
+
+              <div>
+                <label className="text-sm text-zinc-200">Name</label>
+                <input value={editing.draft.name} onChange={(e) => patchDraft({ name: e.target.value })} className={Field} />
+              </div>
+
+              <div>
+                <label className="text-sm text-zinc-200">Category</label>
+                <select
+                  value={editing.draft.category}
+                  onChange={(e) => patchDraft({ category: e.target.value as Category })}
+                  className={Field}
+                >
+                  {CATEGORIES.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="text-sm text-zinc-200">Freebie</label>
+                <input
+                  value={editing.draft.freebie}
+                  onChange={(e) => patchDraft({ freebie: e.target.value })}
+                  className={Field}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm text-zinc-200">Estimated value (USD)</label>
+                <div className="grid gap-2 grid-cols-3">
+                  {(
+                    [
+                      ["valueUsd", "Typical"],
+                      ["valueLow", "Low (varies)"],
+                      ["valueHigh", "High (varies)"],
+                    ] as const
+                  ).map(([key, placeholder]) => (
+                    <input
+                      key={key}
+                      type="number"
+                      min={0}
+                      max={MAX_DEAL_VALUE_USD}
+                      step="0.01"
+                      value={editing.draft[key]}
+                      onChange={(e) => patchDraft({ [key]: e.target.value })}
+                      placeholder={placeholder}
+                      className={Field}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm text-zinc-200">Conditions</label>
+                <input
+                  value={editing.draft.conditions}
+                  onChange={(e) => patchDraft({ conditions: e.target.value })}
+                  className={Field}
+                />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-[1fr_1fr_160px]">
+                <div>
+                  <label className="text-sm text-zinc-200">Maps query</label>
+                  <input
+                    value={editing.draft.mapQuery}
+                    onChange={(e) => patchDraft({ mapQuery: e.target.value })}
+                    placeholder={editing.draft.name}
+                    className={Field}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-zinc-200">Image</label>
+                  <input
+                    value={editing.draft.image}
+                    onChange={(e) => patchDraft({ image: e.target.value })}
+                    placeholder="/deals/example.png"
+                    className={Field}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-zinc-200">Minutes at store</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_SERVICE_MINUTES}
+                    value={editing.draft.serviceMinutes}
+                    onChange={(e) => patchDraft({ serviceMinutes: e.target.value })}
+                    placeholder={String(DEFAULT_SERVICE_MINUTES)}
+                    className={Field}
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-[1fr_1fr_160px]">
+                <div>
+                  <label className="text-sm text-zinc-200">Chain brand</label>
+                  <input
+                    value={editing.draft.brandName}
+                    onChange={(e) => patchDraft({ brandName: e.target.value })}
+                    placeholder="Not a chain"
+                    className={Field}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-zinc-200">Brand aliases</label>
+                  <input
+                    value={editing.draft.brandAliases}
+                    onChange={(e) => patchDraft({ brandAliases: e.target.value })}
+                    placeholder="Comma-separated"
+                    className={Field}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-zinc-200">Wikidata ID</label>
+                  <input
+                    value={editing.draft.brandWikidata}
+                    onChange={(e) => patchDraft({ brandWikidata: e.target.value })}
+                    placeholder="Q…"
+                    className={Field}
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-[1fr_160px]">
+                <div>
+                  <label className="text-sm text-zinc-200">Signup URL</label>
+                  <input
+                    value={editing.draft.signupUrl}
+                    onChange={(e) => patchDraft({ signupUrl: e.target.value })}
+                    placeholder="https://"
+                    className={Field}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-zinc-200">Sign up days ahead</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={editing.draft.signupLeadDays}
+                    onChange={(e) => patchDraft({ signupLeadDays: e.target.value })}
+                    placeholder="—"
+                    className={Field}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm text-zinc-200">Redemption window</label>
+                <select
+                  value={editing.draft.windowKind}
+                  onChange={(e) => patchDraft({ windowKind: e.target.value as Draft["windowKind"] })}
+                  className={Field}
+                >
+                  {WINDOW_KINDS.map((k) => (
+                    <option key={k.id} value={k.id}>
+                      {k.label}
+                    </option>
+                  ))}
+                </select>
+
+                {editing.draft.windowKind === "range" ? (
+                  <div className="mt-3 grid gap-4 sm:grid-cols-2">
+                    <div>
+                      <label className="text-xs text-zinc-400">Days before birthday</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={editing.draft.daysBefore}
+                        onChange={(e) => patchDraft({ daysBefore: e.target.value })}
+                        className={Field}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-zinc-400">Days after birthday</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={editing.draft.daysAfter}
+                        onChange={(e) => patchDraft({ daysAfter: e.target.value })}
+                        className={Field}
+                      />
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+
+              <div>
+                <label className="text-sm text-zinc-200">Claim steps (one per line)</label>
+                <textarea
+                  value={editing.draft.claimSteps}
+                  onChange={(e) => patchDraft({ claimSteps: e.target.value })}
+                  rows={4}
+                  className={Field}
+                />
+              </div>
+
+              {err ? (
+                <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-200">{err}</div>
+              ) : null}
+            </div>
+
+            <div className="px-5 py-4 border-t border-white/10 flex items-center justify-end gap-3">
+              <button onClick={() => setEditing(null)} className={BtnSub}>
+                Cancel
+              </button>
+              <button onClick={saveDraft} disabled={busy} className={BtnEdit}>
+                {busy ? "Saving…" : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </main>
+  );
+}
@@ -0,0 +1,12 @@
+// app/app/admin/deals/page.tsx
+import { notFound } from "next/navigation";
+import { isCurrentUserAdmin, loadDealRowsForAdmin } from "@/app/lib/dealsServer";
+import AdminDealsClient from "./AdminDealsClient";
+
+export default async function AdminDealsPage() {
+  // Non-admins get a plain 404 so the screen isn't discoverable.
+  if (!(await isCurrentUserAdmin())) notFound();
+
+  const rows = await loadDealRowsForAdmin();
+  return <AdminDealsClient initialRows={rows} />;
+}
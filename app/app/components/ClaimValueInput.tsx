@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_DEAL_VALUE_USD, cleanUsd, dealValueLabel, formatUsd, type DealValue } from "@/app/lib/deals";
+
+const chip = "rounded-full border px-3 py-1 text-xs transition disabled:opacity-50";
+
+/**
+ * What a claimed freebie was worth: the deal's estimate until the user types what it really was
+ * (blank goes back to the estimate).
+ */
+export default function ClaimValueInput({
+  label,
+  estimate,
+  value,
+  onSave,
+}: {
+  label?: string; // whose claim, in shared-birthday mode
+  estimate?: DealValue;
+  value: number | null;
+  onSave: (value: number | null) => Promise<void>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  function open() {
+    setText(value !== null ? String(value) : "");
+    setErr("");
+    setEditing(true);
+  }
+
+  async function save() {
+    const next = text.trim() ? cleanUsd(text) : null;
+    if (text.trim() && next === null) return setErr(`Enter $0–${MAX_DEAL_VALUE_USD}.`);
+    setBusy(true);
+    setErr("");
+    try {
+      await onSave(next);
+      setEditing(false);
+    } catch {
+      setErr("Couldn’t save.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const shown = value !== null ? formatUsd(value) : dealValueLabel(estimate);
+  const prefix = label ? `${label}: ` : "";
+
+  if (!editing) {
+    return (
+      <button
+        onClick={open}
+        title="Correct what this freebie was worth"
+        className={`${chip} border-emerald-200/18 bg-black/35 text-emerald-50 hover:bg-white/5`}
+      >
+        {prefix}
+        {shown ? `Worth ${shown}` : "Add value"} ✎
+      </button>
+    );
+  }
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1.5">
+      <span className="text-xs text-zinc-400">{prefix}$</span>
+      <input
+        type="number"
+        min={0}
+        max={MAX_DEAL_VALUE_USD}
+        step="0.01"
+        autoFocus
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") save();
+          if (e.key === "Escape") setEditing(false);
+        }}
+        placeholder={estimate ? String(estimate.usd) : "0"}
+        className="w-20 rounded-full border border-white/12 bg-black/35 px-3 py-1 text-xs outline-none focus:border-emerald-300/20"
+      />
+      <button onClick={save} disabled={busy} className={`${chip} border-emerald-200/25 bg-emerald-400/15 text-emerald-50`}>
+        Save
+      </button>
+      <button onClick={() => setEditing(false)} disabled={busy} className={`${chip} border-white/12 bg-black/35 text-zinc-300`}>
+        Cancel
+      </button>
+      {err ? <span className="text-xs text-red-300">{err}</span> : null}
+    </span>
+  );
+}
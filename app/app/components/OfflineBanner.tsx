@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PLAN_PENDING_EVENT, pendingChanges } from "@/app/lib/planSync";
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+/** Shown while the browser is offline: the saved plan still works, and what's waiting to sync. */
+export default function OfflineBanner() {
+  const [offline, setOffline] = useState(false);
+  const [claims, setClaims] = useState(0);
+  const [skips, setSkips] = useState(0);
+
+  useEffect(() => {
+    function load() {
+      setOffline(!navigator.onLine);
+      const pending = pendingChanges();
+      setClaims(pending.filter((p) => p.kind === "claim" || p.kind === "unclaim").length);
+      setSkips(pending.filter((p) => p.kind === "skip" || p.kind === "unskip").length);
+    }
+    load();
+
+    window.addEventListener("online", load);
+    window.addEventListener("offline", load);
+    window.addEventListener(PLAN_PENDING_EVENT, load);
+    return () => {
+      window.removeEventListener("online", load);
+      window.removeEventListener("offline", load);
+      window.removeEventListener(PLAN_PENDING_EVENT, load);
+    };
+  }, []);
+
+  if (!offline) return null;
+
+  const waiting = [claims ? plural(claims, "claim") : "", skips ? plural(skips, "skip") : ""].filter(Boolean);
+
+  return (
+    <div className="fixed bottom-4 inset-x-0 z-50 flex justify-center px-4 pointer-events-none">
+      <div className="rounded-full border border-amber-200/20 bg-black/80 backdrop-blur-xl px-4 py-2 text-xs text-amber-100 shadow-[0_10px_40px_rgba(0,0,0,0.6)]">
+        You’re offline · showing your saved plan
+        {waiting.length ? <span className="text-zinc-400"> · {waiting.join(" and ")} will sync when you’re back</span> : null}
+      </div>
+    </div>
+  );
+}
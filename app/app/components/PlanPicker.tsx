@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { myDisplayName, suggestDeal } from "@/app/lib/planGroups";
+import {
+  PLAN_SYNCED_EVENT,
+  PLAN_UPDATED_EVENT,
+  createPlan,
+  planRole,
+  readPlanIdsFor,
+  setDealInPlan,
+} from "@/app/lib/planSync";
+import { usePlans } from "./usePlans";
+
+/**
+ * "Add to plan…" dropdown: tick which of the user's plans a deal belongs to.
+ * Plans the user only views get a "Suggest" button instead.
+ */
+export default function PlanPicker({ dealId, className = "" }: { dealId: string; className?: string }) {
+  const { plans, activeId } = usePlans();
+  const [open, setOpen] = useState(false);
+  const [inPlans, setInPlans] = useState<Record<string, boolean>>({});
+  const [newName, setNewName] = useState("");
+  const [suggested, setSuggested] = useState<Record<string, "sent" | "failed">>({});
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    function load() {
+      const next: Record<string, boolean> = {};
+      for (const p of plans) next[p.id] = readPlanIdsFor(p.id).includes(dealId);
+      setInPlans(next);
+    }
+    load();
+
+    window.addEventListener(PLAN_UPDATED_EVENT, load);
+    window.addEventListener(PLAN_SYNCED_EVENT, load);
+    return () => {
+      window.removeEventListener(PLAN_UPDATED_EVENT, load);
+      window.removeEventListener(PLAN_SYNCED_EVENT, load);
+    };
+  }, [plans, dealId]);
+
+  // close on outside click
+  useEffect(() => {
+    if (!open) return;
+    function onDown(e: MouseEvent) {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) setOpen(false);
+    }
+    document.addEventListener("mousedown", onDown);
+    return () => document.removeEventListener("mousedown", onDown);
+  }, [open]);
+
+  function addToNewPlan() {
+    const name = newName.trim();
+    if (!name) return;
+    const id = createPlan(name);
+    setDealInPlan(id, dealId, true);
+    setNewName("");
+  }
+
+  function suggest(planId: string) {
+    suggestDeal(planId, dealId, myDisplayName())
+      .then(() => setSuggested((s) => ({ ...s, [planId]: "sent" })))
+      .catch(() => setSuggested((s) => ({ ...s, [planId]: "failed" })));
+  }
+
+  const count = Object.values(inPlans).filter(Boolean).length;
+
+  return (
+    <div ref={rootRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        title="Add to plan…"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="h-full rounded-2xl border border-white/10 bg-white/6 px-3 py-2.5 text-sm text-zinc-100 transition hover:bg-white/10"
+      >
+        {count > 1 ? <span className="mr-1 text-xs text-emerald-200">{count}</span> : null}▾
+      </button>
+
+      {open ? (
+        <div
+          role="menu"
+          className="absolute right-0 bottom-full z-40 mb-2 w-64 rounded-2xl border border-white/12 bg-black/90 p-2 shadow-[0_18px_70px_rgba(0,0,0,0.75)] backdrop-blur-xl"
+        >
+          <div className="px-2 pb-1 pt-1 text-[11px] uppercase tracking-wider text-zinc-500">Add to plan…</div>
+
+          {plans.map((p) =>
+            planRole(p) === "viewer" ? (
+              <div key={p.id} className="flex items-center gap-2 rounded-xl px-2 py-1.5 text-sm text-zinc-200">
+                <span className="min-w-0 flex-1 truncate">{p.name}</span>
+                {inPlans[p.id] ? (
+                  <span className="text-[11px] text-zinc-500">on plan</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => suggest(p.id)}
+                    disabled={suggested[p.id] === "sent"}
+                    className="rounded-lg border border-white/10 px-2 py-0.5 text-[11px] text-zinc-200 hover:bg-white/5 disabled:opacity-60"
+                  >
+                    {suggested[p.id] === "sent" ? "Suggested ✓" : suggested[p.id] === "failed" ? "Retry" : "Suggest"}
+                  </button>
+                )}
+              </div>
+            ) : (
+              <label
+                key={p.id}
+                className="flex cursor-pointer items-center gap-2 rounded-xl px-2 py-1.5 text-sm text-zinc-200 hover:bg-white/5"
+              >
+                <input
+                  type="checkbox"
+                  checked={!!inPlans[p.id]}
+                  onChange={(e) => setDealInPlan(p.id, dealId, e.target.checked)}
+                  className="accent-emerald-400"
+                />
+                <span className="min-w-0 flex-1 truncate">{p.name}</span>
+                {p.id === activeId ? <span className="text-[11px] text-zinc-500">open</span> : null}
+              </label>
+            )
+          )}
+
+          <form
+            className="mt-1 flex items-center gap-1.5 border-t border-white/8 px-1 pt-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addToNewPlan();
+            }}
+          >
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New plan…"
+              maxLength={60}
+              className="min-w-0 flex-1 rounded-xl border border-white/10 bg-black/40 px-2.5 py-1.5 text-xs text-zinc-100 outline-none placeholder:text-zinc-500"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="rounded-xl border border-emerald-200/18 bg-emerald-400/14 px-2.5 py-1.5 text-xs text-emerald-50 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PLANS_UPDATED_EVENT, activePlanId, listPlans, type PlanMeta } from "@/app/lib/planSync";
+
+/** The user's named plans and which one is open, kept fresh across components. */
+export function usePlans(): { plans: PlanMeta[]; activeId: string } {
+  const [plans, setPlans] = useState<PlanMeta[]>([]);
+  const [activeId, setActiveId] = useState("");
+
+  useEffect(() => {
+    function load() {
+      setPlans(listPlans());
+      setActiveId(activePlanId());
+    }
+    load();
+
+    window.addEventListener(PLANS_UPDATED_EVENT, load);
+    return () => window.removeEventListener(PLANS_UPDATED_EVENT, load);
+  }, []);
+
+  return { plans, activeId };
+}
@@ -1,55 +1,46 @@
 "use client";
 
 import { useEffect, useState } from "react";
-
-const PLAN_KEY = "bs_plan";
-const PLAN_UPDATED_EVENT = "bs_plan_updated";
+import { PLAN_SYNCED_EVENT, PLAN_UPDATED_EVENT, planRole, readPlanCache, savePlanIds } from "@/app/lib/planSync";
+import { myDisplayName, suggestDeal } from "@/app/lib/planGroups";
+import PlanPicker from "@/app/app/components/PlanPicker";
+import { usePlans } from "@/app/app/components/usePlans";
 
 type Props = {
   dealId: string;
 };
 
-function readPlanIds(): string[] {
-  try {
-    const raw = localStorage.getItem(PLAN_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-
-    if (Array.isArray(parsed) && parsed.every((x) => typeof x === "string")) return parsed;
-
-    if (
-      Array.isArray(parsed) &&
-      parsed.every((x) => x && typeof x === "object" && typeof (x as any).id === "string")
-    ) {
-      return parsed.map((x: any) => x.id);
-    }
-  } catch {}
-  return [];
-}
-
-function writePlanIds(ids: string[]) {
-  try {
-    localStorage.setItem(PLAN_KEY, JSON.stringify(ids));
-  } catch {}
-}
-
 export default function AddToPlanButton({ dealId }: Props) {
   const [added, setAdded] = useState(false);
+  const [suggested, setSuggested] = useState<"" | "sent" | "failed">("");
+  const { plans, activeId } = usePlans();
+  const viewing = planRole(plans.find((p) => p.id === activeId)) === "viewer";
 
   useEffect(() => {
-    const sync = () => setAdded(readPlanIds().includes(dealId));
+    const sync = () => setAdded(readPlanCache().planIds.includes(dealId));
     sync();
 
     window.addEventListener(PLAN_UPDATED_EVENT, sync);
-    return () => window.removeEventListener(PLAN_UPDATED_EVENT, sync);
+    window.addEventListener(PLAN_SYNCED_EVENT, sync);
+    return () => {
+      window.removeEventListener(PLAN_UPDATED_EVENT, sync);
+      window.removeEventListener(PLAN_SYNCED_EVENT, sync);
+    };
   }, [dealId]);
 
+  // A plan the user only views: suggest the deal to its owner instead.
+  function suggest() {
+    suggestDeal(activeId, dealId, myDisplayName())
+      .then(() => setSuggested("sent"))
+      .catch(() => setSuggested("failed"));
+  }
+
   function toggle() {
-    const ids = readPlanIds();
+    const ids = readPlanCache().planIds;
 
     if (ids.includes(dealId)) {
       const next = ids.filter((x) => x !== dealId);
-      writePlanIds(next);
+      savePlanIds(next);
       setAdded(false);
 
       try {
@@ -60,7 +51,7 @@ export default function AddToPlanButton({ dealId }: Props) {
     }
 
     const next = [...ids, dealId];
-    writePlanIds(next);
+    savePlanIds(next);
     setAdded(true);
 
     try {
@@ -68,12 +59,26 @@ export default function AddToPlanButton({ dealId }: Props) {
     } catch {}
   }
 
+  // Main button toggles the open plan; the picker adds to any plan.
   return (
-    <button
-      onClick={toggle}
-      className="rounded-xl border border-white/10 bg-white/10 px-4 py-2 text-sm hover:bg-white/15"
-    >
-      {added ? "Added" : "Add"}
-    </button>
+    <div className="inline-flex items-stretch gap-1.5">
+      {viewing ? (
+        <button
+          onClick={suggest}
+          disabled={added || suggested === "sent"}
+          className="rounded-xl border border-white/10 bg-white/10 px-4 py-2 text-sm hover:bg-white/15 disabled:opacity-60"
+        >
+          {added ? "On the plan" : suggested === "sent" ? "Suggested" : suggested === "failed" ? "Retry" : "Suggest"}
+        </button>
+      ) : (
+        <button
+          onClick={toggle}
+          className="rounded-xl border border-white/10 bg-white/10 px-4 py-2 text-sm hover:bg-white/15"
+        >
+          {added ? "Added" : "Add"}
+        </button>
+      )}
+      <PlanPicker dealId={dealId} />
+    </div>
   );
 }
@@ -1,45 +1,93 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import {
+  PLAN_SYNCED_EVENT,
+  PLAN_UPDATED_EVENT,
+  activePlanRole,
+  readPlanCache,
+  saveClaimedIds,
+  saveParticipantClaims,
+} from "@/app/lib/planSync";
+import type { Participant } from "@/app/lib/participants";
+import { readPinnedStores } from "@/app/lib/pinnedStores";
+import { recordClaimEvent, undoClaimEvent } from "@/app/lib/claimHistory";
 
+/**
+ * Marks the deal claimed for the user. When the open plan is a shared birthday and has this deal,
+ * there's a toggle per birthday person instead.
+ */
 export default function ClaimedButton({ dealId }: { dealId: string }) {
   const [claimed, setClaimed] = useState(false);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [claimedBy, setClaimedBy] = useState<string[]>([]);
 
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem("bs_claimed");
-      if (!raw) return;
-      const ids = JSON.parse(raw) as string[];
-      setClaimed(ids.includes(dealId));
-    } catch {}
+    const sync = () => {
+      const cache = readPlanCache();
+      const onPlan = cache.planIds.includes(dealId) && activePlanRole() !== "viewer";
+      setClaimed(dealId in cache.claimedAt);
+      setParticipants(onPlan ? cache.participants : []);
+      setClaimedBy(cache.participantClaims[dealId] ?? []);
+    };
+    sync();
+
+    window.addEventListener(PLAN_SYNCED_EVENT, sync);
+    window.addEventListener(PLAN_UPDATED_EVENT, sync);
+    return () => {
+      window.removeEventListener(PLAN_SYNCED_EVENT, sync);
+      window.removeEventListener(PLAN_UPDATED_EVENT, sync);
+    };
   }, [dealId]);
 
   function toggle() {
-    let ids: string[] = [];
-    try {
-      ids = JSON.parse(localStorage.getItem("bs_claimed") || "[]");
-    } catch {
-      ids = [];
-    }
+    const ids = Object.keys(readPlanCache().claimedAt);
 
     const next = ids.includes(dealId)
       ? ids.filter((x) => x !== dealId)
       : [...ids, dealId];
 
-    localStorage.setItem("bs_claimed", JSON.stringify(next));
+    saveClaimedIds(next);
     setClaimed(next.includes(dealId));
+
+    if (next.includes(dealId)) recordClaimEvent({ dealId, store: readPinnedStores()[dealId] });
+    else undoClaimEvent(dealId);
+  }
+
+  function toggleFor(participantId: string) {
+    const next = claimedBy.includes(participantId)
+      ? claimedBy.filter((x) => x !== participantId)
+      : [...claimedBy, participantId];
+
+    saveParticipantClaims(dealId, next);
+    setClaimedBy(next);
+
+    const p = participants.find((x) => x.id === participantId);
+    if (!next.includes(participantId)) undoClaimEvent(dealId, participantId);
+    else if (p) recordClaimEvent({ dealId, store: readPinnedStores()[dealId], participant: { id: p.id, name: p.name } });
+  }
+
+  const look = (on: boolean) =>
+    "rounded-xl px-4 py-2 text-sm font-medium transition " +
+    (on ? "bg-white text-black hover:bg-zinc-200" : "border border-white/15 text-white hover:bg-white/10");
+
+  if (participants.length) {
+    return (
+      <div className="inline-flex flex-wrap gap-2">
+        <button onClick={toggle} className={look(claimed)}>
+          {claimed ? "✓ You" : "You"}
+        </button>
+        {participants.map((p) => (
+          <button key={p.id} onClick={() => toggleFor(p.id)} className={look(claimedBy.includes(p.id))}>
+            {claimedBy.includes(p.id) ? `✓ ${p.name}` : p.name}
+          </button>
+        ))}
+      </div>
+    );
   }
 
   return (
-    <button
-      onClick={toggle}
-      className={
-        "rounded-xl px-4 py-2 text-sm font-medium transition " +
-        (claimed
-          ? "bg-white text-black hover:bg-zinc-200"
-          : "border border-white/15 text-white hover:bg-white/10")
-      }
-    >
+    <button onClick={toggle} className={look(claimed)}>
       {claimed ? "Claimed" : "Mark claimed"}
     </button>
   );
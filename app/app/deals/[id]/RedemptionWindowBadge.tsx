@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { RedemptionWindow } from "@/app/lib/deals";
+import { windowBadgeText, windowInfo, windowLabel } from "@/app/lib/birthdayWindow";
+
+const PROFILE_KEY = "bs_profile";
+const PROFILE_UPDATED_EVENT = "bs_profile_updated";
+
+function readBirthday(): string {
+  try {
+    const raw = localStorage.getItem(PROFILE_KEY);
+    if (!raw) return "";
+    const p = JSON.parse(raw);
+    return typeof p?.birthday === "string" ? p.birthday : "";
+  } catch {
+    return "";
+  }
+}
+
+export default function RedemptionWindowBadge({ redemptionWindow: w }: { redemptionWindow?: RedemptionWindow }) {
+  const [birthday, setBirthday] = useState("");
+
+  useEffect(() => {
+    const sync = () => setBirthday(readBirthday());
+    sync();
+
+    window.addEventListener(PROFILE_UPDATED_EVENT, sync);
+    return () => window.removeEventListener(PROFILE_UPDATED_EVENT, sync);
+  }, []);
+
+  if (!w) return null;
+
+  const info = windowInfo(w, birthday);
+  const tone =
+    info?.status === "active"
+      ? "border-emerald-200/30 bg-emerald-400/15 text-emerald-50"
+      : info?.status === "expired"
+      ? "border-white/10 bg-white/5 text-zinc-400"
+      : "border-white/15 bg-black/30 text-zinc-200";
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+      <span className="rounded-full border border-white/15 bg-black/30 px-2.5 py-1 text-zinc-300">
+        {windowLabel(w)}
+      </span>
+      {info ? (
+        <span className={`rounded-full border px-2.5 py-1 font-semibold ${tone}`}>{windowBadgeText(info)}</span>
+      ) : (
+        <span className="text-zinc-500">Add your birthday on Profile to see when it’s redeemable.</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  SIGNUP_STATUSES,
+  SIGNUPS_UPDATED_EVENT,
+  fetchSignupStatuses,
+  saveSignupStatus,
+  signupDeadline,
+  signupDeadlineText,
+  type SignupStatus,
+} from "@/app/lib/signups";
+
+const PROFILE_KEY = "bs_profile";
+const PROFILE_UPDATED_EVENT = "bs_profile_updated";
+
+function readBirthday(): string {
+  try {
+    const raw = localStorage.getItem(PROFILE_KEY);
+    if (!raw) return "";
+    const p = JSON.parse(raw);
+    return typeof p?.birthday === "string" ? p.birthday : "";
+  } catch {
+    return "";
+  }
+}
+
+export default function SignupCountdown({ dealId, signupLeadDays }: { dealId: string; signupLeadDays?: number }) {
+  const [birthday, setBirthday] = useState("");
+  const [status, setStatus] = useState<SignupStatus>("not_joined");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    const syncBirthday = () => setBirthday(readBirthday());
+    syncBirthday();
+
+    let cancelled = false;
+    const syncStatus = async () => {
+      const all = await fetchSignupStatuses();
+      if (!cancelled) setStatus(all[dealId] ?? "not_joined");
+    };
+    syncStatus();
+
+    window.addEventListener(PROFILE_UPDATED_EVENT, syncBirthday);
+    window.addEventListener(SIGNUPS_UPDATED_EVENT, syncStatus);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(PROFILE_UPDATED_EVENT, syncBirthday);
+      window.removeEventListener(SIGNUPS_UPDATED_EVENT, syncStatus);
+    };
+  }, [dealId]);
+
+  async function choose(next: SignupStatus) {
+    if (busy || next === status) return;
+    const prev = status;
+    setStatus(next);
+    setBusy(true);
+    setErr("");
+    try {
+      await saveSignupStatus(dealId, next);
+    } catch (e) {
+      setStatus(prev);
+      setErr(e instanceof Error ? e.message : "Could not save.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const deadline = signupDeadline({ signupLeadDays }, birthday);
+  const done = status !== "not_joined";
+
+  const tone = done
+    ? "border-emerald-200/25 bg-emerald-400/10 text-emerald-100"
+    : deadline && deadline.daysLeft < 0
+    ? "border-red-500/30 bg-red-500/10 text-red-200"
+    : deadline && deadline.daysLeft <= 7
+    ? "border-amber-300/25 bg-amber-400/10 text-amber-100"
+    : "border-white/10 bg-white/5 text-zinc-200";
+
+  return (
+    <div className="mt-2 rounded-2xl border border-white/10 bg-white/5 p-3">
+      {typeof signupLeadDays === "number" ? (
+        <div className={`rounded-xl border px-3 py-2 text-sm ${tone}`}>
+          {done
+            ? status === "birthday_saved"
+              ? "You’re all set — birthday saved ✓"
+              : "Joined — make sure your birthday is saved in the account."
+            : deadline
+            ? signupDeadlineText(deadline)
+            : `Join at least ${signupLeadDays} days before your birthday. Add your birthday on Profile for a date.`}
+        </div>
+      ) : null}
+
+      <div className="mt-2 grid grid-cols-3 gap-1.5">
+        {SIGNUP_STATUSES.map((s) => (
+          <button
+            key={s.id}
+            onClick={() => choose(s.id)}
+            disabled={busy}
+            className={
+              "rounded-xl border px-2 py-1.5 text-xs transition disabled:opacity-60 " +
+              (status === s.id
+                ? "border-emerald-200/30 bg-emerald-400/15 text-emerald-50"
+                : "border-white/10 text-zinc-300 hover:bg-white/10")
+            }
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+
+      {err ? <div className="mt-2 text-xs text-red-300">{err}</div> : null}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { ALL_DEALS } from "@/app/lib/deals";
+import { dealValueLabel } from "@/app/lib/deals";
+import { loadDeal } from "@/app/lib/dealsServer";
 import AddToPlanButton from "./AddToPlanButton";
 import OpenInMapsButton from "./OpenInMapsButton";
 import ClaimedButton from "./ClaimedButton";
+import RedemptionWindowBadge from "./RedemptionWindowBadge";
+import SignupCountdown from "./SignupCountdown";
 
 export default async function DealDetailsPage({
   params,
@@ -12,7 +15,7 @@ export default async function DealDetailsPage({
 }) {
   const { id } = await params;
 
-  const deal = ALL_DEALS.find((d) => d.id === id);
+  const deal = await loadDeal(id);
   if (!deal) notFound();
 
   const baseQuery = deal.mapQuery ?? deal.name;
@@ -39,6 +42,12 @@ export default async function DealDetailsPage({
             {deal.freebie}
           </p>
 
+          {deal.estimatedValue ? (
+            <p className="text-zinc-400 mt-1 text-sm">Worth {dealValueLabel(deal.estimatedValue)}</p>
+          ) : null}
+
+          <RedemptionWindowBadge redemptionWindow={deal.redemptionWindow} />
+
           {deal.conditions ? (
             <p className="text-zinc-300/90 mt-3 text-sm">
               {deal.conditions}
@@ -75,6 +84,10 @@ export default async function DealDetailsPage({
         </a>
       ) : null}
 
+      {deal.signupUrl || typeof deal.signupLeadDays === "number" ? (
+        <SignupCountdown dealId={deal.id} signupLeadDays={deal.signupLeadDays} />
+      ) : null}
+
       {/* Claim steps */}
       {deal.claimSteps && deal.claimSteps.length > 0 ? (
         <div className="mt-5 rounded-3xl border border-white/10 bg-white/5 p-5">
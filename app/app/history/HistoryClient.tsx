@@ -0,0 +1,324 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import {
+  CLAIM_EVENTS_UPDATED_EVENT,
+  MAX_CLAIM_NOTE,
+  claimPhotoUrls,
+  deleteClaimEvent,
+  fetchClaimEvents,
+  removeClaimPhoto,
+  updateClaimNote,
+  updateClaimValue,
+  uploadClaimPhoto,
+  type ClaimEvent,
+} from "@/app/lib/claimHistory";
+import { formatUsd, type DealValue } from "@/app/lib/deals";
+import type { PinnedStore } from "@/app/lib/pinnedStores";
+import ClaimValueInput from "@/app/app/components/ClaimValueInput";
+
+type DealSummary = { id: string; name: string; freebie: string; estimatedValue?: DealValue };
+
+type YearGroup = {
+  year: number;
+  events: ClaimEvent[];
+  stores: number; // distinct stores with a location
+  deals: number; // distinct deals
+  savedUsd: number; // corrected values, else the deals' estimates
+};
+
+const GlassSection =
+  "relative rounded-[28px] border border-white/14 bg-black/30 shadow-[0_24px_90px_rgba(0,0,0,0.60)]";
+
+const BtnSmall =
+  "rounded-full border border-white/12 bg-black/35 px-3 py-1 text-xs text-zinc-200 hover:bg-white/5 transition disabled:opacity-50";
+
+function storeKey(s: PinnedStore) {
+  return s.placeId || `${s.lat.toFixed(4)},${s.lon.toFixed(4)}`;
+}
+
+function storeMapsUrl(s: PinnedStore) {
+  const q = encodeURIComponent(`${s.lat},${s.lon}`);
+  return s.placeId
+    ? `https://www.google.com/maps/search/?api=1&query=${q}&query_place_id=${encodeURIComponent(s.placeId)}`
+    : `https://www.google.com/maps/search/?api=1&query=${q}`;
+}
+
+function groupByYear(events: ClaimEvent[], dealsById: Map<string, DealSummary>): YearGroup[] {
+  const byYear = new Map<number, ClaimEvent[]>();
+  for (const e of events) byYear.set(e.birthdayYear, [...(byYear.get(e.birthdayYear) ?? []), e]);
+
+  return Array.from(byYear.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([year, list]) => ({
+      year,
+      events: list,
+      stores: new Set(list.flatMap((e) => (e.store ? [storeKey(e.store)] : []))).size,
+      deals: new Set(list.map((e) => e.dealId)).size,
+      savedUsd: list.reduce((sum, e) => sum + (e.valueUsd ?? dealsById.get(e.dealId)?.estimatedValue?.usd ?? 0), 0),
+    }));
+}
+
+function formatWhen(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function delta(now: number, before: number, format: (n: number) => string = String) {
+  const d = now - before;
+  if (!d) return "same as";
+  return d > 0 ? `+${format(d)} vs` : `−${format(-d)} vs`;
+}
+
+function dollars(n: number) {
+  return formatUsd(Math.round(n));
+}
+
+/** One claim: when, where and for whom, with a note and a proof photo. */
+function EventRow({
+  event,
+  deal,
+  photoUrl,
+  onChanged,
+}: {
+  event: ClaimEvent;
+  deal?: DealSummary;
+  photoUrl?: string;
+  onChanged: () => void;
+}) {
+  const [note, setNote] = useState(event.note);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function run(task: () => Promise<void>) {
+    if (busy) return;
+    setBusy(true);
+    setErr("");
+    try {
+      await task();
+      onChanged();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Could not save.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function saveNote() {
+    if (note.trim() === event.note) return;
+    run(() => updateClaimNote(event.id, note));
+  }
+
+  function pickPhoto(file: File | undefined) {
+    if (file) run(async () => void (await uploadClaimPhoto(event, file)));
+  }
+
+  function remove() {
+    if (!window.confirm("Delete this claim from your history? Its photo is deleted too.")) return;
+    run(() => deleteClaimEvent(event));
+  }
+
+  return (
+    <li className="rounded-2xl border border-white/10 bg-black/35 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-zinc-100">
+            {deal ? (
+              <Link href={`/app/deals/${encodeURIComponent(deal.id)}`} className="hover:underline">
+                {deal.name}
+              </Link>
+            ) : (
+              event.dealId
+            )}
+            {event.participant ? <span className="text-zinc-400"> · for {event.participant.name || "guest"}</span> : null}
+          </div>
+          {deal?.freebie ? <div className="text-xs text-zinc-400">{deal.freebie}</div> : null}
+          <div className="mt-1 text-xs text-zinc-400">
+            {formatWhen(event.claimedAt)}
+            {event.store ? (
+              <>
+                {" · "}
+                <a href={storeMapsUrl(event.store)} target="_blank" rel="noreferrer" className="text-emerald-200 hover:underline">
+                  {event.store.label || "Store location"}
+                </a>
+              </>
+            ) : (
+              <span> · store not recorded</span>
+            )}
+            {event.pending ? <span className="text-amber-200"> · not synced yet</span> : null}
+          </div>
+        </div>
+
+        {photoUrl ? (
+          <a href={photoUrl} target="_blank" rel="noreferrer" className="shrink-0">
+            {/* eslint-disable-next-line @next/next/no-img-element -- short-lived signed URL */}
+            <img src={photoUrl} alt="Claim photo" className="h-16 w-16 rounded-xl object-cover border border-white/10" />
+          </a>
+        ) : null}
+      </div>
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value.slice(0, MAX_CLAIM_NOTE))}
+        onBlur={saveNote}
+        rows={2}
+        placeholder="Note (order number, who helped, anything a store might ask about)"
+        className="mt-3 w-full rounded-xl border border-white/12 bg-black/35 px-3 py-2 text-sm outline-none focus:border-emerald-300/20"
+      />
+
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <ClaimValueInput
+          estimate={deal?.estimatedValue}
+          value={event.valueUsd ?? null}
+          onSave={async (v) => {
+            await updateClaimValue(event.id, v);
+            onChanged();
+          }}
+        />
+        <label className={`${BtnSmall} cursor-pointer`}>
+          {event.photoPath ? "Replace photo" : "Add receipt / photo"}
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            disabled={busy}
+            onChange={(e) => {
+              pickPhoto(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        {event.photoPath ? (
+          <button onClick={() => run(() => removeClaimPhoto(event))} disabled={busy} className={BtnSmall}>
+            Remove photo
+          </button>
+        ) : null}
+        <button onClick={remove} disabled={busy} className={`${BtnSmall} ml-auto text-zinc-400`}>
+          Delete
+        </button>
+        {busy ? <span className="text-xs text-zinc-400">Saving…</span> : null}
+        {err ? <span className="text-xs text-red-300">{err}</span> : null}
+      </div>
+    </li>
+  );
+}
+
+/** Every claim, grouped by birthday year, to compare years and prove redemptions. */
+export default function HistoryClient({ deals }: { deals: DealSummary[] }) {
+  const [events, setEvents] = useState<ClaimEvent[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState("");
+
+  const dealsById = useMemo(() => new Map(deals.map((d) => [d.id, d])), [deals]);
+  const years = useMemo(() => groupByYear(events, dealsById), [events, dealsById]);
+
+  async function load() {
+    try {
+      const list = await fetchClaimEvents();
+      setEvents(list);
+      setErr("");
+      const paths = list.flatMap((e) => (e.photoPath ? [e.photoPath] : []));
+      setPhotoUrls(await claimPhotoUrls(paths).catch(() => ({})));
+    } catch {
+      setErr("Couldn’t load your history. Try again in a moment.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    const reload = () => {
+      if (!cancelled) void load();
+    };
+    reload();
+
+    window.addEventListener(CLAIM_EVENTS_UPDATED_EVENT, reload);
+    window.addEventListener("online", reload);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CLAIM_EVENTS_UPDATED_EVENT, reload);
+      window.removeEventListener("online", reload);
+    };
+  }, []);
+
+  return (
+    <div className="relative px-6 pb-[120px]">
+      <div className="mx-auto w-full max-w-[980px]">
+        <header className="mb-8">
+          <h1 className="text-[40px] leading-[1.05] font-semibold tracking-tight">Claim history</h1>
+          <p className="mt-2 max-w-[640px] text-[17px] leading-snug text-zinc-300/90">
+            Every freebie you’ve claimed, where and when — by birthday. Add a receipt or photo in case a store asks.
+          </p>
+        </header>
+
+        {err ? <p className="mb-4 text-sm text-red-300">{err}</p> : null}
+
+        {loading ? (
+          <p className="text-sm text-zinc-400">Loading…</p>
+        ) : !years.length ? (
+          <section className={`${GlassSection} p-6 text-sm text-zinc-300`}>
+            Nothing yet. Claims you mark on your{" "}
+            <Link href="/app/plan" className="text-emerald-200 hover:underline">
+              plan
+            </Link>{" "}
+            show up here.
+          </section>
+        ) : (
+          <div className="space-y-8">
+            {years.map((g, i) => {
+              const prev = years[i + 1];
+              return (
+                <section key={g.year} className={GlassSection}>
+                  <div className="px-6 py-5 border-b border-white/12 flex flex-wrap items-baseline justify-between gap-3">
+                    <div>
+                      <div className="text-[11px] uppercase tracking-wider text-zinc-500">Birthday</div>
+                      <div className="text-2xl font-semibold">{g.year}</div>
+                    </div>
+                    <div className="text-sm text-zinc-300">
+                      {g.events.length} claim{g.events.length === 1 ? "" : "s"} · {g.deals} deal{g.deals === 1 ? "" : "s"} ·{" "}
+                      {g.stores} store{g.stores === 1 ? "" : "s"}
+                      {prev ? (
+                        <span className="text-zinc-500">
+                          {" "}
+                          ({delta(g.events.length, prev.events.length)} {prev.year})
+                        </span>
+                      ) : null}
+                      <div className="mt-1 text-right text-emerald-200">
+                        ~{dollars(g.savedUsd)} saved
+                        {prev ? (
+                          <span className="text-zinc-500">
+                            {" "}
+                            ({delta(Math.round(g.savedUsd), Math.round(prev.savedUsd), formatUsd)} {prev.year})
+                          </span>
+                        ) : null}
+                      </div>
+                    </div>
+                  </div>
+                  <ul className="p-6 space-y-3">
+                    {g.events.map((e) => (
+                      <EventRow
+                        key={`${e.id}:${e.note}:${e.photoPath ?? ""}`}
+                        event={e}
+                        deal={dealsById.get(e.dealId)}
+                        photoUrl={e.photoPath ? photoUrls[e.photoPath] : undefined}
+                        onChanged={() => void load()}
+                      />
+                    ))}
+                  </ul>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
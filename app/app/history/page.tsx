@@ -0,0 +1,12 @@
+// app/app/history/page.tsx
+import { loadDeals } from "@/app/lib/dealsServer";
+import HistoryClient from "./HistoryClient";
+
+export default async function HistoryPage() {
+  const deals = await loadDeals();
+  return (
+    <HistoryClient
+      deals={deals.map((d) => ({ id: d.id, name: d.name, freebie: d.freebie, estimatedValue: d.estimatedValue }))}
+    />
+  );
+}
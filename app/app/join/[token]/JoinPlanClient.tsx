@@ -0,0 +1,87 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { acceptInvite, myDisplayName, previewInvite, type InvitePreview } from "@/app/lib/planGroups";
+
+const ROLE_TEXT = {
+  editor: "add, remove and skip stops",
+  viewer: "see the plan and suggest stops",
+} as const;
+
+/** Landing page of a plan invite link: what it is, then join. */
+export default function JoinPlanClient({ token }: { token: string }) {
+  const router = useRouter();
+  const [invite, setInvite] = useState<InvitePreview | null | undefined>(undefined);
+  const [name, setName] = useState("");
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    previewInvite(token).then((inv) => {
+      setName((n) => n || myDisplayName());
+      setInvite(inv);
+    });
+  }, [token]);
+
+  async function join() {
+    setJoining(true);
+    setError("");
+    try {
+      await acceptInvite(token, name);
+      router.push("/app/plan");
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : (e as { message?: string })?.message || "Couldn’t join the plan.");
+      setJoining(false);
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-md pb-24">
+      <div className="rounded-3xl border border-white/10 bg-white/5 p-5">
+        {invite === undefined ? (
+          <p className="text-sm text-zinc-400">Checking invite…</p>
+        ) : invite === null ? (
+          <>
+            <h1 className="text-xl font-bold">Invite not found</h1>
+            <p className="mt-2 text-sm text-zinc-400">This link is invalid or has expired. Ask for a new one.</p>
+            <Link href="/app/plan" className="mt-4 inline-block text-sm text-zinc-300 underline underline-offset-4">
+              Go to my plan
+            </Link>
+          </>
+        ) : (
+          <>
+            <p className="text-xs text-zinc-400">Group birthday plan</p>
+            <h1 className="mt-1 text-2xl font-bold leading-tight">{invite.planName}</h1>
+            <p className="mt-2 text-sm text-zinc-300/90">
+              {invite.ownerName} invited you as {invite.role === "editor" ? "an editor" : "a viewer"}: you can{" "}
+              {ROLE_TEXT[invite.role]}.
+            </p>
+
+            <label className="mt-4 block text-xs text-zinc-400">
+              Your name on the plan
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={60}
+                placeholder="e.g. Sam"
+                className="mt-1 w-full rounded-xl border border-white/12 bg-black/45 px-3 py-2 text-sm text-zinc-100 outline-none placeholder:text-zinc-500"
+              />
+            </label>
+
+            {error ? <p className="mt-3 text-sm text-red-200">{error}</p> : null}
+
+            <button
+              onClick={join}
+              disabled={joining}
+              className="mt-4 w-full rounded-2xl bg-white px-4 py-3 text-sm font-semibold text-black transition hover:bg-zinc-200 disabled:opacity-50"
+            >
+              {joining ? "Joining…" : "Join plan"}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
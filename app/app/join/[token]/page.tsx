@@ -0,0 +1,7 @@
+// app/app/join/[token]/page.tsx
+import JoinPlanClient from "./JoinPlanClient";
+
+export default async function JoinPlanPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  return <JoinPlanClient token={token} />;
+}
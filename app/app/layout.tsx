@@ -5,6 +5,10 @@ import { usePathname, useRouter } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
 import SignOutButton from "@/app/SignOutButton";
 import { supabase } from "@/app/lib/supabaseClient";
+import { PLAN_UPDATED_EVENT, syncPlan } from "@/app/lib/planSync";
+import { flushClaimEvents } from "@/app/lib/claimHistory";
+import { registerServiceWorker, warmOfflineCache } from "@/app/lib/offline";
+import OfflineBanner from "@/app/app/components/OfflineBanner";
 
 const AUTH_KEY = "bs_auth";
 const PROFILE_KEY = "bs_profile";
@@ -68,6 +72,43 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
     };
   }, [router]);
 
+  // ✅ Pull the plan from Supabase once signed in, and again whenever we come back online
+  // (unsynced local edits get pushed instead). Claims recorded offline go to the history too.
+  useEffect(() => {
+    if (!ready) return;
+
+    const sync = () => {
+      syncPlan().catch(() => {
+        // offline / not signed in: the local cache keeps working
+      });
+      flushClaimEvents();
+    };
+    sync();
+
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [ready]);
+
+  // ✅ Offline: install the service worker and keep the plan's pages cached as its stops change.
+  useEffect(() => {
+    if (!ready) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const warm = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        if (navigator.onLine) warmOfflineCache().catch(() => {});
+      }, 2000);
+    };
+    registerServiceWorker().then(warm);
+
+    window.addEventListener(PLAN_UPDATED_EVENT, warm);
+    return () => {
+      if (timer) clearTimeout(timer);
+      window.removeEventListener(PLAN_UPDATED_EVENT, warm);
+    };
+  }, [ready]);
+
   useEffect(() => {
     function loadProfile() {
       try {
@@ -115,6 +156,7 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
           <nav className="flex items-center gap-1">
             <NavLink href="/app/deals" label="Deals" />
             <NavLink href="/app/plan" label="Plan" />
+            <NavLink href="/app/history" label="History" />
             <NavLink href="/app/profile" label="Profile" />
 
             <div className="ml-2 pl-2 border-l border-white/10">
@@ -127,6 +169,8 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
       <main className="relative min-h-screen pt-20 overflow-y-visible">
         {children}
       </main>
+
+      <OfflineBanner />
     </div>
   );
 }
@@ -1,6 +1,9 @@
 "use client";
 
 import * as React from "react";
+import { readPinnedStores } from "@/app/lib/pinnedStores";
+import { readRouteEnd } from "@/app/lib/planSync";
+import { directionsUrl, readTravelMode } from "@/app/lib/travelMode";
 
 type DealLite = { id: string; name: string; city?: string };
 
@@ -52,13 +55,15 @@ export default function OpenRouteButton({
     if (!orderedDeals || orderedDeals.length === 0) return;
 
     const resolved = readResolved();
+    const pinned = readPinnedStores();
     const gpsStart = readStart();
 
     const mode = (localStorage.getItem(START_MODE_KEY) || "geo").trim();
     const zip = (localStorage.getItem(ZIP_KEY) || "").trim();
 
-    // Reorder so destination is last
-    const destId = (localStorage.getItem(DEST_KEY) || "").trim();
+    // Reorder so destination is last (only when the route ends at a stop)
+    const end = readRouteEnd();
+    const destId = end.mode === "stop" ? (localStorage.getItem(DEST_KEY) || "").trim() : "";
     let deals = orderedDeals.slice();
     if (destId) {
       const idx = deals.findIndex((d) => d.id === destId);
@@ -68,9 +73,9 @@ export default function OpenRouteButton({
       }
     }
 
-    // Build stops (ALWAYS prefer resolved coords)
+    // Build stops (ALWAYS prefer the store the user pinned, then resolved coords)
     const stops = deals.map((d) => {
-      const r = resolved[d.id];
+      const r = pinned[d.id] ?? resolved[d.id];
       if (r && typeof r.lat === "number" && typeof r.lon === "number") {
         return `${r.lat},${r.lon}`;
       }
@@ -78,9 +83,6 @@ export default function OpenRouteButton({
       return zip ? `${d.name} ${zip}` : d.name;
     });
 
-    const destination = stops[stops.length - 1];
-    const waypoints = stops.slice(0, -1);
-
     // START LOGIC
     // ZIP MODE → use ZIP
     // GEO MODE → use GPS if available, otherwise ZIP, otherwise generic
@@ -93,15 +95,14 @@ export default function OpenRouteButton({
         ? zip
         : "United States";
 
-    const url = isProbablyIOS()
-      ? `https://maps.apple.com/?saddr=${encodeURIComponent(origin)}&daddr=${encodeURIComponent(
-          [destination, ...waypoints].join(" to: ")
-        )}`
-      : "https://www.google.com/maps/dir/?api=1" +
-        `&origin=${encodeURIComponent(origin)}` +
-        `&destination=${encodeURIComponent(destination)}` +
-        (waypoints.length ? `&waypoints=${encodeURIComponent(waypoints.join("|"))}` : "") +
-        "&travelmode=driving";
+    // END LOGIC
+    // STOP MODE → last stop is the destination
+    // START / ADDRESS MODE → every stop is a waypoint; directions finish at the origin / the address
+    const route =
+      end.mode === "start" ? [...stops, origin] : end.mode === "address" ? [...stops, end.address] : stops;
+
+    // Transit directions can't take waypoints, so hand off one leg at a time (the next stop).
+    const url = directionsUrl(origin, route, readTravelMode(), isProbablyIOS());
 
     window.open(url, "_blank", "noopener,noreferrer");
   }
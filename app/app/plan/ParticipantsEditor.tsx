@@ -0,0 +1,99 @@
+// app/app/plan/ParticipantsEditor.tsx
+"use client";
+
+import { useState } from "react";
+import { MAX_PARTICIPANTS, newParticipantId, type Participant } from "@/app/lib/participants";
+
+const chip = "rounded-full border border-white/12 bg-black/35 px-2.5 py-0.5 text-xs text-zinc-200";
+
+function shortDate(iso: string) {
+  if (!iso) return "birthday not set";
+  const d = new Date(`${iso}T00:00:00`);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/** "Birthday people" on the plan: the user plus anyone sharing the trip (twins, a partner). */
+export default function ParticipantsEditor({
+  participants,
+  selfBirthday,
+  editable,
+  onChange,
+}: {
+  participants: Participant[];
+  selfBirthday: string;
+  editable: boolean;
+  onChange: (next: Participant[]) => void;
+}) {
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [birthday, setBirthday] = useState("");
+
+  function add() {
+    if (!name.trim()) return;
+    onChange([...participants, { id: newParticipantId(), name: name.trim(), birthday }]);
+    setName("");
+    setBirthday("");
+    setAdding(false);
+  }
+
+  if (!editable && !participants.length) return null;
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2">
+      <span className="text-xs text-zinc-500">Birthdays:</span>
+      <span className={chip}>
+        You <span className="text-zinc-500">· {shortDate(selfBirthday)}</span>
+      </span>
+      {participants.map((p) => (
+        <span key={p.id} className={chip}>
+          {p.name} <span className="text-zinc-500">· {shortDate(p.birthday)}</span>
+          {editable ? (
+            <button
+              onClick={() => onChange(participants.filter((x) => x.id !== p.id))}
+              title={`Remove ${p.name}`}
+              className="ml-1.5 text-zinc-500 hover:text-zinc-200"
+            >
+              ×
+            </button>
+          ) : null}
+        </span>
+      ))}
+
+      {editable && adding ? (
+        <form
+          className="flex flex-wrap items-center gap-1.5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            add();
+          }}
+        >
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            maxLength={40}
+            className="w-28 rounded-full border border-white/12 bg-black/45 px-3 py-0.5 text-xs text-zinc-100 outline-none placeholder:text-zinc-500"
+          />
+          <input
+            type="date"
+            value={birthday}
+            onChange={(e) => setBirthday(e.target.value)}
+            aria-label="Birthday"
+            className="rounded-full border border-white/12 bg-black/45 px-3 py-0.5 text-xs text-zinc-100 outline-none"
+          />
+          <button type="submit" disabled={!name.trim()} className={`${chip} hover:bg-white/5 disabled:opacity-50`}>
+            Add
+          </button>
+          <button type="button" onClick={() => setAdding(false)} className={`${chip} hover:bg-white/5`}>
+            Cancel
+          </button>
+        </form>
+      ) : editable && participants.length < MAX_PARTICIPANTS ? (
+        <button onClick={() => setAdding(true)} className={`${chip} hover:bg-white/5`}>
+          + Birthday person
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,3121 @@
+// app/app/plan/PlanClient.tsx
+"use client";
+
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import {
+  DEFAULT_SERVICE_MINUTES,
+  dealValueLabel,
+  formatUsd,
+  type Deal as CatalogDeal,
+  type DealValue,
+  type RedemptionWindow,
+} from "@/app/lib/deals";
+import { isRedeemableToday, windowBadgeText, windowInfo, windowLabel } from "@/app/lib/birthdayWindow";
+import OpenRouteButton from "./OpenRouteButton";
+import RouteMap, { type MapStop } from "./RouteMap";
+import { EXPORT_FORMATS, downloadText, routeFile, type ExportFormat, type ExportStop } from "@/app/lib/routeExport";
+import type { RouteShareSnapshot } from "@/app/lib/routeShare";
+import { encodePolyline } from "@/app/lib/routing/http";
+import { supabase } from "@/app/lib/supabaseClient";
+import { clearSuggestion, fetchPlanGroup, subscribePlanGroup, type PlanGroup } from "@/app/lib/planGroups";
+import { SELF_PARTICIPANT, riders, stopRiders, type Participant } from "@/app/lib/participants";
+import { notifyNextStop } from "@/app/lib/push";
+import {
+  LAST_ROUTE_KEY,
+  PLAN_SYNCED_EVENT,
+  PLAN_UPDATED_EVENT,
+  activePlanId,
+  listPlans,
+  planRole,
+  readPlanCache,
+  saveClaimedIds,
+  saveDestinationId,
+  saveParticipantClaims,
+  saveParticipants,
+  savePlanIds,
+  saveRouteEnd,
+  saveRouteOrder,
+  saveRouteStats,
+  saveServiceMinutes,
+  saveSkippedIds,
+  syncPlan,
+  type RouteEnd,
+  type RouteEndMode,
+} from "@/app/lib/planSync";
+import PlanSwitcher from "./PlanSwitcher";
+import PlanGroupPanel from "./PlanGroupPanel";
+import ParticipantsEditor from "./ParticipantsEditor";
+import { usePlans } from "@/app/app/components/usePlans";
+import {
+  EXCLUDED_STORES_UPDATED_EVENT,
+  fetchExcludedStores,
+  readExcludedStores,
+  setStoreExcluded,
+  storeKey,
+  type ExcludedStore,
+} from "@/app/lib/excludedStores";
+import {
+  PINNED_STORES_UPDATED_EVENT,
+  fetchPinnedStores,
+  readPinnedStores,
+  samePinnedStore,
+  savePinnedStore,
+  type PinnedStore,
+} from "@/app/lib/pinnedStores";
+import {
+  CLAIM_EVENTS_UPDATED_EVENT,
+  claimKey,
+  currentBirthdayYear,
+  fetchClaimEvents,
+  latestClaims,
+  recordClaimEvent,
+  undoClaimEvent,
+  updateClaimValue,
+  type ClaimEvent,
+} from "@/app/lib/claimHistory";
+import ClaimValueInput from "@/app/app/components/ClaimValueInput";
+import {
+  DEFAULT_TRAVEL_MODE,
+  normalizeTravelMode,
+  readTravelMode,
+  travelModeLabel,
+  writeTravelMode,
+  type TravelMode,
+} from "@/app/lib/travelMode";
+
+type Deal = {
+  id: string;
+  name: string;
+  city?: string;
+  type?: string;
+  freebie?: string;
+  conditions?: string;
+  link?: string;
+  // optional (some of your deals may have this)
+  mapQuery?: string;
+  redemptionWindow?: RedemptionWindow;
+  serviceMinutes?: number;
+  estimatedValue?: DealValue;
+};
+
+type OptimizeResp = {
+  orderedIds?: string[];
+  destinationId?: string;
+  optimized?: boolean;
+  note?: string;
+  routeDistance_m?: number;
+  routeDuration_s?: number;
+  resolvedStops?: ResolvedStop[];
+  departAt?: string;
+  schedule?: StopTime[];
+  unreachable?: { id: string; reason: UnreachableReason }[];
+  totalDuration_s?: number;
+  budget?: BudgetResult;
+  startUsed?: LatLon;
+  endMode?: RouteEndMode;
+  endUsed?: LatLon;
+  geometry?: [number, number][] | null;
+  legs?: RouteLeg[];
+};
+
+/** Travel between consecutive route points; fromId null = start, toId null = the end when it isn't a stop. */
+type RouteLeg = { fromId: string | null; toId: string | null; distance_m?: number; duration_s?: number; polyline?: string };
+
+type LatLon = { lat: number; lon: number };
+
+/** Start, end and road path of the last optimized route, for the map. */
+type RouteShape = { start: LatLon | null; end: LatLon | null; geometry: [number, number][] | null };
+
+/** Another store of the same brand, from the API; any of them can be pinned for the deal. */
+type StoreCandidate = PinnedStore & { dist_mi: number };
+
+type ResolvedStop = {
+  id: string;
+  lat: number;
+  lon: number;
+  placeId?: string;
+  label?: string;
+  candidates?: StoreCandidate[];
+};
+
+type StopTime = {
+  id: string;
+  arriveAt: string;
+  leaveAt: string;
+  wait_min: number;
+  service_min: number;
+  openUntil?: string;
+};
+
+type BudgetResult = {
+  budget_s: number;
+  total_s?: number;
+  exceeded: boolean;
+  suggestedIds?: string[];
+  suggestedTotal_s?: number;
+};
+
+const DWELL_CHOICES = [0, 5, 10, 15, 20, 30, 45, 60, 90];
+const BUDGET_CHOICES_MIN = [60, 90, 120, 180, 240, 360, 480];
+
+type UnreachableReason = "closed" | "not_open_on_arrival" | "closed_on_arrival";
+
+const UNREACHABLE_LABEL: Record<UnreachableReason, string> = {
+  closed: "Closed today",
+  not_open_on_arrival: "Closed by the time you get there",
+  closed_on_arrival: "Closed when you arrive",
+};
+
+type PreviewResp = {
+  preview?: boolean;
+  suggestedDestinationId?: string;
+  stops?: (ResolvedStop & { dist_mi: number; eta_min?: number })[];
+  note?: string;
+};
+
+const ZIP_KEY = "bs_zip";
+const START_KEY = "bs_start";
+const START_MODE_KEY = "bs_start_mode"; // "geo" | "zip"
+
+const DEST_PROMPT_OFF_KEY = "bs_dest_prompt_off";
+
+
+const AUTO_ADVANCE_OPEN_KEY = "bs_auto_advance_open_maps";
+const ROUTE_OUT_OF_WINDOW_KEY = "bs_route_out_of_window";
+const DEPART_AT_KEY = "bs_depart_at"; // datetime-local value; empty = leave now
+const BUDGET_KEY = "bs_time_budget_min"; // empty = no budget
+const RESOLVED_KEY = "bs_resolved_stops";
+const SHOW_MAP_KEY = "bs_show_map"; // "0" = map hidden
+
+const PROFILE_UPDATED_EVENT = "bs_profile_updated";
+
+function readResolvedCoords(): Record<string, LatLon> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RESOLVED_KEY) || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Details of the last optimize that only this device keeps, so the route still shows offline. */
+type SavedRoute = {
+  orderedIds: string[];
+  schedule: Record<string, StopTime>;
+  unreachable: { id: string; reason: UnreachableReason }[];
+  legs: RouteLeg[];
+  shape: RouteShape | null;
+  totalS: number | null;
+  budget: BudgetResult | null;
+};
+
+/** The saved route, if it's still the plan's route (same order). */
+function readSavedRoute(routeOrder: string[]): SavedRoute | null {
+  try {
+    const r = JSON.parse(localStorage.getItem(LAST_ROUTE_KEY) || "null");
+    if (!r || !Array.isArray(r.orderedIds) || !routeOrder.length) return null;
+    return r.orderedIds.join(",") === routeOrder.join(",") ? (r as SavedRoute) : null;
+  } catch {
+    return null;
+  }
+}
+
+function readBool(key: string): boolean {
+  try {
+    return localStorage.getItem(key) === "true";
+  } catch {
+    return false;
+  }
+}
+
+function writeBool(key: string, val: boolean) {
+  localStorage.setItem(key, val ? "true" : "false");
+}
+
+function formatWhen(ts: number) {
+  const d = new Date(ts);
+  return d.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatClock(iso: string) {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+/** Saved departure time, dropped once it's in the past. */
+function readDepartAt(): string {
+  try {
+    const v = localStorage.getItem(DEPART_AT_KEY) || "";
+    return v && new Date(v).getTime() > Date.now() ? v : "";
+  } catch {
+    return "";
+  }
+}
+
+function readBudgetMin(): number | null {
+  try {
+    const n = Number(localStorage.getItem(BUDGET_KEY));
+    return Number.isFinite(n) && n > 0 ? n : null;
+  } catch {
+    return null;
+  }
+}
+
+/** "45 min", "2 h", "2 h 15 min" */
+function formatMinutes(totalMin: number) {
+  const m = Math.round(totalMin);
+  if (m < 60) return `${m} min`;
+  const h = Math.floor(m / 60);
+  const rest = m % 60;
+  return rest ? `${h} h ${rest} min` : `${h} h`;
+}
+
+function metersToMiles(m: number) {
+  return m / 1609.34;
+}
+
+function secondsToMinutes(s: number) {
+  return Math.max(1, Math.round(s / 60));
+}
+
+function nearestPoint(points: [number, number][], at: LatLon, from = 0) {
+  let best = from;
+  let bestD = Infinity;
+  for (let i = from; i < points.length; i++) {
+    const d = (points[i][0] - at.lat) ** 2 + (points[i][1] - at.lon) ** 2;
+    if (d < bestD) {
+      best = i;
+      bestD = d;
+    }
+  }
+  return best;
+}
+
+/** The part of the route line between the first and the last stop, so it doesn't give away the start or end. */
+function trimToStops(geometry: [number, number][], first: LatLon, last: LatLon): [number, number][] | null {
+  const from = nearestPoint(geometry, first);
+  const to = nearestPoint(geometry, last, from);
+  return to > from ? geometry.slice(from, to + 1) : null;
+}
+
+function isProbablyIOS() {
+  if (typeof navigator === "undefined") return false;
+  return /iPhone|iPad|iPod/i.test(navigator.userAgent);
+}
+
+function openPlaceInMaps(query: string) {
+  const q = encodeURIComponent(query);
+  const url = isProbablyIOS()
+    ? `https://maps.apple.com/?q=${q}`
+    : `https://www.google.com/maps/search/?api=1&query=${q}`;
+  window.open(url, "_blank", "noopener,noreferrer");
+}
+
+async function copyText(text: string): Promise<boolean> {
+  try {
+    if (navigator.clipboard?.writeText) {
+      await navigator.clipboard.writeText(text);
+      return true;
+    }
+  } catch {}
+
+  try {
+    const ta = document.createElement("textarea");
+    ta.value = text;
+    ta.style.position = "fixed";
+    ta.style.left = "-9999px";
+    ta.style.top = "0";
+    document.body.appendChild(ta);
+    ta.focus();
+    ta.select();
+    const ok = document.execCommand("copy");
+    document.body.removeChild(ta);
+    return ok;
+  } catch {
+    return false;
+  }
+}
+
+function tryConfetti() {
+  try {
+    const w = window as any;
+    if (typeof w.confetti === "function") {
+      w.confetti({ particleCount: 90, spread: 55, origin: { y: 0.7 } });
+    }
+  } catch {}
+}
+
+function normalizeZip(input: string) {
+  return input.replace(/\D/g, "").slice(0, 5);
+}
+
+/** ✅ Pull zip + birthday + travel mode from Supabase profiles (per-user) */
+async function fetchProfileFromDB(): Promise<{ zip: string; birthday: string; travelMode: TravelMode | null }> {
+  const { data } = await supabase.auth.getUser();
+  const user = data.user;
+  if (!user) return { zip: "", birthday: "", travelMode: null };
+
+  const { data: p, error } = await supabase
+    .from("profiles")
+    .select("zip,birthday,travel_mode")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (error) return { zip: "", birthday: "", travelMode: null };
+  const z = typeof p?.zip === "string" ? p.zip : "";
+  const b = typeof p?.birthday === "string" ? p.birthday : "";
+  const t = p?.travel_mode ? normalizeTravelMode(p.travel_mode) : null;
+  return { zip: z || "", birthday: b, travelMode: t };
+}
+
+/** ✅ Write zip to Supabase profiles (per-user) */
+async function saveZipToDB(nextZip: string) {
+  const { data } = await supabase.auth.getUser();
+  const user = data.user;
+  if (!user) return;
+
+  await supabase.from("profiles").upsert(
+    {
+      user_id: user.id,
+      zip: nextZip || null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" }
+  );
+}
+
+function Pill({
+  children,
+  tone = "neutral",
+}: {
+  children: ReactNode;
+  tone?: "neutral" | "good" | "warn";
+}) {
+  const cls =
+    tone === "good"
+      ? "border-emerald-300/18 bg-black/35 text-emerald-100"
+      : tone === "warn"
+      ? "border-amber-300/18 bg-black/35 text-amber-100"
+      : "border-white/14 bg-black/35 text-zinc-200";
+
+  return (
+    <span className={`inline-flex items-center rounded-full border px-2.5 py-1 text-[11px] leading-none ${cls}`}>
+      {children}
+    </span>
+  );
+}
+
+function IconDot({ on }: { on: boolean }) {
+  return (
+    <span
+      className={`inline-block h-2 w-2 rounded-full ${
+        on ? "bg-emerald-200/80 shadow-[0_0_16px_rgba(16,185,129,0.35)]" : "bg-white/15"
+      }`}
+    />
+  );
+}
+
+function LocationGlyph() {
+  return (
+    <span className="grid place-items-center h-8 w-8 rounded-full border border-emerald-200/22 bg-black/25 shadow-[0_0_38px_rgba(16,185,129,0.12)]">
+      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" aria-hidden>
+        <path
+          d="M12 21s7-4.4 7-11a7 7 0 1 0-14 0c0 6.6 7 11 7 11Z"
+          stroke="rgba(167,243,208,0.95)"
+          strokeWidth="1.6"
+        />
+        <circle cx="12" cy="10" r="2.3" stroke="rgba(167,243,208,0.95)" strokeWidth="1.6" />
+      </svg>
+    </span>
+  );
+}
+
+/**
+ * Brand logo mapping (uses /public/brands/*.png)
+ */
+function getBrandLogoSrc(d: Deal): string | null {
+  const id = (d.id || "").toLowerCase();
+  const name = (d.name || "").toLowerCase();
+
+  const rules: Array<[RegExp, string]> = [
+    [/starbucks/, "/brands/starbucks1.png"],
+    [/chipotle/, "/brands/chipotle1.png"],
+    [/krispy|krispykreme/, "/brands/krispy.png"],
+    [/nothingbundt|bundt/, "/brands/nothingbundt.png"],
+    [/panera/, "/brands/panera3.png"],
+    [/sephora/, "/brands/sephora.png"],
+  ];
+
+  for (const [rx, path] of rules) {
+    if (rx.test(id) || rx.test(name)) return path;
+  }
+  return null;
+}
+
+function brandBg(deal: Deal): string {
+  const id = (deal.id || "").toLowerCase();
+  const name = (deal.name || "").toLowerCase();
+  if (/starbucks/.test(id) || /starbucks/.test(name)) return "#006241";
+  if (/chipotle/.test(id) || /chipotle/.test(name)) return "#ffffff";
+  return "rgba(255,255,255,0.03)";
+}
+
+function brandZoom(deal: Deal): number {
+  const id = (deal.id || "").toLowerCase();
+  const name = (deal.name || "").toLowerCase();
+  if (/starbucks/.test(id) || /starbucks/.test(name)) return 1.06;
+  if (/chipotle/.test(id) || /chipotle/.test(name)) return 1.12;
+  return 1.08;
+}
+
+function BrandAvatar({
+  deal,
+  dim = false,
+  size = 40,
+}: {
+  deal: Deal;
+  dim?: boolean;
+  size?: number;
+}) {
+  const src = getBrandLogoSrc(deal);
+  const fx = dim ? "opacity-60 grayscale" : "";
+  if (!src) {
+    return (
+      <div
+        className={`grid place-items-center rounded-full border border-white/14 ring-1 ring-white/6 ${fx}`}
+        style={{ width: size, height: size, background: "rgba(255,255,255,0.03)" }}
+        aria-hidden
+        title={deal.name}
+      >
+        <span className="text-sm text-zinc-200">{(deal.name?.[0] || "?").toUpperCase()}</span>
+      </div>
+    );
+  }
+
+  const z = brandZoom(deal);
+
+  return (
+    <div
+      className={`relative rounded-full border border-white/14 ring-1 ring-white/6 overflow-hidden ${fx}`}
+      style={{ width: size, height: size, background: brandBg(deal) }}
+      aria-hidden
+      title={deal.name}
+    >
+      <Image
+        src={src}
+        alt=""
+        fill
+        className="object-cover object-center"
+        style={{ transform: `translateY(1.3px) scale(${z})`, transformOrigin: "center" }}
+        sizes={`${size}px`}
+      />
+    </div>
+  );
+}
+
+/** Mock-style rail node */
+function RailNode({ variant }: { variant: "start" | "next" | "claimed" | "skipped" | "normal" }) {
+  const base = "relative mt-1 h-4 w-4 rounded-full";
+  const core = "absolute inset-0 rounded-full border";
+  const inner = "absolute inset-[5px] rounded-full";
+
+  if (variant === "next") {
+    return (
+      <div className={base} aria-hidden>
+        <div className="absolute -inset-4 rounded-full bg-emerald-300/10 blur-xl" />
+        <div className={`${core} border-emerald-200/40 bg-black/20`} />
+        <div className={`${inner} bg-emerald-200/95 shadow-[0_0_22px_rgba(16,185,129,0.55)]`} />
+      </div>
+    );
+  }
+
+  if (variant === "start") {
+    return (
+      <div className={base} aria-hidden>
+        <div className="absolute -inset-5 rounded-full bg-emerald-300/12 blur-xl" />
+        <div className="absolute -inset-2 rounded-full border border-emerald-200/25" />
+        <div className={`${core} border-emerald-200/35 bg-black/18`} />
+        <div className={`${inner} bg-emerald-200/80 shadow-[0_0_18px_rgba(16,185,129,0.40)]`} />
+      </div>
+    );
+  }
+
+  if (variant === "claimed") {
+    return (
+      <div className={base} aria-hidden>
+        <div className={`${core} border-emerald-200/18 bg-white/0`} />
+        <div className={`${inner} bg-emerald-200/45 shadow-[0_0_14px_rgba(16,185,129,0.25)]`} />
+      </div>
+    );
+  }
+
+  if (variant === "skipped") {
+    return (
+      <div className={base} aria-hidden>
+        <div className={`${core} border-white/14 bg-white/0`} />
+        <div className={`${inner} bg-white/10`} />
+      </div>
+    );
+  }
+
+  return (
+    <div className={base} aria-hidden>
+      <div className={`${core} border-white/14 bg-white/0`} />
+      <div className={`${inner} bg-white/12`} />
+    </div>
+  );
+}
+
+/**
+ * HERO LOGO (lockup) — matches your inspo.
+ */
+function BrandLockup() {
+  const candidates = [
+    "/brands/lockup.png",
+    "/lockup.png",
+    "/brand-lockup.png",
+    "/brand-lockup.webp",
+    "/brand-lockup.jpg",
+    "/logo-lockup.png",
+    "/logo.png",
+  ];
+
+  const [idx, setIdx] = useState(0);
+
+  if (idx >= candidates.length) return null;
+
+  return (
+    <div className="-mt-31 mb-6 -ml-2 sm:-ml-3">
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={candidates[idx]}
+        alt="BirthdayScout"
+        className="block h-[300px] sm:h-[360px] w-auto select-none drop-shadow-[0_28px_70px_rgba(0,0,0,0.70)]"
+        draggable={false}
+        onError={() => setIdx((v) => v + 1)}
+      />
+    </div>
+  );
+}
+
+export default function PlanClient({ deals }: { deals: CatalogDeal[] }) {
+  const [planIds, setPlanIds] = useState<string[]>([]);
+  const [claimedIds, setClaimedIds] = useState<string[]>([]);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [participantClaims, setParticipantClaims] = useState<Record<string, string[]>>({});
+  const [zip, setZip] = useState<string>("");
+  const [birthday, setBirthday] = useState<string>("");
+
+  const [destinationId, setDestinationId] = useState<string>("");
+  const [promptOff, setPromptOff] = useState<boolean>(false);
+
+  const [hasGPSStart, setHasGPSStart] = useState<boolean>(false);
+
+  const [lastOptimizedAt, setLastOptimizedAt] = useState<number | null>(null);
+  const [lastRouteDistanceM, setLastRouteDistanceM] = useState<number | null>(null);
+  const [lastRouteDurationS, setLastRouteDurationS] = useState<number | null>(null);
+  const [lastRouteOrder, setLastRouteOrder] = useState<string[]>([]);
+  const [departAt, setDepartAt] = useState<string>("");
+  const [schedule, setSchedule] = useState<Record<string, StopTime>>({});
+  const [unreachable, setUnreachable] = useState<{ id: string; reason: UnreachableReason }[]>([]);
+  const [legs, setLegs] = useState<RouteLeg[]>([]);
+  const [serviceOverrides, setServiceOverrides] = useState<Record<string, number>>({});
+  const [claimEvents, setClaimEvents] = useState<Map<string, ClaimEvent>>(new Map()); // this birthday's, by claimKey
+  const [pinnedStores, setPinnedStores] = useState<Record<string, PinnedStore>>({});
+  const [storeOptions, setStoreOptions] = useState<Record<string, StoreCandidate[]>>({});
+  const [currentStores, setCurrentStores] = useState<Record<string, PinnedStore>>({}); // last resolved, per stop
+  const [excludedStores, setExcludedStores] = useState<ExcludedStore[]>([]);
+  const [resolvedCoords, setResolvedCoords] = useState<Record<string, LatLon>>({});
+  const [routeShape, setRouteShape] = useState<RouteShape | null>(null);
+  const [showMap, setShowMap] = useState<boolean>(true);
+  const [budgetMin, setBudgetMin] = useState<number | null>(null);
+  const [travelMode, setTravelMode] = useState<TravelMode>(DEFAULT_TRAVEL_MODE);
+  const [routeTotalS, setRouteTotalS] = useState<number | null>(null);
+  const [budgetResult, setBudgetResult] = useState<BudgetResult | null>(null);
+
+  const [skippedIds, setSkippedIds] = useState<string[]>([]);
+  const [autoOpenMaps, setAutoOpenMaps] = useState<boolean>(false);
+  const [routeOutOfWindow, setRouteOutOfWindow] = useState<boolean>(false);
+
+  const [error, setError] = useState<string>("");
+  const [status, setStatus] = useState<string>("");
+
+  const [optimizing, setOptimizing] = useState<boolean>(false);
+  const [shareBusy, setShareBusy] = useState<boolean>(false);
+  const [showShareMenu, setShowShareMenu] = useState<boolean>(false);
+  const [shareIncludeStart, setShareIncludeStart] = useState<boolean>(false); // opt-in: start + custom end in links
+  const [group, setGroup] = useState<PlanGroup | null>(null);
+
+  const { plans, activeId } = usePlans();
+  const role = planRole(plans.find((p) => p.id === activeId));
+  const canEdit = role !== "viewer";
+  const isGroupPlan = role !== "owner" || (group?.members.length ?? 0) > 1;
+
+  const [routeEnd, setRouteEnd] = useState<RouteEnd>({ mode: "stop", address: "" });
+
+  // route end modal
+  const [showDestModal, setShowDestModal] = useState<boolean>(false);
+  const [modalChoice, setModalChoice] = useState<string>("");
+  const [modalEndMode, setModalEndMode] = useState<RouteEndMode>("stop");
+  const [modalAddress, setModalAddress] = useState<string>("");
+  const [modalDistances, setModalDistances] = useState<Record<string, number>>({});
+  const [modalEtas, setModalEtas] = useState<Record<string, number>>({});
+  const [loadingPreview, setLoadingPreview] = useState<boolean>(false);
+
+  useEffect(() => {
+    const cached = readPlanCache();
+    setPlanIds(cached.planIds);
+    setClaimedIds(Object.keys(cached.claimedAt));
+    setParticipants(cached.participants);
+    setParticipantClaims(cached.participantClaims);
+
+    setDestinationId(cached.destinationId);
+    setPromptOff(readBool(DEST_PROMPT_OFF_KEY));
+
+    setLastOptimizedAt(cached.routeStats.optimizedAt);
+    setLastRouteDistanceM(cached.routeStats.distance_m);
+    setLastRouteDurationS(cached.routeStats.duration_s);
+    setLastRouteOrder(cached.routeOrder);
+
+    const saved = readSavedRoute(cached.routeOrder);
+    setSchedule(saved?.schedule ?? {});
+    setUnreachable(saved?.unreachable ?? []);
+    setLegs(saved?.legs ?? []);
+    setRouteShape(saved?.shape ?? null);
+    setRouteTotalS(saved?.totalS ?? null);
+    setBudgetResult(saved?.budget ?? null);
+
+    setSkippedIds(cached.skippedIds);
+    setAutoOpenMaps(readBool(AUTO_ADVANCE_OPEN_KEY));
+    setRouteOutOfWindow(readBool(ROUTE_OUT_OF_WINDOW_KEY));
+    setDepartAt(readDepartAt());
+    setBudgetMin(readBudgetMin());
+    setTravelMode(readTravelMode());
+    setServiceOverrides(cached.serviceMinutes);
+    setRouteEnd(cached.routeEnd);
+    setPinnedStores(readPinnedStores());
+    fetchPinnedStores().then(setPinnedStores);
+    setExcludedStores(readExcludedStores());
+    fetchExcludedStores().then(setExcludedStores);
+    setResolvedCoords(readResolvedCoords());
+    setShowMap(localStorage.getItem(SHOW_MAP_KEY) !== "0");
+
+    try {
+      const raw = localStorage.getItem(START_KEY);
+      if (raw) {
+        const s = JSON.parse(raw);
+        if (typeof s?.lat === "number" && typeof s?.lon === "number") setHasGPSStart(true);
+      }
+    } catch {}
+
+    // ✅ DB-first zip (per-user). Fallback to localStorage if DB empty.
+    (async () => {
+      const { zip: dbZip, birthday: dbBirthday, travelMode: dbTravelMode } = await fetchProfileFromDB();
+      setBirthday(dbBirthday);
+      if (dbTravelMode) {
+        setTravelMode(dbTravelMode);
+        writeTravelMode(dbTravelMode);
+      }
+      if (dbZip) {
+        setZip(dbZip);
+        try {
+          localStorage.setItem(ZIP_KEY, dbZip);
+        } catch {}
+      } else {
+        setZip(localStorage.getItem(ZIP_KEY) || "");
+      }
+    })();
+  }, []);
+
+  // ✅ Another device changed the plan (cache was refreshed from Supabase) or the user
+  // switched plans → reload it.
+  useEffect(() => {
+    function onPlanSynced() {
+      const cached = readPlanCache();
+      setPlanIds(cached.planIds);
+      setClaimedIds(Object.keys(cached.claimedAt));
+      setParticipants(cached.participants);
+      setParticipantClaims(cached.participantClaims);
+      setSkippedIds(cached.skippedIds);
+      setDestinationId(cached.destinationId);
+      setLastRouteOrder(cached.routeOrder);
+      setLastOptimizedAt(cached.routeStats.optimizedAt);
+      setLastRouteDistanceM(cached.routeStats.distance_m);
+      setLastRouteDurationS(cached.routeStats.duration_s);
+      setServiceOverrides(cached.serviceMinutes);
+      setRouteEnd(cached.routeEnd);
+      setResolvedCoords(readResolvedCoords());
+
+      const saved = readSavedRoute(cached.routeOrder);
+      setRouteShape(saved?.shape ?? null);
+      setSchedule(saved?.schedule ?? {});
+      setUnreachable(saved?.unreachable ?? []);
+      setLegs(saved?.legs ?? []);
+      setRouteTotalS(saved?.totalS ?? null);
+      setBudgetResult(saved?.budget ?? null);
+    }
+
+    window.addEventListener(PLAN_SYNCED_EVENT, onPlanSynced);
+    return () => window.removeEventListener(PLAN_SYNCED_EVENT, onPlanSynced);
+  }, []);
+
+  // Shared plan: members, who added which stop and their claims.
+  useEffect(() => {
+    if (!activeId) return;
+    let cancelled = false;
+    setGroup(null);
+    fetchPlanGroup(activeId).then((g) => {
+      if (!cancelled) setGroup(g);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeId]);
+
+  // ...kept live while others are on it. When someone else changed the stops or skips, pull the plan too.
+  useEffect(() => {
+    if (!activeId || !isGroupPlan) return;
+    let cancelled = false;
+
+    const unsubscribe = subscribePlanGroup(activeId, async () => {
+      const g = await fetchPlanGroup(activeId);
+      if (cancelled || !g) return;
+      setGroup(g);
+
+      const cached = readPlanCache();
+      const same = (a: string[], b: string[]) => a.length === b.length && a.every((id) => b.includes(id));
+      if (!same(g.stopIds, cached.planIds) || !same(g.skippedIds, cached.skippedIds)) await syncPlan();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [activeId, isGroupPlan]);
+
+  // This birthday's claims from the history, for the values the user corrected.
+  useEffect(() => {
+    let cancelled = false;
+    function load() {
+      fetchClaimEvents()
+        .then((events) => {
+          if (!cancelled) setClaimEvents(latestClaims(events, currentBirthdayYear()));
+        })
+        .catch(() => {});
+    }
+    load();
+
+    window.addEventListener(CLAIM_EVENTS_UPDATED_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CLAIM_EVENTS_UPDATED_EVENT, load);
+    };
+  }, [birthday]);
+
+  // Pinned or excluded stores changed (another tab, or the Supabase refresh).
+  useEffect(() => {
+    function onPinnedUpdated() {
+      setPinnedStores(readPinnedStores());
+    }
+    function onExcludedUpdated() {
+      setExcludedStores(readExcludedStores());
+    }
+
+    window.addEventListener(PINNED_STORES_UPDATED_EVENT, onPinnedUpdated);
+    window.addEventListener(EXCLUDED_STORES_UPDATED_EVENT, onExcludedUpdated);
+    return () => {
+      window.removeEventListener(PINNED_STORES_UPDATED_EVENT, onPinnedUpdated);
+      window.removeEventListener(EXCLUDED_STORES_UPDATED_EVENT, onExcludedUpdated);
+    };
+  }, []);
+
+  // ✅ When profile saves, refresh zip here too.
+  useEffect(() => {
+    async function refresh() {
+      const { zip: dbZip, birthday: dbBirthday, travelMode: dbTravelMode } = await fetchProfileFromDB();
+      setBirthday(dbBirthday);
+      if (dbTravelMode) {
+        setTravelMode(dbTravelMode);
+        writeTravelMode(dbTravelMode);
+      }
+      if (dbZip) {
+        setZip(dbZip);
+        try {
+          localStorage.setItem(ZIP_KEY, dbZip);
+        } catch {}
+      }
+    }
+
+    function onProfileUpdated() {
+      refresh();
+    }
+
+    window.addEventListener(PROFILE_UPDATED_EVENT, onProfileUpdated);
+    return () => window.removeEventListener(PROFILE_UPDATED_EVENT, onProfileUpdated);
+  }, []);
+
+  function buildStopQuery(name: string): string {
+    // Keep it clean. Backend finds nearest to start coords via OSM now.
+    return (name || "").trim();
+  }
+
+  useEffect(() => {
+    if (!destinationId) return;
+    if (!planIds.includes(destinationId)) {
+      setDestinationId("");
+      saveDestinationId("");
+    }
+  }, [planIds, destinationId]);
+
+  useEffect(() => {
+    if (skippedIds.length === 0) return;
+    const planSet = new Set(planIds);
+    const cleaned = skippedIds.filter((id) => planSet.has(id));
+    if (cleaned.length !== skippedIds.length) {
+      setSkippedIds(cleaned);
+      saveSkippedIds(cleaned);
+    }
+  }, [planIds, skippedIds]);
+
+  const dealsById = useMemo(() => new Map((deals as Deal[]).map((d) => [d.id, d])), [deals]);
+
+  const items: Deal[] = useMemo(
+    () => planIds.map((id) => dealsById.get(id)).filter(Boolean) as Deal[],
+    [planIds, dealsById]
+  );
+
+  const skippedSet = useMemo(() => new Set(skippedIds), [skippedIds]);
+
+  // Shared-birthday mode: every stop's freebie counts once per birthday person it's good for today.
+  // With no participants that's just the user, and a stop is claimed when the user claimed it.
+  const people = useMemo(() => riders(birthday, participants), [birthday, participants]);
+
+  const stopClaims = useMemo(() => {
+    const mine = new Set(claimedIds);
+    const out = new Map<string, { riders: Participant[]; claimed: Set<string> }>();
+    for (const d of items) {
+      const claimed = new Set(participantClaims[d.id] ?? []);
+      if (mine.has(d.id)) claimed.add(SELF_PARTICIPANT);
+      out.set(d.id, { riders: stopRiders(d, people, claimed), claimed });
+    }
+    return out;
+  }, [items, claimedIds, participantClaims, people]);
+
+  // stops every birthday person has claimed
+  const claimedSet = useMemo(() => {
+    const out = new Set<string>();
+    for (const [id, s] of stopClaims) if (s.riders.every((r) => s.claimed.has(r.id))) out.add(id);
+    return out;
+  }, [stopClaims]);
+
+  const activeItems: Deal[] = useMemo(() => {
+    if (items.length === 0) return [];
+    return items.filter((d) => !skippedSet.has(d.id));
+  }, [items, skippedSet]);
+
+  // Stops whose birthday window doesn't include today for anyone (only known once birthdays are set)
+  const outOfWindowSet = useMemo(() => {
+    return new Set(items.filter((d) => !people.some((p) => isRedeemableToday(d, p.birthday))).map((d) => d.id));
+  }, [items, people]);
+
+  // What actually gets sent to the optimizer
+  const routableItems: Deal[] = useMemo(() => {
+    if (routeOutOfWindow) return activeItems;
+    return activeItems.filter((d) => !outOfWindowSet.has(d.id));
+  }, [activeItems, outOfWindowSet, routeOutOfWindow]);
+
+  function notEnoughRoutableMsg() {
+    const held = activeItems.length - routableItems.length;
+    return held > 0
+      ? `Only ${routableItems.length} stop${routableItems.length === 1 ? "" : "s"} can be redeemed today (${held} out of window). Need at least 2 to optimize.`
+      : "Unskip at least 2 stops to optimize.";
+  }
+
+  // ✅ EMPTY STATE FLAG
+  const hasAnyPlanned = items.length > 0;
+
+  // freebies: one per stop and birthday person
+  const { claimedCount, freebieCount } = useMemo(() => {
+    let claimed = 0;
+    let total = 0;
+    for (const s of stopClaims.values()) {
+      total += s.riders.length;
+      claimed += s.riders.filter((r) => s.claimed.has(r.id)).length;
+    }
+    return { claimedCount: claimed, freebieCount: total };
+  }, [stopClaims]);
+
+  // dollars: what's been claimed (corrected values where the user gave one) and what the plan is worth
+  const { savedUsd, possibleUsd } = useMemo(() => {
+    let saved = 0;
+    let possible = 0;
+    for (const d of items) {
+      const s = stopClaims.get(d.id);
+      if (!s) continue;
+      const estimate = d.estimatedValue?.usd ?? 0;
+      const worth = (who: string) =>
+        claimEvents.get(claimKey(d.id, who === SELF_PARTICIPANT ? null : who))?.valueUsd ?? estimate;
+
+      for (const who of s.claimed) saved += worth(who);
+      possible += s.riders.filter((r) => !s.claimed.has(r.id)).length * estimate;
+    }
+    return { savedUsd: saved, possibleUsd: saved + possible };
+  }, [items, stopClaims, claimEvents]);
+
+  // Stops still to claim, best value for the time first: the freebies' estimate over the minutes they
+  // cost (time at the store plus the drive there on the last route). The bottom ones are what to drop
+  // when the day is short.
+  const valueRanking = useMemo(() => {
+    const driveMin = new Map<string, number>();
+    for (const leg of legs) if (leg.toId && typeof leg.duration_s === "number") driveMin.set(leg.toId, leg.duration_s / 60);
+
+    return routableItems
+      .filter((d) => d.estimatedValue && !claimedSet.has(d.id))
+      .map((d) => {
+        const s = stopClaims.get(d.id);
+        const open = s ? s.riders.filter((r) => !s.claimed.has(r.id)).length : 1;
+        const value = (d.estimatedValue?.usd ?? 0) * Math.max(1, open);
+        const minutes = (serviceOverrides[d.id] ?? d.serviceMinutes ?? DEFAULT_SERVICE_MINUTES) + (driveMin.get(d.id) ?? 0);
+        return { deal: d, value, minutes, perMinute: value / Math.max(1, minutes) };
+      })
+      .sort((a, b) => b.perMinute - a.perMinute);
+  }, [routableItems, claimedSet, stopClaims, legs, serviceOverrides]);
+
+  const pct = freebieCount ? Math.round((claimedCount / freebieCount) * 100) : 0;
+  const progressPct = Math.min(100, Math.max(0, pct));
+  const glowT = progressPct / 100;
+
+  const progShadow = `0 0 ${12 + 34 * glowT}px rgba(16,185,129,${0.14 + 0.38 * glowT}),
+                    0 0 ${5 + 16 * glowT}px rgba(16,185,129,${0.24 + 0.52 * glowT})`;
+
+  const progBg = `linear-gradient(90deg,
+  rgba(16,185,129,${0.20 + 0.18 * glowT}) 0%,
+  rgba(16,185,129,${0.46 + 0.34 * glowT}) 60%,
+  rgba(167,243,208,${0.58 + 0.30 * glowT}) 100%
+)`;
+
+  function dispatchPlanUpdated() {
+    window.dispatchEvent(new Event(PLAN_UPDATED_EVENT));
+  }
+
+  // ✅ Update zip locally + in DB + notify other pages
+  function saveZip(next: string) {
+    const z = normalizeZip(next);
+    setZip(z);
+
+    try {
+      localStorage.setItem(ZIP_KEY, z);
+
+      // ✅ force ZIP mode when user types a ZIP
+      localStorage.setItem(START_MODE_KEY, "zip");
+
+      // ✅ clear cached GPS start so nothing leaks
+      localStorage.removeItem(START_KEY);
+      setHasGPSStart(false);
+
+      // ✅ ZIP changed → clear cached resolved stops + old route stats/order
+      localStorage.removeItem(RESOLVED_KEY);
+      localStorage.removeItem(LAST_ROUTE_KEY);
+      setResolvedCoords({});
+      setRouteShape(null);
+      setLegs([]);
+      saveRouteOrder([]);
+      saveRouteStats(null);
+
+      setLastRouteOrder([]);
+      setLastOptimizedAt(null);
+      setLastRouteDistanceM(null);
+      setLastRouteDurationS(null);
+    } catch {}
+
+    // fire-and-forget DB save (so Profile stays in sync too)
+    (async () => {
+      try {
+        await saveZipToDB(z);
+        window.dispatchEvent(new Event(PROFILE_UPDATED_EVENT));
+      } catch {}
+    })();
+  }
+
+  async function useMyLocation() {
+    setError("");
+    setStatus("");
+
+    if (!navigator.geolocation) {
+      setError("Geolocation not supported in this browser.");
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        const lat = pos.coords.latitude;
+        const lon = pos.coords.longitude;
+        localStorage.setItem(START_KEY, JSON.stringify({ lat, lon }));
+
+        // ✅ force geo mode
+        localStorage.setItem(START_MODE_KEY, "geo");
+
+        setHasGPSStart(true);
+        setStatus("Using current location (GPS).");
+        setError("");
+      },
+      (err) => {
+        // ✅ clear any stale GPS so we fall back to ZIP
+        try {
+          localStorage.removeItem(START_KEY);
+
+          // ✅ ZIP mode (so optimize uses the zip)
+          localStorage.setItem(START_MODE_KEY, "zip");
+        } catch {}
+
+        setHasGPSStart(false);
+
+        const msg = err?.message || "Could not access your location.";
+        setError(`Location not available. Using ZIP instead. (${msg})`);
+      },
+      { enableHighAccuracy: true, timeout: 12000 }
+    );
+  }
+
+  function toggleSkipped(id: string) {
+    const set = new Set(skippedIds);
+    if (set.has(id)) set.delete(id);
+    else set.add(id);
+
+    const next = Array.from(set);
+    setSkippedIds(next);
+    saveSkippedIds(next);
+
+    if (id === destinationId && set.has(id) === true) {
+      setDestinationId("");
+      saveDestinationId("");
+      setStatus("Destination cleared (it was skipped).");
+    }
+  }
+
+  function serviceMinutesFor(d: Deal) {
+    return serviceOverrides[d.id] ?? d.serviceMinutes ?? DEFAULT_SERVICE_MINUTES;
+  }
+
+  function rememberStoreOptions(stops: ResolvedStop[]) {
+    const next: Record<string, StoreCandidate[]> = {};
+    const current: Record<string, PinnedStore> = {};
+    for (const s of stops) {
+      if (!s || typeof s.id !== "string") continue;
+      if (Array.isArray(s.candidates) && s.candidates.length) next[s.id] = s.candidates;
+      if (typeof s.lat === "number" && typeof s.lon === "number") {
+        current[s.id] = { lat: s.lat, lon: s.lon, placeId: s.placeId, label: s.label };
+      }
+    }
+    setStoreOptions((prev) => ({ ...prev, ...next }));
+    setCurrentStores((prev) => ({ ...prev, ...current }));
+  }
+
+  function excludedPayload() {
+    return excludedStores.map((x) => ({ lat: x.lat, lon: x.lon, placeId: x.placeId }));
+  }
+
+  // "Never route me here": the store this stop resolved to (or its pinned store)
+  function excludeCurrentStore(id: string) {
+    const store = pinnedStores[id] ?? currentStores[id];
+    if (!store) return;
+
+    const entry: ExcludedStore = { ...store, dealId: id };
+    setExcludedStores((prev) => [...prev.filter((x) => !samePinnedStore(x, store)), entry]);
+    setStoreOptions((prev) => ({ ...prev, [id]: (prev[id] ?? []).filter((o) => !samePinnedStore(o, store)) }));
+    setCurrentStores((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    if (samePinnedStore(pinnedStores[id], store)) pinStore(id, null);
+
+    setStatus("Store excluded. Optimize again to route to another one.");
+    setStoreExcluded(entry, true).catch((e: unknown) =>
+      setError(e instanceof Error ? e.message : "Could not save the excluded store for your account.")
+    );
+  }
+
+  function allowStore(store: ExcludedStore) {
+    setExcludedStores((prev) => prev.filter((x) => !samePinnedStore(x, store)));
+    setStatus("Store allowed again. Optimize to include it.");
+    setStoreExcluded(store, false).catch((e: unknown) =>
+      setError(e instanceof Error ? e.message : "Could not update the excluded stores for your account.")
+    );
+  }
+
+  function pinStore(id: string, store: PinnedStore | null) {
+    setPinnedStores((prev) => {
+      const next = { ...prev };
+      if (store) next[id] = store;
+      else delete next[id];
+      return next;
+    });
+    setStatus(
+      store
+        ? "Store pinned. Optimize again to update the route."
+        : "Back to the nearest store. Optimize again to update the route."
+    );
+    savePinnedStore(id, store).catch((e: unknown) =>
+      setError(e instanceof Error ? e.message : "Could not save the store for your account.")
+    );
+  }
+
+  function setServiceMinutes(id: string, minutes: number | null) {
+    setServiceOverrides((prev) => {
+      const next = { ...prev };
+      if (minutes === null) delete next[id];
+      else next[id] = minutes;
+      return next;
+    });
+    saveServiceMinutes(id, minutes);
+  }
+
+  // Skip (for today) everything the budget-limited route left out.
+  function keepSuggestedStops() {
+    const keep = new Set(budgetResult?.suggestedIds ?? []);
+    if (!keep.size) return;
+
+    const drop = routableItems.filter((d) => !keep.has(d.id)).map((d) => d.id);
+    const next = Array.from(new Set([...skippedIds, ...drop]));
+    setSkippedIds(next);
+    saveSkippedIds(next);
+    setBudgetResult(null);
+    setStatus(`Skipped ${drop.length} stop${drop.length === 1 ? "" : "s"} to fit your time budget. Optimize again to update the route.`);
+  }
+
+  function clearSkipped() {
+    setSkippedIds([]);
+    saveSkippedIds([]);
+    setStatus("Cleared skipped stops.");
+  }
+
+  function removeFromPlan(id: string) {
+    setError("");
+    setStatus("");
+
+    const next = planIds.filter((x) => x !== id);
+    setPlanIds(next);
+    savePlanIds(next);
+
+    const nextClaimed = claimedIds.filter((x) => x !== id);
+    setClaimedIds(nextClaimed);
+    saveClaimedIds(nextClaimed);
+
+    if (participantClaims[id]) {
+      setParticipantClaims((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      saveParticipantClaims(id, []);
+    }
+
+    const nextSkipped = skippedIds.filter((x) => x !== id);
+    if (nextSkipped.length !== skippedIds.length) {
+      setSkippedIds(nextSkipped);
+      saveSkippedIds(nextSkipped);
+    }
+
+    if (destinationId === id) {
+      setDestinationId("");
+      saveDestinationId("");
+    }
+
+    if (lastRouteOrder.includes(id)) {
+      setLastRouteOrder([]);
+      saveRouteOrder([]);
+    }
+
+    dispatchPlanUpdated();
+  }
+
+  function addSuggestion(dealId: string) {
+    if (!planIds.includes(dealId)) {
+      const next = [...planIds, dealId];
+      setPlanIds(next);
+      savePlanIds(next);
+      dispatchPlanUpdated();
+    }
+    dismissSuggestion(dealId);
+  }
+
+  function dismissSuggestion(dealId: string) {
+    setGroup((g) => (g ? { ...g, suggestions: g.suggestions.filter((s) => s.dealId !== dealId) } : g));
+    clearSuggestion(activeId, dealId).catch(() => setError("Couldn’t update the suggestions. Try again."));
+  }
+
+  // ✅ FIXED: only ONE function, no Vegas hardcode
+  function openStopInMaps(d: Deal) {
+    const q = buildStopQuery((d.mapQuery || d.name) ?? d.name);
+    openPlaceInMaps(q);
+  }
+
+  function computeNextStop(prospectiveClaimed: Set<string>): Deal | null {
+    const candidates = routeSummary && routeSummary.length ? routeSummary : activeItems;
+    for (const d of candidates) {
+      if (!prospectiveClaimed.has(d.id) && !skippedSet.has(d.id)) return d;
+    }
+    return null;
+  }
+
+  /** Drive time along the last optimized route from one stop to a later one, or null when unknown. */
+  function minutesAlongRoute(fromId: string, toId: string): number | null {
+    const start = legs.findIndex((leg) => leg.fromId === fromId);
+    if (start < 0) return null;
+    let seconds = 0;
+    for (const leg of legs.slice(start)) {
+      if (typeof leg.duration_s !== "number") return null;
+      seconds += leg.duration_s;
+      if (leg.toId === toId) return seconds / 60;
+    }
+    return null;
+  }
+
+  /** Claim or unclaim a stop for one birthday person (the user by default). */
+  function toggleClaim(id: string, who: string = SELF_PARTICIPANT) {
+    const entry = stopClaims.get(id);
+    const claimed = new Set(entry?.claimed);
+    const wasClaimed = claimed.has(who);
+
+    if (wasClaimed) claimed.delete(who);
+    else claimed.add(who);
+
+    const participantId = who === SELF_PARTICIPANT ? null : who;
+    if (wasClaimed) {
+      undoClaimEvent(id, participantId);
+    } else {
+      const p = participantId ? participants.find((x) => x.id === participantId) : undefined;
+      recordClaimEvent({
+        dealId: id,
+        store: pinnedStores[id] ?? currentStores[id] ?? null,
+        participant: p ? { id: p.id, name: p.name } : null,
+      });
+    }
+
+    if (who === SELF_PARTICIPANT) {
+      const nextArr = wasClaimed ? claimedIds.filter((x) => x !== id) : [...claimedIds, id];
+      setClaimedIds(nextArr);
+      saveClaimedIds(nextArr);
+    } else {
+      const nextIds = Array.from(claimed).filter((x) => x !== SELF_PARTICIPANT);
+      setParticipantClaims((prev) => {
+        const next = { ...prev, [id]: nextIds };
+        if (!nextIds.length) delete next[id];
+        return next;
+      });
+      saveParticipantClaims(id, nextIds);
+    }
+
+    if (!wasClaimed) {
+      tryConfetti();
+      const waiting = (entry?.riders ?? []).filter((r) => !claimed.has(r.id)).map((r) => r.name);
+      if (waiting.length) {
+        setStatus(`Claimed ✅ Still to claim here: ${waiting.join(", ")}`);
+        return;
+      }
+
+      const nextStop2 = computeNextStop(new Set(claimedSet).add(id));
+      if (nextStop2) {
+        setStatus(`Claimed ✅ Next stop: ${nextStop2.name}`);
+        notifyNextStop(nextStop2.id, minutesAlongRoute(id, nextStop2.id));
+      } else {
+        setStatus("Claimed ✅ No next stop — everything is claimed or skipped 🎉");
+      }
+    }
+  }
+
+  /** Corrects what a claim on this stop was worth (the latest one in the history this birthday). */
+  async function saveClaimValue(id: string, who: string, valueUsd: number | null) {
+    const key = claimKey(id, who === SELF_PARTICIPANT ? null : who);
+    const event = claimEvents.get(key);
+    if (!event) return;
+    await updateClaimValue(event.id, valueUsd);
+    setClaimEvents((prev) => new Map(prev).set(key, { ...event, valueUsd }));
+  }
+
+  function resetClaimed() {
+    setClaimedIds([]);
+    saveClaimedIds([]);
+    for (const id of Object.keys(participantClaims)) saveParticipantClaims(id, []);
+    setParticipantClaims({});
+  }
+
+  function updateParticipants(next: Participant[]) {
+    setParticipants(next);
+    saveParticipants(next);
+    setParticipantClaims(readPlanCache().participantClaims);
+  }
+
+  function clearPlan() {
+    setPlanIds([]);
+    setClaimedIds([]);
+    savePlanIds([]);
+    saveClaimedIds([]);
+    for (const id of Object.keys(participantClaims)) saveParticipantClaims(id, []);
+    setParticipantClaims({});
+
+    setDestinationId("");
+    saveDestinationId("");
+
+    setLastOptimizedAt(null);
+    setLastRouteDistanceM(null);
+    setLastRouteDurationS(null);
+    saveRouteStats(null);
+    setSchedule({});
+    setUnreachable([]);
+    setLegs([]);
+    setRouteTotalS(null);
+    setBudgetResult(null);
+
+    setLastRouteOrder([]);
+    saveRouteOrder([]);
+
+    setSkippedIds([]);
+    saveSkippedIds([]);
+
+    localStorage.removeItem(RESOLVED_KEY);
+    localStorage.removeItem(LAST_ROUTE_KEY);
+    setResolvedCoords({});
+    setRouteShape(null);
+
+    dispatchPlanUpdated();
+  }
+
+  function setAsDestination(id: string) {
+    setDestinationId(id);
+    saveDestinationId(id);
+    if (routeEnd.mode !== "stop") updateRouteEnd({ ...routeEnd, mode: "stop" });
+    setStatus("Destination set.");
+    setError("");
+  }
+
+  function updateRouteEnd(next: RouteEnd) {
+    setRouteEnd(next);
+    saveRouteEnd(next);
+  }
+
+  function clearDestination() {
+    setDestinationId("");
+    saveDestinationId("");
+    setStatus("Destination cleared.");
+  }
+
+  function getStartPayload(): { startCoords?: { lat: number; lon: number }; startQuery?: string } | null {
+    const mode = localStorage.getItem(START_MODE_KEY) === "zip" ? "zip" : "geo";
+
+    // If user chose GEO mode, use GPS coords if present
+    if (mode === "geo") {
+      const raw = localStorage.getItem(START_KEY);
+      if (raw) {
+        try {
+          const s = JSON.parse(raw);
+          if (typeof s?.lat === "number" && typeof s?.lon === "number") {
+            return { startCoords: { lat: s.lat, lon: s.lon } };
+          }
+        } catch {}
+      }
+    }
+
+    // Otherwise, ZIP
+    const z = (localStorage.getItem(ZIP_KEY) || "").trim();
+    if (z) return { startQuery: z };
+
+    return null;
+  }
+
+  async function doOptimize(destOverride?: string, endOverride?: RouteEnd) {
+    const start = getStartPayload();
+    if (!start) {
+      setError('Set a start first: click "Use my location" or enter a ZIP.');
+      return;
+    }
+
+    if (routableItems.length < 2) {
+      setError(notEnoughRoutableMsg());
+      return;
+    }
+
+    // The server finds each store from the deal catalog (brand, else maps query)
+    const stops = routableItems.map((d) => ({
+      id: d.id,
+      dealId: d.id,
+      service_min: serviceMinutesFor(d),
+      pinned: pinnedStores[d.id],
+    }));
+
+    const destToSend =
+      (destOverride && planIds.includes(destOverride) ? destOverride : "") ||
+      (destinationId && planIds.includes(destinationId) ? destinationId : undefined);
+
+    const safeDestToSend =
+      destToSend && routableItems.some((d) => d.id === destToSend) ? destToSend : undefined;
+
+    const end = endOverride ?? routeEnd;
+
+    setOptimizing(true);
+    try {
+      const res = await fetch("/api/optimize-route", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...start,
+          destinationId: end.mode === "stop" ? safeDestToSend : undefined,
+          endMode: end.mode,
+          endQuery: end.mode === "address" ? end.address : undefined,
+          departAt: departAt ? new Date(departAt).toISOString() : undefined,
+          budget_min: budgetMin ?? undefined,
+          travelMode,
+          stops,
+          excluded: excludedPayload(),
+        }),
+      });
+
+      const data = (await res.json()) as OptimizeResp;
+
+      if (!res.ok || !data?.optimized || !Array.isArray(data?.orderedIds)) {
+        setError(data?.note || "Optimization failed.");
+        return;
+      }
+
+      setStatus(data.note || "Optimized ✅");
+      tryConfetti();
+
+      const times: Record<string, StopTime> = {};
+      for (const t of Array.isArray(data.schedule) ? data.schedule : []) times[t.id] = t;
+      const saved: SavedRoute = {
+        orderedIds: data.orderedIds,
+        schedule: times,
+        unreachable: Array.isArray(data.unreachable) ? data.unreachable : [],
+        legs: Array.isArray(data.legs) ? data.legs : [],
+        shape: {
+          start: data.startUsed ?? null,
+          end: data.endMode && data.endMode !== "stop" ? data.endUsed ?? null : null,
+          geometry: Array.isArray(data.geometry) ? data.geometry : null,
+        },
+        totalS: typeof data.totalDuration_s === "number" ? data.totalDuration_s : null,
+        budget: data.budget ?? null,
+      };
+      setSchedule(saved.schedule);
+      setUnreachable(saved.unreachable);
+      setLegs(saved.legs);
+      setRouteTotalS(saved.totalS);
+      setBudgetResult(saved.budget);
+      try {
+        localStorage.setItem(LAST_ROUTE_KEY, JSON.stringify(saved));
+      } catch {}
+
+      if (Array.isArray(data.resolvedStops)) {
+        rememberStoreOptions(data.resolvedStops);
+        const map: Record<string, { lat: number; lon: number }> = {};
+        for (const s of data.resolvedStops) {
+          if (s && typeof s.id === "string" && typeof s.lat === "number" && typeof s.lon === "number") {
+            map[s.id] = { lat: s.lat, lon: s.lon };
+          }
+        }
+        localStorage.setItem(RESOLVED_KEY, JSON.stringify(map));
+        setResolvedCoords(map);
+      }
+
+      setRouteShape(saved.shape);
+
+      if (data.destinationId && data.destinationId !== destinationId) {
+        setDestinationId(data.destinationId);
+        saveDestinationId(data.destinationId);
+      }
+
+      const orderedIds = data.orderedIds;
+
+// ✅ APPLY optimized order to the actual plan list (this updates the UI)
+setPlanIds((prev) => {
+  const orderedSet = new Set(orderedIds);
+
+  // keep anything not in the optimized route at the end (skipped, etc.)
+  const rest = prev.filter((id) => !orderedSet.has(id));
+
+  const finalOrder = [...orderedIds, ...rest];
+  savePlanIds(finalOrder);
+  dispatchPlanUpdated();
+  return finalOrder;
+});
+
+// keep route order for routeSummary/next stop UI
+setLastRouteOrder(orderedIds);
+saveRouteOrder(orderedIds);
+
+
+
+      setLastRouteOrder(orderedIds);
+      saveRouteOrder(orderedIds);
+
+const planSet = new Set(planIds);
+const cleaned = orderedIds.filter((id) => planSet.has(id));
+
+const remaining = planIds.filter((id) => !cleaned.includes(id));
+const finalOrder = [...cleaned, ...remaining];
+
+setPlanIds(finalOrder);
+savePlanIds(finalOrder);
+dispatchPlanUpdated();
+
+
+      const ts = Date.now();
+      setLastOptimizedAt(ts);
+
+      const dist = typeof data.routeDistance_m === "number" && isFinite(data.routeDistance_m) ? data.routeDistance_m : null;
+      const dur = typeof data.routeDuration_s === "number" && isFinite(data.routeDuration_s) ? data.routeDuration_s : null;
+      if (dist !== null) setLastRouteDistanceM(dist);
+      if (dur !== null) setLastRouteDurationS(dur);
+
+      // keep the previous numbers if the API didn't return new ones
+      saveRouteStats({
+        optimizedAt: ts,
+        distance_m: dist ?? lastRouteDistanceM,
+        duration_s: dur ?? lastRouteDurationS,
+      });
+    } catch (e: any) {
+      setError(e?.message || "Optimization error.");
+    } finally {
+      setOptimizing(false);
+    }
+  }
+
+  async function fetchPreviewAndOpenModal() {
+    const start = getStartPayload();
+    if (!start) {
+      setError('Set a start first: click "Use my location" or enter a ZIP.');
+      return;
+    }
+
+    if (routableItems.length < 2) {
+      setError(notEnoughRoutableMsg());
+      return;
+    }
+
+    // The server finds each store from the deal catalog (brand, else maps query)
+    const stops = routableItems.map((d) => ({
+      id: d.id,
+      dealId: d.id,
+      service_min: serviceMinutesFor(d),
+      pinned: pinnedStores[d.id],
+    }));
+
+    setLoadingPreview(true);
+    setModalDistances({});
+    setModalEtas({});
+    try {
+      const res = await fetch("/api/optimize-route", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...start, previewOnly: true, travelMode, stops, excluded: excludedPayload() }),
+      });
+
+      const data = (await res.json()) as PreviewResp;
+
+      if (!res.ok || !data?.preview || !Array.isArray(data?.stops)) {
+        setError(data?.note || "Could not compute preview.");
+        return;
+      }
+
+      rememberStoreOptions(data.stops);
+
+      const distMap: Record<string, number> = {};
+      const etaMap: Record<string, number> = {};
+
+      for (const s of data.stops) {
+        distMap[s.id] = s.dist_mi;
+        if (typeof s.eta_min === "number" && isFinite(s.eta_min)) etaMap[s.id] = s.eta_min;
+      }
+
+      setModalDistances(distMap);
+      setModalEtas(etaMap);
+
+      const suggested = data.suggestedDestinationId || routableItems[routableItems.length - 1]?.id || "";
+      setModalChoice(destinationId && routableItems.some((d) => d.id === destinationId) ? destinationId : suggested);
+      setModalEndMode(routeEnd.mode);
+      setModalAddress(routeEnd.address);
+      setShowDestModal(true);
+    } catch (e: any) {
+      setError(e?.message || "Preview error.");
+    } finally {
+      setLoadingPreview(false);
+    }
+  }
+
+  async function optimizeRoute() {
+    setError("");
+    setStatus("");
+
+    if (routableItems.length < 2) {
+      setError(notEnoughRoutableMsg());
+      return;
+    }
+
+    if (routeEnd.mode !== "stop" || (destinationId && routableItems.some((d) => d.id === destinationId))) {
+      await doOptimize();
+      return;
+    }
+
+    if (promptOff) {
+      await doOptimize();
+      return;
+    }
+
+    await fetchPreviewAndOpenModal();
+  }
+
+  async function confirmRouteEnd() {
+    const end: RouteEnd = { mode: modalEndMode, address: modalAddress.trim() };
+    if (end.mode === "address" && !end.address) {
+      setError("Enter an address to finish at.");
+      return;
+    }
+    if (end.mode === "stop" && !modalChoice) {
+      setError("Pick the stop to finish at.");
+      return;
+    }
+
+    setShowDestModal(false);
+    setError("");
+    updateRouteEnd(end);
+    if (end.mode === "stop") {
+      setDestinationId(modalChoice);
+      saveDestinationId(modalChoice);
+    }
+    await doOptimize(end.mode === "stop" ? modalChoice : undefined, end);
+  }
+
+  function togglePromptOff(v: boolean) {
+    setPromptOff(v);
+    writeBool(DEST_PROMPT_OFF_KEY, v);
+  }
+
+  const routeLine = useMemo(() => {
+    if (!lastRouteDurationS && !lastRouteDistanceM) return null;
+
+    const parts: string[] = [];
+    if (typeof lastRouteDurationS === "number") parts.push(`~${secondsToMinutes(lastRouteDurationS)} min`);
+    if (typeof lastRouteDistanceM === "number") parts.push(`${metersToMiles(lastRouteDistanceM).toFixed(1)} mi`);
+    return parts.join(" • ");
+  }, [lastRouteDurationS, lastRouteDistanceM]);
+
+  // "12 min to Chipotle, then 6 min to Cinnabon, then 9 min back to start"
+  const legsLine = useMemo(() => {
+    const parts = legs.map((leg) => {
+      const to =
+        leg.toId === null
+          ? routeEnd.mode === "start"
+            ? "back to start"
+            : "to the end"
+          : `to ${items.find((d) => d.id === leg.toId)?.name ?? "next stop"}`;
+      return typeof leg.duration_s === "number" ? `${formatMinutes(leg.duration_s / 60)} ${to}` : to;
+    });
+    return parts.length ? parts.join(", then ") : null;
+  }, [legs, items, routeEnd.mode]);
+
+  const routeSummary = useMemo(() => {
+    if (!lastRouteOrder || lastRouteOrder.length === 0) return null;
+
+    const byId = new Map<string, Deal>();
+    for (const d of deals as Deal[]) byId.set(d.id, d);
+
+    const orderedDeals = lastRouteOrder
+      .filter((id) => !skippedSet.has(id))
+      .map((id) => byId.get(id))
+      .filter(Boolean) as Deal[];
+
+    if (orderedDeals.length === 0) return null;
+    return orderedDeals;
+  }, [lastRouteOrder, skippedSet, deals]);
+
+  const nextStop: Deal | null = useMemo(() => {
+    const candidates = routeSummary && routeSummary.length ? routeSummary : activeItems;
+    for (const d of candidates) {
+      if (!claimedSet.has(d.id) && !skippedSet.has(d.id)) return d;
+    }
+    return null;
+  }, [routeSummary, activeItems, claimedSet, skippedSet]);
+
+  function openNextStop() {
+    if (!nextStop) return;
+    openStopInMaps(nextStop);
+  }
+
+  async function shareRoute() {
+    setShowShareMenu(false);
+    setError("");
+    setStatus("");
+
+    if (!routeSummary || routeSummary.length === 0) {
+      setError("Optimize first so we have a route to share.");
+      return;
+    }
+
+    setShareBusy(true);
+    try {
+      const z = (localStorage.getItem(ZIP_KEY) || "").trim();
+
+      const stops = routeSummary.map((d, i) => `${i + 1}. ${d.name}`).join("\n");
+      const stats = routeLine ? `Route: ${routeLine}` : "";
+      const destName =
+        routeEnd.mode === "start"
+          ? "back to start"
+          : routeEnd.mode === "address"
+          ? routeEnd.address
+          : destinationId && routeSummary.some((d) => d.id === destinationId)
+          ? routeSummary.find((d) => d.id === destinationId)?.name
+          : routeSummary[routeSummary.length - 1]?.name;
+
+      const text =
+        `BirthdayScout route\n` +
+        `${stats ? stats + "\n" : ""}` +
+        `${destName ? `Destination: ${destName}\n` : ""}` +
+        `${z ? `ZIP: ${z}\n` : ""}` +
+        `${skippedIds.length ? `Skipped today: ${skippedIds.length}\n` : ""}` +
+        `\nStops:\n${stops}`;
+
+      const ok = await copyText(text);
+      if (ok) setStatus("Copied route to clipboard ✅");
+      else setError("Could not copy (browser blocked clipboard).");
+    } finally {
+      setShareBusy(false);
+    }
+  }
+
+  /** Where the route starts, if we know the coordinates (last optimize, else the saved GPS start). */
+  function knownStart(): LatLon | null {
+    if (routeShape?.start) return routeShape.start;
+    try {
+      const raw = localStorage.getItem(START_KEY);
+      const parsed = raw ? JSON.parse(raw) : null;
+      if (typeof parsed?.lat === "number" && typeof parsed?.lon === "number") return parsed;
+    } catch {}
+    return null;
+  }
+
+  async function shareLink() {
+    setShowShareMenu(false);
+    setError("");
+    setStatus("");
+
+    if (!routeSummary || routeSummary.length === 0) {
+      setError("Optimize first so we have a route to share.");
+      return;
+    }
+
+    const start = shareIncludeStart ? knownStart() : null;
+    const coordsOf = (id: string): LatLon | undefined => pinnedStores[id] ?? resolvedCoords[id];
+    const stops = routeSummary.map((d) => {
+      const at = coordsOf(d.id);
+      return {
+        id: d.id,
+        name: d.name,
+        freebie: d.freebie,
+        ...(at ? { lat: at.lat, lon: at.lon } : {}),
+        label: pinnedStores[d.id]?.label,
+      };
+    });
+
+    // Without the opt-in the line runs from the first stop to the last, or isn't shared at all.
+    const first = coordsOf(stops[0].id);
+    const last = coordsOf(stops[stops.length - 1].id);
+    let geometry = routeShape?.geometry ?? null;
+    if (geometry && !shareIncludeStart) {
+      geometry = first && last && stops.length > 1 ? trimToStops(geometry, first, last) : null;
+    }
+
+    const snapshot: RouteShareSnapshot = {
+      title: listPlans().find((p) => p.id === activePlanId())?.name || "Birthday route",
+      stops,
+      destinationId: routeEnd.mode === "stop" && destinationId ? destinationId : null,
+      endMode: routeEnd.mode,
+      endAddress: shareIncludeStart && routeEnd.mode === "address" ? routeEnd.address : undefined,
+      start: start ? { lat: start.lat, lon: start.lon, label: startLabel } : undefined,
+      travelMode,
+      distance_m: lastRouteDistanceM,
+      duration_s: lastRouteDurationS,
+      total_s: routeTotalS,
+      polyline: geometry ? encodePolyline(geometry) : undefined,
+      optimizedAt: lastOptimizedAt ? new Date(lastOptimizedAt).toISOString() : null,
+    };
+
+    setShareBusy(true);
+    try {
+      const res = await fetch("/api/route-shares", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ snapshot }),
+      });
+      const data = (await res.json().catch(() => null)) as { slug?: string; note?: string } | null;
+      if (!res.ok || !data?.slug) {
+        setError(data?.note || "Could not create a share link.");
+        return;
+      }
+
+      const url = `${window.location.origin}/r/${data.slug}`;
+      if (await copyText(url)) setStatus(`Copied link ✅ ${url}`);
+      else setStatus(`Share this link: ${url}`);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Could not create a share link.");
+    } finally {
+      setShareBusy(false);
+    }
+  }
+
+  function downloadRoute(format: ExportFormat) {
+    setShowShareMenu(false);
+    setError("");
+    setStatus("");
+
+    if (!routeSummary || routeSummary.length === 0) {
+      setError("Optimize first so we have a route to export.");
+      return;
+    }
+    if (format === "ics" && !routeSummary.some((d) => schedule[d.id])) {
+      setError("Optimize again to get arrival times for the calendar.");
+      return;
+    }
+
+    const start = knownStart();
+
+    const stops: ExportStop[] = routeSummary.map((d) => {
+      const at = pinnedStores[d.id] ?? resolvedCoords[d.id];
+      const t = schedule[d.id];
+      return {
+        id: d.id,
+        name: pinnedStores[d.id]?.label ? `${d.name} (${pinnedStores[d.id].label})` : d.name,
+        description: [d.freebie, d.conditions].filter(Boolean).join(" — ") || undefined,
+        lat: at?.lat,
+        lon: at?.lon,
+        arriveAt: t?.arriveAt,
+        leaveAt: t?.leaveAt,
+      };
+    });
+
+    const day = new Date().toISOString().slice(0, 10);
+    const fmt = EXPORT_FORMATS.find((f) => f.id === format)!;
+    const text = routeFile(
+      {
+        title: `BirthdayScout route ${day}`,
+        start: start ? { lat: start.lat, lon: start.lon, name: startLabel } : null,
+        stops,
+        end: routeShape?.end
+          ? {
+              ...routeShape.end,
+              name: routeEnd.mode === "address" ? routeEnd.address || "End" : startLabel,
+            }
+          : null,
+        track: routeShape?.geometry ?? null,
+      },
+      format
+    );
+    downloadText(`birthdayscout-route-${day}.${format}`, fmt.mime, text);
+    setStatus(`Downloaded ${fmt.label} ✅`);
+  }
+
+  function toggleRouteOutOfWindow(v: boolean) {
+    setRouteOutOfWindow(v);
+    writeBool(ROUTE_OUT_OF_WINDOW_KEY, v);
+    setStatus(v ? "Optimize will include stops outside their birthday window." : "Optimize will skip stops that can’t be redeemed today.");
+  }
+
+  function saveBudget(v: number | null) {
+    setBudgetMin(v);
+    try {
+      if (v) localStorage.setItem(BUDGET_KEY, String(v));
+      else localStorage.removeItem(BUDGET_KEY);
+    } catch {}
+  }
+
+  function saveDepartAt(v: string) {
+    setDepartAt(v);
+    try {
+      if (v) localStorage.setItem(DEPART_AT_KEY, v);
+      else localStorage.removeItem(DEPART_AT_KEY);
+    } catch {}
+  }
+
+  function toggleShowMap(v: boolean) {
+    setShowMap(v);
+    try {
+      localStorage.setItem(SHOW_MAP_KEY, v ? "1" : "0");
+    } catch {}
+  }
+
+  function toggleAutoOpenMaps(v: boolean) {
+    setAutoOpenMaps(v);
+    writeBool(AUTO_ADVANCE_OPEN_KEY, v);
+    setStatus(v ? "Auto-advance: will open Maps after claiming." : "Auto-advance: will NOT open Maps automatically.");
+  }
+
+  const startLabel = hasGPSStart ? "Current location" : zip?.trim() ? `ZIP ${zip.trim()}` : "Not set";
+  const destinationName =
+    destinationId && items.some((d) => d.id === destinationId) ? items.find((d) => d.id === destinationId)?.name : "";
+
+  // Stops with known coordinates (pinned store first, else where the last optimize found them)
+  const mapStops: MapStop[] = items.flatMap((d, idx) => {
+    const at = pinnedStores[d.id] ?? resolvedCoords[d.id];
+    if (!at || typeof at.lat !== "number" || typeof at.lon !== "number") return [];
+    const state: MapStop["state"] = claimedSet.has(d.id)
+      ? "claimed"
+      : skippedSet.has(d.id)
+      ? "skipped"
+      : nextStop?.id === d.id
+      ? "next"
+      : "normal";
+    return [{ id: d.id, name: d.name, lat: at.lat, lon: at.lon, order: idx + 1, state, isDest: destinationId === d.id }];
+  });
+
+  const mapOrderedDeals = (routeSummary && routeSummary.length ? routeSummary : activeItems).map((d) => ({
+    id: d.id,
+    name: d.name,
+    city: d.city,
+  }));
+
+  // ======= aesthetics =======
+  const NARROW = "mx-auto w-full max-w-[1200px]";
+
+  const GlassSection =
+    "relative rounded-[28px] border border-white/14 bg-black/30 " +
+    "shadow-[0_24px_90px_rgba(0,0,0,0.60)]";
+
+  const GlassCard =
+    "relative rounded-[26px] border border-white/14 bg-black/44 backdrop-blur-xl " +
+    "shadow-[0_18px_70px_rgba(0,0,0,0.55)]";
+
+  const NeonRim =
+    "relative " +
+    "before:content-[''] before:absolute before:inset-0 before:rounded-[26px] " +
+    "before:ring-1 before:ring-emerald-200/18 " +
+    "before:shadow-[0_0_0_1px_rgba(16,185,129,0.08),0_0_46px_rgba(16,185,129,0.10)]";
+
+  const NextRimGlow =
+    "relative " +
+    "after:content-[''] after:absolute after:inset-0 after:rounded-[26px] after:pointer-events-none " +
+    "after:bg-[radial-gradient(80%_62%_at_50%_0%,rgba(16,185,129,0.44)_0%,rgba(16,185,129,0.18)_34%,rgba(0,0,0,0)_72%),radial-gradient(70%_90%_at_0%_55%,rgba(16,185,129,0.32)_0%,rgba(16,185,129,0.12)_40%,rgba(0,0,0,0)_72%),radial-gradient(70%_90%_at_100%_55%,rgba(16,185,129,0.32)_0%,rgba(16,185,129,0.12)_40%,rgba(0,0,0,0)_72%)] " +
+    "after:blur-[20px] after:opacity-95 " +
+    "before:content-[''] before:absolute before:inset-0 before:rounded-[26px] before:pointer-events-none " +
+    "before:ring-1 before:ring-emerald-200/22 " +
+    "before:bg-[linear-gradient(180deg,rgba(16,185,129,0.12)_0%,rgba(0,0,0,0.00)_46%)] " +
+    "before:shadow-[0_0_0_1px_rgba(16,185,129,0.12),0_-12px_56px_rgba(16,185,129,0.20),-18px_0_52px_rgba(16,185,129,0.16),18px_0_52px_rgba(16,185,129,0.16)]";
+
+  const NextCtaBtn =
+    "w-full rounded-2xl border border-emerald-200/26 px-5 py-3 text-[15px] font-medium text-emerald-50 " +
+    "bg-[linear-gradient(180deg,rgba(16,185,129,0.55)_0%,rgba(16,185,129,0.34)_48%,rgba(0,0,0,0.10)_100%)] " +
+    "hover:bg-[linear-gradient(180deg,rgba(16,185,129,0.62)_0%,rgba(16,185,129,0.38)_48%,rgba(0,0,0,0.12)_100%)] " +
+    "shadow-[0_0_0_1px_rgba(16,185,129,0.14),0_18px_54px_rgba(0,0,0,0.62),0_0_34px_rgba(16,185,129,0.26)] " +
+    "transition";
+
+  const EmptyPrimaryBtn =
+    "inline-flex items-center justify-center gap-2 rounded-2xl border border-emerald-200/22 px-5 py-3 text-[15px] font-medium text-emerald-50 " +
+    "bg-[linear-gradient(180deg,rgba(16,185,129,0.46)_0%,rgba(16,185,129,0.26)_55%,rgba(0,0,0,0.10)_100%)] " +
+    "hover:bg-[linear-gradient(180deg,rgba(16,185,129,0.54)_0%,rgba(16,185,129,0.30)_55%,rgba(0,0,0,0.12)_100%)] " +
+    "shadow-[0_0_0_1px_rgba(16,185,129,0.12),0_18px_54px_rgba(0,0,0,0.62),0_0_34px_rgba(16,185,129,0.20)] " +
+    "transition";
+
+  return (
+    <main className="relative min-h-screen overflow-x-hidden text-white">
+      {/* BACKGROUND */}
+      <div className="pointer-events-none fixed inset-0 z-0">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src="/bg-stars.png"
+          alt=""
+          className="absolute inset-0 h-full w-full object-cover select-none"
+          style={{
+            opacity: 1,
+            transform: "translate3d(0,0,0)",
+            filter: "saturate(1.15) contrast(1.08) brightness(1.12)",
+          }}
+          draggable={false}
+        />
+      </div>
+
+      {/* OVERLAYS */}
+      <div className="pointer-events-none fixed inset-0 z-10">
+        <div className="absolute inset-0 bg-black/10" />
+        <div className="absolute inset-0 bg-[radial-gradient(1100px_760px_at_50%_18%,rgba(0,0,0,0.00)_0%,rgba(0,0,0,0.12)_55%,rgba(0,0,0,0.34)_100%)]" />
+        <div
+          className="absolute inset-0 opacity-[0.035] mix-blend-overlay"
+          style={{
+            backgroundImage:
+              "url(\"data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='220' height='220'%3E%3Cfilter id='n'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='.9' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='220' height='220' filter='url(%23n)' opacity='.35'/%3E%3C/svg%3E\")",
+          }}
+        />
+      </div>
+
+      {/* CONTENT */}
+      <div className="relative z-20 px-6 pt-0 pb-[190px]">
+        <div className="h-[72px]" />
+        <div className={NARROW}>
+          {/* Header / hero */}
+          <header className="mb-8">
+            <BrandLockup />
+
+            <div className="pl-10 lg:pl-30 -mt-24">
+              <div className="inline-flex items-center gap-2 rounded-full border border-white/12 bg-black/35 px-3 py-1 text-xs text-zinc-300">
+                <IconDot on={hasGPSStart || !!zip.trim()} />
+                Trip builder
+              </div>
+
+              <h1 className="mt-2 text-[46px] leading-[1.03] font-semibold tracking-tight">
+                Your birthday route
+              </h1>
+
+              <p className="mt-2 max-w-[640px] text-[19px] leading-snug text-zinc-300/90">
+                Plan stops, skip what you don’t want today, and
+                <br className="hidden sm:block" /> open the optimized route in Maps.
+              </p>
+
+              <div className="mt-4">
+                <PlanSwitcher />
+              </div>
+
+              {group && isGroupPlan ? (
+                <PlanGroupPanel
+                  group={group}
+                  role={role}
+                  dealsById={dealsById}
+                  planIds={planIds}
+                  onAdd={addSuggestion}
+                  onDismiss={dismissSuggestion}
+                />
+              ) : null}
+            </div>
+          </header>
+
+          {/* HERO CARDS */}
+          <div className="grid gap-6 lg:gap-8 lg:grid-cols-2 items-start max-w-[980px] mx-auto">
+            {/* Summary (left) */}
+            <section className={`${GlassCard} p-7 lg:p-8 lg:translate-y-10`}>
+              <div className="text-[12px] uppercase tracking-wider text-zinc-500">Summary</div>
+
+              <div className="mt-2 text-[22px] font-semibold">
+                {activeItems.length} active stops
+                {skippedIds.length ? <span className="text-zinc-400"> • {skippedIds.length} skipped</span> : null}
+                {participants.length ? (
+                  <span className="text-zinc-400">
+                    {" "}
+                    • {freebieCount} freebies for {people.length} people
+                  </span>
+                ) : null}
+              </div>
+
+              <ParticipantsEditor
+                participants={participants}
+                selfBirthday={birthday}
+                editable={role === "owner"}
+                onChange={updateParticipants}
+              />
+
+              <div className="mt-3 text-sm text-zinc-300/90">
+                Start: <span className="text-white/90">{startLabel}</span>
+                {routeEnd.mode === "start" ? (
+                  <>
+                    {" "}
+                    • Ends <span className="text-white/90">back at start</span>
+                  </>
+                ) : routeEnd.mode === "address" ? (
+                  <>
+                    {" "}
+                    • Ends at: <span className="text-white/90">{routeEnd.address}</span>
+                  </>
+                ) : destinationName ? (
+                  <>
+                    {" "}
+                    • Destination: <span className="text-white/90">{destinationName}</span>
+                  </>
+                ) : (
+                  <span className="text-zinc-500"> • Destination not set</span>
+                )}{" "}
+                <button
+                  onClick={fetchPreviewAndOpenModal}
+                  disabled={optimizing || loadingPreview || routableItems.length < 2}
+                  className="text-xs text-zinc-500 underline underline-offset-4 hover:text-zinc-300 disabled:opacity-50"
+                >
+                  change
+                </button>
+              </div>
+
+              {routeLine ? <div className="mt-2 text-sm text-zinc-200/90">Route: {routeLine}</div> : null}
+
+              {legsLine ? <div className="mt-1 text-sm text-zinc-400">{legsLine}</div> : null}
+
+              {routeTotalS ? (
+                <div className="mt-1 text-sm text-zinc-400">
+                  Whole trip incl. time at stores: ~{formatMinutes(routeTotalS / 60)}
+                </div>
+              ) : null}
+
+              {budgetResult?.exceeded ? (
+                <div className="mt-3 rounded-2xl border border-amber-200/15 bg-amber-400/8 p-3 text-sm text-amber-100/90">
+                  Over your {formatMinutes(budgetResult.budget_s / 60)} budget.
+                  {budgetResult.suggestedIds && budgetResult.suggestedIds.length ? (
+                    <>
+                      {" "}
+                      These fit
+                      {typeof budgetResult.suggestedTotal_s === "number"
+                        ? ` (~${formatMinutes(budgetResult.suggestedTotal_s / 60)})`
+                        : ""}
+                      :{" "}
+                      {budgetResult.suggestedIds.map((id) => items.find((d) => d.id === id)?.name ?? id).join(", ")}
+                      {valueRanking.length > 2 ? (
+                        <div className="mt-1 text-amber-100/70">
+                          Least value for the time:{" "}
+                          {valueRanking
+                            .slice(-2)
+                            .reverse()
+                            .map((r) => `${r.deal.name} (${formatUsd(Math.round(r.perMinute * 100) / 100)}/min)`)
+                            .join(", ")}
+                        </div>
+                      ) : null}
+                      <div className="mt-2">
+                        <button
+                          onClick={keepSuggestedStops}
+                          className="rounded-full border border-amber-200/20 bg-black/35 px-3 py-1 text-xs text-amber-50 hover:bg-white/5"
+                        >
+                          Skip the rest today
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    routeEnd.mode === "stop"
+                      ? " Not even the destination fits — try a bigger budget."
+                      : " No stop fits — try a bigger budget."
+                  )}
+                </div>
+              ) : null}
+
+              {unreachable.length ? (
+                <div className="mt-2 text-sm text-amber-200/90">
+                  Can’t reach while open:{" "}
+                  {unreachable.map((u) => items.find((d) => d.id === u.id)?.name ?? u.id).join(", ")}
+                </div>
+              ) : null}
+
+              <div className="mt-4 flex flex-wrap gap-2">
+                <Pill tone="neutral">
+                  Progress {claimedCount}/{freebieCount}
+                  {participants.length ? " freebies" : ""}
+                </Pill>
+                <Pill tone="good">{pct}% complete</Pill>
+                {possibleUsd ? (
+                  <Pill tone="good">
+                    ~{formatUsd(Math.round(savedUsd))} saved of ~{formatUsd(Math.round(possibleUsd))}
+                  </Pill>
+                ) : null}
+                {lastOptimizedAt ? <Pill>Optimized {formatWhen(lastOptimizedAt)}</Pill> : <Pill>Not optimized</Pill>}
+              </div>
+
+              <div className="mt-5 relative h-2.5 w-full max-w-[520px] rounded-full bg-white/8 overflow-hidden">
+                <div
+                  className="absolute inset-y-0 left-0 rounded-full blur-lg"
+                  style={{
+                    width: `${progressPct}%`,
+                    background: "rgba(16,185,129,0.35)",
+                    opacity: 0.18 + 0.62 * glowT,
+                  }}
+                />
+                <div
+                  className="relative h-full rounded-full"
+                  style={{
+                    width: `${progressPct}%`,
+                    backgroundImage: progBg,
+                    boxShadow: progShadow,
+                  }}
+                >
+                  <div
+                    className="absolute right-0 top-1/2 h-3.5 w-3.5 -translate-y-1/2 translate-x-1/2 rounded-full"
+                    style={{
+                      background: "rgba(167,243,208,0.95)",
+                      boxShadow: `0 0 ${14 + 30 * glowT}px rgba(16,185,129,${0.28 + 0.58 * glowT})`,
+                      opacity: progressPct === 0 ? 0 : 1,
+                    }}
+                  />
+                </div>
+              </div>
+
+              {valueRanking.length > 1 ? (
+                <details className="mt-5 max-w-[520px] text-sm">
+                  <summary className="cursor-pointer text-zinc-300 hover:text-white">Value per minute</summary>
+                  <ol className="mt-2 space-y-1 text-zinc-400">
+                    {valueRanking.map((r, i) => (
+                      <li key={r.deal.id} className="flex justify-between gap-3">
+                        <span className="truncate">
+                          {i + 1}. {r.deal.name}
+                        </span>
+                        <span className="shrink-0 tabular-nums">
+                          ~{formatUsd(Math.round(r.value))} · {Math.round(r.minutes)} min ·{" "}
+                          {formatUsd(Math.round(r.perMinute * 100) / 100)}/min
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                </details>
+              ) : null}
+            </section>
+
+            {/* Right card */}
+            <section className="flex flex-col gap-4 lg:-translate-y-34 lg:pl-2">
+              {/* ✅ If there are no deals yet, show the empty-state card */}
+              {!hasAnyPlanned ? (
+                <div className={`${GlassCard} ${NextRimGlow} p-6 lg:p-8 w-full`}>
+                  <div className="text-[12px] uppercase tracking-wider text-zinc-400">Get started</div>
+
+                  <div className="mt-2 text-[32px] leading-[1.05] font-semibold">
+                    Add deals to
+                    <br />
+                    build your route ✨
+                  </div>
+
+                  <p className="mt-3 text-[15px] leading-relaxed text-zinc-200/85">
+                    Go to the Deals page and tap <span className="text-white/90 font-semibold">Add</span> on anything you
+                    want to claim. Once you have stops, I’ll optimize the order and open it in Maps.
+                  </p>
+
+                  <Link href="/app/deals" className={`mt-5 ${EmptyPrimaryBtn}`}>
+                    Browse deals →
+                  </Link>
+                </div>
+              ) : activeItems.length ? (
+                nextStop ? (
+                  <div className={`${GlassCard} ${NextRimGlow} p-6 lg:p-8 w-full`}>
+                    <div className="relative">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <div className="text-[12px] uppercase tracking-wider text-zinc-400">Next stop</div>
+                          <div className="mt-2 text-[32px] leading-[1.05] font-semibold truncate">{nextStop.name}</div>
+                          <div className="mt-2 text-[18px] text-zinc-200/90">
+                            {nextStop.freebie || "Open it in Maps and grab your freebie."}
+                          </div>
+                        </div>
+
+                        <div className="relative shrink-0">
+                          <div className="pointer-events-none absolute -inset-6 rounded-full bg-emerald-300/12 blur-2xl" />
+                          <BrandAvatar deal={nextStop} size={58} />
+                        </div>
+                      </div>
+
+                      <button onClick={openNextStop} className={`mt-5 ${NextCtaBtn}`}>
+                        Open in Maps →
+                      </button>
+
+                      <div className="mt-3 text-[12px] text-zinc-400">
+                        Skips claimed &amp; “skipped today” automatically.
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="rounded-2xl border border-white/12 bg-black/35 p-5 text-sm text-zinc-300">
+                    No next stop — everything is claimed or skipped 🎉
+                  </div>
+                )
+              ) : null}
+
+              {/* ✅ Hide reset claimed when there are no planned deals */}
+              {hasAnyPlanned ? (
+                <div className="flex justify-end w-full">
+                  <button
+                    onClick={resetClaimed}
+                    className="rounded-full border border-white/12 bg-black/35 px-4 py-2 text-sm hover:bg-white/5"
+                  >
+                    Reset claimed
+                  </button>
+                </div>
+              ) : null}
+            </section>
+          </div>
+
+          {status ? (
+            <div className="mt-5 rounded-2xl border border-white/12 bg-black/35 p-4 text-sm text-zinc-200">
+              {status}
+            </div>
+          ) : null}
+
+          {error ? (
+            <div className="mt-5 rounded-2xl border border-red-500/30 bg-red-500/8 p-4 text-sm text-red-200">
+              {error}
+            </div>
+          ) : null}
+
+          {/* Rail + Stops */}
+          {items.length === 0 ? (
+            <section className={`${GlassSection} mt-7 p-10 text-center text-zinc-300`}>
+              Add deals from the Deals page to start planning your birthday run 🎉
+              <div className="mt-5 flex justify-center">
+                <Link href="/app/deals" className={EmptyPrimaryBtn}>
+                  Browse deals →
+                </Link>
+              </div>
+            </section>
+          ) : (
+            <section className={`${GlassSection} mt-14 max-w-[900px] mx-auto`}>
+              <div className="flex items-center justify-between px-5 py-4 border-b border-white/12">
+                <div>
+                  <div className="text-[11px] uppercase tracking-wider text-zinc-500">Stops</div>
+                  <div className="text-sm text-zinc-300">
+                    {routeSummary && routeSummary.length ? "Showing optimized order" : "Showing your saved order"}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {skippedIds.length ? (
+                    <button
+                      onClick={clearSkipped}
+                      className="rounded-full border border-white/12 bg-black/35 px-3.5 py-2 text-sm hover:bg-white/5"
+                    >
+                      Clear skipped
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+
+              <div className="relative px-5 py-5">
+                <div className="pointer-events-none absolute left-[30px] top-6 bottom-6 w-[6px] -translate-x-1/2 bg-emerald-200/10 blur-[6px]" />
+                <div className="pointer-events-none absolute left-[30px] top-6 bottom-6 w-px bg-emerald-200/22" />
+                <div className="pointer-events-none absolute left-[30px] top-6 h-40 w-px bg-gradient-to-b from-emerald-200/35 to-transparent" />
+                <div className="pointer-events-none absolute left-[30px] bottom-6 h-40 w-px bg-gradient-to-t from-emerald-200/18 to-transparent" />
+                <div className="pointer-events-none absolute left-[30px] bottom-[54px] h-2 w-2 -translate-x-1/2 rounded-full bg-emerald-200/70 shadow-[0_0_18px_rgba(16,185,129,0.45)]" />
+                <div className="pointer-events-none absolute left-[30px] bottom-[38px] h-2 w-2 -translate-x-1/2 rounded-full bg-emerald-200/55 shadow-[0_0_14px_rgba(16,185,129,0.35)]" />
+
+                {/* start node */}
+                <div className="mb-5 flex items-start gap-4">
+                  <div className="relative w-10 flex justify-center -translate-x-2.5">
+                    <RailNode variant="start" />
+                  </div>
+
+                  <div className={`${GlassCard} flex-1 p-4`}>
+                    <div className="flex items-center gap-3">
+                      <LocationGlyph />
+                      <div className="min-w-0">
+                        <div className="text-[11px] uppercase tracking-wider text-zinc-500">Start</div>
+                        <div className="mt-0.5 text-sm text-zinc-200">
+                          {hasGPSStart ? "Current location (GPS)" : zip?.trim() ? `ZIP ${zip.trim()}` : "Not set"}
+                        </div>
+
+                        <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-2">
+                          <input
+                            value={zip}
+                            onChange={(e) => saveZip(e.target.value)}
+                            placeholder="89109"
+                            className="w-full rounded-xl border border-white/12 bg-black/35 px-4 py-2.5 text-sm outline-none focus:border-emerald-300/20 focus:ring-1 focus:ring-emerald-300/10"
+                          />
+                          <button
+                            onClick={useMyLocation}
+                            className="rounded-xl border border-white/12 bg-black/35 px-4 py-2.5 text-sm hover:bg-white/5"
+                          >
+                            Use my location
+                          </button>
+                        </div>
+
+                        <label className="mt-3 flex items-center gap-2 text-sm text-zinc-300">
+                          <input
+                            type="checkbox"
+                            checked={autoOpenMaps}
+                            onChange={(e) => toggleAutoOpenMaps(e.target.checked)}
+                          />
+                          Auto-open Maps after I claim
+                        </label>
+
+                        {birthday ? (
+                          <label className="mt-2 flex items-center gap-2 text-sm text-zinc-300">
+                            <input
+                              type="checkbox"
+                              checked={routeOutOfWindow}
+                              onChange={(e) => toggleRouteOutOfWindow(e.target.checked)}
+                            />
+                            Include stops outside their birthday window
+                            {outOfWindowSet.size ? (
+                              <span className="text-zinc-500">({outOfWindowSet.size} today)</span>
+                            ) : null}
+                          </label>
+                        ) : null}
+
+                        <label className="mt-3 flex flex-wrap items-center gap-2 text-sm text-zinc-300">
+                          Leave at
+                          <input
+                            type="datetime-local"
+                            value={departAt}
+                            onChange={(e) => saveDepartAt(e.target.value)}
+                            className="rounded-xl border border-white/12 bg-black/35 px-3 py-1.5 text-sm outline-none [color-scheme:dark] focus:border-emerald-300/20"
+                          />
+                          {departAt ? (
+                            <button
+                              type="button"
+                              onClick={() => saveDepartAt("")}
+                              className="text-xs text-zinc-500 underline underline-offset-4 hover:text-zinc-300"
+                            >
+                              leave now
+                            </button>
+                          ) : (
+                            <span className="text-zinc-500">(now)</span>
+                          )}
+                        </label>
+
+                        <label className="mt-2 flex flex-wrap items-center gap-2 text-sm text-zinc-300">
+                          Time budget
+                          <select
+                            value={budgetMin ?? ""}
+                            onChange={(e) => saveBudget(e.target.value ? Number(e.target.value) : null)}
+                            className="rounded-xl border border-white/12 bg-black/35 px-3 py-1.5 text-sm outline-none focus:border-emerald-300/20"
+                          >
+                            <option value="">No limit</option>
+                            {BUDGET_CHOICES_MIN.map((m) => (
+                              <option key={m} value={m}>
+                                {formatMinutes(m)}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+
+                        <div className="mt-2 text-sm text-zinc-300">
+                          Getting around: {travelModeLabel(travelMode)}{" "}
+                          <Link
+                            href="/app/profile"
+                            className="text-xs text-zinc-500 underline underline-offset-4 hover:text-zinc-300"
+                          >
+                            change
+                          </Link>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {/* route map */}
+                {mapStops.length ? (
+                  <div className={`${GlassCard} mb-4 p-3`}>
+                    <div className="mb-2 flex items-center justify-between px-1">
+                      <div className="text-[11px] uppercase tracking-wider text-zinc-500">Map</div>
+                      <button
+                        onClick={() => toggleShowMap(!showMap)}
+                        className="text-xs text-zinc-500 underline underline-offset-4 hover:text-zinc-300"
+                      >
+                        {showMap ? "Hide" : "Show"}
+                      </button>
+                    </div>
+                    {showMap ? (
+                      <RouteMap
+                        start={routeShape?.start ?? null}
+                        end={routeShape?.end ?? null}
+                        stops={mapStops}
+                        geometry={routeShape?.geometry ?? null}
+                      />
+                    ) : null}
+                  </div>
+                ) : null}
+
+                {/* deals list */}
+                <div className="space-y-4">
+                  {items.map((d, idx) => {
+                    const isClaimed = claimedSet.has(d.id);
+                    const isDest = destinationId === d.id;
+                    const isSkipped = skippedSet.has(d.id);
+                    const isNext = !!nextStop && nextStop.id === d.id && !isClaimed && !isSkipped;
+
+                    const win = windowInfo(d.redemptionWindow, birthday);
+                    const windowPill = win ? (
+                      <span title={windowLabel(d.redemptionWindow)}>
+                        <Pill tone={win.status === "active" ? "good" : win.status === "expired" ? "warn" : "neutral"}>
+                          {windowBadgeText(win)}
+                        </Pill>
+                      </span>
+                    ) : null;
+
+                    const stopTime = schedule[d.id];
+                    const blocked = unreachable.find((u) => u.id === d.id);
+                    const arrivalPill = blocked ? (
+                      <Pill tone="warn">{UNREACHABLE_LABEL[blocked.reason]}</Pill>
+                    ) : stopTime && !isClaimed && !isSkipped ? (
+                      <span
+                        title={
+                          `Leave ~${formatClock(stopTime.leaveAt)}` +
+                          (stopTime.openUntil ? ` • open until ${formatClock(stopTime.openUntil)}` : "")
+                        }
+                      >
+                        <Pill>
+                          Arrive {formatClock(stopTime.arriveAt)}
+                          {stopTime.wait_min ? ` • wait ${stopTime.wait_min}m` : ""}
+                        </Pill>
+                      </span>
+                    ) : null;
+
+                    const dwell = serviceMinutesFor(d);
+                    const dwellSelect = (
+                      <select
+                        value={d.id in serviceOverrides ? String(dwell) : ""}
+                        onChange={(e) => setServiceMinutes(d.id, e.target.value === "" ? null : Number(e.target.value))}
+                        title="Time at this stop"
+                        className="rounded-full border border-white/12 bg-black/35 px-3 py-2 text-sm text-zinc-200 outline-none hover:bg-white/5"
+                      >
+                        <option value="">⏱ {d.serviceMinutes ?? DEFAULT_SERVICE_MINUTES} min (default)</option>
+                        {Array.from(new Set([...DWELL_CHOICES, dwell]))
+                          .sort((a, b) => a - b)
+                          .map((m) => (
+                            <option key={m} value={m}>
+                              ⏱ {m} min
+                            </option>
+                          ))}
+                      </select>
+                    );
+
+                    const pinned = pinnedStores[d.id];
+                    const options = storeOptions[d.id] ?? [];
+                    const pinnedIdx = options.findIndex((o) => samePinnedStore(o, pinned));
+                    const storeSelect =
+                      options.length > 1 || pinned ? (
+                        <select
+                          value={!pinned ? "" : pinnedIdx === -1 ? "pinned" : String(pinnedIdx)}
+                          onChange={(e) => {
+                            const v = e.target.value;
+                            if (v === "pinned") return;
+                            const o = v === "" ? null : options[Number(v)];
+                            pinStore(d.id, o ? { lat: o.lat, lon: o.lon, placeId: o.placeId, label: o.label } : null);
+                          }}
+                          title="Which store to visit"
+                          className="max-w-full truncate rounded-full border border-white/12 bg-black/35 px-3 py-2 text-sm text-zinc-200 outline-none hover:bg-white/5"
+                        >
+                          <option value="">📍 Nearest store</option>
+                          {pinned && pinnedIdx === -1 ? (
+                            <option value="pinned">📍 {pinned.label || "Pinned store"}</option>
+                          ) : null}
+                          {options.map((o, i) => (
+                            <option key={`${o.lat},${o.lon}`} value={i}>
+                              📍 {o.label || `Store ${i + 1}`} · {o.dist_mi.toFixed(1)} mi
+                            </option>
+                          ))}
+                        </select>
+                      ) : null;
+
+                    const currentStore = pinned ?? currentStores[d.id];
+                    const excludeBtn = currentStore ? (
+                      <button
+                        onClick={() => excludeCurrentStore(d.id)}
+                        title={`Never route me to ${currentStore.label || "this location"}`}
+                        className="rounded-full border border-white/12 bg-black/35 px-3.5 py-2 text-sm text-zinc-300 hover:bg-white/5"
+                      >
+                        🚫 Not this store
+                      </button>
+                    ) : null;
+
+                    const excludedHere = excludedStores.filter((x) => x.dealId === d.id);
+                    const excludedNote = excludedHere.length ? (
+                      <div className="basis-full text-xs text-zinc-500">
+                        Excluded:{" "}
+                        {excludedHere.map((x, i) => (
+                          <span key={storeKey(x)}>
+                            {i ? " · " : ""}
+                            {x.label || `${x.lat.toFixed(4)}, ${x.lon.toFixed(4)}`}{" "}
+                            <button
+                              onClick={() => allowStore(x)}
+                              className="underline underline-offset-4 hover:text-zinc-300"
+                            >
+                              undo
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    ) : null;
+
+                    const claims = stopClaims.get(d.id);
+                    const partlyClaimed = claims ? claims.riders.filter((r) => claims.claimed.has(r.id)).length : 0;
+                    const statusPill = isClaimed ? (
+                      <Pill tone="good">Claimed</Pill>
+                    ) : isSkipped ? (
+                      <Pill tone="warn">Skipped</Pill>
+                    ) : partlyClaimed ? (
+                      <Pill tone="good">
+                        Claimed {partlyClaimed}/{claims?.riders.length}
+                      </Pill>
+                    ) : (
+                      <Pill>Planned</Pill>
+                    );
+
+                    const valuePill = d.estimatedValue ? <Pill>{dealValueLabel(d.estimatedValue)}</Pill> : null;
+
+                    // what each of this stop's claims was worth, correctable once it's in the history
+                    const valueInputs = claims
+                      ? Array.from(claims.claimed).map((who) => {
+                          const event = claimEvents.get(claimKey(d.id, who === SELF_PARTICIPANT ? null : who));
+                          if (!event) return null;
+                          const name = participants.length
+                            ? people.find((p) => p.id === who)?.name ?? event.participant?.name
+                            : undefined;
+                          return (
+                            <ClaimValueInput
+                              key={who}
+                              label={name}
+                              estimate={d.estimatedValue}
+                              value={event.valueUsd ?? null}
+                              onSave={(v) => saveClaimValue(d.id, who, v)}
+                            />
+                          );
+                        })
+                      : null;
+
+                    const addedBy =
+                      group && isGroupPlan ? group.members.find((m) => m.userId === group.addedBy[d.id]) : undefined;
+                    const othersClaimed = (group?.claimedBy[d.id] ?? [])
+                      .map((id) => group?.members.find((m) => m.userId === id)?.name)
+                      .filter(Boolean);
+                    const groupPills = (
+                      <>
+                        {addedBy ? <Pill>Added by {addedBy.userId === group?.me ? "you" : addedBy.name}</Pill> : null}
+                        {othersClaimed.length ? <Pill tone="good">✓ {othersClaimed.join(", ")} claimed</Pill> : null}
+                      </>
+                    );
+
+                    const nodeVariant: "next" | "claimed" | "skipped" | "normal" = isNext
+                      ? "next"
+                      : isClaimed
+                      ? "claimed"
+                      : isSkipped
+                      ? "skipped"
+                      : "normal";
+
+                    const ActionBtn = "rounded-full border px-3.5 py-2 text-sm hover:bg-white/5 transition-colors";
+
+                    // one toggle per birthday person in shared-birthday mode
+                    const claimButtons =
+                      participants.length && claims ? (
+                        (canEdit ? people : people.slice(0, 1)).map((r) => {
+                          const has = claims.claimed.has(r.id);
+                          const counts = claims.riders.some((x) => x.id === r.id);
+                          return (
+                            <button
+                              key={r.id}
+                              onClick={() => toggleClaim(d.id, r.id)}
+                              title={counts ? undefined : `Outside ${r.id === SELF_PARTICIPANT ? "your" : `${r.name}’s`} birthday window`}
+                              className={`${ActionBtn} ${
+                                has
+                                  ? "border-emerald-200/30 bg-emerald-400/14 text-emerald-50"
+                                  : "border-emerald-200/18 bg-black/35 text-emerald-50"
+                              } ${counts || has ? "" : "opacity-50"}`}
+                            >
+                              {has ? "✓ " : ""}
+                              {r.name}
+                            </button>
+                          );
+                        })
+                      ) : (
+                        <button
+                          onClick={() => toggleClaim(d.id)}
+                          className="rounded-full border border-emerald-200/18 bg-black/35 px-3.5 py-2 text-sm text-emerald-50 hover:bg-white/5"
+                        >
+                          {isClaimed ? "Unclaim" : "Mark claimed"}
+                        </button>
+                      );
+
+                    return (
+                      <div key={d.id} className="flex items-start gap-4">
+                        <div className="relative w-10 flex justify-center -translate-x-2.5">
+                          <RailNode variant={nodeVariant} />
+                        </div>
+
+                        <div className="min-w-0 flex-1">
+                          {isNext ? (
+                            <div className={`${GlassCard} ${NeonRim} p-4`}>
+                              <div className="relative">
+                                <div className="flex items-start justify-between gap-4">
+                                  <div className="min-w-0">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                      <span className="text-[11px] text-zinc-500">Stop {idx + 1}</span>
+                                      {statusPill}
+                                      {valuePill}
+                                      {windowPill}
+                                      {arrivalPill}
+                                      {isDest ? <Pill>Final</Pill> : null}
+                                      <Pill tone="good">Up next</Pill>
+                                      {groupPills}
+                                    </div>
+
+                                    <div className="mt-3 flex items-center gap-3">
+                                      <BrandAvatar deal={d} dim={isClaimed || isSkipped} size={40} />
+                                      <div className="min-w-0">
+                                        <div className="text-base font-semibold truncate">{d.name}</div>
+                                        {d.freebie ? <div className="mt-1 text-sm text-zinc-200">{d.freebie}</div> : null}
+                                        {d.conditions ? (
+                                          <div className="mt-1 text-sm text-zinc-500">{d.conditions}</div>
+                                        ) : null}
+                                      </div>
+                                    </div>
+
+                                    <div className="mt-4 flex flex-wrap gap-2">
+                                      {claimButtons}
+
+                                      {valueInputs}
+
+                                      {canEdit ? (
+                                        <button
+                                          onClick={() => toggleSkipped(d.id)}
+                                          className={`${ActionBtn} border-white/12 bg-black/35`}
+                                        >
+                                          {isSkipped ? "Unskip" : "Skip today"}
+                                        </button>
+                                      ) : null}
+
+                                      {!isDest ? (
+                                        <button
+                                          onClick={() => setAsDestination(d.id)}
+                                          disabled={isSkipped}
+                                          className={`${ActionBtn} border-white/12 bg-black/35 disabled:opacity-50`}
+                                          title={isSkipped ? "Unskip it first to set as destination" : "Make destination"}
+                                        >
+                                          Make destination
+                                        </button>
+                                      ) : (
+                                        <button
+                                          onClick={clearDestination}
+                                          className={`${ActionBtn} border-white/12 bg-black/35`}
+                                        >
+                                          Clear destination
+                                        </button>
+                                      )}
+
+                                      {dwellSelect}
+
+                                      {storeSelect}
+
+                                      {excludeBtn}
+
+                                      {canEdit ? (
+                                        <button
+                                          onClick={() => removeFromPlan(d.id)}
+                                          className={`${ActionBtn} border-red-500/25 bg-red-500/8 text-red-200 hover:bg-red-500/12`}
+                                        >
+                                          Remove
+                                        </button>
+                                      ) : null}
+
+                                      {excludedNote}
+                                    </div>
+                                  </div>
+
+                                  <button
+                                    onClick={() => openStopInMaps(d)}
+                                    className="shrink-0 rounded-full border border-white/12 bg-black/35 px-4 py-2 text-sm hover:bg-white/5"
+                                    title="Open this stop in Maps"
+                                  >
+                                    Maps
+                                  </button>
+                                </div>
+                              </div>
+                            </div>
+                          ) : (
+                            <div
+                              className={`${GlassCard} p-4 ${isSkipped ? "opacity-70" : ""} ${
+                                isClaimed ? "opacity-85" : ""
+                              }`}
+                            >
+                              <div className="flex items-start justify-between gap-4">
+                                <div className="min-w-0">
+                                  <div className="flex flex-wrap items-center gap-2">
+                                    <span className="text-[11px] text-zinc-500">Stop {idx + 1}</span>
+                                    {statusPill}
+                                    {valuePill}
+                                    {windowPill}
+                                    {arrivalPill}
+                                    {isDest ? <Pill>Final</Pill> : null}
+                                    {groupPills}
+                                  </div>
+
+                                  <div className="mt-3 flex items-center gap-3">
+                                    <BrandAvatar deal={d} dim={isClaimed || isSkipped} size={40} />
+                                    <div className="min-w-0">
+                                      <div className="text-base font-semibold truncate">{d.name}</div>
+                                      {d.freebie ? <div className="mt-1 text-sm text-zinc-200">{d.freebie}</div> : null}
+                                      {d.conditions ? (
+                                        <div className="mt-1 text-sm text-zinc-500">{d.conditions}</div>
+                                      ) : null}
+                                    </div>
+                                  </div>
+
+                                  <div className="mt-4 flex flex-wrap gap-2">
+                                    {claimButtons}
+
+                                    {valueInputs}
+
+                                    {canEdit ? (
+                                      <button
+                                        onClick={() => toggleSkipped(d.id)}
+                                        className="rounded-full border border-white/12 bg-black/35 px-3.5 py-2 text-sm hover:bg-white/5"
+                                      >
+                                        {isSkipped ? "Unskip" : "Skip today"}
+                                      </button>
+                                    ) : null}
+
+                                    {!isDest ? (
+                                      <button
+                                        onClick={() => setAsDestination(d.id)}
+                                        disabled={isSkipped}
+                                        className="rounded-full border border-white/12 bg-black/35 px-3.5 py-2 text-sm hover:bg-white/5 disabled:opacity-50"
+                                        title={isSkipped ? "Unskip it first to set as destination" : "Make destination"}
+                                      >
+                                        Make destination
+                                      </button>
+                                    ) : (
+                                      <button
+                                        onClick={clearDestination}
+                                        className="rounded-full border border-white/12 bg-black/35 px-3.5 py-2 text-sm hover:bg-white/5"
+                                      >
+                                        Clear destination
+                                      </button>
+                                    )}
+
+                                    {dwellSelect}
+
+                                    {storeSelect}
+
+                                    {excludeBtn}
+
+                                    {canEdit ? (
+                                      <button
+                                        onClick={() => removeFromPlan(d.id)}
+                                        className="rounded-full border border-red-500/25 bg-red-500/8 px-3.5 py-2 text-sm text-red-200 hover:bg-red-500/12"
+                                      >
+                                        Remove
+                                      </button>
+                                    ) : null}
+
+                                    {excludedNote}
+                                  </div>
+                                </div>
+
+                                <button
+                                  onClick={() => openStopInMaps(d)}
+                                  className="shrink-0 rounded-full border border-white/12 bg-black/35 px-4 py-2 text-sm hover:bg-white/5"
+                                >
+                                  Maps
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="px-5 pb-5">
+                <div className={`${GlassCard} p-4`}>
+                  <div className="text-[11px] uppercase tracking-wider text-zinc-500">Manage</div>
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {canEdit ? (
+                      <button
+                        onClick={clearPlan}
+                        className="rounded-full border border-white/12 bg-black/35 px-4 py-2 text-sm hover:bg-white/5"
+                      >
+                        Clear plan
+                      </button>
+                    ) : null}
+                  </div>
+                  <div className="mt-2 text-xs text-zinc-500">
+                    Selected: {planIds.length} • Active: {activeItems.length} • Skipped: {skippedIds.length} • Claimed:{" "}
+                    {claimedCount}
+                  </div>
+                </div>
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+
+      {/* ✅ Hide sticky bottom dock when no deals are selected */}
+      {hasAnyPlanned ? (
+        <div className="fixed inset-x-0 bottom-0 z-50 pointer-events-none">
+          <div
+            className="mx-auto w-full max-w-[560px] px-5"
+            style={{ paddingBottom: "calc(18px + env(safe-area-inset-bottom))" }}
+          >
+            <div className="pointer-events-auto relative rounded-[22px] border border-white/12 bg-black/50 backdrop-blur-md shadow-[0_30px_120px_rgba(0,0,0,0.70)] px-4 py-3">
+              <div className="pointer-events-none absolute inset-x-4 -top-[1px] h-px bg-gradient-to-r from-transparent via-emerald-200/22 to-transparent" />
+              <div className="pointer-events-none absolute inset-x-4 -bottom-[1px] h-px bg-gradient-to-r from-transparent via-emerald-200/14 to-transparent" />
+              <div className="pointer-events-none absolute -top-10 left-10 right-10 h-16 rounded-full bg-emerald-300/10 blur-3xl" />
+
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-xs text-zinc-300">
+                  {routeLine ? (
+                    <span className="inline-flex items-center gap-2">
+                      <span className="h-2 w-2 rounded-full bg-emerald-200/70 shadow-[0_0_18px_rgba(16,185,129,0.35)]" />
+                      {routeLine}
+                    </span>
+                  ) : (
+                    "Optimize to compute ETA + distance"
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <OpenRouteButton orderedDeals={mapOrderedDeals} full />
+
+                  <button
+                    onClick={optimizeRoute}
+                    disabled={optimizing || loadingPreview || shareBusy}
+                    className={
+                      "rounded-full border border-white/12 bg-black/35 px-4 py-2 text-sm text-zinc-100 " +
+                      "hover:bg-white/5 disabled:opacity-50 shadow-[0_14px_45px_rgba(0,0,0,0.60)] transition"
+                    }
+                  >
+                    {loadingPreview ? "Checking ETA..." : optimizing ? "Optimizing..." : "Optimize"}
+                  </button>
+
+                  <div className="relative">
+                    <button
+                      onClick={() => setShowShareMenu((v) => !v)}
+                      disabled={optimizing || loadingPreview || shareBusy}
+                      className={
+                        "rounded-full border border-white/12 bg-black/35 px-4 py-2 text-sm text-zinc-100 " +
+                        "hover:bg-white/5 disabled:opacity-50 shadow-[0_14px_45px_rgba(0,0,0,0.60)] transition"
+                      }
+                      title="Share a link, copy the stops or download the route for other apps"
+                    >
+                      {shareBusy ? "Sharing..." : "Share"}
+                    </button>
+                    {showShareMenu ? (
+                      <div className="absolute bottom-full right-0 z-40 mb-2 w-64 overflow-hidden rounded-2xl border border-white/12 bg-black/85 backdrop-blur-xl shadow-[0_30px_120px_rgba(0,0,0,0.85)]">
+                        <button
+                          onClick={shareLink}
+                          className="block w-full px-4 pt-2.5 pb-1 text-left text-sm text-zinc-100 hover:bg-white/5"
+                        >
+                          🔗 Copy link
+                        </button>
+                        <label className="flex cursor-pointer items-center gap-2 px-4 pb-2.5 text-xs text-zinc-400">
+                          <input
+                            type="checkbox"
+                            checked={shareIncludeStart}
+                            onChange={(e) => setShareIncludeStart(e.target.checked)}
+                          />
+                          Include my start and end address
+                        </label>
+                        <button
+                          onClick={shareRoute}
+                          className="block w-full border-t border-white/10 px-4 py-2.5 text-left text-sm text-zinc-200 hover:bg-white/5"
+                        >
+                          📋 Copy as text
+                        </button>
+                        {EXPORT_FORMATS.map((f) => (
+                          <button
+                            key={f.id}
+                            onClick={() => downloadRoute(f.id)}
+                            className="block w-full px-4 py-2.5 text-left text-sm text-zinc-200 hover:bg-white/5"
+                          >
+                            ⬇ {f.label}
+                          </button>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {/* ROUTE END MODAL */}
+      {showDestModal ? (
+        <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/70 p-4">
+          <div className="w-full max-w-xl rounded-2xl border border-white/12 bg-black/70 backdrop-blur-xl shadow-[0_30px_120px_rgba(0,0,0,0.85)]">
+            <div className="px-5 py-4 border-b border-white/10">
+              <div className="text-lg font-semibold">Where does the day end?</div>
+              <div className="text-sm text-zinc-400">The optimizer orders your stops around where you finish.</div>
+            </div>
+
+            <div className="p-5 space-y-3 max-h-[60vh] overflow-y-auto">
+              {(
+                [
+                  { id: "start", label: "Back at start", sub: startLabel },
+                  { id: "address", label: "Somewhere else", sub: "Home, a friend’s place, campus…" },
+                  { id: "stop", label: "At one of my stops", sub: "Closing out the day with a treat" },
+                ] as { id: RouteEndMode; label: string; sub: string }[]
+              ).map((opt) => (
+                <label
+                  key={opt.id}
+                  className={
+                    "flex cursor-pointer items-start gap-3 rounded-2xl border px-4 py-3 transition " +
+                    (modalEndMode === opt.id
+                      ? "border-emerald-200/30 bg-emerald-400/10"
+                      : "border-white/10 bg-black/35 hover:bg-white/5")
+                  }
+                >
+                  <input
+                    type="radio"
+                    name="route-end"
+                    checked={modalEndMode === opt.id}
+                    onChange={() => setModalEndMode(opt.id)}
+                    className="mt-1 accent-emerald-400"
+                  />
+                  <div className="min-w-0">
+                    <div className="text-sm text-zinc-100">{opt.label}</div>
+                    <div className="text-xs text-zinc-500 truncate">{opt.sub}</div>
+                  </div>
+                </label>
+              ))}
+
+              {modalEndMode === "address" ? (
+                <input
+                  autoFocus
+                  value={modalAddress}
+                  onChange={(e) => setModalAddress(e.target.value)}
+                  placeholder="Address or place"
+                  maxLength={200}
+                  className="w-full rounded-2xl border border-white/12 bg-black/35 px-4 py-3 text-sm outline-none placeholder:text-zinc-500 focus:border-emerald-300/20"
+                />
+              ) : null}
+
+              {modalEndMode === "stop" ? (
+                <div className="space-y-2">
+                  {routableItems.map((d) => (
+                    <label
+                      key={d.id}
+                      className="flex cursor-pointer items-center gap-3 rounded-xl px-3 py-2 text-sm text-zinc-200 hover:bg-white/5"
+                    >
+                      <input
+                        type="radio"
+                        name="route-end-stop"
+                        checked={modalChoice === d.id}
+                        onChange={() => setModalChoice(d.id)}
+                        className="accent-emerald-400"
+                      />
+                      <span className="min-w-0 flex-1 truncate">{d.name}</span>
+                      <span className="text-xs text-zinc-500">
+                        {typeof modalDistances[d.id] === "number" ? `${modalDistances[d.id].toFixed(1)} mi` : ""}
+                        {typeof modalEtas[d.id] === "number" ? ` • ${modalEtas[d.id]} min` : ""}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+
+            <div className="px-5 py-4 border-t border-white/10 flex flex-wrap items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-xs text-zinc-400">
+                <input type="checkbox" checked={promptOff} onChange={(e) => togglePromptOff(e.target.checked)} />
+                Don’t ask before optimizing
+              </label>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setShowDestModal(false)}
+                  className="rounded-xl border border-white/12 bg-black/35 px-4 py-2 text-sm text-zinc-200 hover:bg-white/5 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={confirmRouteEnd}
+                  className="rounded-xl border border-emerald-200/26 bg-emerald-400/20 px-4 py-2 text-sm font-medium text-emerald-50 hover:bg-emerald-400/25 transition"
+                >
+                  Optimize
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </main>
+  );
+}
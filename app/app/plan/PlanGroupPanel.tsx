@@ -0,0 +1,91 @@
+// app/app/plan/PlanGroupPanel.tsx
+"use client";
+
+import type { PlanGroup } from "@/app/lib/planGroups";
+import type { PlanRole } from "@/app/lib/planSync";
+
+type SuggestedDeal = { id: string; name: string };
+
+const ROLE_LABEL: Record<PlanRole, string> = { owner: "owner", editor: "editor", viewer: "viewer" };
+
+/**
+ * Who's on a shared plan, plus the stops members suggested. Owners and editors add or dismiss
+ * suggestions; viewers are told the plan is view-only.
+ */
+export default function PlanGroupPanel({
+  group,
+  role,
+  dealsById,
+  planIds,
+  onAdd,
+  onDismiss,
+}: {
+  group: PlanGroup;
+  role: PlanRole;
+  dealsById: Map<string, SuggestedDeal>;
+  planIds: string[];
+  onAdd: (dealId: string) => void;
+  onDismiss: (dealId: string) => void;
+}) {
+  const canEdit = role !== "viewer";
+
+  // one row per deal, with everyone who suggested it
+  const suggested = new Map<string, string[]>();
+  for (const s of group.suggestions) {
+    if (planIds.includes(s.dealId) || !dealsById.has(s.dealId)) continue;
+    suggested.set(s.dealId, [...(suggested.get(s.dealId) ?? []), s.userId === group.me ? "you" : s.name]);
+  }
+
+  return (
+    <div className="mt-4 max-w-[640px] rounded-2xl border border-white/10 bg-black/35 p-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-300">
+        <span className="text-zinc-500">On this plan:</span>
+        {group.members.map((m) => (
+          <span key={m.userId} className="rounded-full border border-white/12 bg-black/35 px-2.5 py-0.5">
+            {m.userId === group.me ? "You" : m.name}
+            <span className="text-zinc-500"> · {ROLE_LABEL[m.role]}</span>
+          </span>
+        ))}
+      </div>
+
+      {!canEdit ? (
+        <p className="mt-3 text-xs text-zinc-400">
+          You can view this plan and suggest stops from the deals page. Claims you mark are your own.
+        </p>
+      ) : null}
+
+      {suggested.size ? (
+        <div className="mt-3 space-y-2">
+          <div className="text-[11px] uppercase tracking-wider text-zinc-500">Suggested stops</div>
+          {Array.from(suggested, ([dealId, names]) => {
+            const d = dealsById.get(dealId)!;
+            return (
+              <div key={dealId} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="min-w-0 flex-1 truncate">
+                  {d.name}
+                  <span className="text-zinc-500"> · from {names.join(", ")}</span>
+                </span>
+                {canEdit ? (
+                  <>
+                    <button
+                      onClick={() => onAdd(dealId)}
+                      className="rounded-full border border-emerald-200/18 bg-black/35 px-3 py-1 text-xs text-emerald-50 hover:bg-white/5"
+                    >
+                      Add
+                    </button>
+                    <button
+                      onClick={() => onDismiss(dealId)}
+                      className="rounded-full border border-white/12 bg-black/35 px-3 py-1 text-xs text-zinc-300 hover:bg-white/5"
+                    >
+                      Dismiss
+                    </button>
+                  </>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useState } from "react";
+import { usePlans } from "@/app/app/components/usePlans";
+import { createPlanInvite, leavePlan, myDisplayName } from "@/app/lib/planGroups";
+import {
+  createPlan,
+  deletePlan,
+  duplicatePlan,
+  planRole,
+  renamePlan,
+  switchPlan,
+  type SharedRole,
+} from "@/app/lib/planSync";
+
+type Mode = "" | "new" | "rename" | "delete" | "invite" | "leave";
+
+const chip =
+  "rounded-full border border-white/12 bg-black/35 px-3 py-1 text-xs text-zinc-200 hover:bg-white/5 disabled:opacity-50";
+
+/**
+ * Plan switcher for /app/plan: pick the open plan, plus create / rename / duplicate / delete.
+ * Owners can invite friends to the open plan; plans shared with the user can only be duplicated or left.
+ */
+export default function PlanSwitcher() {
+  const { plans, activeId } = usePlans();
+  const [mode, setMode] = useState<Mode>("");
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState("");
+
+  const active = plans.find((p) => p.id === activeId);
+  const role = planRole(active);
+  const ownPlans = plans.filter((p) => planRole(p) === "owner");
+
+  function start(next: Mode) {
+    setMode(next);
+    setNote("");
+    setName(next === "rename" ? active?.name ?? "" : "");
+  }
+
+  async function invite(inviteRole: SharedRole) {
+    setBusy(true);
+    try {
+      const path = await createPlanInvite(activeId, inviteRole, myDisplayName());
+      const url = `${window.location.origin}${path}`;
+      try {
+        await navigator.clipboard.writeText(url);
+        setNote(`${inviteRole === "editor" ? "Editor" : "Viewer"} link copied. It works for 14 days.`);
+      } catch {
+        window.prompt("Copy the invite link:", url);
+        setNote("");
+      }
+      setMode("");
+    } catch (e: unknown) {
+      setNote(e instanceof Error ? e.message : "Couldn’t create the invite.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function leave() {
+    setBusy(true);
+    try {
+      const next = ownPlans[0]?.id;
+      await leavePlan(activeId);
+      if (next) switchPlan(next);
+      setMode("");
+    } catch (e: unknown) {
+      setNote(e instanceof Error ? e.message : "Couldn’t leave the plan.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function submit() {
+    if (mode === "new") switchPlan(createPlan(name));
+    if (mode === "rename" && activeId) renamePlan(activeId, name);
+    setMode("");
+  }
+
+  if (!plans.length) return null;
+
+  if (mode === "new" || mode === "rename") {
+    return (
+      <form
+        className="flex flex-wrap items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={mode === "new" ? "e.g. Birthday Saturday" : "Plan name"}
+          maxLength={60}
+          className="w-56 rounded-full border border-white/12 bg-black/45 px-3 py-1 text-sm text-zinc-100 outline-none placeholder:text-zinc-500"
+        />
+        <button type="submit" disabled={!name.trim()} className={chip}>
+          {mode === "new" ? "Create" : "Save"}
+        </button>
+        <button type="button" onClick={() => setMode("")} className={chip}>
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={activeId}
+        onChange={(e) => {
+          setMode("");
+          switchPlan(e.target.value);
+        }}
+        aria-label="Plan"
+        className="max-w-[240px] rounded-full border border-emerald-200/20 bg-emerald-400/10 px-3 py-1 text-sm text-emerald-50 outline-none"
+      >
+        {plans.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.role ? `${p.name} (shared)` : p.name}
+          </option>
+        ))}
+      </select>
+
+      <button type="button" onClick={() => start("new")} className={chip}>
+        + New
+      </button>
+      {role === "owner" ? (
+        <button type="button" onClick={() => start("rename")} className={chip}>
+          Rename
+        </button>
+      ) : null}
+      <button type="button" onClick={() => switchPlan(duplicatePlan(activeId))} className={chip}>
+        Duplicate
+      </button>
+
+      {role === "owner" ? (
+        mode === "invite" ? (
+          <>
+            <span className="text-xs text-zinc-400">Invite as</span>
+            <button type="button" disabled={busy} onClick={() => invite("editor")} className={chip}>
+              Editor
+            </button>
+            <button type="button" disabled={busy} onClick={() => invite("viewer")} className={chip}>
+              Viewer
+            </button>
+            <button type="button" onClick={() => setMode("")} className={chip}>
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button type="button" onClick={() => start("invite")} className={chip}>
+            Invite
+          </button>
+        )
+      ) : null}
+
+      {role !== "owner" ? (
+        mode === "leave" ? (
+          <>
+            <span className="text-xs text-zinc-400">Leave “{active?.name}”?</span>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={leave}
+              className="rounded-full border border-red-300/25 bg-red-500/15 px-3 py-1 text-xs text-red-100 hover:bg-red-500/20"
+            >
+              Leave
+            </button>
+            <button type="button" onClick={() => setMode("")} className={chip}>
+              Stay
+            </button>
+          </>
+        ) : (
+          <button type="button" onClick={() => start("leave")} className={chip}>
+            Leave
+          </button>
+        )
+      ) : mode === "delete" ? (
+        <>
+          <span className="text-xs text-zinc-400">Delete “{active?.name}”?</span>
+          <button
+            type="button"
+            onClick={() => {
+              deletePlan(activeId);
+              setMode("");
+            }}
+            className="rounded-full border border-red-300/25 bg-red-500/15 px-3 py-1 text-xs text-red-100 hover:bg-red-500/20"
+          >
+            Delete
+          </button>
+          <button type="button" onClick={() => setMode("")} className={chip}>
+            Keep
+          </button>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={() => start("delete")}
+          disabled={ownPlans.length < 2}
+          title={ownPlans.length < 2 ? "You need at least one plan" : undefined}
+          className={chip}
+        >
+          Delete
+        </button>
+      )}
+
+      {note ? <span className="text-xs text-zinc-400">{note}</span> : null}
+    </div>
+  );
+}
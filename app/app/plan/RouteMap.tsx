@@ -0,0 +1,150 @@
+// app/app/plan/RouteMap.tsx
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { LayerGroup, Map as LeafletMap } from "leaflet";
+import "leaflet/dist/leaflet.css";
+
+type LatLon = { lat: number; lon: number };
+
+export type MapStop = LatLon & {
+  id: string;
+  name: string;
+  order: number; // same number as the "Stop N" card
+  state: "next" | "claimed" | "skipped" | "normal";
+  isDest: boolean;
+};
+
+// Any XYZ raster tile server works, e.g. a self-hosted one; defaults to the public OSM tiles.
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function markerHtml(label: string, tone: "start" | "end" | MapStop["state"], square: boolean) {
+  const shape = square ? "rounded-md" : "rounded-full";
+  const look =
+    tone === "next"
+      ? "h-8 w-8 border-emerald-100 bg-emerald-500 text-white shadow-[0_0_18px_rgba(16,185,129,0.75)]"
+      : tone === "claimed" || tone === "skipped"
+      ? "h-6 w-6 border-white/40 bg-zinc-700 text-zinc-300 opacity-50"
+      : tone === "start" || tone === "end"
+      ? "h-7 w-7 border-white bg-zinc-950 text-emerald-200"
+      : "h-7 w-7 border-white bg-emerald-800 text-white";
+  return `<div class="flex items-center justify-center border-2 ${shape} ${look} text-xs font-semibold">${label}</div>`;
+}
+
+/**
+ * Start, stops (numbered), end and the route line on OpenStreetMap-style tiles.
+ * `geometry` is the road path from the optimizer; without it stops are joined in order with a dashed line.
+ */
+export default function RouteMap({
+  start,
+  end,
+  stops,
+  geometry,
+}: {
+  start: LatLon | null;
+  end: LatLon | null; // only when the route doesn't finish at a stop (back at the start / custom address)
+  stops: MapStop[];
+  geometry: [number, number][] | null;
+}) {
+  const el = useRef<HTMLDivElement>(null);
+  const map = useRef<LeafletMap | null>(null);
+  const layer = useRef<LayerGroup | null>(null);
+  const lib = useRef<typeof import("leaflet") | null>(null);
+  const draw = useRef<() => void>(() => {});
+  const fitted = useRef(""); // refit only when the points change, not on every claim/skip
+
+  // Leaflet touches `window` on import, so load it only in the browser.
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const L = await import("leaflet");
+      if (cancelled || !el.current) return;
+
+      lib.current = L;
+      map.current = L.map(el.current, { zoomControl: true, attributionControl: true });
+      L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 19 }).addTo(map.current);
+      layer.current = L.layerGroup().addTo(map.current);
+      draw.current();
+    })();
+
+    return () => {
+      cancelled = true;
+      map.current?.remove();
+      map.current = null;
+      layer.current = null;
+      fitted.current = "";
+    };
+  }, []);
+
+  useEffect(() => {
+    draw.current = () => {
+      const L = lib.current;
+      const m = map.current;
+      const group = layer.current;
+      if (!L || !m || !group) return;
+
+      group.clearLayers();
+      const points: [number, number][] = [];
+
+      const ordered = stops.slice().sort((a, b) => a.order - b.order);
+      const path: [number, number][] =
+        geometry ??
+        [
+          ...(start ? [start] : []),
+          ...ordered.filter((s) => s.state !== "skipped" && s.state !== "claimed"),
+          ...(end ? [end] : []),
+        ].map((p) => [p.lat, p.lon]);
+
+      if (path.length >= 2) {
+        L.polyline(path, {
+          color: "#34d399",
+          weight: 4,
+          opacity: 0.8,
+          dashArray: geometry ? undefined : "6 8",
+        }).addTo(group);
+        points.push(...path);
+      }
+
+      const icon = (label: string, tone: Parameters<typeof markerHtml>[1], square = false) =>
+        L.divIcon({ html: markerHtml(label, tone, square), className: "", iconSize: [32, 32], iconAnchor: [16, 16] });
+
+      if (start) {
+        L.marker([start.lat, start.lon], { icon: icon("S", "start"), title: "Start" }).addTo(group);
+        points.push([start.lat, start.lon]);
+      }
+      const roundTrip = !!start && !!end && start.lat === end.lat && start.lon === end.lon;
+      if (end && !roundTrip) {
+        L.marker([end.lat, end.lon], { icon: icon("E", "end", true), title: "End" }).addTo(group);
+        points.push([end.lat, end.lon]);
+      }
+
+      for (const s of ordered) {
+        L.marker([s.lat, s.lon], {
+          icon: icon(String(s.order), s.state, s.isDest),
+          title: s.name,
+          zIndexOffset: s.state === "next" ? 1000 : s.state === "normal" ? 500 : 0,
+        })
+          .bindTooltip(escapeHtml(`${s.order}. ${s.name}${s.isDest ? " (final)" : ""}`))
+          .addTo(group);
+        points.push([s.lat, s.lon]);
+      }
+
+      const sig = points.map((p) => p.join(",")).join(";");
+      if (sig === fitted.current) return;
+      fitted.current = sig;
+      if (points.length === 1) m.setView(points[0], 14);
+      else if (points.length > 1) m.fitBounds(points, { padding: [28, 28], maxZoom: 15 });
+    };
+    draw.current();
+  }, [start, end, stops, geometry]);
+
+  return <div ref={el} className="h-[320px] w-full overflow-hidden rounded-[20px] border border-white/10 bg-black/40" />;
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  currentPushSubscription,
+  disablePush,
+  enablePush,
+  fetchPushPrefs,
+  pushSupported,
+  savePushPrefs,
+  type PushPrefs,
+} from "@/app/lib/push";
+
+const toggle = (on: boolean, size = "px-3 py-1") =>
+  `rounded-full ${size} text-xs transition disabled:opacity-50 ${
+    on ? "bg-emerald-400 text-black" : "border border-white/12 bg-black/35 text-zinc-200 hover:bg-white/5"
+  }`;
+
+/** Push notifications on this device, and which ones to send. */
+export default function PushSettings() {
+  const [supported, setSupported] = useState(false);
+  const [subscribed, setSubscribed] = useState(false);
+  const [prefs, setPrefs] = useState<PushPrefs>({ nextStop: true, expiring: true });
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([currentPushSubscription(), fetchPushPrefs()]).then(([sub, saved]) => {
+      if (cancelled) return;
+      setSupported(pushSupported());
+      setSubscribed(!!sub);
+      if (saved) setPrefs(saved);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function run(task: () => Promise<void>) {
+    if (busy) return;
+    setBusy(true);
+    setErr("");
+    try {
+      await task();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Could not save.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function setDevice(on: boolean) {
+    run(async () => {
+      if (on) await enablePush();
+      else await disablePush();
+      setSubscribed(on);
+    });
+  }
+
+  function setPref(next: PushPrefs) {
+    const prev = prefs;
+    setPrefs(next);
+    run(async () => {
+      try {
+        await savePushPrefs(next);
+      } catch (e) {
+        setPrefs(prev);
+        throw e;
+      }
+    });
+  }
+
+  return (
+    <div className="relative rounded-[26px] border border-white/14 bg-black/45 backdrop-blur-xl shadow-[0_18px_70px_rgba(0,0,0,0.55)] p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <div className="text-[11px] uppercase tracking-wider text-zinc-500">Notifications</div>
+          <div className="text-sm text-zinc-300">
+            {!supported
+              ? "This browser can’t receive notifications"
+              : subscribed
+              ? "On for this device"
+              : "Get your next stop and expiring deals while you’re out"}
+          </div>
+        </div>
+
+        {supported ? (
+          <button
+            role="switch"
+            aria-checked={subscribed}
+            disabled={busy}
+            onClick={() => setDevice(!subscribed)}
+            className={toggle(subscribed, "px-4 py-1.5 font-medium")}
+          >
+            {subscribed ? "On" : "Off"}
+          </button>
+        ) : null}
+      </div>
+
+      {supported && subscribed ? (
+        <div className="mt-4 flex flex-wrap gap-2">
+          <button
+            disabled={busy}
+            onClick={() => setPref({ ...prefs, nextStop: !prefs.nextStop })}
+            className={toggle(prefs.nextStop)}
+          >
+            {prefs.nextStop ? "✓ " : ""}Next stop after a claim
+          </button>
+          <button
+            disabled={busy}
+            onClick={() => setPref({ ...prefs, expiring: !prefs.expiring })}
+            className={toggle(prefs.expiring)}
+          >
+            {prefs.expiring ? "✓ " : ""}Deals about to expire
+          </button>
+        </div>
+      ) : null}
+
+      {err ? <div className="mt-3 text-xs text-red-300">{err}</div> : null}
+    </div>
+  );
+}
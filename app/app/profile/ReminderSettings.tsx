@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/app/lib/supabaseClient";
+import { DEFAULT_REMINDER_DAYS, REMINDER_HOUR, REMINDER_LEAD_CHOICES } from "@/app/lib/reminders";
+
+type Prefs = { on: boolean; daysBefore: number };
+
+function browserTimeZone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Opt-in birthday reminder emails: a signup digest some days ahead, and the plan on the morning of. */
+export default function ReminderSettings({ birthday }: { birthday: string }) {
+  const [prefs, setPrefs] = useState<Prefs>({ on: false, daysBefore: DEFAULT_REMINDER_DAYS });
+  const [loaded, setLoaded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const { data: userRes } = await supabase.auth.getUser();
+      const user = userRes.user;
+      if (!user) return;
+      const { data } = await supabase
+        .from("profiles")
+        .select("remind_email,remind_days_before")
+        .eq("user_id", user.id)
+        .maybeSingle();
+      if (cancelled) return;
+      setPrefs({
+        on: !!data?.remind_email,
+        daysBefore: typeof data?.remind_days_before === "number" ? data.remind_days_before : DEFAULT_REMINDER_DAYS,
+      });
+      setLoaded(true);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function save(next: Prefs) {
+    if (busy) return;
+    const prev = prefs;
+    setPrefs(next);
+    setBusy(true);
+    setErr("");
+    try {
+      const { data: userRes } = await supabase.auth.getUser();
+      const user = userRes.user;
+      if (!user) throw new Error("Not signed in.");
+
+      const { error } = await supabase.from("profiles").upsert(
+        {
+          user_id: user.id,
+          remind_email: next.on,
+          remind_days_before: next.daysBefore,
+          timezone: browserTimeZone(),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      );
+      if (error) throw error;
+    } catch (e) {
+      setPrefs(prev);
+      setErr(e instanceof Error ? e.message : "Could not save.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const hour = new Date(2000, 0, 1, REMINDER_HOUR).toLocaleTimeString(undefined, { hour: "numeric" });
+
+  return (
+    <div className="relative rounded-[26px] border border-white/14 bg-black/45 backdrop-blur-xl shadow-[0_18px_70px_rgba(0,0,0,0.55)] p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <div className="text-[11px] uppercase tracking-wider text-zinc-500">Birthday reminders</div>
+          <div className="text-sm text-zinc-300">
+            {prefs.on ? "Emails are on" : "Get an email before your birthday and on the day"}
+            {!birthday ? <span className="text-zinc-500"> • add your birthday first</span> : null}
+          </div>
+        </div>
+
+        <button
+          role="switch"
+          aria-checked={prefs.on}
+          disabled={!loaded || busy}
+          onClick={() => save({ ...prefs, on: !prefs.on })}
+          className={`rounded-full px-4 py-1.5 text-xs font-medium transition disabled:opacity-50 ${
+            prefs.on ? "bg-emerald-400 text-black" : "border border-white/12 bg-black/35 text-zinc-200 hover:bg-white/5"
+          }`}
+        >
+          {prefs.on ? "On" : "Off"}
+        </button>
+      </div>
+
+      {prefs.on ? (
+        <div className="mt-4 space-y-2 text-xs text-zinc-400">
+          <label className="flex flex-wrap items-center gap-2">
+            Signup digest
+            <select
+              value={prefs.daysBefore}
+              disabled={busy}
+              onChange={(e) => save({ ...prefs, daysBefore: Number(e.target.value) })}
+              className="rounded-full border border-white/12 bg-black/35 px-3 py-1 text-xs text-zinc-200 outline-none"
+            >
+              {REMINDER_LEAD_CHOICES.map((n) => (
+                <option key={n} value={n}>
+                  {n === 1 ? "1 day" : `${n} days`}
+                </option>
+              ))}
+            </select>
+            before my birthday
+          </label>
+          <div>Your plan arrives the morning of, after {hour} your time.</div>
+        </div>
+      ) : null}
+
+      {err ? <div className="mt-3 text-xs text-red-300">{err}</div> : null}
+    </div>
+  );
+}
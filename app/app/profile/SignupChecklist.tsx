@@ -0,0 +1,139 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import type { Deal } from "@/app/lib/deals";
+import {
+  SIGNUP_STATUSES,
+  SIGNUPS_UPDATED_EVENT,
+  fetchSignupStatuses,
+  saveSignupStatus,
+  signupDeadline,
+  signupDeadlineText,
+  type SignupStatus,
+} from "@/app/lib/signups";
+
+/** Rewards programs to join before the birthday, soonest deadline first. */
+export default function SignupChecklist({ deals, birthday }: { deals: Deal[]; birthday: string }) {
+  const [statuses, setStatuses] = useState<Record<string, SignupStatus>>({});
+  const [busyId, setBusyId] = useState("");
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const all = await fetchSignupStatuses();
+      if (!cancelled) setStatuses(all);
+    };
+    load();
+
+    window.addEventListener(SIGNUPS_UPDATED_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(SIGNUPS_UPDATED_EVENT, load);
+    };
+  }, []);
+
+  const rows = useMemo(() => {
+    const list = deals
+      .filter((d) => d.signupUrl || typeof d.signupLeadDays === "number")
+      .map((d) => ({ deal: d, deadline: signupDeadline(d, birthday) }));
+
+    // No deadline sorts last; otherwise soonest first.
+    list.sort((a, b) => (a.deadline?.daysLeft ?? Infinity) - (b.deadline?.daysLeft ?? Infinity));
+    return list;
+  }, [deals, birthday]);
+
+  const doneCount = rows.filter((r) => (statuses[r.deal.id] ?? "not_joined") !== "not_joined").length;
+
+  async function choose(dealId: string, next: SignupStatus) {
+    const prev = statuses[dealId] ?? "not_joined";
+    if (busyId || next === prev) return;
+
+    setBusyId(dealId);
+    setErr("");
+    setStatuses((s) => ({ ...s, [dealId]: next }));
+    try {
+      await saveSignupStatus(dealId, next);
+    } catch (e) {
+      setStatuses((s) => ({ ...s, [dealId]: prev }));
+      setErr(e instanceof Error ? e.message : "Could not save.");
+    } finally {
+      setBusyId("");
+    }
+  }
+
+  return (
+    <div className="relative rounded-[26px] border border-white/14 bg-black/45 backdrop-blur-xl shadow-[0_18px_70px_rgba(0,0,0,0.55)] p-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="text-[11px] uppercase tracking-wider text-zinc-500">Rewards signups</div>
+          <div className="text-sm text-zinc-300">
+            {doneCount}/{rows.length} done
+            {!birthday ? <span className="text-zinc-500"> • add your birthday to see deadlines</span> : null}
+          </div>
+        </div>
+      </div>
+
+      <ul className="mt-4 divide-y divide-white/8">
+        {rows.map(({ deal, deadline }) => {
+          const status = statuses[deal.id] ?? "not_joined";
+          const done = status !== "not_joined";
+          const late = !done && !!deadline && deadline.daysLeft < 0;
+          const soon = !done && !!deadline && deadline.daysLeft >= 0 && deadline.daysLeft <= 7;
+
+          return (
+            <li key={deal.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`text-sm ${done ? "text-emerald-100" : "text-zinc-100"}`}>
+                    {done ? "✓ " : ""}
+                    {deal.name}
+                  </span>
+                  <Link href={`/app/deals/${deal.id}`} className="text-xs text-zinc-500 underline underline-offset-4">
+                    details
+                  </Link>
+                </div>
+                <div
+                  className={`mt-0.5 text-xs ${
+                    late ? "text-red-300" : soon ? "text-amber-200" : done ? "text-zinc-500" : "text-zinc-400"
+                  }`}
+                >
+                  {deadline ? signupDeadlineText(deadline) : deal.conditions || "Join anytime"}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1.5">
+                {deal.signupUrl && !done ? (
+                  <a
+                    href={deal.signupUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="rounded-full border border-white/12 bg-black/35 px-3 py-1 text-xs text-zinc-200 hover:bg-white/5"
+                  >
+                    Join
+                  </a>
+                ) : null}
+
+                <select
+                  value={status}
+                  disabled={busyId === deal.id}
+                  onChange={(e) => choose(deal.id, e.target.value as SignupStatus)}
+                  className="rounded-full border border-white/12 bg-black/35 px-3 py-1 text-xs text-zinc-200 outline-none"
+                >
+                  {SIGNUP_STATUSES.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {err ? <div className="mt-3 text-xs text-red-300">{err}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+// app/lib/birthdayWindow.ts
+import type { Deal, RedemptionWindow } from "@/app/lib/deals";
+
+export type WindowStatus = "active" | "upcoming" | "expired";
+
+export type WindowInfo = {
+  status: WindowStatus;
+  start: Date; // first redeemable day (local midnight)
+  end: Date; // last redeemable day (local midnight)
+  days: number; // upcoming: days until start • expired: days since end • active: days left after today
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(d: Date) {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+function addDays(d: Date, n: number) {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+}
+
+function daysBetween(a: Date, b: Date) {
+  return Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+}
+
+/** Parse "YYYY-MM-DD" into month (1-12) and day; year is ignored. */
+function parseBirthday(iso: string): { m: number; d: number } | null {
+  if (!iso) return null;
+  const [, m, d] = iso.split("-").map(Number);
+  if (!m || !d || m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return { m, d };
+}
+
+/** The birthday as a date in `year` (Feb 29 falls back to Feb 28 in non-leap years). */
+export function birthdayInYear(iso: string, year: number): Date | null {
+  const b = parseBirthday(iso);
+  if (!b) return null;
+  const lastDay = new Date(year, b.m, 0).getDate();
+  return new Date(year, b.m - 1, Math.min(b.d, lastDay));
+}
+
+/** Which birthday a date belongs to: the year of the closest one (Dec 30 can count toward next year's). */
+export function birthdayYearOf(iso: string, date: Date): number {
+  const t = startOfDay(date);
+  let best = t.getFullYear();
+  let bestDist = Infinity;
+  for (const y of [t.getFullYear() - 1, t.getFullYear(), t.getFullYear() + 1]) {
+    const bday = birthdayInYear(iso, y);
+    if (!bday) return t.getFullYear();
+    const dist = Math.abs(daysBetween(bday, t));
+    if (dist < bestDist) {
+      best = y;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
+
+function windowRange(w: RedemptionWindow, bday: Date): { start: Date; end: Date } {
+  switch (w.kind) {
+    case "day":
+      return { start: bday, end: bday };
+    case "week":
+      return { start: addDays(bday, -3), end: addDays(bday, 3) };
+    case "month":
+      return {
+        start: new Date(bday.getFullYear(), bday.getMonth(), 1),
+        end: new Date(bday.getFullYear(), bday.getMonth() + 1, 0),
+      };
+    case "range":
+      return { start: addDays(bday, -w.daysBefore), end: addDays(bday, w.daysAfter) };
+  }
+}
+
+/**
+ * Where today falls relative to a deal's redemption window.
+ * Looks at last/this/next year's birthday so windows that straddle New Year work,
+ * and reports whichever of the previous or next window is closer when outside one.
+ * Returns null when there's no birthday or no window to compare against.
+ */
+export function windowInfo(
+  w: RedemptionWindow | undefined,
+  birthdayISO: string,
+  today: Date = new Date()
+): WindowInfo | null {
+  if (!w) return null;
+  const t = startOfDay(today);
+
+  const ranges: { start: Date; end: Date }[] = [];
+  for (const y of [t.getFullYear() - 1, t.getFullYear(), t.getFullYear() + 1]) {
+    const bday = birthdayInYear(birthdayISO, y);
+    if (!bday) return null;
+    ranges.push(windowRange(w, bday));
+  }
+
+  const current = ranges.find((r) => r.start <= t && t <= r.end);
+  if (current) return { status: "active", ...current, days: daysBetween(t, current.end) };
+
+  const next = ranges.find((r) => r.start > t)!;
+  const prev = ranges.filter((r) => r.end < t).pop()!;
+
+  const untilNext = daysBetween(t, next.start);
+  const sincePrev = daysBetween(prev.end, t);
+
+  return sincePrev < untilNext
+    ? { status: "expired", ...prev, days: sincePrev }
+    : { status: "upcoming", ...next, days: untilNext };
+}
+
+export function dealWindowInfo(deal: Pick<Deal, "redemptionWindow">, birthdayISO: string, today?: Date) {
+  return windowInfo(deal.redemptionWindow, birthdayISO, today);
+}
+
+/** True unless we know for sure the deal can't be redeemed today. */
+export function isRedeemableToday(deal: Pick<Deal, "redemptionWindow">, birthdayISO: string, today?: Date) {
+  const info = dealWindowInfo(deal, birthdayISO, today);
+  return !info || info.status === "active";
+}
+
+export function windowLabel(w: RedemptionWindow | undefined): string {
+  if (!w) return "";
+  switch (w.kind) {
+    case "day":
+      return "Birthday only";
+    case "week":
+      return "Birthday week";
+    case "month":
+      return "Birthday month";
+    case "range":
+      if (w.daysBefore === 0) return `Birthday + ${w.daysAfter} days`;
+      return `${w.daysBefore} days before – ${w.daysAfter} after`;
+  }
+}
+
+/** Short badge text, e.g. "Redeem today", "Today only", "Starts in 5d", "Ended 2d ago". */
+export function windowBadgeText(info: WindowInfo): string {
+  if (info.status === "active") {
+    if (info.days > 0) return "Redeem today";
+    return info.start.getTime() === info.end.getTime() ? "Today only" : "Last day today";
+  }
+  if (info.status === "upcoming") return info.days === 1 ? "Starts tomorrow" : `Starts in ${info.days}d`;
+  return info.days === 1 ? "Ended yesterday" : `Ended ${info.days}d ago`;
+}
@@ -0,0 +1,442 @@
+// app/lib/claimHistory.ts
+// Claim history: every claim is recorded as an event (claim_events) with its time and the store it
+// was claimed at; a note and a receipt/proof photo (Storage bucket "claim-photos") can be added
+// later. Unlike the claimed flags in planSync, events outlive the plan — removing a stop or
+// "Reset claimed" leaves them alone — so birthdays can be compared year over year and a redemption
+// proven if a store disputes it. Claims made offline or signed out wait in localStorage and are
+// sent by flushClaimEvents (on load and when the browser is back online). Queued entries carry the
+// account they were made under, so they're never saved to another one.
+import { birthdayYearOf } from "@/app/lib/birthdayWindow";
+import { cleanUsd } from "@/app/lib/deals";
+import type { PinnedStore } from "@/app/lib/pinnedStores";
+import { planCacheOwner } from "@/app/lib/planSync";
+import { supabase } from "@/app/lib/supabaseClient";
+
+export type ClaimEvent = {
+  id: string;
+  dealId: string;
+  claimedAt: string; // ISO timestamp
+  birthdayYear: number; // the birthday the freebie counted toward
+  participant: { id: string; name: string } | null; // claimed for another birthday person on the plan
+  store: PinnedStore | null;
+  valueUsd: number | null; // what it was worth, when the user corrected the deal's estimate
+  note: string;
+  photoPath: string | null;
+  pending: boolean; // recorded on this device, not saved to the account yet
+};
+
+type ClaimEventRow = {
+  id: string;
+  deal_id: string;
+  claimed_at: string;
+  birthday_year: number;
+  participant_id: string | null;
+  participant_name: string | null;
+  store_label: string | null;
+  store_lat: number | null;
+  store_lon: number | null;
+  store_place_id: string | null;
+  value_usd: number | string | null; // numeric comes back as a string
+  note: string | null;
+  photo_path: string | null;
+};
+
+/** userId is unset for entries made before the device knew the account (saved by the next one to sign in). */
+type Owned = { userId?: string };
+
+type QueuedEvent = ClaimEvent & Owned;
+
+/** An unclaim of an event that was already sent, waiting to be applied (by id when known). */
+type PendingUndo = Owned & { dealId: string; participantId: string | null; birthdayYear: number; eventId?: string };
+
+const QUEUE_KEY = "bs_claim_events_pending"; // QueuedEvent[] not saved yet
+const UNDO_KEY = "bs_claim_events_undo"; // PendingUndo[]
+const PROFILE_KEY = "bs_profile";
+export const CLAIM_EVENTS_UPDATED_EVENT = "bs_claim_events_updated";
+
+const PHOTO_BUCKET = "claim-photos";
+const SIGNED_URL_SECONDS = 60 * 60;
+export const MAX_CLAIM_NOTE = 500;
+export const MAX_CLAIM_PHOTO_BYTES = 8 * 1024 * 1024;
+
+const COLUMNS =
+  "id,deal_id,claimed_at,birthday_year,participant_id,participant_name,store_label,store_lat,store_lon,store_place_id,value_usd,note,photo_path";
+
+function profileBirthday(): string {
+  try {
+    const p = JSON.parse(localStorage.getItem(PROFILE_KEY) || "{}");
+    return typeof p?.birthday === "string" ? p.birthday : "";
+  } catch {
+    return "";
+  }
+}
+
+function readList<T>(key: string): T[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeList<T>(key: string, list: T[]) {
+  try {
+    if (list.length) localStorage.setItem(key, JSON.stringify(list));
+    else localStorage.removeItem(key);
+  } catch {}
+}
+
+function dispatchUpdated() {
+  try {
+    window.dispatchEvent(new Event(CLAIM_EVENTS_UPDATED_EVENT));
+  } catch {}
+}
+
+function toRow(e: ClaimEvent, userId: string) {
+  return {
+    id: e.id,
+    user_id: userId,
+    deal_id: e.dealId,
+    claimed_at: e.claimedAt,
+    birthday_year: e.birthdayYear,
+    participant_id: e.participant?.id ?? null,
+    participant_name: e.participant?.name ?? null,
+    store_label: e.store?.label ?? null,
+    store_lat: e.store?.lat ?? null,
+    store_lon: e.store?.lon ?? null,
+    store_place_id: e.store?.placeId ?? null,
+    value_usd: e.valueUsd,
+    note: e.note || null,
+  };
+}
+
+function fromRow(r: ClaimEventRow): ClaimEvent {
+  const hasStore = typeof r.store_lat === "number" && typeof r.store_lon === "number";
+  return {
+    id: r.id,
+    dealId: r.deal_id,
+    claimedAt: r.claimed_at,
+    birthdayYear: r.birthday_year,
+    participant: r.participant_id ? { id: r.participant_id, name: r.participant_name ?? "" } : null,
+    store: hasStore
+      ? {
+          lat: r.store_lat as number,
+          lon: r.store_lon as number,
+          ...(r.store_place_id ? { placeId: r.store_place_id } : {}),
+          ...(r.store_label ? { label: r.store_label } : {}),
+        }
+      : null,
+    valueUsd: cleanUsd(r.value_usd),
+    note: r.note ?? "",
+    photoPath: r.photo_path,
+    pending: false,
+  };
+}
+
+async function currentUserId(): Promise<string | null> {
+  const { data } = await supabase.auth.getUser();
+  return data.user?.id ?? null;
+}
+
+function ownerStamp(): Owned {
+  const userId = planCacheOwner();
+  return userId ? { userId } : {};
+}
+
+function belongsTo(entry: Owned, userId: string) {
+  return !entry.userId || entry.userId === userId;
+}
+
+/** The birthday year a claim made at `at` counts toward. */
+export function currentBirthdayYear(at: Date = new Date()): number {
+  return birthdayYearOf(profileBirthday(), at);
+}
+
+export function claimKey(dealId: string, participantId: string | null) {
+  return `${dealId}:${participantId ?? ""}`;
+}
+
+/** The latest event per deal and person (claimKey) in a birthday year. */
+export function latestClaims(events: ClaimEvent[], birthdayYear: number): Map<string, ClaimEvent> {
+  const out = new Map<string, ClaimEvent>();
+  for (const e of events) {
+    if (e.birthdayYear !== birthdayYear) continue;
+    const key = claimKey(e.dealId, e.participant?.id ?? null);
+    const seen = out.get(key);
+    if (!seen || seen.claimedAt < e.claimedAt) out.set(key, e);
+  }
+  return out;
+}
+
+/** Records a claim made just now. Saved right away when possible, otherwise on the next flush. */
+export function recordClaimEvent(input: {
+  dealId: string;
+  store?: PinnedStore | null;
+  participant?: { id: string; name: string } | null;
+  valueUsd?: number | null;
+}) {
+  const now = new Date();
+  const event: QueuedEvent = {
+    ...ownerStamp(),
+    id: crypto.randomUUID(),
+    dealId: input.dealId,
+    claimedAt: now.toISOString(),
+    birthdayYear: currentBirthdayYear(now),
+    participant: input.participant ?? null,
+    store: input.store ?? null,
+    valueUsd: input.valueUsd ?? null,
+    note: "",
+    photoPath: null,
+    pending: true,
+  };
+  writeList(QUEUE_KEY, [...readList<QueuedEvent>(QUEUE_KEY), event]);
+  dispatchUpdated();
+  void flushClaimEvents();
+}
+
+/**
+ * An unclaim right after a claim was a mis-tap: drops the latest event for this deal and person
+ * from the current birthday year. Earlier years are never touched.
+ */
+export function undoClaimEvent(dealId: string, participantId: string | null = null) {
+  const birthdayYear = currentBirthdayYear();
+  const queue = readList<QueuedEvent>(QUEUE_KEY);
+  const i = queue.findLastIndex(
+    (e) => e.dealId === dealId && (e.participant?.id ?? null) === participantId && e.birthdayYear === birthdayYear
+  );
+
+  const undo: PendingUndo = { ...ownerStamp(), dealId, participantId, birthdayYear };
+
+  if (i >= 0) {
+    writeList(QUEUE_KEY, queue.filter((_, j) => j !== i));
+    // on its way to the server right now: delete it once it lands
+    if (sending.has(queue[i].id)) writeList(UNDO_KEY, [...readList<PendingUndo>(UNDO_KEY), { ...undo, eventId: queue[i].id }]);
+  } else {
+    writeList(UNDO_KEY, [...readList<PendingUndo>(UNDO_KEY), undo]);
+  }
+  dispatchUpdated();
+  void flushClaimEvents();
+}
+
+async function applyUndo(u: PendingUndo): Promise<boolean> {
+  if (u.eventId) {
+    const { error } = await supabase.from("claim_events").delete().eq("id", u.eventId);
+    return !error;
+  }
+
+  let q = supabase
+    .from("claim_events")
+    .select("id,photo_path")
+    .eq("deal_id", u.dealId)
+    .eq("birthday_year", u.birthdayYear);
+  q = u.participantId ? q.eq("participant_id", u.participantId) : q.is("participant_id", null);
+
+  const { data, error } = await q.order("claimed_at", { ascending: false }).limit(1);
+  if (error) return false;
+
+  const row = data?.[0] as { id: string; photo_path: string | null } | undefined;
+  if (!row) return true;
+
+  const { error: delErr } = await supabase.from("claim_events").delete().eq("id", row.id);
+  if (delErr) return false;
+  if (row.photo_path) await supabase.storage.from(PHOTO_BUCKET).remove([row.photo_path]);
+  return true;
+}
+
+let flushing: Promise<void> | null = null;
+let flushAgain = false;
+const sending = new Set<string>(); // ids of queued events in the upsert in flight
+
+/** Sends claims and unclaims recorded on this device (signed in and online only). */
+export function flushClaimEvents(): Promise<void> {
+  if (flushing) {
+    flushAgain = true;
+    return flushing;
+  }
+  flushing = doFlush()
+    .catch(() => {})
+    .finally(() => {
+      flushing = null;
+      if (flushAgain) {
+        flushAgain = false;
+        void flushClaimEvents();
+      }
+    });
+  return flushing;
+}
+
+async function doFlush() {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return;
+  if (!readList(QUEUE_KEY).length && !readList(UNDO_KEY).length) return;
+
+  const userId = await currentUserId();
+  if (!userId) return;
+
+  // Anything made under another account is dropped (it can't be saved to that account from here)
+  writeList(QUEUE_KEY, readList<QueuedEvent>(QUEUE_KEY).filter((e) => belongsTo(e, userId)));
+  writeList(UNDO_KEY, readList<PendingUndo>(UNDO_KEY).filter((u) => belongsTo(u, userId)));
+  const queue = readList<QueuedEvent>(QUEUE_KEY);
+  const undos = readList<PendingUndo>(UNDO_KEY);
+
+  if (queue.length) {
+    queue.forEach((e) => sending.add(e.id));
+    let error;
+    try {
+      ({ error } = await supabase
+        .from("claim_events")
+        .upsert(queue.map((e) => toRow(e, userId)), { onConflict: "id", ignoreDuplicates: true }));
+    } finally {
+      sending.clear();
+    }
+    if (error) return;
+    // claims recorded while the upsert was in flight stay queued
+    const sent = new Set(queue.map((e) => e.id));
+    writeList(QUEUE_KEY, readList<QueuedEvent>(QUEUE_KEY).filter((e) => !sent.has(e.id)));
+  }
+
+  const left: PendingUndo[] = [];
+  for (const u of undos) if (!(await applyUndo(u))) left.push(u);
+  const added = readList<PendingUndo>(UNDO_KEY).slice(undos.length);
+  writeList(UNDO_KEY, [...left, ...added]);
+
+  dispatchUpdated();
+}
+
+/** The whole history, newest first: saved events plus any still waiting on this device. */
+export async function fetchClaimEvents(): Promise<ClaimEvent[]> {
+  const userId = await currentUserId();
+  const queued = readList<QueuedEvent>(QUEUE_KEY)
+    .filter((e) => !userId || belongsTo(e, userId))
+    .map((e) => ({ ...e, pending: true }));
+
+  let saved: ClaimEvent[] = [];
+  if (userId) {
+    const { data, error } = await supabase
+      .from("claim_events")
+      .select(COLUMNS)
+      .order("claimed_at", { ascending: false });
+    if (error) throw error;
+    saved = ((data ?? []) as ClaimEventRow[]).map(fromRow);
+  }
+
+  const ids = new Set(saved.map((e) => e.id));
+  return [...queued.filter((e) => !ids.has(e.id)), ...saved].sort((a, b) => b.claimedAt.localeCompare(a.claimedAt));
+}
+
+export async function updateClaimNote(id: string, note: string): Promise<void> {
+  const clean = note.trim().slice(0, MAX_CLAIM_NOTE);
+
+  const queue = readList<QueuedEvent>(QUEUE_KEY);
+  if (queue.some((e) => e.id === id)) {
+    writeList(QUEUE_KEY, queue.map((e) => (e.id === id ? { ...e, note: clean } : e)));
+    dispatchUpdated();
+    return;
+  }
+
+  const { error } = await supabase
+    .from("claim_events")
+    .update({ note: clean || null })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+/** Corrects what a claim was worth; null goes back to the deal's estimate. */
+export async function updateClaimValue(id: string, valueUsd: number | null): Promise<void> {
+  const queue = readList<QueuedEvent>(QUEUE_KEY);
+  if (queue.some((e) => e.id === id)) {
+    writeList(QUEUE_KEY, queue.map((e) => (e.id === id ? { ...e, valueUsd } : e)));
+    dispatchUpdated();
+    return;
+  }
+
+  const { error } = await supabase
+    .from("claim_events")
+    .update({ value_usd: valueUsd })
+    .eq("id", id);
+  if (error) throw error;
+  dispatchUpdated();
+}
+
+function photoExtension(file: File) {
+  const fromName = /\.([a-z0-9]{1,5})$/i.exec(file.name)?.[1];
+  if (fromName) return fromName.toLowerCase();
+  return file.type.split("/")[1]?.replace(/[^a-z0-9]/gi, "") || "jpg";
+}
+
+/**
+ * Attaches a receipt or proof photo to a saved event, replacing the previous one.
+ * Returns the new storage path.
+ */
+export async function uploadClaimPhoto(event: ClaimEvent, file: File): Promise<string> {
+  if (!file.type.startsWith("image/")) throw new Error("Choose an image file.");
+  if (file.size > MAX_CLAIM_PHOTO_BYTES) throw new Error("That photo is too large (8 MB max).");
+
+  if (event.pending) await flushClaimEvents();
+  if (readList<QueuedEvent>(QUEUE_KEY).some((e) => e.id === event.id)) {
+    throw new Error("This claim hasn’t synced yet. Try again when you’re online and signed in.");
+  }
+
+  const userId = await currentUserId();
+  if (!userId) throw new Error("Sign in to add photos.");
+
+  const path = `${userId}/${event.id}/${Date.now()}.${photoExtension(file)}`;
+  const { error: upErr } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+  if (upErr) throw upErr;
+
+  const { error } = await supabase
+    .from("claim_events")
+    .update({ photo_path: path })
+    .eq("id", event.id);
+  if (error) {
+    await supabase.storage.from(PHOTO_BUCKET).remove([path]);
+    throw error;
+  }
+
+  if (event.photoPath) await supabase.storage.from(PHOTO_BUCKET).remove([event.photoPath]);
+  return path;
+}
+
+export async function removeClaimPhoto(event: ClaimEvent): Promise<void> {
+  if (!event.photoPath) return;
+  const { error } = await supabase
+    .from("claim_events")
+    .update({ photo_path: null })
+    .eq("id", event.id);
+  if (error) throw error;
+  await supabase.storage.from(PHOTO_BUCKET).remove([event.photoPath]);
+}
+
+/** Short-lived links for showing private photos, by storage path. */
+export async function claimPhotoUrls(paths: string[]): Promise<Record<string, string>> {
+  if (!paths.length) return {};
+  const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error) throw error;
+
+  const out: Record<string, string> = {};
+  for (const d of data ?? []) if (d.path && d.signedUrl) out[d.path] = d.signedUrl;
+  return out;
+}
+
+/** Drops claims and unclaims still waiting on this device (sign-out, after a last flush). */
+export function clearClaimEventQueue() {
+  writeList(QUEUE_KEY, []);
+  writeList(UNDO_KEY, []);
+}
+
+/** Deletes an event from the history for good (with its photo). */
+export async function deleteClaimEvent(event: ClaimEvent): Promise<void> {
+  const queue = readList<QueuedEvent>(QUEUE_KEY);
+  if (queue.some((e) => e.id === event.id)) {
+    writeList(QUEUE_KEY, queue.filter((e) => e.id !== event.id));
+    dispatchUpdated();
+    return;
+  }
+
+  const { error } = await supabase.from("claim_events").delete().eq("id", event.id);
+  if (error) throw error;
+  if (event.photoPath) await supabase.storage.from(PHOTO_BUCKET).remove([event.photoPath]);
+  dispatchUpdated();
+}
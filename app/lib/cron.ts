@@ -0,0 +1,11 @@
+// app/lib/cron.ts
+
+/**
+ * Scheduled routes (/api/cron/*) accept "Authorization: Bearer $CRON_SECRET", which is what Vercel
+ * Cron sends. Without CRON_SECRET they only run outside production.
+ */
+export function isCronAuthorized(req: Request, env: NodeJS.ProcessEnv = process.env): boolean {
+  const secret = env.CRON_SECRET;
+  if (!secret) return env.NODE_ENV !== "production";
+  return req.headers.get("authorization") === `Bearer ${secret}`;
+}
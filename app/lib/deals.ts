@@ -1,34 +1,242 @@
 export type Category = "Food" | "Drinks" | "Dessert" | "Other";
 
+/**
+ * When a birthday freebie can be redeemed, relative to the birthday.
+ * "week" is the birthday ±3 days; "month" is the calendar birthday month.
+ */
+export type RedemptionWindow =
+  | { kind: "day" }
+  | { kind: "week" }
+  | { kind: "month" }
+  | { kind: "range"; daysBefore: number; daysAfter: number };
+
+/**
+ * How a deal's stores show up on maps. Branded stops resolve to the nearest store of the brand
+ * instead of a fuzzy text geocode.
+ */
+export type DealBrand = {
+  name: string; // name on listings, e.g. "Nothing Bundt Cakes"
+  aliases?: string[]; // other names listings use, e.g. "Nothing Bundt"
+  wikidata?: string; // brand id used by OpenStreetMap (`brand:wikidata`), e.g. "Q37158"
+};
+
+/**
+ * Estimated retail value of a freebie, in US dollars. `usd` is the typical value used for totals;
+ * `low`/`high` give the range for rewards that vary (pick-an-item, size upgrades).
+ */
+export type DealValue = { usd: number; low?: number; high?: number };
+
 export type Deal = {
   id: string;
   name: string;
   category: Category;
   freebie: string;
+  estimatedValue?: DealValue;
   conditions?: string;
   image?: string;
 
   // Optional “better maps” + detail page extras
   mapQuery?: string;      // e.g. "Starbucks" or "Starbucks coffee"
+  brand?: DealBrand;      // set for chains; unbranded deals are geocoded from mapQuery / name
   signupUrl?: string;     // e.g. rewards signup link
   claimSteps?: string[];  // bullet steps for detail page
+
+  redemptionWindow?: RedemptionWindow;
+  signupLeadDays?: number; // join the rewards program at least this many days before the birthday
+  serviceMinutes?: number; // typical time spent at the store (line + pickup); DEFAULT_SERVICE_MINUTES if unset
+};
+
+/** Dwell time assumed for a stop when neither the deal nor the plan item sets one. */
+export const DEFAULT_SERVICE_MINUTES = 10;
+export const MAX_SERVICE_MINUTES = 240;
+export const MAX_DEAL_VALUE_USD = 1000;
+
+export const CATEGORIES: Category[] = ["Food", "Drinks", "Dessert", "Other"];
+
+/** Row shape of the Supabase `deals` table (snake_case mirror of Deal + catalog bookkeeping). */
+export type DealRow = {
+  id: string;
+  name: string;
+  category: Category;
+  freebie: string;
+  estimated_value: DealValue | null;
+  conditions: string | null;
+  image: string | null;
+  map_query: string | null;
+  signup_url: string | null;
+  claim_steps: string[] | null;
+  redemption_window: RedemptionWindow | null;
+  signup_lead_days: number | null;
+  service_minutes: number | null;
+  brand: DealBrand | null;
+  sort_order: number;
+  archived: boolean;
 };
 
+export const DEAL_COLUMNS =
+  "id,name,category,freebie,estimated_value,conditions,image,map_query,signup_url,claim_steps,redemption_window,signup_lead_days,service_minutes,brand,sort_order,archived";
+
+function normalizeCategory(v: unknown): Category {
+  return CATEGORIES.includes(v as Category) ? (v as Category) : "Other";
+}
+
+const MAX_WINDOW_DAYS = 60;
+
+function clampDays(v: unknown) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? Math.min(MAX_WINDOW_DAYS, Math.max(0, Math.round(n))) : 0;
+}
+
+/** Validate a window coming from the DB (jsonb) or a form; anything unrecognized becomes undefined. */
+export function normalizeRedemptionWindow(v: unknown): RedemptionWindow | undefined {
+  if (!v || typeof v !== "object") return undefined;
+  const w = v as { kind?: unknown; daysBefore?: unknown; daysAfter?: unknown };
+  if (w.kind === "day" || w.kind === "week" || w.kind === "month") return { kind: w.kind };
+  if (w.kind === "range") return { kind: "range", daysBefore: clampDays(w.daysBefore), daysAfter: clampDays(w.daysAfter) };
+  return undefined;
+}
+
+/** Dollars rounded to cents, or null when it isn't a usable amount. */
+export function cleanUsd(v: unknown): number | null {
+  const n = typeof v === "number" ? v : typeof v === "string" && v.trim() ? Number(v.replace(/[$,\s]/g, "")) : NaN;
+  if (!Number.isFinite(n) || n < 0 || n > MAX_DEAL_VALUE_USD) return null;
+  return Math.round(n * 100) / 100;
+}
+
+/** Validate a value coming from the DB (jsonb) or a form; the range is dropped unless it holds `usd`. */
+export function normalizeDealValue(v: unknown): DealValue | undefined {
+  if (!v || typeof v !== "object") return undefined;
+  const x = v as { usd?: unknown; low?: unknown; high?: unknown };
+  const usd = cleanUsd(x.usd);
+  if (usd === null) return undefined;
+
+  const low = cleanUsd(x.low);
+  const high = cleanUsd(x.high);
+  const ranged = low !== null && high !== null && low <= usd && usd <= high && low < high;
+  return ranged ? { usd, low, high } : { usd };
+}
+
+/** "$6" or "$5.50". */
+export function formatUsd(n: number): string {
+  return Number.isInteger(n) ? `$${n}` : `$${n.toFixed(2)}`;
+}
+
+/** "~$6", or "$3–$12" for rewards that vary. */
+export function dealValueLabel(v: DealValue | undefined): string {
+  if (!v) return "";
+  return typeof v.low === "number" && typeof v.high === "number"
+    ? `${formatUsd(v.low)}–${formatUsd(v.high)}`
+    : `~${formatUsd(v.usd)}`;
+}
+
+const MAX_BRAND_TEXT = 80;
+const MAX_BRAND_ALIASES = 10;
+
+function brandText(v: unknown) {
+  return typeof v === "string" ? v.replace(/\s+/g, " ").trim().slice(0, MAX_BRAND_TEXT) : "";
+}
+
+/** Validate a brand coming from the DB (jsonb) or a form; no name means unbranded. */
+export function normalizeBrand(v: unknown): DealBrand | undefined {
+  if (!v || typeof v !== "object") return undefined;
+  const b = v as { name?: unknown; aliases?: unknown; wikidata?: unknown };
+  const name = brandText(b.name);
+  if (!name) return undefined;
+
+  const aliases = (Array.isArray(b.aliases) ? b.aliases : []).map(brandText).filter(Boolean).slice(0, MAX_BRAND_ALIASES);
+  const wikidata = brandText(b.wikidata).toUpperCase();
+  return {
+    name,
+    ...(aliases.length ? { aliases } : {}),
+    ...(/^Q\d+$/.test(wikidata) ? { wikidata } : {}),
+  };
+}
+
+/** Lowercase, no punctuation or apostrophes: "Jersey Mike's" and "jersey mikes" compare equal. */
+export function brandKey(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[’']/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Brand name plus aliases, as brandKey()s. */
+export function brandKeys(b: DealBrand): string[] {
+  return Array.from(new Set([b.name, ...(b.aliases ?? [])].map(brandKey).filter(Boolean)));
+}
+
+/** True when any of the keys appears as whole words in `text` (e.g. a listing or stop name). */
+export function textHasBrand(text: string, keys: string[]) {
+  const t = ` ${brandKey(text)} `;
+  return keys.some((k) => t.includes(` ${k} `));
+}
+
+export function dealFromRow(r: DealRow): Deal {
+  return {
+    id: r.id,
+    name: r.name,
+    category: normalizeCategory(r.category),
+    freebie: r.freebie,
+    estimatedValue: normalizeDealValue(r.estimated_value),
+    conditions: r.conditions || undefined,
+    image: r.image || undefined,
+    mapQuery: r.map_query || undefined,
+    brand: normalizeBrand(r.brand),
+    signupUrl: r.signup_url || undefined,
+    claimSteps: Array.isArray(r.claim_steps) && r.claim_steps.length ? r.claim_steps : undefined,
+    redemptionWindow: normalizeRedemptionWindow(r.redemption_window),
+    signupLeadDays: typeof r.signup_lead_days === "number" ? r.signup_lead_days : undefined,
+    serviceMinutes: typeof r.service_minutes === "number" ? r.service_minutes : undefined,
+  };
+}
+
+export function dealToRow(d: Deal, sortOrder: number, archived = false): DealRow {
+  return {
+    id: d.id,
+    name: d.name,
+    category: d.category,
+    freebie: d.freebie,
+    estimated_value: d.estimatedValue ?? null,
+    conditions: d.conditions || null,
+    image: d.image || null,
+    map_query: d.mapQuery || null,
+    signup_url: d.signupUrl || null,
+    claim_steps: d.claimSteps && d.claimSteps.length ? d.claimSteps : null,
+    redemption_window: d.redemptionWindow ?? null,
+    signup_lead_days: typeof d.signupLeadDays === "number" ? d.signupLeadDays : null,
+    service_minutes: typeof d.serviceMinutes === "number" ? d.serviceMinutes : null,
+    brand: d.brand ?? null,
+    sort_order: sortOrder,
+    archived,
+  };
+}
+
+/**
+ * Built-in catalog. Used to seed the `deals` table and as the fallback
+ * whenever the table is empty or Supabase can't be reached.
+ */
 export const ALL_DEALS: Deal[] = [
   {
   id: "starbucks",
   name: "Starbucks",
   category: "Drinks",
   freebie: "Free birthday drink",
+  estimatedValue: { usd: 6, low: 4, high: 8 },
   conditions: "Requires Starbucks Rewards",
   mapQuery: "Starbucks",
+  brand: { name: "Starbucks", aliases: ["Starbucks Coffee"] },
   signupUrl: "https://www.starbucks.com/rewards",
   claimSteps: [
     "Join Starbucks Rewards",
     "Add your birthday",
     "Redeem in app or in-store",
   ],
+  redemptionWindow: { kind: "day" },
+  signupLeadDays: 7,
   image: "/deals/starbucks.png",
+  serviceMinutes: 5,
 },
 
   {
@@ -36,160 +244,228 @@ export const ALL_DEALS: Deal[] = [
     name: "Chipotle",
     category: "Food",
     freebie: "Birthday reward (varies)",
+    estimatedValue: { usd: 5, low: 3, high: 12 },
     conditions: "Must be enrolled in rewards",
     mapQuery: "Chipotle",
+    brand: { name: "Chipotle", aliases: ["Chipotle Mexican Grill"] },
     signupUrl: "https://www.chipotle.com/chipotle-rewards",
     claimSteps: [
       "Join Chipotle Rewards",
       "Make sure your birthday is saved in your account",
       "Check rewards around your birthday and redeem",
     ],
+    redemptionWindow: { kind: "range", daysBefore: 0, daysAfter: 14 },
+    signupLeadDays: 14,
     image: "/deals/chipotle.png",
+    serviceMinutes: 15,
   },
   {
     id: "nothingbundt",
     name: "Nothing Bundt Cakes",
     category: "Dessert",
     freebie: "Free bundtlet",
+    estimatedValue: { usd: 6 },
     conditions: "Join email list",
     mapQuery: "Nothing Bundt Cakes",
+    brand: { name: "Nothing Bundt Cakes", aliases: ["Nothing Bundt"] },
     signupUrl: "https://www.nothingbundtcakes.com/",
     claimSteps: [
       "Sign up for emails / rewards (varies by location)",
       "Add your birthday info when prompted",
       "Redeem your birthday offer in-store",
     ],
+    redemptionWindow: { kind: "range", daysBefore: 7, daysAfter: 7 },
+    signupLeadDays: 7,
     image: "/deals/nothingbunt.png",
+    serviceMinutes: 5,
   },
   {
     id: "krispykreme",
     name: "Krispy Kreme",
     category: "Dessert",
     freebie: "Free Original Glazed donut",
+    estimatedValue: { usd: 2 },
     conditions: "Requires Krispy Kreme Rewards",
     mapQuery: "Krispy Kreme",
+    brand: { name: "Krispy Kreme", aliases: ["Krispy Kreme Doughnuts"] },
     signupUrl: "https://www.krispykreme.com/rewards",
     claimSteps: ["Join rewards", "Add birthday", "Redeem in store or app"],
+    redemptionWindow: { kind: "day" },
+    signupLeadDays: 7,
     image: "/deals/krispy.png",
+    serviceMinutes: 10,
   },
   {
     id: "panera",
     name: "Panera Bread",
     category: "Food",
     freebie: "Birthday treat (varies)",
+    estimatedValue: { usd: 5, low: 3, high: 8 },
     conditions: "MyPanera member required",
     mapQuery: "Panera Bread",
+    brand: { name: "Panera Bread", aliases: ["Panera"] },
     signupUrl: "https://www.panerabread.com/en-us/mypanera.html",
     claimSteps: ["Create MyPanera account", "Add birthday", "Check rewards on your birthday"],
+    redemptionWindow: { kind: "range", daysBefore: 0, daysAfter: 7 },
+    signupLeadDays: 14,
     image: "/deals/panera.png",
+    serviceMinutes: 15,
   },
   {
     id: "sephora",
     name: "Sephora",
     category: "Other",
     freebie: "Free birthday gift",
+    estimatedValue: { usd: 15, low: 10, high: 25 },
     conditions: "Beauty Insider member required",
     mapQuery: "Sephora",
+    brand: { name: "Sephora" },
     signupUrl: "https://www.sephora.com/beauty/beauty-insider",
     claimSteps: ["Join Beauty Insider", "Redeem in store or online during birthday month"],
+    redemptionWindow: { kind: "month" },
     image: "/deals/sephora.png",
+    serviceMinutes: 15,
   },
   {
     id: "ulta",
     name: "Ulta Beauty",
     category: "Other",
     freebie: "Free birthday gift + bonus points",
+    estimatedValue: { usd: 10, low: 6, high: 20 },
     conditions: "Ultamate Rewards member required",
     mapQuery: "Ulta Beauty",
+    brand: { name: "Ulta Beauty", aliases: ["Ulta"] },
     signupUrl: "https://www.ulta.com/rewards/all",
     claimSteps: ["Join Ultamate Rewards", "Add birthday", "Redeem gift in store during birthday month"],
+    redemptionWindow: { kind: "month" },
+    serviceMinutes: 15,
   },
   {
     id: "ihop",
     name: "IHOP",
     category: "Food",
     freebie: "Free birthday pancakes",
+    estimatedValue: { usd: 8 },
     conditions: "IHOP Rewards required",
     mapQuery: "IHOP",
+    brand: { name: "IHOP", aliases: ["International House of Pancakes"] },
     signupUrl: "https://www.ihop.com/en/rewards",
     claimSteps: ["Join rewards", "Add birthday", "Redeem offer in app"],
+    redemptionWindow: { kind: "day" },
+    signupLeadDays: 14,
     image: "/deals/ihop.png",
+    serviceMinutes: 45,
   },
   {
     id: "jerseymikes",
     name: "Jersey Mike’s",
     category: "Food",
     freebie: "Birthday sub reward (varies)",
+    estimatedValue: { usd: 9, low: 7, high: 13 },
     conditions: "Shore Points member required",
     mapQuery: "Jersey Mike's",
+    brand: { name: "Jersey Mike's", aliases: ["Jersey Mike's Subs"] },
     signupUrl: "https://www.jerseymikes.com/rewards",
     claimSteps: ["Join Shore Points", "Add birthday", "Redeem reward when it appears"],
+    redemptionWindow: { kind: "week" },
+    signupLeadDays: 30,
     image: "/deals/jerseymikes.png",
+    serviceMinutes: 15,
   },
   {
     id: "bathbodyworks",
     name: "Bath & Body Works",
     category: "Other",
     freebie: "Birthday reward (varies)",
+    estimatedValue: { usd: 15, low: 10, high: 20 },
     conditions: "Rewards member required (where available)",
     mapQuery: "Bath & Body Works",
+    brand: { name: "Bath & Body Works", aliases: ["Bath and Body Works"] },
     signupUrl: "https://www.bathandbodyworks.com/my-account/rewards",
     claimSteps: ["Join rewards", "Add birthday", "Check app for birthday offer"],
+    redemptionWindow: { kind: "month" },
+    signupLeadDays: 30,
     image: "/deals/bnb.png",
+    serviceMinutes: 10,
   },
   {
     id: "coldstone",
     name: "Cold Stone Creamery",
     category: "Dessert",
     freebie: "Buy-one-get-one treat (varies)",
+    estimatedValue: { usd: 6, low: 5, high: 9 },
     conditions: "My Cold Stone Club required",
     mapQuery: "Cold Stone Creamery",
+    brand: { name: "Cold Stone Creamery", aliases: ["Cold Stone", "Coldstone"] },
     signupUrl: "https://www.coldstonecreamery.com/about/clubs/",
     claimSteps: ["Join the club", "Confirm email", "Get coupon near your birthday"],
+    redemptionWindow: { kind: "week" },
+    signupLeadDays: 7,
     image: "/deals/coldstone.png",
+    serviceMinutes: 10,
   },
   {
     id: "jeremias",
     name: "Jeremiah’s Italian Ice",
     category: "Dessert",
     freebie: "Free birthday treat (varies)",
+    estimatedValue: { usd: 4, low: 3, high: 6 },
     conditions: "Rewards member required",
     mapQuery: "Jeremiah's Italian Ice",
+    brand: { name: "Jeremiah's Italian Ice", aliases: ["Jeremiah's"] },
     signupUrl: "https://jeremiahsice.com/rewards/",
     claimSteps: ["Join rewards", "Add birthday", "Redeem offer in store"],
+    redemptionWindow: { kind: "day" },
+    signupLeadDays: 7,
     image: "/deals/jeremiahs.png",
+    serviceMinutes: 5,
   },
   {
     id: "cinnabon",
     name: "Cinnabon",
     category: "Dessert",
     freebie: "Birthday reward (varies)",
+    estimatedValue: { usd: 5, low: 4, high: 7 },
     conditions: "Cinnabon Rewards required",
     mapQuery: "Cinnabon",
+    brand: { name: "Cinnabon" },
     signupUrl: "https://www.cinnabon.com/rewards",
     claimSteps: ["Join rewards", "Add birthday", "Redeem in app"],
+    redemptionWindow: { kind: "week" },
+    signupLeadDays: 7,
     image: "/deals/cinnabon.png",
+    serviceMinutes: 5,
   },
   {
     id: "raisingcanes",
     name: "Raising Cane’s",
     category: "Food",
     freebie: "Birthday reward (varies)",
+    estimatedValue: { usd: 4, low: 3, high: 11 },
     conditions: "Cane’s rewards member required",
     mapQuery: "Raising Cane's",
+    brand: { name: "Raising Cane's", aliases: ["Raising Cane's Chicken Fingers"] },
     signupUrl: "https://www.raisingcanes.com/canes-rewards/",
     claimSteps: ["Join rewards", "Add birthday", "Redeem reward when available"],
+    redemptionWindow: { kind: "week" },
+    signupLeadDays: 14,
   image: "/deals/canes.png",
+    serviceMinutes: 20,
   },
   {
     id: "buffalowildwings",
     name: "Buffalo Wild Wings",
     category: "Food",
     freebie: "Birthday reward (varies)",
+    estimatedValue: { usd: 9, low: 7, high: 13 },
     conditions: "Rewards member required",
     mapQuery: "Buffalo Wild Wings",
+    brand: { name: "Buffalo Wild Wings", aliases: ["BWW", "B-Dubs"] },
     signupUrl: "https://www.buffalowildwings.com/rewards/",
     claimSteps: ["Join rewards", "Add birthday", "Check app for birthday reward"],
+    redemptionWindow: { kind: "range", daysBefore: 0, daysAfter: 14 },
+    signupLeadDays: 14,
   image: "/deals/bww.png",
+    serviceMinutes: 45,
   },
 ];
@@ -0,0 +1,61 @@
+// app/lib/dealsServer.ts
+import { ALL_DEALS, DEAL_COLUMNS, dealFromRow, type Deal, type DealRow } from "@/app/lib/deals";
+import { createSupabaseServerClient } from "@/app/lib/supabaseServer";
+
+/**
+ * Active catalog in display order.
+ * Falls back to the built-in ALL_DEALS when the table is empty or unreachable.
+ */
+export async function loadDeals(): Promise<Deal[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase
+      .from("deals")
+      .select(DEAL_COLUMNS)
+      .eq("archived", false)
+      .order("sort_order", { ascending: true });
+
+    if (error || !Array.isArray(data) || data.length === 0) return ALL_DEALS;
+    return (data as DealRow[]).map(dealFromRow);
+  } catch {
+    return ALL_DEALS;
+  }
+}
+
+export async function loadDeal(id: string): Promise<Deal | null> {
+  const deals = await loadDeals();
+  return deals.find((d) => d.id === id) ?? null;
+}
+
+/** Every row including archived ones, for the admin editor. Empty when the table has no rows yet. */
+export async function loadDealRowsForAdmin(): Promise<DealRow[]> {
+  const supabase = await createSupabaseServerClient();
+  const { data, error } = await supabase
+    .from("deals")
+    .select(DEAL_COLUMNS)
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as DealRow[];
+}
+
+export async function isCurrentUserAdmin(): Promise<boolean> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { data: userRes } = await supabase.auth.getUser();
+    const user = userRes?.user;
+    if (!user) return false;
+
+    // `admins` is only writable by the service role; users can read their own row
+    const { data, error } = await supabase
+      .from("admins")
+      .select("user_id")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) return false;
+    return !!data;
+  } catch {
+    return false;
+  }
+}
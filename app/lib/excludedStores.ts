@@ -0,0 +1,101 @@
+// app/lib/excludedStores.ts
+// Store locations a user never wants to be routed to (e.g. licensed stores that don't honor rewards).
+// Same local-first shape as pinned stores: localStorage copy, Supabase when signed in.
+import { cleanPinnedStore, samePinnedStore, type PinnedStore } from "@/app/lib/pinnedStores";
+import { supabase } from "@/app/lib/supabaseClient";
+
+/** dealId is the deal it was excluded from, for display; the exclusion applies to every deal. */
+export type ExcludedStore = PinnedStore & { dealId?: string };
+
+export const EXCLUDED_STORES_KEY = "bs_excluded_stores"; // ExcludedStore[]
+export const EXCLUDED_STORES_UPDATED_EVENT = "bs_excluded_stores_updated";
+export const MAX_EXCLUDED_STORES = 200;
+
+/** Stable id for a store: its place id, else its coordinates (~1 m). */
+export function storeKey(s: PinnedStore) {
+  return s.placeId || `${s.lat.toFixed(5)},${s.lon.toFixed(5)}`;
+}
+
+function cleanExcluded(v: unknown): ExcludedStore | null {
+  const p = cleanPinnedStore(v);
+  if (!p) return null;
+  const dealId = (v as { dealId?: unknown }).dealId;
+  return typeof dealId === "string" && dealId ? { ...p, dealId } : p;
+}
+
+export function readExcludedStores(): ExcludedStore[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(EXCLUDED_STORES_KEY) || "[]");
+    return (Array.isArray(parsed) ? parsed : [])
+      .map(cleanExcluded)
+      .filter((x): x is ExcludedStore => !!x)
+      .slice(0, MAX_EXCLUDED_STORES);
+  } catch {
+    return [];
+  }
+}
+
+function writeExcludedStores(list: ExcludedStore[]) {
+  try {
+    localStorage.setItem(EXCLUDED_STORES_KEY, JSON.stringify(list.slice(0, MAX_EXCLUDED_STORES)));
+    window.dispatchEvent(new Event(EXCLUDED_STORES_UPDATED_EVENT));
+  } catch {}
+}
+
+export function isExcludedStore(list: PinnedStore[], s: PinnedStore) {
+  return list.some((x) => samePinnedStore(x, s));
+}
+
+/** Refresh the local copy from Supabase (signed in only) and return it. */
+export async function fetchExcludedStores(): Promise<ExcludedStore[]> {
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes.user;
+  if (!user) return readExcludedStores();
+
+  const { data, error } = await supabase
+    .from("excluded_stores")
+    .select("deal_id,lat,lon,place_id,label")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true });
+  if (error || !Array.isArray(data)) return readExcludedStores();
+
+  const out = data
+    .map((r) => cleanExcluded({ lat: r?.lat, lon: r?.lon, placeId: r?.place_id, label: r?.label, dealId: r?.deal_id }))
+    .filter((x): x is ExcludedStore => !!x);
+  writeExcludedStores(out);
+  return out;
+}
+
+/** Exclude (or, with excluded=false, allow again) a store. Local first, then Supabase when signed in. */
+export async function setStoreExcluded(store: ExcludedStore, excluded: boolean) {
+  const rest = readExcludedStores().filter((x) => !samePinnedStore(x, store));
+  writeExcludedStores(excluded ? [...rest, store] : rest);
+
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes.user;
+  if (!user) return;
+
+  if (!excluded) {
+    const { error } = await supabase
+      .from("excluded_stores")
+      .delete()
+      .eq("user_id", user.id)
+      .eq("store_key", storeKey(store));
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.from("excluded_stores").upsert(
+    {
+      user_id: user.id,
+      store_key: storeKey(store),
+      deal_id: store.dealId ?? null,
+      lat: store.lat,
+      lon: store.lon,
+      place_id: store.placeId ?? null,
+      label: store.label ?? null,
+    },
+    { onConflict: "user_id,store_key" }
+  );
+  if (error) throw error;
+}
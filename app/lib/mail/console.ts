@@ -0,0 +1,12 @@
+// app/lib/mail/console.ts
+import type { Mailer } from "./types";
+
+/** Prints each message to the server log instead of sending it (development). */
+export function createConsoleMailer(): Mailer {
+  return {
+    name: "console",
+    async send(msg) {
+      console.info(`[mail] to=${msg.to} subject=${JSON.stringify(msg.subject)}\n${msg.text}`);
+    },
+  };
+}
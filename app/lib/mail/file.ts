@@ -0,0 +1,45 @@
+// app/lib/mail/file.ts
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Mailer } from "./types";
+
+function safe(s: string) {
+  return s.replace(/[^a-z0-9@._-]+/gi, "_").slice(0, 60);
+}
+
+/**
+ * Writes each message to `dir` as an .eml file (development): open them in any mail client, or read
+ * the .txt copy next to it.
+ */
+export function createFileMailer(dir: string, from: string): Mailer {
+  return {
+    name: "file",
+    async send(msg) {
+      await mkdir(dir, { recursive: true });
+      const base = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${safe(msg.to)}`);
+
+      const boundary = `bs-${Math.random().toString(36).slice(2)}`;
+      const headers = [`From: ${from}`, `To: ${msg.to}`, `Subject: ${msg.subject}`, "MIME-Version: 1.0"];
+      const eml = msg.html
+        ? [
+            ...headers,
+            `Content-Type: multipart/alternative; boundary="${boundary}"`,
+            "",
+            `--${boundary}`,
+            "Content-Type: text/plain; charset=utf-8",
+            "",
+            msg.text,
+            `--${boundary}`,
+            "Content-Type: text/html; charset=utf-8",
+            "",
+            msg.html,
+            `--${boundary}--`,
+            "",
+          ]
+        : [...headers, "Content-Type: text/plain; charset=utf-8", "", msg.text, ""];
+
+      await writeFile(`${base}.eml`, eml.join("\r\n"));
+      await writeFile(`${base}.txt`, `To: ${msg.to}\nSubject: ${msg.subject}\n\n${msg.text}\n`);
+    },
+  };
+}
@@ -0,0 +1,40 @@
+// app/lib/mail/index.ts
+// Outgoing email (birthday reminders), picked by MAIL_TRANSPORT:
+//   resend   Resend HTTP API (RESEND_API_KEY)
+//   file     .eml files under MAIL_DIR (default .cache/mail), nothing is sent (development)
+//   console  printed to the server log (development)
+// Unset: resend when RESEND_API_KEY exists, else file outside production.
+// MAIL_FROM is the sender, e.g. "BirthdayScout <hello@example.com>".
+import path from "node:path";
+import { createConsoleMailer } from "./console";
+import { createFileMailer } from "./file";
+import { createResendMailer } from "./resend";
+import { MailConfigError, type Mailer } from "./types";
+
+export * from "./types";
+
+export type MailTransportName = "resend" | "file" | "console";
+
+const DEV_FROM = "BirthdayScout <reminders@localhost>";
+
+function configuredName(env: NodeJS.ProcessEnv): MailTransportName {
+  const raw = (env.MAIL_TRANSPORT || "").trim().toLowerCase();
+  if (raw === "resend" || raw === "file" || raw === "console") return raw;
+  if (raw) throw new MailConfigError(`Unknown MAIL_TRANSPORT "${raw}" (use resend, file or console)`);
+
+  if (env.RESEND_API_KEY) return "resend";
+  if (env.NODE_ENV !== "production") return "file";
+  throw new MailConfigError("No mail transport configured: set RESEND_API_KEY (or MAIL_TRANSPORT)");
+}
+
+/** The transport for this process. */
+export function getMailer(env: NodeJS.ProcessEnv = process.env): Mailer {
+  const name = configuredName(env);
+  const from = (env.MAIL_FROM || "").trim();
+
+  if (name === "console") return createConsoleMailer();
+  if (name === "file") return createFileMailer(path.resolve(env.MAIL_DIR || ".cache/mail"), from || DEV_FROM);
+
+  if (!from) throw new MailConfigError("MAIL_FROM is required to send email");
+  return createResendMailer(env.RESEND_API_KEY, from);
+}
@@ -0,0 +1,24 @@
+// app/lib/mail/resend.ts
+import { MailConfigError, type Mailer } from "./types";
+
+const ENDPOINT = "https://api.resend.com/emails";
+
+/** Sends through the Resend HTTP API (RESEND_API_KEY); `from` must be on a verified domain. */
+export function createResendMailer(apiKey: string | undefined, from: string): Mailer {
+  if (!apiKey) throw new MailConfigError("MAIL_TRANSPORT=resend needs RESEND_API_KEY in env");
+
+  return {
+    name: "resend",
+    async send(msg) {
+      const res = await fetch(ENDPOINT, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ from, to: [msg.to], subject: msg.subject, text: msg.text, html: msg.html }),
+      });
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`Resend ${res.status}: ${body.slice(0, 200)}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,21 @@
+// app/lib/mail/types.ts
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface Mailer {
+  name: string;
+  send(msg: MailMessage): Promise<void>;
+}
+
+/** Thrown when the configured transport can't run (missing key or sender, unknown name). */
+export class MailConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MailConfigError";
+  }
+}
@@ -0,0 +1,51 @@
+// app/lib/offline.ts
+// Offline support (installable PWA): registers the service worker (public/sw.js) and tells it which
+// pages to keep — the plan, the deals list and the detail page of every stop on the open plan — plus
+// the scripts, styles and images this page already loaded. The plan itself is in localStorage
+// (planSync), so with those cached /app/plan keeps working offline; claims and skips made meanwhile
+// wait in planSync's pending list and go out when the browser is back online.
+import { readPlanCache } from "@/app/lib/planSync";
+
+export const SERVICE_WORKER_URL = "/sw.js";
+
+const SHELL_PAGES = ["/app/plan", "/app/deals"];
+
+export function serviceWorkerSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator;
+}
+
+/** In development Next's chunks aren't content-hashed, so there the worker only handles push. */
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!serviceWorkerSupported()) return Promise.resolve(null);
+  const url = process.env.NODE_ENV === "production" ? SERVICE_WORKER_URL : `${SERVICE_WORKER_URL}?offline=0`;
+  return navigator.serviceWorker.register(url).catch(() => null);
+}
+
+/** Same-origin URLs this page fetched that are worth keeping (Next chunks, fonts, images). */
+function loadedAssets(): string[] {
+  const out = new Set<string>();
+  for (const e of performance.getEntriesByType("resource")) {
+    let url: URL;
+    try {
+      url = new URL(e.name);
+    } catch {
+      continue;
+    }
+    if (url.origin !== location.origin) continue;
+    if (/^\/(_next\/static|_next\/image|deals|brands|icons)\//.test(url.pathname)) out.add(url.pathname + url.search);
+  }
+  return Array.from(out);
+}
+
+/** Asks the service worker to cache what the open plan needs offline. Pages already cached are left alone. */
+export async function warmOfflineCache(): Promise<void> {
+  if (!serviceWorkerSupported()) return;
+  const reg = await navigator.serviceWorker.ready;
+
+  const stops = readPlanCache().planIds.map((id) => `/app/deals/${encodeURIComponent(id)}`);
+  reg.active?.postMessage({
+    type: "precache",
+    pages: [...SHELL_PAGES, ...stops],
+    assets: loadedAssets(),
+  });
+}
@@ -0,0 +1,75 @@
+// app/lib/participants.ts
+// Shared-birthday mode: twins or a couple with close birthdays do one trip together. Besides the
+// user, a plan can list other birthday people; each stop's freebie counts once per person whose
+// redemption window includes today, and claims are marked per person. The user's own claims stay
+// in claimedAt (deal_claims); the others' are stored on the plan's stops (plan_items.claimed_by).
+import type { Deal } from "@/app/lib/deals";
+import { isRedeemableToday } from "@/app/lib/birthdayWindow";
+
+export type Participant = {
+  id: string;
+  name: string;
+  birthday: string; // "YYYY-MM-DD", or "" when unknown
+};
+
+/** Id the user goes by next to their participants (never stored). */
+export const SELF_PARTICIPANT = "me";
+export const MAX_PARTICIPANTS = 8;
+const MAX_NAME = 40;
+
+export function newParticipantId() {
+  return crypto.randomUUID().slice(0, 8);
+}
+
+function isoDate(v: unknown) {
+  return typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : "";
+}
+
+export function cleanParticipants(v: unknown): Participant[] {
+  if (!Array.isArray(v)) return [];
+  const seen = new Set<string>([SELF_PARTICIPANT]);
+  const out: Participant[] = [];
+  for (const x of v) {
+    if (!x || typeof x !== "object") continue;
+    const r = x as Record<string, unknown>;
+    const id = typeof r.id === "string" ? r.id.trim().slice(0, 40) : "";
+    const name = typeof r.name === "string" ? r.name.trim().slice(0, MAX_NAME) : "";
+    if (!id || !name || seen.has(id)) continue;
+    seen.add(id);
+    out.push({ id, name, birthday: isoDate(r.birthday) });
+    if (out.length === MAX_PARTICIPANTS) break;
+  }
+  return out;
+}
+
+/** deal id -> participant ids; drops unknown participants and empty entries. */
+export function cleanParticipantClaims(v: unknown, participants: Participant[]): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  if (!v || typeof v !== "object") return out;
+  const known = new Set(participants.map((p) => p.id));
+  for (const [dealId, ids] of Object.entries(v as Record<string, unknown>)) {
+    if (!Array.isArray(ids)) continue;
+    const kept = Array.from(new Set(ids.filter((id): id is string => typeof id === "string" && known.has(id))));
+    if (kept.length) out[dealId] = kept;
+  }
+  return out;
+}
+
+/** The user first, then the plan's participants. */
+export function riders(selfBirthday: string, participants: Participant[]): Participant[] {
+  return [{ id: SELF_PARTICIPANT, name: "You", birthday: selfBirthday }, ...participants];
+}
+
+/**
+ * Who a stop's freebie counts for: everyone whose window includes today (an unknown birthday counts),
+ * plus anyone who already claimed it. Nobody eligible still leaves the user, so a stop always counts once.
+ */
+export function stopRiders(
+  deal: Pick<Deal, "redemptionWindow">,
+  people: Participant[],
+  claimedBy: ReadonlySet<string>,
+  today?: Date
+): Participant[] {
+  const out = people.filter((p) => claimedBy.has(p.id) || isRedeemableToday(deal, p.birthday, today));
+  return out.length ? out : people.slice(0, 1);
+}
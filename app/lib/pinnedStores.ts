@@ -0,0 +1,103 @@
+// app/lib/pinnedStores.ts
+// A specific store the user picked for a deal (instead of the nearest one), per user and deal.
+// localStorage keeps a copy so routing and "Open in Maps" work offline and before sign-in.
+import { supabase } from "@/app/lib/supabaseClient";
+
+export type PinnedStore = { lat: number; lon: number; placeId?: string; label?: string };
+
+export const PINNED_STORES_KEY = "bs_pinned_stores"; // deal id -> PinnedStore
+export const PINNED_STORES_UPDATED_EVENT = "bs_pinned_stores_updated";
+
+export function cleanPinnedStore(v: unknown): PinnedStore | null {
+  if (!v || typeof v !== "object") return null;
+  const p = v as Record<string, unknown>;
+  const lat = Number(p.lat);
+  const lon = Number(p.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+
+  const placeId = typeof p.placeId === "string" && p.placeId.trim() ? p.placeId.trim().slice(0, 300) : undefined;
+  const label = typeof p.label === "string" && p.label.trim() ? p.label.trim().slice(0, 200) : undefined;
+  return { lat, lon, ...(placeId ? { placeId } : {}), ...(label ? { label } : {}) };
+}
+
+export function samePinnedStore(a: PinnedStore | null | undefined, b: PinnedStore | null | undefined) {
+  if (!a || !b) return false;
+  if (a.placeId && b.placeId) return a.placeId === b.placeId;
+  return a.lat.toFixed(5) === b.lat.toFixed(5) && a.lon.toFixed(5) === b.lon.toFixed(5);
+}
+
+export function readPinnedStores(): Record<string, PinnedStore> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PINNED_STORES_KEY) || "{}");
+    const out: Record<string, PinnedStore> = {};
+    if (parsed && typeof parsed === "object") {
+      for (const [id, v] of Object.entries(parsed)) {
+        const p = cleanPinnedStore(v);
+        if (p) out[id] = p;
+      }
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+function writePinnedStores(map: Record<string, PinnedStore>) {
+  try {
+    localStorage.setItem(PINNED_STORES_KEY, JSON.stringify(map));
+    window.dispatchEvent(new Event(PINNED_STORES_UPDATED_EVENT));
+  } catch {}
+}
+
+/** Refresh the local copy from Supabase (signed in only) and return it. */
+export async function fetchPinnedStores(): Promise<Record<string, PinnedStore>> {
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes.user;
+  if (!user) return readPinnedStores();
+
+  const { data, error } = await supabase
+    .from("pinned_stores")
+    .select("deal_id,lat,lon,place_id,label")
+    .eq("user_id", user.id);
+  if (error || !Array.isArray(data)) return readPinnedStores();
+
+  const out: Record<string, PinnedStore> = {};
+  for (const r of data) {
+    const p = cleanPinnedStore({ lat: r?.lat, lon: r?.lon, placeId: r?.place_id, label: r?.label });
+    if (typeof r?.deal_id === "string" && p) out[r.deal_id] = p;
+  }
+  writePinnedStores(out);
+  return out;
+}
+
+/** Pin a store for a deal, or go back to "nearest" with null. Local first, then Supabase when signed in. */
+export async function savePinnedStore(dealId: string, store: PinnedStore | null) {
+  const map = readPinnedStores();
+  if (store) map[dealId] = store;
+  else delete map[dealId];
+  writePinnedStores(map);
+
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes.user;
+  if (!user) return;
+
+  if (!store) {
+    const { error } = await supabase.from("pinned_stores").delete().eq("user_id", user.id).eq("deal_id", dealId);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.from("pinned_stores").upsert(
+    {
+      user_id: user.id,
+      deal_id: dealId,
+      lat: store.lat,
+      lon: store.lon,
+      place_id: store.placeId ?? null,
+      label: store.label ?? null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id,deal_id" }
+  );
+  if (error) throw error;
+}
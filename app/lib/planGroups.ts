@@ -0,0 +1,196 @@
+// app/lib/planGroups.ts
+// Group plans: the owner shares a plan through an invite link; people who open it join as editors
+// (add, remove and skip stops) or viewers (see the plan, suggest stops). Roles are enforced by RLS
+// (supabase/migrations/*_group_plans.sql); this module is the client side. Stops themselves still
+// sync through planSync; who's on the plan, who added what, their claims and suggestions are read here.
+import { pushPlanNow, switchPlan, syncPlan, type PlanRole, type SharedRole } from "@/app/lib/planSync";
+import { supabase } from "@/app/lib/supabaseClient";
+
+export type PlanMember = { userId: string; name: string; role: PlanRole };
+export type PlanSuggestion = { dealId: string; userId: string; name: string };
+export type InvitePreview = { planId: string; planName: string; ownerName: string; role: SharedRole };
+
+/** Everything the plan page shows about the other people on a plan. */
+export type PlanGroup = {
+  me: string; // current user id
+  members: PlanMember[]; // owner first
+  stopIds: string[]; // as on the server, to tell whether the cached plan is behind
+  skippedIds: string[];
+  addedBy: Record<string, string>; // deal id -> user id
+  claimedBy: Record<string, string[]>; // deal id -> user ids that claimed it (the current user excluded)
+  suggestions: PlanSuggestion[];
+};
+
+const MAX_NAME = 60;
+const PROFILE_KEY = "bs_profile";
+
+/** The name other plan members see, from the cached profile. */
+export function myDisplayName(): string {
+  try {
+    const p = JSON.parse(localStorage.getItem(PROFILE_KEY) || "{}");
+    return typeof p?.displayName === "string" ? p.displayName.trim() : "";
+  } catch {
+    return "";
+  }
+}
+
+function cleanName(name: string) {
+  return name.trim().slice(0, MAX_NAME);
+}
+
+function newInviteToken() {
+  return crypto.randomUUID().replace(/-/g, "");
+}
+
+async function currentUser() {
+  const { data } = await supabase.auth.getUser();
+  return data.user;
+}
+
+/** Invite link (path) for a plan the user owns. The plan is pushed first so the invite can point at it. */
+export async function createPlanInvite(planId: string, role: SharedRole, ownerName: string): Promise<string> {
+  const user = await currentUser();
+  if (!user) throw new Error("Sign in to invite friends.");
+  if (!(await pushPlanNow())) throw new Error("Couldn’t save the plan. Check your connection and try again.");
+
+  const name = cleanName(ownerName);
+  if (name) await supabase.from("plans").update({ owner_name: name }).eq("id", planId);
+
+  const token = newInviteToken();
+  const { error } = await supabase.from("plan_invites").insert({ token, plan_id: planId, role, created_by: user.id });
+  if (error) throw error;
+  return `/app/join/${token}`;
+}
+
+export async function previewInvite(token: string): Promise<InvitePreview | null> {
+  const { data, error } = await supabase.rpc("plan_invite_preview", { p_token: token });
+  const row = Array.isArray(data) ? data[0] : null;
+  if (error || !row) return null;
+  return {
+    planId: row.plan_id,
+    planName: row.plan_name,
+    ownerName: row.owner_name || "A friend",
+    role: row.role === "editor" ? "editor" : "viewer",
+  };
+}
+
+/** Joins the plan behind an invite, pulls it into the cache and opens it. */
+export async function acceptInvite(token: string, displayName: string): Promise<string> {
+  const { data, error } = await supabase.rpc("accept_plan_invite", {
+    p_token: token,
+    p_display_name: cleanName(displayName),
+  });
+  if (error) throw error;
+
+  const planId = String(data);
+  await syncPlan();
+  switchPlan(planId);
+  return planId;
+}
+
+/** Leave a plan someone shared (the local copy goes at the next pull). */
+export async function leavePlan(planId: string) {
+  const user = await currentUser();
+  if (!user) return;
+  const { error } = await supabase.from("plan_members").delete().eq("plan_id", planId).eq("user_id", user.id);
+  if (error) throw error;
+  await syncPlan();
+}
+
+export async function removeMember(planId: string, userId: string) {
+  const { error } = await supabase.from("plan_members").delete().eq("plan_id", planId).eq("user_id", userId);
+  if (error) throw error;
+}
+
+export async function suggestDeal(planId: string, dealId: string, displayName: string) {
+  const user = await currentUser();
+  if (!user) throw new Error("Sign in to suggest stops.");
+  const { error } = await supabase.from("plan_suggestions").upsert(
+    { plan_id: planId, deal_id: dealId, user_id: user.id, display_name: cleanName(displayName) || null },
+    { onConflict: "plan_id,deal_id,user_id" }
+  );
+  if (error) throw error;
+}
+
+/** Accepting or dismissing both clear every suggestion of the deal; accepting also adds it (via planSync). */
+export async function clearSuggestion(planId: string, dealId: string) {
+  const { error } = await supabase.from("plan_suggestions").delete().eq("plan_id", planId).eq("deal_id", dealId);
+  if (error) throw error;
+}
+
+/** Members, who added which stop, members' claims and open suggestions. Null when signed out or offline. */
+export async function fetchPlanGroup(planId: string): Promise<PlanGroup | null> {
+  const user = await currentUser();
+  if (!user) return null;
+
+  const [plan, members, items, suggestions] = await Promise.all([
+    supabase.from("plans").select("user_id,owner_name").eq("id", planId).maybeSingle(),
+    supabase.from("plan_members").select("user_id,role,display_name").eq("plan_id", planId),
+    supabase.from("plan_items").select("deal_id,added_by,skipped").eq("plan_id", planId),
+    supabase.from("plan_suggestions").select("deal_id,user_id,display_name").eq("plan_id", planId),
+  ]);
+  if (plan.error || !plan.data || members.error || items.error || suggestions.error) return null;
+
+  const memberList: PlanMember[] = [
+    { userId: plan.data.user_id, name: plan.data.owner_name || "Owner", role: "owner" },
+    ...(members.data ?? []).map((m) => ({
+      userId: m.user_id as string,
+      name: (m.display_name as string | null) || "Friend",
+      role: (m.role === "editor" ? "editor" : "viewer") as PlanRole,
+    })),
+  ];
+
+  const stopIds = (items.data ?? []).map((r) => r.deal_id as string);
+  const addedBy: Record<string, string> = {};
+  for (const r of items.data ?? []) if (r.added_by) addedBy[r.deal_id] = r.added_by;
+
+  // RLS only returns claims of people on a plan with the deal
+  const claimedBy: Record<string, string[]> = {};
+  const others = memberList.map((m) => m.userId).filter((id) => id !== user.id);
+  if (others.length && stopIds.length) {
+    const { data } = await supabase
+      .from("deal_claims")
+      .select("deal_id,user_id")
+      .in("user_id", others)
+      .in("deal_id", stopIds);
+    for (const r of data ?? []) (claimedBy[r.deal_id] ??= []).push(r.user_id);
+  }
+
+  return {
+    me: user.id,
+    members: memberList,
+    stopIds,
+    skippedIds: (items.data ?? []).filter((r) => r.skipped).map((r) => r.deal_id as string),
+    addedBy,
+    claimedBy,
+    suggestions: (suggestions.data ?? []).map((r) => ({
+      dealId: r.deal_id,
+      userId: r.user_id,
+      name: r.display_name || memberList.find((m) => m.userId === r.user_id)?.name || "Friend",
+    })),
+  };
+}
+
+/** Calls onChange (debounced) whenever someone changes the plan's stops, suggestions, members or claims. */
+export function subscribePlanGroup(planId: string, onChange: () => void): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const fire = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(onChange, 400);
+  };
+
+  const byPlan = { schema: "public", filter: `plan_id=eq.${planId}` };
+  const channel = supabase
+    .channel(`plan-group-${planId}`)
+    .on("postgres_changes", { event: "*", table: "plan_items", ...byPlan }, fire)
+    .on("postgres_changes", { event: "*", table: "plan_suggestions", ...byPlan }, fire)
+    .on("postgres_changes", { event: "*", table: "plan_members", ...byPlan }, fire)
+    // claims aren't per plan; RLS limits these to people sharing a plan with the user
+    .on("postgres_changes", { event: "*", schema: "public", table: "deal_claims" }, fire)
+    .subscribe();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    supabase.removeChannel(channel);
+  };
+}
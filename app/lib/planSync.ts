@@ -0,0 +1,1262 @@
+// app/lib/planSync.ts
+//
+// A user can keep several named plans (e.g. "Birthday Saturday" and "Birthday week leftovers").
+// Each plan has its own stops, destination (or round trip / custom end), skipped set, last route
+// order and route stats, plus other birthday people riding along and their claims (participants.ts);
+// the user's own claims are per user. Everything is stored in Supabase (`plans`, `plan_items`, `deal_claims`).
+// Plans other people shared with the user (see planGroups.ts) sit in the same list with their role;
+// editors push their stop changes, viewers never push.
+//
+// localStorage is the offline cache. The *active* plan lives in the old bs_* keys (so the plan page
+// and route button keep reading them); the other plans are stashed under bs_plans_stash.
+// Every change is written to the cache first, then pushed to Supabase (debounced).
+// If a push fails the cache is marked dirty and wins at the next sync. Claims and skips still waiting
+// for that push (e.g. made offline) are listed under bs_plan_pending for the UI.
+import { EXCLUDED_STORES_KEY } from "@/app/lib/excludedStores";
+import { PINNED_STORES_KEY } from "@/app/lib/pinnedStores";
+import { cleanParticipantClaims, cleanParticipants, type Participant } from "@/app/lib/participants";
+import { supabase } from "@/app/lib/supabaseClient";
+
+export const PLAN_KEY = "bs_plan";
+export const CLAIMED_KEY = "bs_claimed";
+export const CLAIMED_AT_KEY = "bs_claimed_at";
+export const SKIPPED_KEY = "bs_skipped";
+export const DEST_KEY = "bs_destination_id";
+export const LAST_ROUTE_ORDER = "bs_last_route_order";
+export const LAST_OPT_KEY = "bs_last_optimized_at";
+export const LAST_ROUTE_DIST_M = "bs_last_route_distance_m";
+export const LAST_ROUTE_DUR_S = "bs_last_route_duration_s";
+export const SERVICE_MINUTES_KEY = "bs_service_minutes"; // deal id -> dwell override (minutes)
+export const ROUTE_END_KEY = "bs_route_end"; // RouteEnd; missing = end at the destination stop
+export const PARTICIPANTS_KEY = "bs_participants"; // Participant[] besides the user
+export const PARTICIPANT_CLAIMS_KEY = "bs_participant_claims"; // deal id -> participant ids that claimed it
+const RESOLVED_KEY = "bs_resolved_stops"; // geocoded stops of the last route (device-only, not synced)
+export const LAST_ROUTE_KEY = "bs_last_route"; // legs, times and map of the last route, for offline use (device-only)
+
+const PLANS_KEY = "bs_plans"; // PlanMeta[] in display order
+const ACTIVE_PLAN_KEY = "bs_active_plan";
+const STASH_KEY = "bs_plans_stash"; // plan id -> state of each non-active plan
+
+const OWNER_KEY = "bs_plan_owner"; // user id the cache belongs to
+const DIRTY_KEY = "bs_plan_dirty"; // "true" while local changes haven't reached Supabase
+const PENDING_KEY = "bs_plan_pending"; // PendingChange[]: claims and skips not pushed yet, oldest first
+const CHANGES_KEY = "bs_plan_changes"; // PlanChanges: what the next push has to send
+
+export const PLAN_UPDATED_EVENT = "bs_plan_updated";
+export const PLAN_SYNCED_EVENT = "bs_plan_synced"; // active plan was replaced (server pull or plan switch)
+export const PLANS_UPDATED_EVENT = "bs_plans_updated"; // plan list, names or active plan changed
+export const PLAN_PENDING_EVENT = "bs_plan_pending"; // the pending claims/skips list changed
+
+export const DEFAULT_PLAN_NAME = "My plan";
+const MAX_PLAN_NAME = 60;
+
+const PUSH_DEBOUNCE_MS = 600;
+
+/** role/ownerId are only set on plans someone else owns and shared with the user. */
+export type PlanMeta = {
+  id: string;
+  name: string;
+  role?: SharedRole;
+  ownerId?: string;
+};
+
+export type SharedRole = "editor" | "viewer";
+export type PlanRole = "owner" | SharedRole;
+
+export type RouteStats = {
+  optimizedAt: number | null; // ms epoch
+  distance_m: number | null;
+  duration_s: number | null;
+};
+
+/**
+ * Where the route finishes: at a stop of the plan (the destination), back at the start,
+ * or at an address that isn't a stop (e.g. a friend's place).
+ */
+export type RouteEndMode = "stop" | "start" | "address";
+export type RouteEnd = { mode: RouteEndMode; address: string };
+
+/** The active plan plus the user's claims. */
+export type PlanSnapshot = {
+  planIds: string[];
+  claimedAt: Record<string, string>; // deal id -> ISO time it was claimed
+  skippedIds: string[];
+  destinationId: string;
+  routeOrder: string[];
+  routeStats: RouteStats;
+  serviceMinutes: Record<string, number>; // per-stop dwell overrides; missing = deal default
+  routeEnd: RouteEnd;
+  participants: Participant[];
+  participantClaims: Record<string, string[]>;
+};
+
+type PlanState = Omit<PlanSnapshot, "claimedAt">;
+type StashedPlan = PlanState & { resolved?: unknown; route?: unknown };
+type StoredPlan = PlanMeta & PlanState;
+
+type PlanCache = {
+  plans: StoredPlan[];
+  claimedAt: Record<string, string>;
+};
+
+type PlanRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  sort_order: number;
+  last_optimized_at: string | null;
+  last_route_distance_m: number | null;
+  last_route_duration_s: number | null;
+  end_mode: RouteEndMode;
+  end_address: string | null;
+  participants: Participant[];
+};
+
+type PlanItemRow = {
+  plan_id: string;
+  user_id: string; // the plan owner, whoever added the stop
+  deal_id: string;
+  position: number;
+  skipped: boolean;
+  is_destination: boolean;
+  route_position: number | null;
+  service_minutes: number | null;
+  claimed_by: string[];
+};
+
+type MemberRow = {
+  plan_id: string;
+  role: SharedRole;
+};
+
+type ClaimRow = {
+  user_id: string;
+  deal_id: string;
+  claimed_at: string;
+};
+
+// ---------- local cache ----------
+function readStringArray(key: string): string[] {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed) && parsed.every((x) => typeof x === "string")) return parsed;
+
+    // older caches stored plan entries as objects
+    if (Array.isArray(parsed) && parsed.every((x) => x && typeof x === "object" && typeof x.id === "string")) {
+      return parsed.map((x: { id: string }) => x.id);
+    }
+    return [];
+  } catch {
+    return [];
+  }
+}
+
+function writeStringArray(key: string, arr: string[]) {
+  try {
+    localStorage.setItem(key, JSON.stringify(arr));
+  } catch {}
+}
+
+function readNum(key: string): number | null {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    const n = Number(raw);
+    return Number.isFinite(n) ? n : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeNum(key: string, val: number | null) {
+  try {
+    if (val === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, String(val));
+  } catch {}
+}
+
+function readJson(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, val: unknown) {
+  try {
+    if (val === undefined || val === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(val));
+  } catch {}
+}
+
+function readClaimedAt(): Record<string, string> {
+  const ids = readStringArray(CLAIMED_KEY);
+  const parsed = readJson(CLAIMED_AT_KEY);
+  const stamps = parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+
+  // bs_claimed is the source of truth for *which* ids are claimed; timestamps are best-effort.
+  const out: Record<string, string> = {};
+  for (const id of ids) {
+    const ts = stamps[id];
+    out[id] = typeof ts === "string" ? ts : new Date().toISOString();
+  }
+  return out;
+}
+
+function writeClaimedAt(claimedAt: Record<string, string>) {
+  writeStringArray(CLAIMED_KEY, Object.keys(claimedAt));
+  writeJson(CLAIMED_AT_KEY, claimedAt);
+}
+
+const NO_ROUTE_STATS: RouteStats = { optimizedAt: null, distance_m: null, duration_s: null };
+const DEFAULT_ROUTE_END: RouteEnd = { mode: "stop", address: "" };
+const MAX_END_ADDRESS = 200;
+
+function cleanRouteEnd(v: unknown): RouteEnd {
+  if (!v || typeof v !== "object") return { ...DEFAULT_ROUTE_END };
+  const r = v as Partial<RouteEnd>;
+  const address = typeof r.address === "string" ? r.address.trim().slice(0, MAX_END_ADDRESS) : "";
+  if (r.mode === "start") return { mode: "start", address };
+  // a custom end without an address falls back to the destination stop
+  if (r.mode === "address" && address) return { mode: "address", address };
+  return { mode: "stop", address };
+}
+
+function emptyPlanState(): PlanState {
+  return {
+    planIds: [],
+    skippedIds: [],
+    destinationId: "",
+    routeOrder: [],
+    routeStats: { ...NO_ROUTE_STATS },
+    serviceMinutes: {},
+    routeEnd: { ...DEFAULT_ROUTE_END },
+    participants: [],
+    participantClaims: {},
+  };
+}
+
+function readActiveState(): PlanState {
+  let destinationId = "";
+  try {
+    destinationId = localStorage.getItem(DEST_KEY) || "";
+  } catch {}
+
+  const participants = cleanParticipants(readJson(PARTICIPANTS_KEY));
+  return {
+    planIds: readStringArray(PLAN_KEY),
+    skippedIds: readStringArray(SKIPPED_KEY),
+    destinationId,
+    routeOrder: readStringArray(LAST_ROUTE_ORDER),
+    routeStats: {
+      optimizedAt: readNum(LAST_OPT_KEY),
+      distance_m: readNum(LAST_ROUTE_DIST_M),
+      duration_s: readNum(LAST_ROUTE_DUR_S),
+    },
+    serviceMinutes: readServiceMinutes(),
+    routeEnd: cleanRouteEnd(readJson(ROUTE_END_KEY)),
+    participants,
+    participantClaims: cleanParticipantClaims(readJson(PARTICIPANT_CLAIMS_KEY), participants),
+  };
+}
+
+function writeActiveState(s: PlanState) {
+  writeStringArray(PLAN_KEY, s.planIds);
+  writeStringArray(SKIPPED_KEY, s.skippedIds);
+  writeStringArray(LAST_ROUTE_ORDER, s.routeOrder);
+  writeRouteStats(s.routeStats);
+  writeJson(SERVICE_MINUTES_KEY, s.serviceMinutes);
+  writeJson(ROUTE_END_KEY, s.routeEnd.mode === "stop" && !s.routeEnd.address ? null : s.routeEnd);
+  writeJson(PARTICIPANTS_KEY, s.participants.length ? s.participants : null);
+  writeJson(PARTICIPANT_CLAIMS_KEY, Object.keys(s.participantClaims).length ? s.participantClaims : null);
+  try {
+    if (s.destinationId) localStorage.setItem(DEST_KEY, s.destinationId);
+    else localStorage.removeItem(DEST_KEY);
+  } catch {}
+}
+
+function cleanServiceMinutes(v: unknown): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (!v || typeof v !== "object") return out;
+  for (const [id, m] of Object.entries(v as Record<string, unknown>)) {
+    if (typeof m === "number" && Number.isFinite(m)) out[id] = m;
+  }
+  return out;
+}
+
+function readServiceMinutes(): Record<string, number> {
+  return cleanServiceMinutes(readJson(SERVICE_MINUTES_KEY));
+}
+
+function writeRouteStats(s: RouteStats) {
+  writeNum(LAST_OPT_KEY, s.optimizedAt);
+  writeNum(LAST_ROUTE_DIST_M, s.distance_m);
+  writeNum(LAST_ROUTE_DUR_S, s.duration_s);
+}
+
+function readPlanMetas(): PlanMeta[] {
+  const parsed = readJson(PLANS_KEY);
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter(
+    (p): p is PlanMeta => !!p && typeof p === "object" && typeof p.id === "string" && typeof p.name === "string"
+  );
+}
+
+function readStash(): Record<string, StashedPlan> {
+  const parsed = readJson(STASH_KEY);
+  return parsed && typeof parsed === "object" ? (parsed as Record<string, StashedPlan>) : {};
+}
+
+function stashedState(stash: Record<string, StashedPlan>, id: string): PlanState {
+  const s = stash[id];
+  if (!s) return emptyPlanState();
+  const participants = cleanParticipants(s.participants);
+  return {
+    planIds: Array.isArray(s.planIds) ? s.planIds : [],
+    skippedIds: Array.isArray(s.skippedIds) ? s.skippedIds : [],
+    destinationId: typeof s.destinationId === "string" ? s.destinationId : "",
+    routeOrder: Array.isArray(s.routeOrder) ? s.routeOrder : [],
+    routeStats: s.routeStats ? { ...NO_ROUTE_STATS, ...s.routeStats } : { ...NO_ROUTE_STATS },
+    serviceMinutes: cleanServiceMinutes(s.serviceMinutes),
+    routeEnd: cleanRouteEnd(s.routeEnd),
+    participants,
+    participantClaims: cleanParticipantClaims(s.participantClaims, participants),
+  };
+}
+
+function stateOf(p: StoredPlan): PlanState {
+  return {
+    planIds: p.planIds,
+    skippedIds: p.skippedIds,
+    destinationId: p.destinationId,
+    routeOrder: p.routeOrder,
+    routeStats: p.routeStats,
+    serviceMinutes: p.serviceMinutes,
+    routeEnd: p.routeEnd,
+    participants: p.participants,
+    participantClaims: p.participantClaims,
+  };
+}
+
+function newPlanId() {
+  return crypto.randomUUID();
+}
+
+function cleanPlanName(name: string) {
+  return name.trim().slice(0, MAX_PLAN_NAME) || DEFAULT_PLAN_NAME;
+}
+
+/**
+ * The plan list and active plan id. A cache without plans (first run, or a cache from before
+ * named plans) gets a default plan that takes over whatever is in the bs_* keys.
+ */
+function ensurePlans(): { plans: PlanMeta[]; activeId: string } {
+  let plans = readPlanMetas();
+  if (!plans.length) {
+    plans = [{ id: newPlanId(), name: DEFAULT_PLAN_NAME }];
+    writeJson(PLANS_KEY, plans);
+  }
+
+  let activeId = "";
+  try {
+    activeId = localStorage.getItem(ACTIVE_PLAN_KEY) || "";
+  } catch {}
+
+  if (!plans.some((p) => p.id === activeId)) {
+    activeId = plans[0].id;
+    try {
+      localStorage.setItem(ACTIVE_PLAN_KEY, activeId);
+    } catch {}
+  }
+
+  return { plans, activeId };
+}
+
+function readFullCache(): PlanCache {
+  const { plans, activeId } = ensurePlans();
+  const stash = readStash();
+  return {
+    plans: plans.map((p) => ({ ...p, ...(p.id === activeId ? readActiveState() : stashedState(stash, p.id)) })),
+    claimedAt: readClaimedAt(),
+  };
+}
+
+/** Replace the whole cache (after a pull). Keeps the active plan if it still exists. */
+function writeFullCache(c: PlanCache) {
+  const prevActive = ensurePlans().activeId;
+  const prevStash = readStash();
+
+  const plans: StoredPlan[] = c.plans.length ? c.plans : [{ id: newPlanId(), name: DEFAULT_PLAN_NAME, ...emptyPlanState() }];
+  const active = plans.find((p) => p.id === prevActive) ?? plans[0];
+
+  const stash: Record<string, StashedPlan> = {};
+  for (const p of plans) {
+    if (p.id === active.id) continue;
+    stash[p.id] = { ...stateOf(p), resolved: prevStash[p.id]?.resolved, route: prevStash[p.id]?.route };
+  }
+
+  writeJson(
+    PLANS_KEY,
+    plans.map(({ id, name, role, ownerId }) => (role ? { id, name, role, ownerId } : { id, name }))
+  );
+  writeJson(STASH_KEY, stash);
+  writeActiveState(stateOf(active));
+  if (active.id !== prevActive) {
+    writeJson(RESOLVED_KEY, prevStash[active.id]?.resolved);
+    writeJson(LAST_ROUTE_KEY, prevStash[active.id]?.route);
+  }
+  try {
+    localStorage.setItem(ACTIVE_PLAN_KEY, active.id);
+  } catch {}
+
+  writeClaimedAt(c.claimedAt);
+}
+
+function setDirty(v: boolean) {
+  try {
+    if (v) localStorage.setItem(DIRTY_KEY, "true");
+    else {
+      localStorage.removeItem(DIRTY_KEY);
+      localStorage.removeItem(CHANGES_KEY);
+    }
+  } catch {}
+  if (!v && pendingChanges().length) {
+    writeJson(PENDING_KEY, null);
+    dispatch(PLAN_PENDING_EVENT);
+  }
+}
+
+function setOwner(userId: string) {
+  try {
+    localStorage.setItem(OWNER_KEY, userId);
+  } catch {}
+}
+
+/** The account the cached plans belong to; "" until they're synced with one. */
+export function planCacheOwner(): string {
+  try {
+    return localStorage.getItem(OWNER_KEY) || "";
+  } catch {
+    return "";
+  }
+}
+
+function isDirty() {
+  try {
+    return localStorage.getItem(DIRTY_KEY) === "true";
+  } catch {
+    return false;
+  }
+}
+
+function dispatch(...events: string[]) {
+  try {
+    for (const e of events) window.dispatchEvent(new Event(e));
+  } catch {}
+}
+
+export function planRole(meta: PlanMeta | undefined): PlanRole {
+  return meta?.role ?? "owner";
+}
+
+/** The open plan's role for this user. */
+export function activePlanRole(): PlanRole {
+  const { plans, activeId } = ensurePlans();
+  return planRole(plans.find((p) => p.id === activeId));
+}
+
+export function readPlanCache(): PlanSnapshot {
+  ensurePlans();
+  return { ...readActiveState(), claimedAt: readClaimedAt() };
+}
+
+// ---------- pending changes ----------
+/**
+ * Claims and skips made on this device that haven't reached Supabase yet (e.g. while offline). They
+ * go out with the next push of the cache; this list is what the UI shows as waiting.
+ */
+export type PendingChange = {
+  kind: "claim" | "unclaim" | "skip" | "unskip";
+  dealId: string;
+  who?: string; // participant id; unset for the user's own claims
+  at: string;
+};
+
+const UNDOES: Record<PendingChange["kind"], PendingChange["kind"]> = {
+  claim: "unclaim",
+  unclaim: "claim",
+  skip: "unskip",
+  unskip: "skip",
+};
+
+export function pendingChanges(): PendingChange[] {
+  const v = readJson(PENDING_KEY);
+  return Array.isArray(v) ? (v as PendingChange[]) : [];
+}
+
+/** Adds to the pending list; a change that undoes a pending one cancels it instead. */
+function recordPending(changes: Omit<PendingChange, "at">[]) {
+  if (!changes.length) return;
+  const list = pendingChanges();
+  const at = new Date().toISOString();
+  for (const c of changes) {
+    const undone = list.findIndex(
+      (p) => p.dealId === c.dealId && (p.who ?? "") === (c.who ?? "") && UNDOES[p.kind] === c.kind
+    );
+    if (undone >= 0) list.splice(undone, 1);
+    else list.push({ ...c, at });
+  }
+  writeJson(PENDING_KEY, list.length ? list : null);
+  dispatch(PLAN_PENDING_EVENT);
+}
+
+function toggled(prev: string[], next: string[], on: PendingChange["kind"], who?: string) {
+  const before = new Set(prev);
+  const after = new Set(next);
+  return [
+    ...next.filter((id) => !before.has(id)).map((dealId) => ({ kind: on, dealId, who })),
+    ...prev.filter((id) => !after.has(id)).map((dealId) => ({ kind: UNDOES[on], dealId, who })),
+  ];
+}
+
+// ---------- unpushed changes ----------
+/**
+ * Which rows the cache changed since the last push, so a push sends those instead of the whole cache
+ * and only deletes what this device removed (plans, stops and claims made elsewhere stay). Stops are
+ * tracked per deal and column, so a stale copy of a shared plan only writes what this device changed
+ * and never puts back a stop another member removed.
+ */
+type StopField = "position" | "skipped" | "is_destination" | "route_position" | "service_minutes" | "claimed_by";
+
+type PlanChanges = {
+  plans: string[]; // plan rows to upsert (name, order, route end, stats, participants)
+  addedStops: Record<string, string[]>; // plan id -> deal ids put on it (whole row inserted)
+  stopFields: Record<string, Record<string, StopField[]>>; // plan id -> deal id -> columns changed
+  deletedPlans: string[];
+  removedStops: Record<string, string[]>; // plan id -> deal ids taken out of it
+  claims: string[]; // deal ids the user claimed or unclaimed
+};
+
+function noChanges(): PlanChanges {
+  return { plans: [], addedStops: {}, stopFields: {}, deletedPlans: [], removedStops: {}, claims: [] };
+}
+
+function stringList(x: unknown) {
+  return Array.isArray(x) ? x.filter((id): id is string => typeof id === "string") : [];
+}
+
+function listsByKey(x: unknown): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  if (x && typeof x === "object") {
+    for (const [k, ids] of Object.entries(x)) if (stringList(ids).length) out[k] = stringList(ids);
+  }
+  return out;
+}
+
+/** null when nothing was recorded (a cache marked dirty before changes were tracked). */
+function readChanges(): PlanChanges | null {
+  const v = readJson(CHANGES_KEY);
+  if (!v || typeof v !== "object") return null;
+  const c = v as Partial<PlanChanges>;
+  const stopFields: PlanChanges["stopFields"] = {};
+  if (c.stopFields && typeof c.stopFields === "object") {
+    for (const [planId, byDeal] of Object.entries(c.stopFields)) {
+      const fields = listsByKey(byDeal) as Record<string, StopField[]>;
+      if (Object.keys(fields).length) stopFields[planId] = fields;
+    }
+  }
+  return {
+    plans: stringList(c.plans),
+    addedStops: listsByKey(c.addedStops),
+    stopFields,
+    deletedPlans: stringList(c.deletedPlans),
+    removedStops: listsByKey(c.removedStops),
+    claims: stringList(c.claims),
+  };
+}
+
+function hasChanges(c: PlanChanges) {
+  return !!(
+    c.plans.length ||
+    Object.keys(c.addedStops).length ||
+    Object.keys(c.stopFields).length ||
+    c.deletedPlans.length ||
+    Object.keys(c.removedStops).length ||
+    c.claims.length
+  );
+}
+
+function union<T extends string>(x: T[], y: T[] = []) {
+  return Array.from(new Set([...x, ...y]));
+}
+
+function unionByKey<T extends string>(x: Record<string, T[]>, y: Record<string, T[]> = {}) {
+  const out = { ...x };
+  for (const [k, ids] of Object.entries(y)) if (ids.length) out[k] = union(out[k] ?? [], ids);
+  return out;
+}
+
+function mergeChanges(a: PlanChanges, b: Partial<PlanChanges>): PlanChanges {
+  const stopFields = { ...a.stopFields };
+  for (const [planId, byDeal] of Object.entries(b.stopFields ?? {})) {
+    stopFields[planId] = unionByKey(stopFields[planId] ?? {}, byDeal);
+  }
+  return {
+    plans: union(a.plans, b.plans),
+    addedStops: unionByKey(a.addedStops, b.addedStops),
+    stopFields,
+    deletedPlans: union(a.deletedPlans, b.deletedPlans),
+    removedStops: unionByKey(a.removedStops, b.removedStops),
+    claims: union(a.claims, b.claims),
+  };
+}
+
+function recordChanges(change: Partial<PlanChanges>) {
+  writeJson(CHANGES_KEY, mergeChanges(readChanges() ?? noChanges(), change));
+}
+
+/** Marks one column of some stops of a plan as changed. */
+function recordStopField(planId: string, dealIds: string[], field: StopField) {
+  if (!dealIds.length) return;
+  recordChanges({ stopFields: { [planId]: Object.fromEntries(dealIds.map((id) => [id, [field]])) } });
+}
+
+/** Ids that are at another index in `next` than in `prev` (ids new to `next` included). */
+function moved(prev: string[], next: string[]) {
+  const at = new Map(prev.map((id, i) => [id, i]));
+  return next.filter((id, i) => at.get(id) !== i);
+}
+
+/**
+ * Records a new stop list for a plan: added deals are inserted, deals taken out are remembered for
+ * deletion (re-added ones forgotten) and the rest only get their new position.
+ */
+function recordStops(planId: string, prev: string[], next: string[]) {
+  const before = Array.from(new Set(prev));
+  const after = Array.from(new Set(next));
+  const kept = new Set(after);
+  const had = new Set(before);
+  const changes = readChanges() ?? noChanges();
+
+  const removed = union(changes.removedStops[planId] ?? [], before).filter((id) => !kept.has(id));
+  const added = union(changes.addedStops[planId] ?? [], after.filter((id) => !had.has(id))).filter((id) => kept.has(id));
+  const fields = Object.fromEntries(Object.entries(changes.stopFields[planId] ?? {}).filter(([id]) => kept.has(id)));
+
+  delete changes.removedStops[planId];
+  delete changes.addedStops[planId];
+  delete changes.stopFields[planId];
+  if (removed.length) changes.removedStops[planId] = removed;
+  if (added.length) changes.addedStops[planId] = added;
+  if (Object.keys(fields).length) changes.stopFields[planId] = fields;
+  writeJson(CHANGES_KEY, changes);
+
+  recordStopField(planId, moved(before, after).filter((id) => had.has(id)), "position");
+}
+
+// ---------- writers for the active plan (cache first, then schedule a push) ----------
+export function savePlanIds(ids: string[]) {
+  recordStops(activePlanId(), readStringArray(PLAN_KEY), ids);
+  writeStringArray(PLAN_KEY, ids);
+  schedulePlanPush();
+}
+
+/** Keeps the original claim time for ids that stay claimed; stamps new ones with now. */
+export function saveClaimedIds(ids: string[]) {
+  const prev = readClaimedAt();
+  const changed = toggled(Object.keys(prev), ids, "claim");
+  recordPending(changed);
+  recordChanges({ claims: changed.map((c) => c.dealId) });
+  const now = new Date().toISOString();
+  const next: Record<string, string> = {};
+  for (const id of ids) next[id] = prev[id] ?? now;
+  writeClaimedAt(next);
+  schedulePlanPush();
+}
+
+export function saveSkippedIds(ids: string[]) {
+  const changed = toggled(readStringArray(SKIPPED_KEY), ids, "skip");
+  recordPending(changed);
+  writeStringArray(SKIPPED_KEY, ids);
+  recordStopField(activePlanId(), changed.map((c) => c.dealId), "skipped");
+  schedulePlanPush();
+}
+
+export function saveDestinationId(id: string) {
+  let prev = "";
+  try {
+    prev = localStorage.getItem(DEST_KEY) || "";
+    if (id) localStorage.setItem(DEST_KEY, id);
+    else localStorage.removeItem(DEST_KEY);
+  } catch {}
+  if (prev !== id) recordStopField(activePlanId(), [prev, id].filter(Boolean), "is_destination");
+  schedulePlanPush();
+}
+
+export function saveRouteOrder(ids: string[]) {
+  const prev = readStringArray(LAST_ROUTE_ORDER);
+  writeStringArray(LAST_ROUTE_ORDER, ids);
+  const dropped = prev.filter((id) => !ids.includes(id)); // route_position goes back to null
+  recordStopField(activePlanId(), [...moved(prev, ids), ...dropped], "route_position");
+  schedulePlanPush();
+}
+
+/** Dwell time override for one stop of the active plan; null goes back to the deal's default. */
+export function saveServiceMinutes(dealId: string, minutes: number | null) {
+  const next = readServiceMinutes();
+  if (minutes === null) delete next[dealId];
+  else next[dealId] = minutes;
+  writeJson(SERVICE_MINUTES_KEY, next);
+  recordStopField(activePlanId(), [dealId], "service_minutes");
+  schedulePlanPush();
+}
+
+/** Where the active plan's route finishes; an address is kept when switching modes so it isn't retyped. */
+export function saveRouteEnd(end: RouteEnd) {
+  writeJson(ROUTE_END_KEY, cleanRouteEnd(end));
+  recordChanges({ plans: [activePlanId()] });
+  schedulePlanPush();
+}
+
+export function readRouteEnd(): RouteEnd {
+  return cleanRouteEnd(readJson(ROUTE_END_KEY));
+}
+
+/** The other birthday people on the active plan; claims of people who were removed are dropped. */
+export function saveParticipants(participants: Participant[]) {
+  const next = cleanParticipants(participants);
+  const prev = cleanParticipantClaims(readJson(PARTICIPANT_CLAIMS_KEY), cleanParticipants(readJson(PARTICIPANTS_KEY)));
+  writeJson(PARTICIPANTS_KEY, next.length ? next : null);
+  const claims = cleanParticipantClaims(prev, next);
+  writeJson(PARTICIPANT_CLAIMS_KEY, Object.keys(claims).length ? claims : null);
+  const id = activePlanId();
+  recordChanges({ plans: [id] });
+  recordStopField(
+    id,
+    Object.keys(prev).filter((dealId) => prev[dealId].join() !== (claims[dealId] ?? []).join()),
+    "claimed_by"
+  );
+  schedulePlanPush();
+}
+
+/** Which participants (not the user) claimed a stop of the active plan. */
+export function saveParticipantClaims(dealId: string, participantIds: string[]) {
+  const participants = cleanParticipants(readJson(PARTICIPANTS_KEY));
+  const prev = cleanParticipantClaims(readJson(PARTICIPANT_CLAIMS_KEY), participants);
+  const claims = cleanParticipantClaims({ ...prev, [dealId]: participantIds }, participants);
+  const had = new Set(prev[dealId] ?? []);
+  const has = new Set(claims[dealId] ?? []);
+  recordPending(
+    participants
+      .filter((p) => had.has(p.id) !== has.has(p.id))
+      .map((p): Omit<PendingChange, "at"> => ({ kind: has.has(p.id) ? "claim" : "unclaim", dealId, who: p.id }))
+  );
+  writeJson(PARTICIPANT_CLAIMS_KEY, Object.keys(claims).length ? claims : null);
+  recordStopField(activePlanId(), [dealId], "claimed_by");
+  schedulePlanPush();
+}
+
+/** null clears the stats (route is stale). */
+export function saveRouteStats(stats: RouteStats | null) {
+  writeRouteStats(stats ?? NO_ROUTE_STATS);
+  recordChanges({ plans: [activePlanId()] });
+  schedulePlanPush();
+}
+
+// ---------- named plans ----------
+export function listPlans(): PlanMeta[] {
+  return ensurePlans().plans;
+}
+
+export function activePlanId(): string {
+  return ensurePlans().activeId;
+}
+
+/** Deal ids in any plan, active or not. */
+export function readPlanIdsFor(planId: string): string[] {
+  const { activeId } = ensurePlans();
+  return planId === activeId ? readStringArray(PLAN_KEY) : stashedState(readStash(), planId).planIds;
+}
+
+/** Add or remove a deal from any plan (used by the "Add to plan…" picker). */
+export function setDealInPlan(planId: string, dealId: string, inPlan: boolean) {
+  const ids = readPlanIdsFor(planId);
+  if (ids.includes(dealId) === inPlan) return;
+  const next = inPlan ? [...ids, dealId] : ids.filter((x) => x !== dealId);
+
+  if (planId === activePlanId()) {
+    savePlanIds(next);
+  } else {
+    const stash = readStash();
+    stash[planId] = { ...stash[planId], ...stashedState(stash, planId), planIds: next };
+    writeJson(STASH_KEY, stash);
+    recordStops(planId, ids, next);
+    schedulePlanPush();
+  }
+  dispatch(PLAN_UPDATED_EVENT);
+}
+
+/** Make another plan the active one. Per device: the server doesn't track which plan is open. */
+export function switchPlan(planId: string) {
+  const { plans, activeId } = ensurePlans();
+  if (planId === activeId || !plans.some((p) => p.id === planId)) return;
+
+  const stash = readStash();
+  stash[activeId] = {
+    ...readActiveState(),
+    resolved: readJson(RESOLVED_KEY) ?? undefined,
+    route: readJson(LAST_ROUTE_KEY) ?? undefined,
+  };
+
+  writeActiveState(stashedState(stash, planId));
+  writeJson(RESOLVED_KEY, stash[planId]?.resolved);
+  writeJson(LAST_ROUTE_KEY, stash[planId]?.route);
+  delete stash[planId];
+  writeJson(STASH_KEY, stash);
+
+  try {
+    localStorage.setItem(ACTIVE_PLAN_KEY, planId);
+  } catch {}
+
+  dispatch(PLANS_UPDATED_EVENT, PLAN_SYNCED_EVENT, PLAN_UPDATED_EVENT);
+}
+
+function insertPlan(meta: PlanMeta, state: StashedPlan, afterId?: string) {
+  const plans = ensurePlans().plans;
+  const idx = afterId ? plans.findIndex((p) => p.id === afterId) : -1;
+  const next = idx === -1 ? [...plans, meta] : [...plans.slice(0, idx + 1), meta, ...plans.slice(idx + 1)];
+
+  const stash = readStash();
+  stash[meta.id] = state;
+  writeJson(STASH_KEY, stash);
+  writeJson(PLANS_KEY, next);
+  // sort_order shifts for the plans after it
+  recordChanges({
+    plans: next.slice(next.indexOf(meta)).map((p) => p.id),
+    addedStops: { [meta.id]: Array.from(new Set(state.planIds)) },
+  });
+  schedulePlanPush();
+  dispatch(PLANS_UPDATED_EVENT);
+}
+
+/** Creates an empty plan and returns its id (it is not switched to). */
+export function createPlan(name: string): string {
+  const id = newPlanId();
+  insertPlan({ id, name: cleanPlanName(name) }, emptyPlanState());
+  return id;
+}
+
+export function renamePlan(planId: string, name: string) {
+  const plans = ensurePlans().plans.map((p) => (p.id === planId ? { ...p, name: cleanPlanName(name) } : p));
+  writeJson(PLANS_KEY, plans);
+  recordChanges({ plans: [planId] });
+  schedulePlanPush();
+  dispatch(PLANS_UPDATED_EVENT);
+}
+
+/** Copies stops, destination / route end, skipped set and route stats into a new plan right after the original. */
+export function duplicatePlan(planId: string): string {
+  const { plans, activeId } = ensurePlans();
+  const src = plans.find((p) => p.id === planId);
+  if (!src) return "";
+
+  const state = planId === activeId ? readActiveState() : stashedState(readStash(), planId);
+  const id = newPlanId();
+  insertPlan({ id, name: cleanPlanName(`${src.name} (copy)`) }, state, planId);
+  return id;
+}
+
+/**
+ * Creates a plan from someone else's route (stops in route order, end, stats and the stores' coordinates)
+ * and opens it. Returns the new plan's id.
+ */
+export function importPlan(
+  name: string,
+  state: Pick<PlanState, "planIds" | "destinationId" | "routeEnd" | "routeStats">,
+  resolved: Record<string, { lat: number; lon: number }>
+): string {
+  const id = newPlanId();
+  const stashed: StashedPlan = {
+    ...emptyPlanState(),
+    ...state,
+    routeOrder: state.planIds,
+    routeEnd: cleanRouteEnd(state.routeEnd),
+    resolved,
+  };
+  insertPlan({ id, name: cleanPlanName(name) }, stashed);
+  switchPlan(id);
+  return id;
+}
+
+/** Deletes a plan (switching away first if it's active). The last plan can't be deleted. */
+export function deletePlan(planId: string): boolean {
+  const { plans, activeId } = ensurePlans();
+  const idx = plans.findIndex((p) => p.id === planId);
+  if (idx === -1 || plans.length < 2) return false;
+
+  if (planId === activeId) switchPlan(plans[idx === 0 ? 1 : idx - 1].id);
+
+  const stash = readStash();
+  delete stash[planId];
+  writeJson(STASH_KEY, stash);
+  writeJson(PLANS_KEY, plans.filter((p) => p.id !== planId));
+  deletedPlanChanges(planId, plans.slice(idx + 1));
+  schedulePlanPush();
+  dispatch(PLANS_UPDATED_EVENT);
+  return true;
+}
+
+/** A deleted plan's other changes are moot; the plans after it move up one. */
+function deletedPlanChanges(planId: string, after: PlanMeta[]) {
+  const changes = readChanges() ?? noChanges();
+  const others = (ids: string[]) => ids.filter((id) => id !== planId);
+  delete changes.removedStops[planId];
+  delete changes.addedStops[planId];
+  delete changes.stopFields[planId];
+  writeJson(
+    CHANGES_KEY,
+    mergeChanges(
+      { ...changes, plans: others(changes.plans) },
+      { plans: after.map((p) => p.id), deletedPlans: [planId] }
+    )
+  );
+}
+
+/** Wipe the cached plans (sign-out). Anything unsynced should be flushed first. */
+export function clearPlanCache() {
+  try {
+    for (const k of [
+      PLAN_KEY,
+      CLAIMED_KEY,
+      CLAIMED_AT_KEY,
+      SKIPPED_KEY,
+      DEST_KEY,
+      LAST_ROUTE_ORDER,
+      LAST_OPT_KEY,
+      LAST_ROUTE_DIST_M,
+      LAST_ROUTE_DUR_S,
+      SERVICE_MINUTES_KEY,
+      ROUTE_END_KEY,
+      PARTICIPANTS_KEY,
+      PARTICIPANT_CLAIMS_KEY,
+      RESOLVED_KEY,
+      LAST_ROUTE_KEY,
+      PLANS_KEY,
+      ACTIVE_PLAN_KEY,
+      STASH_KEY,
+      OWNER_KEY,
+      DIRTY_KEY,
+      PENDING_KEY,
+      CHANGES_KEY,
+      PINNED_STORES_KEY,
+      EXCLUDED_STORES_KEY,
+    ]) {
+      localStorage.removeItem(k);
+    }
+  } catch {}
+}
+
+// ---------- server ----------
+function isoOrNull(ms: number | null) {
+  return ms === null ? null : new Date(ms).toISOString();
+}
+
+function rowsFromCache(userId: string, c: PlanCache) {
+  const plans: PlanRow[] = c.plans.filter((p) => !p.role).map((p, i) => ({
+    id: p.id,
+    user_id: userId,
+    name: p.name,
+    sort_order: i,
+    last_optimized_at: isoOrNull(p.routeStats.optimizedAt),
+    last_route_distance_m: p.routeStats.distance_m,
+    last_route_duration_s: p.routeStats.duration_s,
+    end_mode: p.routeEnd.mode,
+    end_address: p.routeEnd.address || null,
+    participants: p.participants,
+  }));
+
+  const items: PlanItemRow[] = c.plans.filter(canEditStops).flatMap((p) => {
+    const skipped = new Set(p.skippedIds);
+    const routePos = new Map(p.routeOrder.map((id, i) => [id, i]));
+    return Array.from(new Set(p.planIds)).map((id, i) => ({
+      plan_id: p.id,
+      user_id: p.ownerId ?? userId,
+      deal_id: id,
+      position: i,
+      skipped: skipped.has(id),
+      is_destination: !!p.destinationId && p.destinationId === id,
+      route_position: routePos.get(id) ?? null,
+      service_minutes: p.serviceMinutes[id] ?? null,
+      claimed_by: p.participantClaims[id] ?? [],
+    }));
+  });
+
+  const claims: ClaimRow[] = Object.entries(c.claimedAt).map(([deal_id, claimed_at]) => ({
+    user_id: userId,
+    deal_id,
+    claimed_at,
+  }));
+
+  return { plans, items, claims };
+}
+
+function canEditStops(p: PlanMeta) {
+  return planRole(p) !== "viewer";
+}
+
+function cacheFromRows(
+  userId: string,
+  plans: PlanRow[],
+  items: PlanItemRow[],
+  claims: ClaimRow[],
+  members: MemberRow[]
+): PlanCache {
+  // own plans in the user's order, then shared ones by name
+  const own = plans.filter((p) => p.user_id === userId).sort((a, b) => a.sort_order - b.sort_order);
+  const shared = plans.filter((p) => p.user_id !== userId).sort((a, b) => a.name.localeCompare(b.name));
+  const roleOf = new Map(members.map((m) => [m.plan_id, m.role]));
+  const sorted = [...own, ...shared.filter((p) => roleOf.has(p.id))];
+
+  const claimedAt: Record<string, string> = {};
+  for (const r of claims) claimedAt[r.deal_id] = r.claimed_at;
+
+  return {
+    plans: sorted.map((p) => {
+      const mine = items.filter((r) => r.plan_id === p.id).sort((a, b) => a.position - b.position);
+      const serviceMinutes: Record<string, number> = {};
+      for (const r of mine) if (typeof r.service_minutes === "number") serviceMinutes[r.deal_id] = r.service_minutes;
+
+      const inRoute = mine
+        .filter((r) => typeof r.route_position === "number")
+        .sort((a, b) => a.route_position! - b.route_position!);
+
+      const role = p.user_id === userId ? undefined : roleOf.get(p.id);
+      const participants = cleanParticipants(p.participants);
+      return {
+        id: p.id,
+        name: p.name,
+        ...(role ? { role, ownerId: p.user_id } : {}),
+        planIds: mine.map((r) => r.deal_id),
+        skippedIds: mine.filter((r) => r.skipped).map((r) => r.deal_id),
+        destinationId: mine.find((r) => r.is_destination)?.deal_id ?? "",
+        routeOrder: inRoute.map((r) => r.deal_id),
+        routeStats: {
+          optimizedAt: p.last_optimized_at ? Date.parse(p.last_optimized_at) : null,
+          distance_m: p.last_route_distance_m,
+          duration_s: p.last_route_duration_s,
+        },
+        serviceMinutes,
+        routeEnd: cleanRouteEnd({ mode: p.end_mode, address: p.end_address ?? "" }),
+        participants,
+        participantClaims: cleanParticipantClaims(
+          Object.fromEntries(mine.map((r) => [r.deal_id, r.claimed_by ?? []])),
+          participants
+        ),
+      };
+    }),
+    claimedAt,
+  };
+}
+
+async function currentUserId(): Promise<string | null> {
+  const { data } = await supabase.auth.getUser();
+  return data.user?.id ?? null;
+}
+
+async function fetchRemote(userId: string): Promise<PlanCache & { empty: boolean }> {
+  // RLS returns the user's own plans plus the ones shared with them
+  const [plans, members, claims] = await Promise.all([
+    supabase
+      .from("plans")
+      .select(
+        "id,user_id,name,sort_order,last_optimized_at,last_route_distance_m,last_route_duration_s,end_mode,end_address,participants"
+      ),
+    supabase.from("plan_members").select("plan_id,role").eq("user_id", userId),
+    supabase.from("deal_claims").select("user_id,deal_id,claimed_at").eq("user_id", userId),
+  ]);
+  if (plans.error) throw plans.error;
+  if (members.error) throw members.error;
+  if (claims.error) throw claims.error;
+
+  const planRows = (plans.data ?? []) as PlanRow[];
+  const claimRows = (claims.data ?? []) as ClaimRow[];
+
+  let itemRows: PlanItemRow[] = [];
+  if (planRows.length) {
+    const items = await supabase
+      .from("plan_items")
+      .select(
+        "plan_id,user_id,deal_id,position,skipped,is_destination,route_position,service_minutes,claimed_by"
+      )
+      .in(
+        "plan_id",
+        planRows.map((p) => p.id)
+      );
+    if (items.error) throw items.error;
+    itemRows = (items.data ?? []) as typeof itemRows;
+  }
+
+  return {
+    ...cacheFromRows(userId, planRows, itemRows, claimRows, (members.data ?? []) as MemberRow[]),
+    empty: !planRows.some((p) => p.user_id === userId) && claimRows.length === 0,
+  };
+}
+
+/**
+ * Sends the recorded changes; "all" uploads the whole cache without deleting anything (adopting a
+ * local-only plan, or a cache that was dirty before changes were tracked).
+ */
+async function pushCache(userId: string, c: PlanCache, changes: PlanChanges | "all") {
+  const rows = rowsFromCache(userId, c);
+  const all = changes === "all";
+  const plans = all ? rows.plans : rows.plans.filter((r) => changes.plans.includes(r.id));
+  const added = (r: PlanItemRow) => all || !!changes.addedStops[r.plan_id]?.includes(r.deal_id);
+  const items = rows.items.filter(added);
+  const claims = all ? rows.claims : rows.claims.filter((r) => changes.claims.includes(r.deal_id));
+  const now = new Date().toISOString();
+
+  if (plans.length) {
+    const { error } = await supabase
+      .from("plans")
+      .upsert(plans.map((r) => ({ ...r, updated_at: now })), { onConflict: "id" });
+    if (error) throw error;
+  }
+
+  if (items.length) {
+    const { error } = await supabase
+      .from("plan_items")
+      .upsert(items.map((r) => ({ ...r, updated_at: now })), { onConflict: "plan_id,deal_id" });
+    if (error) throw error;
+  }
+
+  if (claims.length) {
+    const { error } = await supabase.from("deal_claims").upsert(claims, { onConflict: "user_id,deal_id" });
+    if (error) throw error;
+  }
+
+  if (all) return;
+
+  // Stops already on the plan get only the columns this device changed; a stop another member removed
+  // matches nothing and stays removed.
+  const updates = rows.items.flatMap((r) => {
+    const fields = changes.stopFields[r.plan_id]?.[r.deal_id];
+    if (!fields || added(r)) return [];
+    const patch: Partial<PlanItemRow> & { updated_at: string } = { updated_at: now };
+    for (const f of fields) Object.assign(patch, { [f]: r[f] });
+    return [{ planId: r.plan_id, dealId: r.deal_id, patch }];
+  });
+  const results = await Promise.all(
+    updates.map((u) => supabase.from("plan_items").update(u.patch).eq("plan_id", u.planId).eq("deal_id", u.dealId))
+  );
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw failed.error;
+
+  // Deleting a plan cascades to its items.
+  if (changes.deletedPlans.length) {
+    const { error } = await supabase
+      .from("plans")
+      .delete()
+      .eq("user_id", userId)
+      .in("id", changes.deletedPlans);
+    if (error) throw error;
+  }
+
+  const editable = new Set(c.plans.filter(canEditStops).map((p) => p.id));
+  for (const [planId, dealIds] of Object.entries(changes.removedStops)) {
+    if (!editable.has(planId)) continue;
+    const { error } = await supabase.from("plan_items").delete().eq("plan_id", planId).in("deal_id", dealIds);
+    if (error) throw error;
+  }
+
+  const unclaimed = changes.claims.filter((id) => !(id in c.claimedAt));
+  if (unclaimed.length) {
+    const { error } = await supabase.from("deal_claims").delete().eq("user_id", userId).in("deal_id", unclaimed);
+    if (error) throw error;
+  }
+}
+
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function schedulePlanPush() {
+  setDirty(true);
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = setTimeout(() => {
+    pushTimer = null;
+    pushPlanNow();
+  }, PUSH_DEBOUNCE_MS);
+}
+
+/** Push the cache to Supabase right away. Returns false (cache stays dirty) when offline or signed out. */
+export async function pushPlanNow(): Promise<boolean> {
+  if (pushTimer) {
+    clearTimeout(pushTimer);
+    pushTimer = null;
+  }
+
+  if (typeof navigator !== "undefined" && !navigator.onLine) return false;
+
+  try {
+    const userId = await currentUserId();
+    if (!userId) return false;
+
+    // Changes made while this push is in flight are recorded afresh and go out with the next one.
+    const changes = readChanges();
+    writeJson(CHANGES_KEY, noChanges());
+    try {
+      await pushCache(userId, readFullCache(), changes ?? "all");
+    } catch (e) {
+      if (changes) recordChanges(changes);
+      else writeJson(CHANGES_KEY, null); // still everything
+      throw e;
+    }
+    setOwner(userId);
+    if (!hasChanges(readChanges() ?? noChanges())) setDirty(false);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reconcile the cache with Supabase (call on login / app load / back online).
+ * - cache belongs to another account -> discard it and pull
+ * - cache has unsynced edits -> push them (local wins), then pull what plan members changed
+ * - otherwise -> pull (server wins); a first-time user with a local-only plan gets it uploaded
+ */
+export async function syncPlan(): Promise<void> {
+  const userId = await currentUserId();
+  if (!userId) return;
+
+  let owner = "";
+  try {
+    owner = localStorage.getItem(OWNER_KEY) || "";
+  } catch {}
+
+  if (owner && owner !== userId) {
+    clearPlanCache();
+  } else if (isDirty()) {
+    if (!(await pushPlanNow())) return;
+  }
+
+  const local = readFullCache();
+  const hasLocal = local.plans.some((p) => p.planIds.length) || Object.keys(local.claimedAt).length > 0;
+
+  const remote = await fetchRemote(userId);
+
+  if (remote.empty && !owner && hasLocal) {
+    // Plans built before server sync existed: adopt them.
+    await pushCache(userId, local, "all");
+    setOwner(userId);
+    setDirty(false);
+    return;
+  }
+
+  writeFullCache(remote);
+  setOwner(userId);
+  setDirty(false);
+
+  dispatch(PLANS_UPDATED_EVENT, PLAN_SYNCED_EVENT, PLAN_UPDATED_EVENT);
+}
@@ -0,0 +1,124 @@
+// app/lib/push.ts
+// Push notifications, browser side: registers the service worker (public/sw.js), subscribes this
+// browser with the VAPID public key and stores the subscription per user (push_subscriptions). What
+// gets sent, and when, is decided on the server (pushServer.ts).
+import { SERVICE_WORKER_URL, registerServiceWorker } from "@/app/lib/offline";
+import { supabase } from "@/app/lib/supabaseClient";
+
+/** What the service worker shows; `url` opens on click, a repeated `tag` replaces the last one. */
+export type PushMessage = {
+  title: string;
+  body: string;
+  url: string;
+  tag?: string;
+};
+
+export type PushPrefs = { nextStop: boolean; expiring: boolean };
+
+function publicKey() {
+  return process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || "";
+}
+
+export function pushSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window &&
+    !!publicKey()
+  );
+}
+
+function keyBytes(b64url: string) {
+  const b64 = b64url.replace(/-/g, "+").replace(/_/g, "/") + "=".repeat((4 - (b64url.length % 4)) % 4);
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+/** This browser's subscription, if it has one. */
+export async function currentPushSubscription(): Promise<PushSubscription | null> {
+  if (!pushSupported()) return null;
+  const reg = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return reg ? reg.pushManager.getSubscription() : null;
+}
+
+/** Asks for permission, subscribes this browser and saves the subscription for the signed-in user. */
+export async function enablePush(): Promise<void> {
+  if (!pushSupported()) throw new Error("This browser can’t receive push notifications.");
+
+  const { data } = await supabase.auth.getUser();
+  const user = data.user;
+  if (!user) throw new Error("Sign in to turn on notifications.");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("Notifications are blocked for this site in your browser settings.");
+
+  await registerServiceWorker();
+  const reg = await navigator.serviceWorker.ready;
+  const sub =
+    (await reg.pushManager.getSubscription()) ??
+    (await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: keyBytes(publicKey()) }));
+
+  const json = sub.toJSON();
+  const { error } = await supabase.from("push_subscriptions").upsert(
+    {
+      endpoint: sub.endpoint,
+      user_id: user.id,
+      p256dh: json.keys?.p256dh ?? "",
+      auth: json.keys?.auth ?? "",
+      user_agent: navigator.userAgent.slice(0, 200),
+    },
+    { onConflict: "endpoint" }
+  );
+  if (error) throw error;
+}
+
+/** Unsubscribes this browser; other devices keep theirs. */
+export async function disablePush(): Promise<void> {
+  const sub = await currentPushSubscription();
+  if (!sub) return;
+  await supabase.from("push_subscriptions").delete().eq("endpoint", sub.endpoint);
+  await sub.unsubscribe();
+}
+
+export async function fetchPushPrefs(): Promise<PushPrefs | null> {
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes.user;
+  if (!user) return null;
+
+  const { data } = await supabase
+    .from("profiles")
+    .select("push_next_stop,push_expiring")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  return { nextStop: data?.push_next_stop ?? true, expiring: data?.push_expiring ?? true };
+}
+
+export async function savePushPrefs(prefs: PushPrefs) {
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes.user;
+  if (!user) throw new Error("Not signed in.");
+
+  const { error } = await supabase.from("profiles").upsert(
+    {
+      user_id: user.id,
+      push_next_stop: prefs.nextStop,
+      push_expiring: prefs.expiring,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" }
+  );
+  if (error) throw error;
+}
+
+/**
+ * After a claim: "Next: Krispy Kreme, 8 min away" on the user's devices, for when they've left the
+ * tab for Maps. Fire-and-forget; does nothing unless this browser allowed notifications.
+ */
+export function notifyNextStop(dealId: string, minutes: number | null) {
+  if (!pushSupported() || Notification.permission !== "granted") return;
+  fetch("/api/push/next-stop", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ dealId, minutes }),
+  }).catch(() => {});
+}
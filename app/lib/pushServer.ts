@@ -0,0 +1,169 @@
+// app/lib/pushServer.ts
+// Sending push notifications: to every browser a user subscribed (dropping ones the push service
+// says are gone), and the hourly "deal expiring" job behind /api/cron/expiring-deals.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Deal } from "@/app/lib/deals";
+import { dealWindowInfo, type WindowInfo } from "@/app/lib/birthdayWindow";
+import type { PushMessage } from "@/app/lib/push";
+import { REMINDER_HOUR, localNow } from "@/app/lib/reminders";
+import { formatShortDate } from "@/app/lib/signups";
+import { sendWebPush, type VapidKeys, type WebPushTarget } from "@/app/lib/webPush";
+
+/** How close to the end of its window a planned, unclaimed deal gets a warning. */
+export const EXPIRING_WITHIN_DAYS = 3;
+
+export type PushDelivery = { sent: number; removed: number; failed: number };
+
+/**
+ * Sends `msg` to each of the user's subscriptions. `db` only needs to see and delete that user's rows
+ * (their cookie client, or the service client).
+ */
+export async function sendPushToUser(
+  db: SupabaseClient,
+  userId: string,
+  msg: PushMessage,
+  keys: VapidKeys,
+  opts: { ttlSeconds?: number; urgency?: "low" | "normal" | "high" } = {}
+): Promise<PushDelivery> {
+  const { data, error } = await db.from("push_subscriptions").select("endpoint,p256dh,auth").eq("user_id", userId);
+  if (error) throw error;
+
+  const out: PushDelivery = { sent: 0, removed: 0, failed: 0 };
+  const payload = JSON.stringify(msg);
+
+  for (const target of (data ?? []) as WebPushTarget[]) {
+    try {
+      const res = await sendWebPush(target, payload, keys, { ...opts, topic: msg.tag });
+      if (res.gone) {
+        await db.from("push_subscriptions").delete().eq("endpoint", target.endpoint);
+        out.removed++;
+      } else if (res.ok) {
+        await db.from("push_subscriptions").update({ last_used_at: new Date().toISOString() }).eq("endpoint", target.endpoint);
+        out.sent++;
+      } else {
+        out.failed++;
+      }
+    } catch {
+      out.failed++;
+    }
+  }
+  return out;
+}
+
+function endsText(deal: Deal, info: WindowInfo) {
+  if (info.days === 0) return "ends today";
+  if (info.days === 1) return "ends tomorrow";
+  if (deal.redemptionWindow?.kind === "month") return "expires at month end";
+  return `ends ${formatShortDate(info.end)}`;
+}
+
+/** "Sephora: free birthday gift expires at month end", or one line for several deals. */
+export function expiringMessage(rows: { deal: Deal; info: WindowInfo }[]): PushMessage {
+  if (rows.length === 1) {
+    const { deal, info } = rows[0];
+    return {
+      title: "Birthday deal ending soon",
+      body: `${deal.name}: ${deal.freebie} ${endsText(deal, info)}`,
+      url: `/app/deals/${deal.id}`,
+      tag: "expiring",
+    };
+  }
+  return {
+    title: `${rows.length} birthday deals ending soon`,
+    body: rows.map(({ deal, info }) => `${deal.name} (${endsText(deal, info).replace(/^(ends|expires at) /, "")})`).join(", "),
+    url: "/app/plan",
+    tag: "expiring",
+  };
+}
+
+export type ExpiringRun = {
+  checked: number; // users with notifications on
+  notified: { userId: string; dealIds: string[] }[];
+};
+
+function dayKey(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Warns users about deals on their plans (own or shared, not skipped, not claimed) whose redemption
+ * window ends within EXPIRING_WITHIN_DAYS. Runs after REMINDER_HOUR in the user's time zone and
+ * warns once per deal window (expiring_deal_pushes). With `dryRun` nothing is sent or logged.
+ */
+export async function runExpiringDealPushes(opts: {
+  service: SupabaseClient;
+  keys: VapidKeys;
+  deals: Deal[];
+  now?: Date;
+  dryRun?: boolean;
+}): Promise<ExpiringRun> {
+  const { service, keys, deals, dryRun = false } = opts;
+  const now = opts.now ?? new Date();
+  const run: ExpiringRun = { checked: 0, notified: [] };
+
+  const { data: subs, error: subsError } = await service.from("push_subscriptions").select("user_id");
+  if (subsError) throw subsError;
+  const userIds = Array.from(new Set((subs ?? []).map((r) => r.user_id as string)));
+  if (!userIds.length) return run;
+
+  const { data: profiles, error } = await service
+    .from("profiles")
+    .select("user_id,birthday,timezone")
+    .in("user_id", userIds)
+    .eq("push_expiring", true)
+    .not("birthday", "is", null);
+  if (error) throw error;
+  run.checked = profiles?.length ?? 0;
+
+  const byId = new Map(deals.map((d) => [d.id, d]));
+
+  for (const p of profiles ?? []) {
+    const { today, hour } = localNow(now, p.timezone);
+    if (hour < REMINDER_HOUR) continue;
+
+    const [own, shared, claims] = await Promise.all([
+      service.from("plans").select("id").eq("user_id", p.user_id),
+      service.from("plan_members").select("plan_id").eq("user_id", p.user_id),
+      service.from("deal_claims").select("deal_id").eq("user_id", p.user_id),
+    ]);
+    if (own.error || shared.error || claims.error) continue;
+
+    const planIds = [...(own.data ?? []).map((r) => r.id), ...(shared.data ?? []).map((r) => r.plan_id)];
+    if (!planIds.length) continue;
+
+    const { data: items } = await service.from("plan_items").select("deal_id,skipped").in("plan_id", planIds);
+    const claimed = new Set((claims.data ?? []).map((r) => r.deal_id as string));
+    const planned = new Set((items ?? []).filter((r) => !r.skipped).map((r) => r.deal_id as string));
+
+    const rows = Array.from(planned)
+      .filter((id) => !claimed.has(id) && byId.has(id))
+      .map((id) => ({ deal: byId.get(id)!, info: dealWindowInfo(byId.get(id)!, p.birthday, today) }))
+      .filter((r): r is { deal: Deal; info: WindowInfo } => r.info?.status === "active" && r.info.days < EXPIRING_WITHIN_DAYS)
+      .sort((a, b) => a.info.days - b.info.days);
+    if (!rows.length) continue;
+
+    const { data: logRows } = await service
+      .from("expiring_deal_pushes")
+      .select("deal_id,window_end")
+      .eq("user_id", p.user_id)
+      .in(
+        "deal_id",
+        rows.map((r) => r.deal.id)
+      );
+    const warned = new Set((logRows ?? []).map((r) => `${r.deal_id}:${r.window_end}`));
+    const fresh = rows.filter((r) => !warned.has(`${r.deal.id}:${dayKey(r.info.end)}`));
+    if (!fresh.length) continue;
+
+    if (!dryRun) {
+      const { error: logError } = await service.from("expiring_deal_pushes").upsert(
+        fresh.map((r) => ({ user_id: p.user_id, deal_id: r.deal.id, window_end: dayKey(r.info.end) })),
+        { onConflict: "user_id,deal_id,window_end", ignoreDuplicates: true }
+      );
+      if (logError) continue;
+      await sendPushToUser(service, p.user_id, expiringMessage(fresh), keys, { ttlSeconds: 12 * 60 * 60 });
+    }
+    run.notified.push({ userId: p.user_id, dealIds: fresh.map((r) => r.deal.id) });
+  }
+
+  return run;
+}
@@ -0,0 +1,199 @@
+// app/lib/reminders.ts
+// Birthday reminder emails (opt-in on the profile page): a digest `daysBefore` days ahead with the
+// rewards programs still to join, and one the morning of with the user's plan. This file decides
+// which one is due and writes it; remindersServer.ts finds the users and sends.
+import type { Deal } from "@/app/lib/deals";
+import { birthdayInYear } from "@/app/lib/birthdayWindow";
+import type { MailMessage } from "@/app/lib/mail/types";
+import { signupDeadline, signupDeadlineText, type SignupDeadline, type SignupStatus } from "@/app/lib/signups";
+
+export type ReminderKind = "lead" | "day_of";
+
+export const REMINDER_LEAD_CHOICES = [1, 3, 7, 14, 30];
+export const DEFAULT_REMINDER_DAYS = 7;
+export const REMINDER_HOUR = 8; // local time; nothing goes out earlier
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReminderPrefs = {
+  birthday: string; // "YYYY-MM-DD"
+  daysBefore: number;
+  timezone: string | null; // IANA; null = UTC
+};
+
+export type DueReminder = {
+  kind: ReminderKind;
+  birthday: string; // "YYYY-MM-DD" of the birthday it's for (dedupes across runs)
+  daysLeft: number;
+};
+
+function isoDay(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/** The calendar day (as a local-midnight Date) and hour it is in `timezone`. Unknown zones count as UTC. */
+export function localNow(now: Date, timezone: string | null): { today: Date; hour: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone || "UTC",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      hourCycle: "h23",
+    }).formatToParts(now);
+  } catch {
+    return localNow(now, null);
+  }
+  const get = (t: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === t)?.value);
+  return { today: new Date(get("year"), get("month") - 1, get("day")), hour: get("hour") };
+}
+
+/**
+ * The reminder due now, if any. The digest goes out any time in the last `daysBefore` days (so a
+ * missed run or a late opt-in still gets one); the day-of email only on the day. The job sends
+ * each at most once per birthday.
+ */
+export function dueReminder(prefs: ReminderPrefs, now: Date = new Date()): DueReminder | null {
+  const { today, hour } = localNow(now, prefs.timezone);
+  if (hour < REMINDER_HOUR) return null;
+
+  let bday = birthdayInYear(prefs.birthday, today.getFullYear());
+  if (!bday) return null;
+  if (bday < today) bday = birthdayInYear(prefs.birthday, today.getFullYear() + 1)!;
+
+  const daysLeft = Math.round((bday.getTime() - today.getTime()) / DAY_MS);
+  if (daysLeft === 0) return { kind: "day_of", birthday: isoDay(bday), daysLeft };
+  if (daysLeft <= prefs.daysBefore) return { kind: "lead", birthday: isoDay(bday), daysLeft };
+  return null;
+}
+
+function esc(s: string) {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function layout(title: string, body: string, cta: { href: string; label: string }, footer: string) {
+  return (
+    `<div style="font-family:system-ui,sans-serif;max-width:560px;margin:auto;color:#18181b">` +
+    `<h1 style="font-size:22px">${esc(title)}</h1>${body}` +
+    `<p><a href="${esc(cta.href)}" style="display:inline-block;background:#10b981;color:#fff;padding:10px 18px;` +
+    `border-radius:999px;text-decoration:none">${esc(cta.label)}</a></p>` +
+    `<p style="font-size:12px;color:#71717a">${esc(footer)}</p></div>`
+  );
+}
+
+const FOOTER = "You get these because birthday reminders are on in your BirthdayScout profile.";
+
+export type SignupTodo = { deal: Deal; deadline: SignupDeadline | null };
+
+/** Rewards programs the user hasn't joined whose deadline for this birthday hasn't passed. */
+export function signupsToDo(
+  deals: Deal[],
+  statuses: Record<string, SignupStatus>,
+  birthday: string,
+  today: Date
+): SignupTodo[] {
+  return deals
+    .filter((d) => d.signupUrl || typeof d.signupLeadDays === "number")
+    .filter((d) => (statuses[d.id] ?? "not_joined") === "not_joined")
+    .map((deal) => ({ deal, deadline: signupDeadline(deal, birthday, today) }))
+    .filter((r) => !r.deadline || r.deadline.daysLeft >= 0)
+    .sort((a, b) => (a.deadline?.daysLeft ?? Infinity) - (b.deadline?.daysLeft ?? Infinity));
+}
+
+export function leadEmail(opts: {
+  name: string;
+  daysLeft: number;
+  todo: SignupTodo[];
+  appUrl: string;
+}): Omit<MailMessage, "to"> {
+  const when = opts.daysLeft === 1 ? "tomorrow" : `in ${opts.daysLeft} days`;
+  const hi = opts.name ? `Hi ${opts.name},` : "Hi,";
+  const profileUrl = `${opts.appUrl}/app/profile`;
+  const line = (t: SignupTodo) =>
+    `${t.deal.name}: ${t.deadline ? signupDeadlineText(t.deadline) : "join before your birthday"}`;
+
+  const intro = opts.todo.length
+    ? `A few rewards programs only send the birthday freebie to members who joined in time:`
+    : `You've joined every rewards program with a birthday deal. Time to plan the route.`;
+
+  const text = [
+    hi,
+    "",
+    `Your birthday is ${when}! ${intro}`,
+    "",
+    ...opts.todo.map((t) => `- ${line(t)}${t.deal.signupUrl ? ` (${t.deal.signupUrl})` : ""}`),
+    ...(opts.todo.length ? [""] : []),
+    `Track your signups: ${profileUrl}`,
+    `Plan your route: ${opts.appUrl}/app/plan`,
+    "",
+    FOOTER,
+  ].join("\n");
+
+  const list = opts.todo.length
+    ? `<ul>${opts.todo
+        .map((t) => {
+          const name = t.deal.signupUrl
+            ? `<a href="${esc(t.deal.signupUrl)}">${esc(t.deal.name)}</a>`
+            : esc(t.deal.name);
+          return `<li>${name}: ${esc(t.deadline ? signupDeadlineText(t.deadline) : "join before your birthday")}</li>`;
+        })
+        .join("")}</ul>`
+    : "";
+
+  return {
+    subject: opts.todo.length
+      ? `Your birthday is ${when}: ${opts.todo.length} rewards to join`
+      : `Your birthday is ${when}`,
+    text,
+    html: layout(
+      `Your birthday is ${when} 🎂`,
+      `<p>${esc(hi)}</p><p>${esc(intro)}</p>${list}`,
+      { href: profileUrl, label: "Open my signup checklist" },
+      FOOTER
+    ),
+  };
+}
+
+export type PlanDigest = { name: string; stops: Deal[] };
+
+export function dayOfEmail(opts: { name: string; plans: PlanDigest[]; appUrl: string }): Omit<MailMessage, "to"> {
+  const hi = opts.name ? `Happy birthday, ${opts.name}!` : "Happy birthday!";
+  const planUrl = `${opts.appUrl}/app/plan`;
+  const plans = opts.plans.filter((p) => p.stops.length);
+  const stop = (d: Deal) => `${d.name}${d.freebie ? `: ${d.freebie}` : ""}`;
+
+  const intro = plans.length
+    ? "Here's your plan for today. Open it to get the fastest route and check off each freebie."
+    : "Your plan is still empty. Add a few birthday deals and we'll route you through them.";
+
+  const text = [
+    hi,
+    "",
+    intro,
+    "",
+    ...plans.flatMap((p) => [
+      ...(plans.length > 1 ? [`${p.name}:`] : []),
+      ...p.stops.map((d, i) => `${i + 1}. ${stop(d)}`),
+      "",
+    ]),
+    `Open your plan: ${planUrl}`,
+    "",
+    FOOTER,
+  ].join("\n");
+
+  const html = plans
+    .map(
+      (p) =>
+        (plans.length > 1 ? `<h2 style="font-size:16px">${esc(p.name)}</h2>` : "") +
+        `<ol>${p.stops.map((d) => `<li>${esc(stop(d))}</li>`).join("")}</ol>`
+    )
+    .join("");
+
+  return {
+    subject: plans.length ? `Happy birthday! ${plans[0].stops.length} freebies are waiting 🎉` : "Happy birthday! 🎉",
+    text,
+    html: layout(hi, `<p>${esc(intro)}</p>${html}`, { href: planUrl, label: "Open my plan" }, FOOTER),
+  };
+}
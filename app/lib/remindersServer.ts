@@ -0,0 +1,178 @@
+// app/lib/remindersServer.ts
+// The reminder job behind /api/cron/birthday-reminders: finds opted-in users whose reminder is due,
+// builds it from their signups or plans and mails it. Uses the service role (reads every profile).
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Deal } from "@/app/lib/deals";
+import type { Mailer } from "@/app/lib/mail";
+import {
+  DEFAULT_REMINDER_DAYS,
+  dayOfEmail,
+  dueReminder,
+  leadEmail,
+  localNow,
+  signupsToDo,
+  type DueReminder,
+  type PlanDigest,
+  type ReminderKind,
+} from "@/app/lib/reminders";
+import type { SignupStatus } from "@/app/lib/signups";
+
+export type ReminderRun = {
+  checked: number; // opted-in users looked at
+  sent: { userId: string; kind: ReminderKind }[];
+  failed: { userId: string; kind: ReminderKind; note: string }[];
+};
+
+type ProfileRow = {
+  user_id: string;
+  display_name: string | null;
+  birthday: string;
+  remind_days_before: number | null;
+  timezone: string | null;
+};
+
+async function signupStatuses(service: SupabaseClient, userId: string): Promise<Record<string, SignupStatus>> {
+  const { data, error } = await service.from("deal_signups").select("deal_id,status").eq("user_id", userId);
+  if (error) throw error;
+  const out: Record<string, SignupStatus> = {};
+  for (const r of data ?? []) out[r.deal_id] = r.status;
+  return out;
+}
+
+/** The user's own plans, stops in route order (skipped ones left out). */
+async function planDigests(service: SupabaseClient, userId: string, deals: Deal[]): Promise<PlanDigest[]> {
+  const { data: plans, error } = await service
+    .from("plans")
+    .select("id,name,sort_order")
+    .eq("user_id", userId)
+    .order("sort_order", { ascending: true });
+  if (error) throw error;
+  if (!plans?.length) return [];
+
+  const { data: items, error: itemsError } = await service
+    .from("plan_items")
+    .select("plan_id,deal_id,position,route_position,skipped")
+    .in(
+      "plan_id",
+      plans.map((p) => p.id)
+    );
+  if (itemsError) throw itemsError;
+
+  const byId = new Map(deals.map((d) => [d.id, d]));
+  return plans.map((p) => ({
+    name: p.name || "My plan",
+    stops: (items ?? [])
+      .filter((r) => r.plan_id === p.id && !r.skipped && byId.has(r.deal_id))
+      .sort((a, b) => (a.route_position ?? a.position) - (b.route_position ?? b.position))
+      .map((r) => byId.get(r.deal_id)!),
+  }));
+}
+
+async function buildEmail(
+  service: SupabaseClient,
+  profile: ProfileRow,
+  due: DueReminder,
+  deals: Deal[],
+  appUrl: string,
+  now: Date
+) {
+  const name = (profile.display_name || "").trim();
+  if (due.kind === "day_of") {
+    return dayOfEmail({ name, plans: await planDigests(service, profile.user_id, deals), appUrl });
+  }
+  const { today } = localNow(now, profile.timezone);
+  const statuses = await signupStatuses(service, profile.user_id);
+  return leadEmail({ name, daysLeft: due.daysLeft, todo: signupsToDo(deals, statuses, profile.birthday, today), appUrl });
+}
+
+/**
+ * Sends every reminder due at `now`. Each is logged in birthday_reminders before it goes out, so
+ * overlapping or repeated runs send it once; a failed send removes the log row to retry next run.
+ * With `dryRun` nothing is logged or sent, and `sent` lists what would have gone out.
+ */
+export async function runBirthdayReminders(opts: {
+  service: SupabaseClient;
+  mailer: Mailer;
+  deals: Deal[];
+  appUrl: string;
+  now?: Date;
+  dryRun?: boolean;
+}): Promise<ReminderRun> {
+  const { service, mailer, deals, appUrl, dryRun = false } = opts;
+  const now = opts.now ?? new Date();
+  const run: ReminderRun = { checked: 0, sent: [], failed: [] };
+
+  const { data, error } = await service
+    .from("profiles")
+    .select("user_id,display_name,birthday,remind_days_before,timezone")
+    .eq("remind_email", true)
+    .not("birthday", "is", null);
+  if (error) throw error;
+
+  const profiles = (data ?? []) as ProfileRow[];
+  run.checked = profiles.length;
+
+  const due = profiles
+    .map((p) => ({
+      profile: p,
+      due: dueReminder(
+        { birthday: p.birthday, daysBefore: p.remind_days_before ?? DEFAULT_REMINDER_DAYS, timezone: p.timezone },
+        now
+      ),
+    }))
+    .filter((x): x is { profile: ProfileRow; due: DueReminder } => x.due !== null);
+  if (!due.length) return run;
+
+  const { data: logRows, error: logError } = await service
+    .from("birthday_reminders")
+    .select("user_id,kind,birthday")
+    .in(
+      "user_id",
+      due.map((x) => x.profile.user_id)
+    );
+  if (logError) throw logError;
+  const done = new Set((logRows ?? []).map((r) => `${r.user_id}:${r.kind}:${r.birthday}`));
+
+  for (const { profile, due: reminder } of due) {
+    const userId = profile.user_id;
+    const kind = reminder.kind;
+    if (done.has(`${userId}:${kind}:${reminder.birthday}`)) continue;
+
+    const log = { user_id: userId, kind, birthday: reminder.birthday };
+    let logged = false;
+    try {
+      const { data: userRes, error: userError } = await service.auth.admin.getUserById(userId);
+      if (userError) throw userError;
+      const to = userRes.user?.email;
+      if (!to) throw new Error("No email address on the account");
+
+      const email = await buildEmail(service, profile, reminder, deals, appUrl, now);
+      if (dryRun) {
+        run.sent.push({ userId, kind });
+        continue;
+      }
+
+      const { error: insertError } = await service.from("birthday_reminders").insert(log);
+      if (insertError) {
+        if (insertError.code === "23505") continue; // another run got there first
+        throw insertError;
+      }
+      logged = true;
+
+      await mailer.send({ to, ...email });
+      run.sent.push({ userId, kind });
+    } catch (e: unknown) {
+      if (logged) {
+        await service
+          .from("birthday_reminders")
+          .delete()
+          .eq("user_id", userId)
+          .eq("kind", kind)
+          .eq("birthday", reminder.birthday);
+      }
+      run.failed.push({ userId, kind, note: e instanceof Error ? e.message : "Send failed" });
+    }
+  }
+
+  return run;
+}
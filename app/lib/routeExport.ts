@@ -0,0 +1,204 @@
+// app/lib/routeExport.ts
+// The optimized route as files other apps understand: GPX and KML for nav apps, iCalendar for calendars.
+// Pure string builders; the plan page collects the route and hands the text to downloadText.
+
+export type ExportPoint = { lat: number; lon: number; name: string; description?: string };
+
+/** A stop in route order. Stops without coordinates still get a calendar event but no waypoint. */
+export type ExportStop = {
+  id: string;
+  name: string;
+  description?: string;
+  lat?: number;
+  lon?: number;
+  arriveAt?: string; // ISO
+  leaveAt?: string; // ISO
+};
+
+export type ExportRoute = {
+  title: string;
+  start: ExportPoint | null;
+  stops: ExportStop[];
+  end: ExportPoint | null; // only when the route doesn't finish at a stop
+  track: [number, number][] | null; // [lat, lon] along the roads, when the optimizer returned it
+};
+
+export type ExportFormat = "gpx" | "kml" | "ics";
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; mime: string }[] = [
+  { id: "gpx", label: "GPX (nav apps)", mime: "application/gpx+xml" },
+  { id: "kml", label: "KML (Google Earth / My Maps)", mime: "application/vnd.google-earth.kml+xml" },
+  { id: "ics", label: "Calendar (.ics)", mime: "text/calendar" },
+];
+
+function xml(s: string) {
+  return s.replace(/[<>&"']/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c]!);
+}
+
+function located(s: ExportStop): s is ExportStop & { lat: number; lon: number } {
+  return typeof s.lat === "number" && typeof s.lon === "number";
+}
+
+/** Start, numbered stops and end, in driving order. */
+function routePoints(r: ExportRoute): ExportPoint[] {
+  return [
+    ...(r.start ? [{ ...r.start, name: `Start: ${r.start.name}` }] : []),
+    ...r.stops
+      .map((s, i) => ({ ...s, name: `${i + 1}. ${s.name}` }))
+      .filter(located)
+      .map((s) => ({ lat: s.lat, lon: s.lon, name: s.name, description: s.description })),
+    ...(r.end ? [{ ...r.end, name: `End: ${r.end.name}` }] : []),
+  ];
+}
+
+export function routeToGpx(r: ExportRoute): string {
+  const points = routePoints(r);
+  const pt = (tag: string, p: ExportPoint, indent: string) =>
+    `${indent}<${tag} lat="${p.lat}" lon="${p.lon}">\n` +
+    `${indent}  <name>${xml(p.name)}</name>\n` +
+    (p.description ? `${indent}  <desc>${xml(p.description)}</desc>\n` : "") +
+    `${indent}</${tag}>`;
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="BirthdayScout" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata><name>${xml(r.title)}</name></metadata>`,
+    ...points.map((p) => pt("wpt", p, "  ")),
+    `  <rte>`,
+    `    <name>${xml(r.title)}</name>`,
+    ...points.map((p) => pt("rtept", p, "    ")),
+    `  </rte>`,
+    ...(r.track && r.track.length >= 2
+      ? [
+          `  <trk>`,
+          `    <name>${xml(r.title)}</name>`,
+          `    <trkseg>`,
+          ...r.track.map(([lat, lon]) => `      <trkpt lat="${lat}" lon="${lon}"/>`),
+          `    </trkseg>`,
+          `  </trk>`,
+        ]
+      : []),
+    `</gpx>`,
+    "",
+  ].join("\n");
+}
+
+export function routeToKml(r: ExportRoute): string {
+  const points = routePoints(r);
+  const line = r.track && r.track.length >= 2 ? r.track : points.map((p) => [p.lat, p.lon] as [number, number]);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>${xml(r.title)}</name>`,
+    ...points.map(
+      (p) =>
+        `    <Placemark>\n` +
+        `      <name>${xml(p.name)}</name>\n` +
+        (p.description ? `      <description>${xml(p.description)}</description>\n` : "") +
+        `      <Point><coordinates>${p.lon},${p.lat}</coordinates></Point>\n` +
+        `    </Placemark>`
+    ),
+    ...(line.length >= 2
+      ? [
+          `    <Placemark>`,
+          `      <name>Route</name>`,
+          `      <LineString><tessellate>1</tessellate><coordinates>${line
+            .map(([lat, lon]) => `${lon},${lat}`)
+            .join(" ")}</coordinates></LineString>`,
+          `    </Placemark>`,
+        ]
+      : []),
+    `  </Document>`,
+    `</kml>`,
+    "",
+  ].join("\n");
+}
+
+function icsText(s: string) {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function icsTime(iso: string) {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// RFC 5545: lines longer than 75 octets continue on the next line after a space
+function fold(line: string) {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const out: string[] = [];
+  let cur = "";
+  let curLen = 0;
+  for (const ch of line) {
+    const n = new TextEncoder().encode(ch).length;
+    if (curLen + n > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+      curLen = 0;
+    }
+    cur += ch;
+    curLen += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+/** One event per stop with an arrival time, from arrival until leaving. */
+export function routeToIcs(r: ExportRoute, now = new Date()): string {
+  const stamp = icsTime(now.toISOString());
+  const events = r.stops
+    .map((s, i) => ({ s, i }))
+    .filter(({ s }) => !!s.arriveAt)
+    .flatMap(({ s, i }) => {
+      const start = s.arriveAt!;
+      // zero-length events vanish in some calendars
+      const end =
+        s.leaveAt && Date.parse(s.leaveAt) > Date.parse(start)
+          ? s.leaveAt
+          : new Date(Date.parse(start) + 5 * 60_000).toISOString();
+      return [
+        "BEGIN:VEVENT",
+        `UID:${icsText(`${s.id}-${icsTime(start)}@birthdayscout`)}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsTime(start)}`,
+        `DTEND:${icsTime(end)}`,
+        `SUMMARY:${icsText(`${i + 1}. ${s.name}`)}`,
+        ...(s.description ? [`DESCRIPTION:${icsText(s.description)}`] : []),
+        ...(located(s) ? [`LOCATION:${icsText(`${s.lat},${s.lon}`)}`, `GEO:${s.lat};${s.lon}`] : []),
+        "END:VEVENT",
+      ];
+    });
+
+  return (
+    [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//BirthdayScout//Route//EN",
+      "CALSCALE:GREGORIAN",
+      `X-WR-CALNAME:${icsText(r.title)}`,
+      ...events,
+      "END:VCALENDAR",
+    ]
+      .map(fold)
+      .join("\r\n") + "\r\n"
+  );
+}
+
+export function routeFile(r: ExportRoute, format: ExportFormat): string {
+  return format === "gpx" ? routeToGpx(r) : format === "kml" ? routeToKml(r) : routeToIcs(r);
+}
+
+/** Save text as a file through a temporary link (browser only). */
+export function downloadText(filename: string, mime: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,103 @@
+// app/lib/routeShare.ts
+// Read-only snapshots of an optimized route, stored in `route_shares` under a random slug and shown at
+// /r/[slug]. The start (ZIP / location) and a custom end address are only included when the sharer opts in.
+import type { RouteEndMode } from "@/app/lib/planSync";
+import { normalizeTravelMode, type TravelMode } from "@/app/lib/travelMode";
+
+export type SharedStop = {
+  id: string; // deal id, so friends can import it into their own plan
+  name: string;
+  freebie?: string;
+  lat?: number;
+  lon?: number;
+  label?: string; // which store, when one was picked
+};
+
+export type RouteShareSnapshot = {
+  title: string;
+  stops: SharedStop[]; // route order; the destination (if any) is last
+  destinationId: string | null;
+  endMode: RouteEndMode;
+  endAddress?: string; // opt-in
+  start?: { lat: number; lon: number; label: string }; // opt-in
+  travelMode: TravelMode;
+  distance_m: number | null;
+  duration_s: number | null;
+  total_s: number | null; // incl. time at stores
+  polyline?: string; // encoded road path, when the optimizer returned one
+  optimizedAt: string | null; // ISO
+};
+
+export const MAX_SHARED_STOPS = 50;
+const MAX_POLYLINE = 200_000;
+const SLUG_LEN = 10;
+const SLUG_CHARS = "abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O, 1/l/I
+
+/** Random, unguessable slug (about 58 bits). */
+export function newShareSlug(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SLUG_LEN));
+  return Array.from(bytes, (b) => SLUG_CHARS[b % SLUG_CHARS.length]).join("");
+}
+
+export function isShareSlug(v: unknown): v is string {
+  return typeof v === "string" && v.length === SLUG_LEN && [...v].every((c) => SLUG_CHARS.includes(c));
+}
+
+function str(v: unknown, max: number): string | undefined {
+  return typeof v === "string" && v.trim() ? v.trim().slice(0, max) : undefined;
+}
+
+function num(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : null;
+}
+
+function coord(lat: unknown, lon: unknown): { lat: number; lon: number } | null {
+  if (typeof lat !== "number" || typeof lon !== "number") return null;
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon };
+}
+
+/** Validates a snapshot from the client (or the table); null when it isn't usable. */
+export function cleanRouteShare(v: unknown): RouteShareSnapshot | null {
+  if (!v || typeof v !== "object") return null;
+  const s = v as Record<string, unknown>;
+
+  const stops: SharedStop[] = (Array.isArray(s.stops) ? s.stops : [])
+    .slice(0, MAX_SHARED_STOPS)
+    .flatMap((x): SharedStop[] => {
+      if (!x || typeof x !== "object") return [];
+      const r = x as Record<string, unknown>;
+      const id = str(r.id, 100);
+      const name = str(r.name, 120);
+      if (!id || !name) return [];
+      const at = coord(r.lat, r.lon);
+      const freebie = str(r.freebie, 300);
+      const label = str(r.label, 200);
+      return [{ id, name, ...(freebie ? { freebie } : {}), ...(at ?? {}), ...(label ? { label } : {}) }];
+    });
+  if (!stops.length) return null;
+
+  const endMode: RouteEndMode = s.endMode === "start" || s.endMode === "address" ? s.endMode : "stop";
+  const destinationId = endMode === "stop" ? str(s.destinationId, 100) ?? null : null;
+  const endAddress = endMode === "address" ? str(s.endAddress, 200) : undefined;
+
+  const startRaw = s.start && typeof s.start === "object" ? (s.start as Record<string, unknown>) : null;
+  const startAt = startRaw ? coord(startRaw.lat, startRaw.lon) : null;
+  const polyline = typeof s.polyline === "string" && s.polyline.length <= MAX_POLYLINE ? s.polyline : undefined;
+  const optimizedAt = typeof s.optimizedAt === "string" && Number.isFinite(Date.parse(s.optimizedAt)) ? s.optimizedAt : null;
+
+  return {
+    title: str(s.title, 80) ?? "Birthday route",
+    stops,
+    destinationId: destinationId && stops.some((x) => x.id === destinationId) ? destinationId : null,
+    endMode,
+    ...(endAddress ? { endAddress } : {}),
+    ...(startAt ? { start: { ...startAt, label: str(startRaw?.label, 80) ?? "Start" } } : {}),
+    travelMode: normalizeTravelMode(s.travelMode),
+    distance_m: num(s.distance_m),
+    duration_s: num(s.duration_s),
+    total_s: num(s.total_s),
+    ...(polyline ? { polyline } : {}),
+    optimizedAt,
+  };
+}
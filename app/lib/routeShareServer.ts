@@ -0,0 +1,32 @@
+// app/lib/routeShareServer.ts
+import { cleanRouteShare, isShareSlug, newShareSlug, type RouteShareSnapshot } from "@/app/lib/routeShare";
+import { createSupabaseServerClient } from "@/app/lib/supabaseServer";
+
+const SLUG_ATTEMPTS = 3;
+
+/** Stores a snapshot for the signed-in user and returns its slug; null when nobody is signed in. */
+export async function createRouteShare(snapshot: RouteShareSnapshot): Promise<string | null> {
+  const supabase = await createSupabaseServerClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes.user;
+  if (!user) return null;
+
+  for (let i = 0; i < SLUG_ATTEMPTS; i++) {
+    const slug = newShareSlug();
+    const { error } = await supabase.from("route_shares").insert({ slug, user_id: user.id, snapshot });
+    if (!error) return slug;
+    if (error.code !== "23505") throw error; // anything but a slug collision
+  }
+  throw new Error("Could not create a share link. Try again.");
+}
+
+/** The snapshot behind a share link, or null when the slug is unknown. */
+export async function loadRouteShare(slug: string): Promise<RouteShareSnapshot | null> {
+  if (!isShareSlug(slug)) return null;
+
+  const supabase = await createSupabaseServerClient();
+  // Only the owner can read the table; links go through a lookup by slug so shares can't be listed.
+  const { data, error } = await supabase.rpc("get_route_share", { p_slug: slug });
+  if (error || !data) return null;
+  return cleanRouteShare(data);
+}
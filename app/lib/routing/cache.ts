@@ -0,0 +1,377 @@
+// app/lib/routing/cache.ts
+// Shared cache for paid lookups (store search, opening hours, geocodes, travel-time matrices), picked by
+// ROUTING_CACHE:
+//   supabase  `routing_cache` table via the service-role key, shared by every instance (default when
+//             SUPABASE_SERVICE_ROLE_KEY is set)
+//   file      JSON files under ROUTING_CACHE_DIR (default .cache/routing), for a single long-lived server
+//   memory    per process, lost on cold start (default otherwise)
+// A failing backend never fails a route: errors count as misses. Expired entries are deleted by a
+// sweep that runs on write, at most once per SWEEP_INTERVAL_MS per process.
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { brandKey } from "@/app/lib/deals";
+import { getSupabaseServiceClient } from "@/app/lib/supabaseAdmin";
+import { haversineMeters } from "./http";
+import { RoutingConfigError, type Geo, type MatrixRow, type RoutingProvider } from "./types";
+
+export type CacheKind = "places" | "hours" | "geocode" | "matrix";
+export const CACHE_KINDS: CacheKind[] = ["places", "hours", "geocode", "matrix"];
+
+// Stores rarely move; travel times drift with traffic.
+export const CACHE_TTL_MS: Record<CacheKind, number> = {
+  places: 24 * 60 * 60 * 1000,
+  hours: 24 * 60 * 60 * 1000,
+  geocode: 30 * 24 * 60 * 60 * 1000,
+  matrix: 6 * 60 * 60 * 1000,
+};
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/** What an entry is about, so it can be purged by chain or area. */
+export type CacheMeta = { name?: string; near?: Geo };
+
+/** Purge filter; fields combine with AND. An empty filter matches everything. */
+export type CachePurge = { kind?: CacheKind; name?: string; near?: Geo; radiusM?: number };
+
+export type CacheStats = {
+  backend: string;
+  since: string;
+  errors: number;
+  kinds: Record<CacheKind, { hits: number; misses: number; writes: number }>;
+};
+
+export interface RoutingCache {
+  readonly backend: string;
+  /** undefined = miss (a cached null is a hit). */
+  get<T>(kind: CacheKind, key: string): Promise<T | undefined>;
+  set<T>(kind: CacheKind, key: string, value: T, meta?: CacheMeta): Promise<void>;
+  /** Number of entries removed. */
+  purge(filter: CachePurge): Promise<number>;
+  /** Counters for this process since it started. */
+  stats(): CacheStats;
+}
+
+export function cacheKey(name: string, near: Geo) {
+  // ~1km grid so close-by queries reuse cached answer
+  const lat = near.lat.toFixed(2);
+  const lon = near.lon.toFixed(2);
+  return `${name}:${lat},${lon}`;
+}
+
+function pointKey(g: Geo) {
+  return `${g.lat.toFixed(5)},${g.lon.toFixed(5)}`;
+}
+
+type Entry = {
+  key: string;
+  kind: CacheKind;
+  name: string | null; // brandKey() of the chain or query
+  lat: number | null;
+  lon: number | null;
+  value: unknown;
+  expiresAt: number;
+};
+
+function entryFor(kind: CacheKind, key: string, value: unknown, meta?: CacheMeta): Entry {
+  return {
+    key,
+    kind,
+    name: meta?.name ? brandKey(meta.name) : null,
+    lat: meta?.near?.lat ?? null,
+    lon: meta?.near?.lon ?? null,
+    value,
+    expiresAt: Date.now() + CACHE_TTL_MS[kind],
+  };
+}
+
+function matches(e: Entry, f: CachePurge) {
+  if (f.kind && e.kind !== f.kind) return false;
+  if (f.name && e.name !== brandKey(f.name)) return false;
+  if (f.near) {
+    if (e.lat === null || e.lon === null) return false;
+    if (haversineMeters(f.near, { lat: e.lat, lon: e.lon }) > (f.radiusM ?? 0)) return false;
+  }
+  return true;
+}
+
+type Backend = {
+  name: string;
+  read(key: string): Promise<Entry | null>;
+  write(e: Entry): Promise<void>;
+  purge(f: CachePurge): Promise<number>;
+  /** Deletes entries that expired before `now`. */
+  sweep(now: number): Promise<void>;
+};
+
+/** Adds counters and swallows backend errors. */
+function withStats(b: Backend): RoutingCache {
+  const since = new Date().toISOString();
+  let errors = 0;
+  let sweptAt = 0;
+  const kinds = Object.fromEntries(CACHE_KINDS.map((k) => [k, { hits: 0, misses: 0, writes: 0 }])) as CacheStats["kinds"];
+
+  return {
+    backend: b.name,
+
+    async get<T>(kind: CacheKind, key: string) {
+      try {
+        const e = await b.read(key);
+        if (e && e.expiresAt > Date.now()) {
+          kinds[kind].hits++;
+          return e.value as T;
+        }
+      } catch {
+        errors++;
+      }
+      kinds[kind].misses++;
+      return undefined;
+    },
+
+    async set<T>(kind: CacheKind, key: string, value: T, meta?: CacheMeta) {
+      try {
+        await b.write(entryFor(kind, key, value, meta));
+        kinds[kind].writes++;
+      } catch {
+        errors++;
+      }
+
+      const now = Date.now();
+      if (now - sweptAt < SWEEP_INTERVAL_MS) return;
+      sweptAt = now;
+      try {
+        await b.sweep(now);
+      } catch {
+        errors++;
+      }
+    },
+
+    purge: (f) => b.purge(f),
+
+    stats: () => ({ backend: b.name, since, errors, kinds: structuredClone(kinds) }),
+  };
+}
+
+export function createMemoryCache(): RoutingCache {
+  const entries = new Map<string, Entry>();
+  return withStats({
+    name: "memory",
+    async read(key) {
+      return entries.get(key) ?? null;
+    },
+    async write(e) {
+      entries.set(e.key, e);
+    },
+    async purge(f) {
+      let n = 0;
+      for (const e of entries.values()) {
+        if (matches(e, f) && entries.delete(e.key)) n++;
+      }
+      return n;
+    },
+    async sweep(now) {
+      for (const e of entries.values()) if (e.expiresAt <= now) entries.delete(e.key);
+    },
+  });
+}
+
+/** One JSON file per entry, named by a hash of its key. */
+export function createFileCache(dir: string): RoutingCache {
+  const fileFor = (key: string) => path.join(dir, `${createHash("sha1").update(key).digest("hex")}.json`);
+
+  async function readEntry(file: string): Promise<Entry | null> {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as Entry;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Deletes the entry files `drop` picks; returns how many. */
+  async function removeWhere(drop: (e: Entry) => boolean): Promise<number> {
+    let names: string[];
+    try {
+      names = await readdir(dir);
+    } catch {
+      return 0;
+    }
+    let n = 0;
+    for (const name of names.filter((x) => x.endsWith(".json"))) {
+      const file = path.join(dir, name);
+      const e = await readEntry(file);
+      if (e && drop(e)) {
+        await unlink(file).catch(() => {});
+        n++;
+      }
+    }
+    return n;
+  }
+
+  return withStats({
+    name: "file",
+    async read(key) {
+      const e = await readEntry(fileFor(key));
+      return e?.key === key ? e : null;
+    },
+    async write(e) {
+      await mkdir(dir, { recursive: true });
+      const file = fileFor(e.key);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(e));
+      await rename(tmp, file);
+    },
+    purge: (f) => removeWhere((e) => matches(e, f)),
+    async sweep(now) {
+      await removeWhere((e) => e.expiresAt <= now);
+    },
+  });
+}
+
+type CacheRow = {
+  key: string;
+  kind: CacheKind;
+  name: string | null;
+  lat: number | null;
+  lon: number | null;
+  value: unknown;
+  expires_at: string;
+};
+
+const PURGE_CHUNK = 200;
+
+export function createSupabaseCache(client: SupabaseClient): RoutingCache {
+  const table = () => client.from("routing_cache");
+
+  return withStats({
+    name: "supabase",
+    async read(key) {
+      const { data, error } = await table()
+        .select("key, kind, name, lat, lon, value, expires_at")
+        .eq("key", key)
+        .maybeSingle();
+      if (error) throw error;
+      const r = data as CacheRow | null;
+      return r ? { ...r, expiresAt: Date.parse(r.expires_at) } : null;
+    },
+    async write(e) {
+      const row: CacheRow = {
+        key: e.key,
+        kind: e.kind,
+        name: e.name,
+        lat: e.lat,
+        lon: e.lon,
+        value: e.value,
+        expires_at: new Date(e.expiresAt).toISOString(),
+      };
+      const { error } = await table().upsert(row, { onConflict: "key" });
+      if (error) throw error;
+    },
+    async purge(f) {
+      let q = table().select("key, kind, name, lat, lon");
+      if (f.kind) q = q.eq("kind", f.kind);
+      if (f.name) q = q.eq("name", brandKey(f.name));
+      if (f.near) {
+        // Bounding box in SQL, exact radius below
+        const r = f.radiusM ?? 0;
+        const dLat = r / 111_320;
+        const dLon = r / (111_320 * Math.max(0.01, Math.cos((f.near.lat * Math.PI) / 180)));
+        q = q
+          .gte("lat", f.near.lat - dLat)
+          .lte("lat", f.near.lat + dLat)
+          .gte("lon", f.near.lon - dLon)
+          .lte("lon", f.near.lon + dLon);
+      }
+
+      const { data, error } = await q;
+      if (error) throw error;
+      const keys = ((data ?? []) as Omit<CacheRow, "value" | "expires_at">[])
+        .filter((r) => matches({ ...r, value: null, expiresAt: 0 }, f))
+        .map((r) => r.key);
+
+      for (let i = 0; i < keys.length; i += PURGE_CHUNK) {
+        const { error: delError } = await table().delete().in("key", keys.slice(i, i + PURGE_CHUNK));
+        if (delError) throw delError;
+      }
+      return keys.length;
+    },
+    async sweep(now) {
+      const { error } = await table().delete().lte("expires_at", new Date(now).toISOString());
+      if (error) throw error;
+    },
+  });
+}
+
+let cached: RoutingCache | null = null;
+
+/** The cache for this process (kept across requests so its counters and memory entries survive). */
+export function getRoutingCache(env: NodeJS.ProcessEnv = process.env): RoutingCache {
+  if (cached) return cached;
+
+  const raw = (env.ROUTING_CACHE || "").trim().toLowerCase();
+  const service = getSupabaseServiceClient(env);
+
+  if (raw === "supabase" || (!raw && service)) {
+    if (!service) throw new RoutingConfigError("ROUTING_CACHE=supabase needs SUPABASE_SERVICE_ROLE_KEY in env");
+    cached = createSupabaseCache(service);
+  } else if (raw === "file") {
+    cached = createFileCache(path.resolve(env.ROUTING_CACHE_DIR || ".cache/routing"));
+  } else if (raw === "memory" || !raw) {
+    cached = createMemoryCache();
+  } else {
+    throw new RoutingConfigError(`Unknown ROUTING_CACHE "${raw}" (use supabase, file or memory)`);
+  }
+  return cached;
+}
+
+// JSON has no NaN, so "no route" comes back as null.
+function toMatrixRow(v: MatrixRow): MatrixRow {
+  const num = (x: unknown) => (typeof x === "number" ? x : NaN);
+  return { distances: v.distances.map(num), durations: v.durations.map(num) };
+}
+
+/** Serves lookups from the cache and fills it on a miss. Keys include the provider name. */
+export function withCache(provider: RoutingProvider, cache: RoutingCache): RoutingProvider {
+  const p = provider.name;
+
+  async function through<T>(kind: CacheKind, key: string, meta: CacheMeta, load: () => Promise<T>): Promise<T> {
+    const hit = await cache.get<T>(kind, key);
+    if (hit !== undefined) return hit;
+    const value = await load();
+    await cache.set(kind, key, value, meta);
+    return value;
+  }
+
+  const openingHours = provider.openingHours;
+
+  return {
+    name: p,
+
+    geocode: (query, near) =>
+      through("geocode", `geocode:${p}:${cacheKey(query.trim().toLowerCase(), near)}`, { name: query, near }, () =>
+        provider.geocode(query, near)
+      ),
+
+    brandStores: (brand, near) =>
+      through("places", `stores:${p}:${cacheKey(brand.name, near)}`, { name: brand.name, near }, () =>
+        provider.brandStores(brand, near)
+      ),
+
+    matrix: async (from, to, mode) =>
+      toMatrixRow(
+        await through("matrix", `matrix:${p}:${mode}:${pointKey(from)}>${to.map(pointKey).join(";")}`, { near: from }, () =>
+          provider.matrix(from, to, mode)
+        )
+      ),
+
+    // Solutions depend on every stop, window and budget, so they aren't worth caching.
+    optimize: (jobs, vehicle) => provider.optimize(jobs, vehicle),
+
+    openingHours: openingHours
+      ? (name, geo, placeId) =>
+          through("hours", `hours:${p}:${placeId ?? cacheKey(name, geo)}`, { name, near: geo }, () =>
+            openingHours.call(provider, name, geo, placeId)
+          )
+      : undefined,
+  };
+}
@@ -0,0 +1,139 @@
+// app/lib/routing/fixture.ts
+// In-memory provider for development and integration tests: no network, no keys, deterministic.
+// Known places come from the fixture; anything else gets a stable made-up point near the query
+// origin, so every plan can be optimized offline.
+import { brandKeys, textHasBrand } from "@/app/lib/deals";
+import type { TravelMode } from "@/app/lib/travelMode";
+import { byDistance, closestTo, haversineMeters } from "./http";
+import { pointsFor, solveGreedy } from "./solver";
+import { MAX_BRAND_STORES, type Geo, type MatrixRow, type PlaceHit, type RoutingProvider, type StoreHours } from "./types";
+
+export type FixturePlace = {
+  name: string;
+  lat: number;
+  lon: number;
+  placeId?: string;
+  address?: string;
+  hours?: StoreHours | null;
+};
+
+export type RoutingFixture = {
+  places: FixturePlace[];
+  /** Exact free-text lookups (lowercased query -> point), e.g. ZIP codes. */
+  geocodes?: Record<string, Geo>;
+};
+
+// Straight-line distance times a detour factor, at a flat speed per mode (m/s).
+const DETOUR = 1.3;
+const SPEED_MPS: Record<TravelMode, number> = {
+  driving: 11, // ~25 mph city driving
+  walking: 1.4,
+  cycling: 4.5,
+  transit: 1.4, // ordered on foot, like ORS
+};
+
+const OPEN_11_TO_9: StoreHours = {
+  utcOffsetMin: -420,
+  periods: [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+    open: { day, time: "1100" },
+    close: { day, time: "2100" },
+  })),
+};
+
+/** A few Las Vegas stores so the default fixture has something real-looking to route between. */
+export const DEFAULT_FIXTURE: RoutingFixture = {
+  places: [
+    { name: "Starbucks", lat: 36.1147, lon: -115.1728, placeId: "fixture-starbucks-strip", address: "3645 Las Vegas Blvd S" },
+    { name: "Starbucks", lat: 36.1594, lon: -115.2437, placeId: "fixture-starbucks-west", address: "7881 W Charleston Blvd" },
+    { name: "Starbucks", lat: 36.0840, lon: -115.1537, placeId: "fixture-starbucks-airport", address: "Terminal 1, Harry Reid Airport" },
+    { name: "Chipotle", lat: 36.1256, lon: -115.2069, placeId: "fixture-chipotle" },
+    { name: "Nothing Bundt Cakes", lat: 36.0725, lon: -115.2443, placeId: "fixture-bundt" },
+    { name: "Krispy Kreme", lat: 36.1019, lon: -115.1737, placeId: "fixture-krispykreme" },
+    { name: "IHOP", lat: 36.1425, lon: -115.1565, placeId: "fixture-ihop" },
+    { name: "Cold Stone Creamery", lat: 36.1087, lon: -115.1715, placeId: "fixture-coldstone", hours: OPEN_11_TO_9 },
+  ],
+  geocodes: {
+    "89109 united states": { lat: 36.1262, lon: -115.1657 },
+  },
+};
+
+function hash(s: string) {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  return h >>> 0;
+}
+
+/** Stable point 0.5–5 km from `near`, derived from the text. */
+function syntheticPoint(text: string, near: Geo): Geo {
+  const h = hash(text.toLowerCase());
+  const angle = ((h % 3600) / 3600) * 2 * Math.PI;
+  const meters = 500 + ((h >>> 12) % 4500);
+  const dLat = (meters * Math.cos(angle)) / 111_320;
+  const dLon = (meters * Math.sin(angle)) / (111_320 * Math.cos((near.lat * Math.PI) / 180));
+  return { lat: near.lat + dLat, lon: near.lon + dLon };
+}
+
+export function createFixtureProvider(fixture: RoutingFixture = DEFAULT_FIXTURE): RoutingProvider {
+  const placeGeo = (p: FixturePlace): Geo => ({ lat: p.lat, lon: p.lon });
+  const placeLabel = (p: FixturePlace) => (p.address ? `${p.name}, ${p.address}` : p.name);
+
+  function leg(a: Geo, b: Geo, mode: TravelMode) {
+    const distance = haversineMeters(a, b) * DETOUR;
+    return { distance, duration: distance / SPEED_MPS[mode] };
+  }
+
+  function row(from: Geo, to: Geo[], mode: TravelMode): MatrixRow {
+    const legs = to.map((g) => leg(from, g, mode));
+    return { distances: legs.map((l) => l.distance), durations: legs.map((l) => l.duration) };
+  }
+
+  return {
+    name: "fixture",
+
+    async geocode(query, near): Promise<PlaceHit> {
+      const exact = fixture.geocodes?.[query.trim().toLowerCase()];
+      if (exact) return { geo: exact, source: "fixture" };
+
+      const q = query.toLowerCase();
+      const named = fixture.places.filter((p) => q.includes(p.name.toLowerCase()));
+      const hit = closestTo(near, named, placeGeo);
+      if (hit) return { geo: placeGeo(hit), placeId: hit.placeId, label: placeLabel(hit), source: "fixture" };
+
+      return { geo: syntheticPoint(query, near), source: "fixture_synthetic" };
+    },
+
+    async brandStores(brand, near): Promise<PlaceHit[]> {
+      const keys = brandKeys(brand);
+      const stores = byDistance(
+        near,
+        fixture.places.filter((p) => textHasBrand(p.name, keys)),
+        placeGeo
+      ).slice(0, MAX_BRAND_STORES);
+      if (!stores.length) return [{ geo: syntheticPoint(brand.name, near), source: `fixture_synthetic:${brand.name}` }];
+      return stores.map((p) => ({
+        geo: placeGeo(p),
+        placeId: p.placeId,
+        label: placeLabel(p),
+        source: `fixture:${brand.name}`,
+      }));
+    },
+
+    async matrix(from, to, mode) {
+      return row(from, to, mode);
+    },
+
+    async optimize(jobs, vehicle) {
+      const points = pointsFor(jobs, vehicle);
+      const rows = points.map((p) => row(p, points, vehicle.mode));
+      const solution = solveGreedy(jobs, vehicle, {
+        durations: rows.map((r) => r.durations),
+        distances: rows.map((r) => r.distances),
+      });
+      return { ok: true, solution };
+    },
+
+    async openingHours(_name, _geo, placeId) {
+      return fixture.places.find((p) => p.placeId && p.placeId === placeId)?.hours ?? null;
+    },
+  };
+}
@@ -0,0 +1,181 @@
+// app/lib/routing/google.ts
+// Google Places (nearest chain store, opening hours, text lookup) and the Distance Matrix API.
+// Google has no optimization endpoint we can use, so routes are solved locally over its matrix.
+// Results are cached by withCache() (see ./cache), not here.
+import { brandKeys, textHasBrand } from "@/app/lib/deals";
+import { googleTravelMode, type TravelMode } from "@/app/lib/travelMode";
+import { byDistance, fetchWithTimeout } from "./http";
+import { pointsFor, solveGreedy } from "./solver";
+import type { Geo, MatrixRow, OpeningPeriod, PlaceHit, RoutingProvider, StoreHours } from "./types";
+import { MAX_BRAND_STORES, RoutingConfigError } from "./types";
+
+type PlaceResult = {
+  name?: string;
+  place_id?: string;
+  vicinity?: string;
+  geometry?: { location?: { lat?: number; lng?: number } };
+};
+type MatrixElement = { status?: string; distance?: { value?: number }; duration?: { value?: number } };
+
+// Distance Matrix takes at most 25 destinations per request.
+const MATRIX_CHUNK = 25;
+
+function geoOf(r: PlaceResult): Geo | null {
+  const lat = r?.geometry?.location?.lat;
+  const lon = r?.geometry?.location?.lng;
+  return typeof lat === "number" && typeof lon === "number" ? { lat, lon } : null;
+}
+
+export function createGoogleProvider(apiKey: string | undefined): RoutingProvider {
+  function key() {
+    if (!apiKey) throw new RoutingConfigError("Missing GOOGLE_PLACES_API_KEY in env");
+    return apiKey;
+  }
+
+  async function nearby(near: Geo, name: string, radius?: number): Promise<{ results: PlaceResult[]; status: string }> {
+    const u = new URL("https://maps.googleapis.com/maps/api/place/nearbysearch/json");
+    u.searchParams.set("key", key());
+    u.searchParams.set("location", `${near.lat},${near.lon}`);
+    if (radius) u.searchParams.set("radius", String(radius));
+    else u.searchParams.set("rankby", "distance");
+    u.searchParams.set("name", name); // ✅ stricter than keyword
+
+    const res = await fetchWithTimeout(u.toString(), { cache: "no-store" }, 8000);
+    if (!res.ok) throw new Error(`Places NearbySearch${radius ? " (radius)" : ""} failed (${res.status})`);
+    const data = await res.json();
+    return {
+      results: Array.isArray(data?.results) ? data.results : [],
+      status: data?.status ? String(data.status) : "unknown",
+    };
+  }
+
+  async function findPlace(input: string, bias: string, fields: string): Promise<PlaceResult | null> {
+    const u = new URL("https://maps.googleapis.com/maps/api/place/findplacefromtext/json");
+    u.searchParams.set("key", key());
+    u.searchParams.set("input", input);
+    u.searchParams.set("inputtype", "textquery");
+    u.searchParams.set("fields", fields);
+    u.searchParams.set("locationbias", bias);
+
+    const res = await fetchWithTimeout(u.toString(), { cache: "no-store" }, 8000);
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data?.candidates?.[0] ?? null;
+  }
+
+  async function placeHours(placeId: string): Promise<StoreHours | null> {
+    const u = new URL("https://maps.googleapis.com/maps/api/place/details/json");
+    u.searchParams.set("key", key());
+    u.searchParams.set("place_id", placeId);
+    u.searchParams.set("fields", "opening_hours,utc_offset");
+
+    const res = await fetchWithTimeout(u.toString(), { cache: "no-store" }, 8000);
+    if (!res.ok) return null;
+    const data = await res.json();
+
+    const periods = data?.result?.opening_hours?.periods;
+    const offset = data?.result?.utc_offset_minutes ?? data?.result?.utc_offset;
+
+    return Array.isArray(periods) && periods.length && typeof offset === "number"
+      ? { periods: periods.filter((p: OpeningPeriod) => typeof p?.open?.day === "number"), utcOffsetMin: offset }
+      : null;
+  }
+
+  async function matrixRow(from: Geo, to: Geo[], mode: TravelMode): Promise<MatrixRow> {
+    const out: MatrixRow = { distances: [], durations: [] };
+
+    for (let i = 0; i < to.length; i += MATRIX_CHUNK) {
+      const chunk = to.slice(i, i + MATRIX_CHUNK);
+      const u = new URL("https://maps.googleapis.com/maps/api/distancematrix/json");
+      u.searchParams.set("key", key());
+      u.searchParams.set("origins", `${from.lat},${from.lon}`);
+      u.searchParams.set("destinations", chunk.map((g) => `${g.lat},${g.lon}`).join("|"));
+      u.searchParams.set("mode", googleTravelMode(mode));
+      u.searchParams.set("units", "metric");
+
+      const res = await fetchWithTimeout(u.toString(), { cache: "no-store" }, 9000);
+      if (!res.ok) throw new Error(`Google Distance Matrix failed (${res.status})`);
+      const data = await res.json();
+
+      const elements: MatrixElement[] = data?.rows?.[0]?.elements;
+      if (!Array.isArray(elements) || elements.length !== chunk.length) {
+        throw new Error(`Google Distance Matrix returned unexpected format (status=${data?.status ?? "unknown"})`);
+      }
+
+      for (const el of elements) {
+        const ok = el?.status === "OK";
+        out.distances.push(ok && typeof el.distance?.value === "number" ? el.distance.value : NaN);
+        out.durations.push(ok && typeof el.duration?.value === "number" ? el.duration.value : NaN);
+      }
+    }
+
+    return out;
+  }
+
+  return {
+    name: "google",
+
+    async geocode(query, near): Promise<PlaceHit> {
+      const r = await findPlace(query, `circle:50000@${near.lat},${near.lon}`, "place_id,geometry");
+      const geo = r ? geoOf(r) : null;
+      if (!geo) throw new Error(`No geocode result for: ${query}`);
+      return { geo, placeId: r?.place_id, source: "google_places" };
+    },
+
+    // STRICT matches by brand name, closest first
+    async brandStores(brand, near): Promise<PlaceHit[]> {
+      const name = brand.name;
+      const keys = brandKeys(brand);
+      // strict: the brand name or an alias must appear in the returned place name
+      const isGoodMatch = (r: PlaceResult) => textHasBrand(String(r?.name || ""), keys);
+      const toHits = (rs: PlaceResult[]): PlaceHit[] => {
+        const withGeo = rs.filter(isGoodMatch).flatMap((r) => {
+          const geo = geoOf(r);
+          return geo ? [{ r, geo }] : [];
+        });
+        return byDistance(near, withGeo, (x) => x.geo)
+          .slice(0, MAX_BRAND_STORES)
+          .map(({ r, geo }) => ({
+            geo,
+            placeId: r.place_id,
+            label: r.vicinity ? `${r.name}, ${r.vicinity}` : r.name,
+            source: `google_places:${name}`,
+          }));
+      };
+
+      // 1) rankby=distance (fast), but filter strictly
+      const first = toHits((await nearby(near, name)).results);
+      if (first.length) return first;
+
+      // 2) fallback: radius search (more results), sorted by haversine
+      const wide = await nearby(near, name, 50000); // 50km
+      const second = toHits(wide.results);
+      if (second.length === 0) {
+        throw new Error(`Places returned no strict match for "${name}" (status=${wide.status})`);
+      }
+      return second;
+    },
+
+    matrix: matrixRow,
+
+    async optimize(jobs, vehicle) {
+      const points = pointsFor(jobs, vehicle);
+      try {
+        const rows = await Promise.all(points.map((p) => matrixRow(p, points, vehicle.mode)));
+        const solution = solveGreedy(jobs, vehicle, {
+          durations: rows.map((r) => r.durations),
+          distances: rows.map((r) => r.distances),
+        });
+        return { ok: true, solution };
+      } catch (e: unknown) {
+        return { ok: false, note: e instanceof Error ? e.message : "Google routing failed" };
+      }
+    },
+
+    // Non-chain stops may come from another geocoder, so look the place up by name right at the point.
+    async openingHours(name, geo, placeId) {
+      const id = placeId ?? (await findPlace(name, `circle:300@${geo.lat},${geo.lon}`, "place_id"))?.place_id;
+      return id ? placeHours(id) : null;
+    },
+  };
+}
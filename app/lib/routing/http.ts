@@ -0,0 +1,130 @@
+// app/lib/routing/http.ts
+import type { Geo } from "./types";
+
+export async function fetchWithTimeout(url: string, init: RequestInit, ms: number): Promise<Response> {
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), ms);
+  try {
+    return await fetch(url, { ...init, signal: ctrl.signal });
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+export function haversineMeters(a: Geo, b: Geo) {
+  const R = 6371000;
+  const toRad = (x: number) => (x * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const lat1 = toRad(a.lat);
+  const lat2 = toRad(b.lat);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Google/ORS encoded polyline (precision 5) -> [lat, lon] pairs. Null when missing or malformed. */
+export function decodePolyline(encoded: unknown): [number, number][] | null {
+  if (typeof encoded !== "string" || !encoded) return null;
+
+  const out: [number, number][] = [];
+  let i = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const next = () => {
+    let result = 0;
+    let shift = 0;
+    let b: number;
+    do {
+      if (i >= encoded.length) throw new Error("truncated polyline");
+      b = encoded.charCodeAt(i++) - 63;
+      result |= (b & 0x1f) << shift;
+      shift += 5;
+    } while (b >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  try {
+    while (i < encoded.length) {
+      lat += next();
+      lon += next();
+      out.push([lat / 1e5, lon / 1e5]);
+    }
+  } catch {
+    return null;
+  }
+  return out.length >= 2 ? out : null;
+}
+
+/** [lat, lon] pairs -> encoded polyline (precision 5), the inverse of decodePolyline. */
+export function encodePolyline(points: [number, number][]): string {
+  let out = "";
+  let prevLat = 0;
+  let prevLon = 0;
+
+  const put = (v: number) => {
+    let n = v < 0 ? ~(v << 1) : v << 1;
+    while (n >= 0x20) {
+      out += String.fromCharCode((0x20 | (n & 0x1f)) + 63);
+      n >>= 5;
+    }
+    out += String.fromCharCode(n + 63);
+  };
+
+  for (const [lat, lon] of points) {
+    const la = Math.round(lat * 1e5);
+    const lo = Math.round(lon * 1e5);
+    put(la - prevLat);
+    put(lo - prevLon);
+    prevLat = la;
+    prevLon = lo;
+  }
+  return out;
+}
+
+// Road snapping moves a stop a few meters off its geocode
+const SPLIT_SLACK_M = 25;
+
+/**
+ * Cuts a path ([lat, lon]) where it passes each waypoint, in order, giving waypoints.length - 1 pieces.
+ * Each cut takes the first vertex (after the previous cut) about as close as the nearest one, so a road
+ * driven twice, e.g. on the way back to the start, still splits at the first pass.
+ */
+export function splitPath(path: [number, number][], waypoints: Geo[]): [number, number][][] {
+  const cuts: number[] = [];
+  let from = 0;
+  for (const w of waypoints) {
+    const dists = path.slice(from).map(([lat, lon]) => haversineMeters(w, { lat, lon }));
+    const nearest = Math.min(...dists);
+    const at = from + Math.max(0, dists.findIndex((d) => d <= nearest + SPLIT_SLACK_M));
+    cuts.push(at);
+    from = at;
+  }
+
+  const out: [number, number][][] = [];
+  for (let i = 1; i < cuts.length; i++) out.push(path.slice(cuts[i - 1], cuts[i] + 1));
+  return out;
+}
+
+/** Closest first. */
+export function byDistance<T>(near: Geo, items: T[], geoOf: (x: T) => Geo): T[] {
+  return items
+    .map((it) => ({ it, d: haversineMeters(near, geoOf(it)) }))
+    .sort((a, b) => a.d - b.d)
+    .map((x) => x.it);
+}
+
+export function closestTo<T>(near: Geo, items: T[], geoOf: (x: T) => Geo): T | null {
+  let best: T | null = null;
+  let bestDist = Infinity;
+  for (const it of items) {
+    const d = haversineMeters(near, geoOf(it));
+    if (d < bestDist) {
+      bestDist = d;
+      best = it;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,68 @@
+// app/lib/routing/index.ts
+// Geocoding / routing provider used by /api/optimize-route, picked by ROUTING_PROVIDER:
+//   ors+google  Google Places for chains and opening hours, ORS for the rest (needs both keys)
+//   ors         openrouteservice only (ORS_API_KEY); no opening hours
+//   google      Google only (GOOGLE_PLACES_API_KEY); routes solved locally over the Distance Matrix
+//   fixture     in-memory, no network or keys (development and tests); only when asked for by name
+// Unset: ors+google when both keys exist, else whichever key exists, else a config error (so fake
+// routes are never served by accident).
+// Network providers are wrapped in the shared lookup cache (./cache, ROUTING_CACHE).
+import { getRoutingCache, withCache } from "./cache";
+import { createFixtureProvider } from "./fixture";
+import { createGoogleProvider } from "./google";
+import { createOrsProvider } from "./ors";
+import { RoutingConfigError, type RoutingProvider } from "./types";
+
+export * from "./types";
+export { decodePolyline, encodePolyline, haversineMeters, splitPath } from "./http";
+export { CACHE_KINDS, getRoutingCache, type CacheKind, type CachePurge, type CacheStats } from "./cache";
+
+export type RoutingProviderName = "ors+google" | "ors" | "google" | "fixture";
+
+/** Places (chains, hours) from one provider, geocoding and routing from another. */
+function combine(name: string, places: RoutingProvider, routing: RoutingProvider): RoutingProvider {
+  return {
+    name,
+    geocode: (q, near) => routing.geocode(q, near),
+    brandStores: (b, near) => places.brandStores(b, near),
+    matrix: (from, to, mode) => routing.matrix(from, to, mode),
+    optimize: (jobs, vehicle) => routing.optimize(jobs, vehicle),
+    openingHours: places.openingHours?.bind(places),
+  };
+}
+
+function configuredName(env: NodeJS.ProcessEnv): RoutingProviderName {
+  const raw = (env.ROUTING_PROVIDER || "").trim().toLowerCase();
+  if (raw === "ors+google" || raw === "ors" || raw === "google" || raw === "fixture") return raw;
+  if (raw) throw new RoutingConfigError(`Unknown ROUTING_PROVIDER "${raw}" (use ors+google, ors, google or fixture)`);
+
+  const ors = !!env.ORS_API_KEY;
+  const google = !!env.GOOGLE_PLACES_API_KEY;
+  if (ors && google) return "ors+google";
+  if (ors) return "ors";
+  if (google) return "google";
+  throw new RoutingConfigError(
+    "No routing provider configured: set ORS_API_KEY and/or GOOGLE_PLACES_API_KEY, or ROUTING_PROVIDER=fixture for local development"
+  );
+}
+
+let cached: { name: RoutingProviderName; provider: RoutingProvider } | null = null;
+
+/** The provider for this process (kept across requests so its in-memory caches stay warm). */
+export function getRoutingProvider(env: NodeJS.ProcessEnv = process.env): RoutingProvider {
+  const name = configuredName(env);
+  if (cached?.name === name) return cached.provider;
+
+  let provider: RoutingProvider;
+  if (name === "fixture") {
+    provider = createFixtureProvider();
+  } else {
+    const cache = getRoutingCache(env);
+    const ors = () => withCache(createOrsProvider(env.ORS_API_KEY), cache);
+    const google = () => withCache(createGoogleProvider(env.GOOGLE_PLACES_API_KEY), cache);
+    provider = name === "ors" ? ors() : name === "google" ? google() : combine(name, google(), ors());
+  }
+
+  cached = { name, provider };
+  return provider;
+}
@@ -0,0 +1,149 @@
+// app/lib/routing/ors.ts
+// openrouteservice: Pelias geocoding, matrix and VROOM optimization.
+import { brandKeys, textHasBrand } from "@/app/lib/deals";
+import { orsProfile, type TravelMode } from "@/app/lib/travelMode";
+import { byDistance, fetchWithTimeout } from "./http";
+import type { Geo, MatrixRow, PlaceHit, RouteJob, RouteSolution, RouteVehicle, RoutingProvider } from "./types";
+import { MAX_BRAND_STORES, RoutingConfigError } from "./types";
+
+type OrsFeature = {
+  geometry?: { coordinates?: number[] };
+  properties?: { name?: string; label?: string; addendum?: { osm?: Record<string, unknown> } };
+};
+
+const GEOCODE_PASSES = [
+  { radius: 8000, size: 35 },
+  { radius: 20000, size: 35 },
+  { radius: 50000, size: 35 },
+];
+
+export function createOrsProvider(apiKey: string | undefined): RoutingProvider {
+  function key() {
+    if (!apiKey) throw new RoutingConfigError("Missing ORS_API_KEY in env");
+    return apiKey;
+  }
+
+  async function geocodeSearch(query: string, near: Geo, radiusMeters: number, size: number, layers: string) {
+    const u = new URL("https://api.openrouteservice.org/geocode/search");
+    u.searchParams.set("api_key", key());
+    u.searchParams.set("text", query);
+    u.searchParams.set("size", String(size));
+    u.searchParams.set("boundary.country", "US");
+    u.searchParams.set("layers", layers);
+
+    u.searchParams.set("focus.point.lat", String(near.lat));
+    u.searchParams.set("focus.point.lon", String(near.lon));
+
+    u.searchParams.set("boundary.circle.lat", String(near.lat));
+    u.searchParams.set("boundary.circle.lon", String(near.lon));
+    u.searchParams.set("boundary.circle.radius", String(radiusMeters));
+
+    const res = await fetchWithTimeout(u.toString(), { cache: "no-store" }, 9000);
+    if (!res.ok) throw new Error(`Geocode failed (${res.status})`);
+    const data = await res.json();
+    const feats = data?.features;
+    return (Array.isArray(feats) ? feats : []) as OrsFeature[];
+  }
+
+  /** Widening radius passes; everything found, closest first. */
+  async function featuresNear(query: string, near: Geo, layers: string, accept: (f: OrsFeature) => boolean) {
+    const all: { f: OrsFeature; geo: Geo }[] = [];
+    const seen = new Set<string>();
+
+    for (const p of GEOCODE_PASSES) {
+      const feats = await geocodeSearch(query, near, p.radius, p.size, layers);
+      for (const f of feats) {
+        const coords = f?.geometry?.coordinates;
+        if (!coords || coords.length < 2 || !accept(f)) continue;
+        const k = `${coords[0].toFixed(5)},${coords[1].toFixed(5)}`;
+        if (seen.has(k)) continue;
+        seen.add(k);
+        all.push({ f, geo: { lon: coords[0], lat: coords[1] } });
+      }
+      if (all.length >= 15) break;
+    }
+
+    return byDistance(near, all, (x) => x.geo);
+  }
+
+  return {
+    name: "ors",
+
+    async geocode(query, near): Promise<PlaceHit> {
+      const [hit] = await featuresNear(query, near, "venue,address", () => true);
+      if (!hit) throw new Error(`No geocode result for: ${query}`);
+      return { geo: hit.geo, label: hit.f.properties?.label, source: "ors" };
+    },
+
+    async brandStores(brand, near): Promise<PlaceHit[]> {
+      const keys = brandKeys(brand);
+      // OSM venues may carry the brand's Wikidata id even when the name is shortened or local.
+      const hits = await featuresNear(brand.name, near, "venue", (f) => {
+        const osm = f?.properties?.addendum?.osm;
+        if (brand.wikidata && osm && osm["brand:wikidata"] === brand.wikidata) return true;
+        return textHasBrand(String(f?.properties?.name || ""), keys);
+      });
+      if (!hits.length) throw new Error(`ORS returned no venue for "${brand.name}"`);
+      return hits.slice(0, MAX_BRAND_STORES).map((h) => ({
+        geo: h.geo,
+        label: h.f.properties?.label,
+        source: `ors_venue:${brand.name}`,
+      }));
+    },
+
+    async matrix(from: Geo, to: Geo[], mode: TravelMode): Promise<MatrixRow> {
+      const body = {
+        locations: [[from.lon, from.lat], ...to.map((s) => [s.lon, s.lat])],
+        sources: [0],
+        destinations: to.map((_, i) => i + 1),
+        metrics: ["distance", "duration"],
+        units: "m",
+      };
+
+      const res = await fetchWithTimeout(
+        `https://api.openrouteservice.org/v2/matrix/${orsProfile(mode)}`,
+        {
+          method: "POST",
+          headers: { Authorization: key(), "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+        9000
+      );
+
+      if (!res.ok) {
+        const txt = await res.text();
+        throw new Error(`ORS matrix failed (${res.status}): ${txt}`);
+      }
+
+      const data = await res.json();
+      const distances = data?.distances?.[0];
+      const durations = data?.durations?.[0];
+
+      if (!Array.isArray(distances) || !Array.isArray(durations)) {
+        throw new Error("ORS matrix returned unexpected format");
+      }
+
+      const num = (x: unknown) => (typeof x === "number" ? x : NaN);
+      return { distances: distances.map(num), durations: durations.map(num) };
+    },
+
+    async optimize(jobs: RouteJob[], vehicle: RouteVehicle) {
+      const { mode, ...rest } = vehicle;
+      const res = await fetchWithTimeout(
+        "https://api.openrouteservice.org/optimization",
+        {
+          method: "POST",
+          headers: { Authorization: key(), "Content-Type": "application/json" },
+          body: JSON.stringify({ jobs, vehicles: [{ ...rest, profile: orsProfile(mode) }], options: { g: true } }),
+        },
+        20000
+      );
+
+      if (!res.ok) {
+        const txt = await res.text();
+        return { ok: false, note: `ORS optimization failed (${res.status}): ${txt}` };
+      }
+      return { ok: true, solution: (await res.json()) as RouteSolution };
+    },
+  };
+}
@@ -0,0 +1,79 @@
+// app/lib/routing/solver.ts
+// Small in-process stand-in for VROOM, for providers without an optimization API.
+// Greedy: from where we are, go to the stop we can start serving soonest (waiting for it to open
+// if needed), as long as we can still reach the end inside the vehicle's time window.
+// Plans have a handful of stops, so this is close enough to optimal for development and tests.
+import type { Geo, RouteJob, RouteSolution, RouteStep, RouteVehicle } from "./types";
+
+/**
+ * Full travel matrices over [vehicle start, ...jobs, vehicle end]; seconds and meters.
+ */
+export type FullMatrix = { durations: number[][]; distances: number[][] };
+
+export function pointsFor(jobs: RouteJob[], vehicle: RouteVehicle): Geo[] {
+  const toGeo = ([lon, lat]: [number, number]) => ({ lon, lat });
+  return [toGeo(vehicle.start), ...jobs.map((j) => toGeo(j.location)), toGeo(vehicle.end)];
+}
+
+export function solveGreedy(jobs: RouteJob[], vehicle: RouteVehicle, m: FullMatrix): RouteSolution {
+  const endIdx = jobs.length + 1;
+  const [, shiftEnd] = vehicle.time_window;
+
+  let at = 0;
+  let t = vehicle.time_window[0];
+  let distance = 0;
+  let duration = 0;
+
+  const steps: RouteStep[] = [{ type: "start", location: vehicle.start, arrival: t, duration: 0, distance: 0 }];
+  const left = new Set(jobs.map((_, i) => i));
+
+  while (left.size) {
+    let best: { i: number; arrival: number; begin: number } | null = null;
+
+    for (const i of left) {
+      const job = jobs[i];
+      const travel = m.durations[at][i + 1];
+      if (!Number.isFinite(travel)) continue;
+
+      const arrival = t + travel;
+      const windows = job.time_windows ?? [[0, Infinity]];
+      const win = windows.find(([, e]) => arrival <= e);
+      if (!win) continue;
+
+      const begin = Math.max(arrival, win[0]);
+      const back = m.durations[i + 1][endIdx];
+      if (!Number.isFinite(back) || begin + job.service + back > shiftEnd) continue;
+
+      if (!best || begin < best.begin) best = { i, arrival, begin };
+    }
+
+    if (!best) break;
+
+    const job = jobs[best.i];
+    distance += m.distances[at][best.i + 1] || 0;
+    duration += m.durations[at][best.i + 1];
+    steps.push({
+      type: "job",
+      job: job.id,
+      location: job.location,
+      arrival: best.arrival,
+      waiting_time: best.begin - best.arrival,
+      service: job.service,
+      duration,
+      distance,
+    });
+
+    left.delete(best.i);
+    at = best.i + 1;
+    t = best.begin + job.service;
+  }
+
+  distance += m.distances[at][endIdx] || 0;
+  duration += m.durations[at][endIdx] || 0;
+  steps.push({ type: "end", location: vehicle.end, arrival: t + (m.durations[at][endIdx] || 0), duration, distance });
+
+  return {
+    routes: [{ steps, distance, duration }],
+    unassigned: Array.from(left).map((i) => ({ id: jobs[i].id })),
+  };
+}
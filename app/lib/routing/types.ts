@@ -0,0 +1,80 @@
+// app/lib/routing/types.ts
+import type { DealBrand } from "@/app/lib/deals";
+import type { TravelMode } from "@/app/lib/travelMode";
+
+export type Geo = { lon: number; lat: number };
+
+/** A place a provider picked for a query. `source` ends up in the stop's `pickedFrom`. */
+export type PlaceHit = { geo: Geo; placeId?: string; label?: string; source: string };
+
+// Google "periods": day 0 = Sunday, time "HHMM" in the store's local time. No close = open 24/7.
+export type OpeningPeriod = { open: { day: number; time: string }; close?: { day: number; time: string } };
+export type StoreHours = { periods: OpeningPeriod[]; utcOffsetMin: number };
+
+// [start, end] in seconds after departure
+export type TimeWindow = [number, number];
+
+/** Travel from one origin to each destination, in the same order (NaN = no route). */
+export type MatrixRow = { distances: number[]; durations: number[] };
+
+// Optimization input/output follow the VROOM shape ORS uses, so every provider speaks it.
+// priority (0-100): when not every job fits, VROOM keeps the higher ones; the greedy solver ignores it.
+export type RouteJob = {
+  id: number;
+  location: [number, number];
+  service: number;
+  time_windows?: TimeWindow[];
+  priority?: number;
+};
+export type RouteVehicle = {
+  id: number;
+  mode: TravelMode;
+  start: [number, number];
+  end: [number, number];
+  time_window: TimeWindow;
+};
+
+// duration/distance: travel so far (seconds, meters) when the step is reached, as VROOM reports them
+export type RouteStep = {
+  type?: string;
+  job?: number;
+  location?: [number, number];
+  arrival?: number;
+  waiting_time?: number;
+  service?: number;
+  duration?: number;
+  distance?: number;
+};
+export type RouteSolution = {
+  // geometry: encoded polyline of the roads driven, when the provider has one (ORS)
+  routes?: { steps?: RouteStep[]; distance?: number; duration?: number; geometry?: string }[];
+  unassigned?: { id?: number }[];
+};
+
+/** How many stores of a brand a stop offers to pick from. */
+export const MAX_BRAND_STORES = 5;
+
+export type OptimizeResult = { ok: true; solution: RouteSolution } | { ok: false; note: string };
+
+export interface RoutingProvider {
+  name: string;
+  /** Closest match for free text (address, ZIP, store name) around `near`. */
+  geocode(query: string, near: Geo): Promise<PlaceHit>;
+  /**
+   * Stores of a brand (its name or an alias appears in the listing name), closest first, at most
+   * MAX_BRAND_STORES. Throws when there are none.
+   */
+  brandStores(brand: DealBrand, near: Geo): Promise<PlaceHit[]>;
+  matrix(from: Geo, to: Geo[], mode: TravelMode): Promise<MatrixRow>;
+  optimize(jobs: RouteJob[], vehicle: RouteVehicle): Promise<OptimizeResult>;
+  /** Opening hours, when the provider knows them; null = unknown (treated as always open). */
+  openingHours?(name: string, geo: Geo, placeId?: string): Promise<StoreHours | null>;
+}
+
+/** Thrown when the configured provider can't run (missing key, unknown name). */
+export class RoutingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoutingConfigError";
+  }
+}
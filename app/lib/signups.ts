@@ -0,0 +1,96 @@
+// app/lib/signups.ts
+import type { Deal } from "@/app/lib/deals";
+import { birthdayInYear } from "@/app/lib/birthdayWindow";
+import { supabase } from "@/app/lib/supabaseClient";
+
+export type SignupStatus = "not_joined" | "joined" | "birthday_saved";
+
+export const SIGNUP_STATUSES: { id: SignupStatus; label: string }[] = [
+  { id: "not_joined", label: "Not joined" },
+  { id: "joined", label: "Joined" },
+  { id: "birthday_saved", label: "Birthday saved" },
+];
+
+export const SIGNUPS_UPDATED_EVENT = "bs_signups_updated";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isSignupStatus(v: unknown): v is SignupStatus {
+  return v === "not_joined" || v === "joined" || v === "birthday_saved";
+}
+
+/** deal id -> status for the signed-in user (missing = not joined). */
+export async function fetchSignupStatuses(): Promise<Record<string, SignupStatus>> {
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes.user;
+  if (!user) return {};
+
+  const { data, error } = await supabase.from("deal_signups").select("deal_id,status").eq("user_id", user.id);
+  if (error || !Array.isArray(data)) return {};
+
+  const out: Record<string, SignupStatus> = {};
+  for (const r of data) {
+    if (typeof r?.deal_id === "string" && isSignupStatus(r?.status)) out[r.deal_id] = r.status;
+  }
+  return out;
+}
+
+export async function saveSignupStatus(dealId: string, status: SignupStatus) {
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes.user;
+  if (!user) throw new Error("Not logged in.");
+
+  const { error } = await supabase.from("deal_signups").upsert(
+    {
+      user_id: user.id,
+      deal_id: dealId,
+      status,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id,deal_id" }
+  );
+  if (error) throw error;
+
+  try {
+    window.dispatchEvent(new Event(SIGNUPS_UPDATED_EVENT));
+  } catch {}
+}
+
+export type SignupDeadline = {
+  date: Date; // last day to join (local midnight)
+  daysLeft: number; // negative once it's too late for this birthday
+  birthday: Date; // the birthday the deadline is for
+};
+
+/**
+ * Deadline to join a deal's rewards program for the next birthday (today counts as "next").
+ * Null when the deal has no lead time or the birthday isn't set.
+ */
+export function signupDeadline(
+  deal: Pick<Deal, "signupLeadDays">,
+  birthdayISO: string,
+  today: Date = new Date()
+): SignupDeadline | null {
+  if (typeof deal.signupLeadDays !== "number") return null;
+
+  const t = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  let bday = birthdayInYear(birthdayISO, t.getFullYear());
+  if (!bday) return null;
+  if (bday < t) bday = birthdayInYear(birthdayISO, t.getFullYear() + 1)!;
+
+  const date = new Date(bday.getFullYear(), bday.getMonth(), bday.getDate() - deal.signupLeadDays);
+  const daysLeft = Math.round((date.getTime() - t.getTime()) / DAY_MS);
+  return { date, daysLeft, birthday: bday };
+}
+
+export function formatShortDate(d: Date) {
+  return d.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/** e.g. "Sign up by Oct 12 · 5 days left", "Sign-up deadline passed (Oct 12)" */
+export function signupDeadlineText(dl: SignupDeadline): string {
+  if (dl.daysLeft < 0) return `Sign-up deadline passed (${formatShortDate(dl.date)})`;
+  if (dl.daysLeft === 0) return "Sign up today to get it this birthday";
+  const left = dl.daysLeft === 1 ? "1 day left" : `${dl.daysLeft} days left`;
+  return `Sign up by ${formatShortDate(dl.date)} · ${left}`;
+}
@@ -0,0 +1,17 @@
+// app/lib/supabaseAdmin.ts
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let client: SupabaseClient | null = null;
+
+/**
+ * Service-role client for server-only tables (bypasses RLS, no user session).
+ * Null when SUPABASE_SERVICE_ROLE_KEY isn't set. Never import this from client components.
+ */
+export function getSupabaseServiceClient(env: NodeJS.ProcessEnv = process.env): SupabaseClient | null {
+  const url = env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) return null;
+
+  client ??= createClient(url, key, { auth: { persistSession: false, autoRefreshToken: false } });
+  return client;
+}
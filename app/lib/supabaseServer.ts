@@ -0,0 +1,26 @@
+// app/lib/supabaseServer.ts
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+
+/** Per-request Supabase client for server components and route handlers (uses the auth cookies). */
+export async function createSupabaseServerClient() {
+  const cookieStore = await cookies();
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          // Server components can't write cookies; middleware refreshes the session for us.
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+          } catch {}
+        },
+      },
+    }
+  );
+}
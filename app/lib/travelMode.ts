@@ -0,0 +1,85 @@
+// app/lib/travelMode.ts
+// How the user gets between stores. Saved on the profile (profiles.travel_mode) and cached
+// in localStorage so the plan page and the Maps handoff can read it without a round trip.
+
+export type TravelMode = "driving" | "walking" | "cycling" | "transit";
+
+export const TRAVEL_MODE_KEY = "bs_travel_mode";
+export const DEFAULT_TRAVEL_MODE: TravelMode = "driving";
+
+export const TRAVEL_MODES: { id: TravelMode; label: string; icon: string }[] = [
+  { id: "driving", label: "Driving", icon: "🚗" },
+  { id: "walking", label: "Walking", icon: "🚶" },
+  { id: "cycling", label: "Cycling", icon: "🚲" },
+  { id: "transit", label: "Transit + walking", icon: "🚌" },
+];
+
+export function normalizeTravelMode(v: unknown): TravelMode {
+  return TRAVEL_MODES.some((m) => m.id === v) ? (v as TravelMode) : DEFAULT_TRAVEL_MODE;
+}
+
+export function travelModeLabel(mode: TravelMode): string {
+  return TRAVEL_MODES.find((m) => m.id === mode)?.label ?? "Driving";
+}
+
+export function readTravelMode(): TravelMode {
+  try {
+    return normalizeTravelMode(localStorage.getItem(TRAVEL_MODE_KEY));
+  } catch {
+    return DEFAULT_TRAVEL_MODE;
+  }
+}
+
+export function writeTravelMode(mode: TravelMode) {
+  try {
+    localStorage.setItem(TRAVEL_MODE_KEY, mode);
+  } catch {}
+}
+
+/**
+ * ORS routing profile. ORS has no public transit, so transit plans are ordered on foot:
+ * walking times are the pessimistic bound and keep the order sensible between stations.
+ */
+export function orsProfile(mode: TravelMode): "driving-car" | "foot-walking" | "cycling-regular" {
+  if (mode === "walking" || mode === "transit") return "foot-walking";
+  if (mode === "cycling") return "cycling-regular";
+  return "driving-car";
+}
+
+/** Google Maps `travelmode` value. */
+export function googleTravelMode(mode: TravelMode): "driving" | "walking" | "bicycling" | "transit" {
+  return mode === "cycling" ? "bicycling" : mode;
+}
+
+/** Apple Maps `dirflg` value; its URL scheme has no cycling flag, so bikes get walking paths. */
+export function appleDirFlag(mode: TravelMode): "d" | "w" | "r" {
+  if (mode === "transit") return "r";
+  if (mode === "walking" || mode === "cycling") return "w";
+  return "d";
+}
+
+/** Google and Apple only take multi-stop directions for driving, walking and cycling. */
+export function supportsWaypoints(mode: TravelMode): boolean {
+  return mode !== "transit";
+}
+
+/**
+ * Google / Apple Maps directions through `route` (place text or "lat,lon"; the last entry is the
+ * destination). Without an origin the maps app starts from the device's location. Transit can't take
+ * waypoints, so it only gets the first leg.
+ */
+export function directionsUrl(origin: string | null, route: string[], mode: TravelMode, ios: boolean): string {
+  const multiStop = supportsWaypoints(mode);
+  const destination = multiStop ? route[route.length - 1] : route[0];
+  const waypoints = multiStop ? route.slice(0, -1) : [];
+
+  return ios
+    ? "https://maps.apple.com/?" +
+        (origin ? `saddr=${encodeURIComponent(origin)}&` : "") +
+        `daddr=${encodeURIComponent([destination, ...waypoints].join(" to: "))}&dirflg=${appleDirFlag(mode)}`
+    : "https://www.google.com/maps/dir/?api=1" +
+        (origin ? `&origin=${encodeURIComponent(origin)}` : "") +
+        `&destination=${encodeURIComponent(destination)}` +
+        (waypoints.length ? `&waypoints=${encodeURIComponent(waypoints.join("|"))}` : "") +
+        `&travelmode=${googleTravelMode(mode)}`;
+}
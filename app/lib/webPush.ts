@@ -0,0 +1,126 @@
+// app/lib/webPush.ts
+// Web Push over plain fetch: payloads encrypted per RFC 8291 (aes128gcm) and the sender identified
+// with VAPID (RFC 8292). Keys come from the environment:
+//   NEXT_PUBLIC_VAPID_PUBLIC_KEY  P-256 public key, uncompressed point, base64url (the browser needs it too)
+//   VAPID_PRIVATE_KEY             the matching private key, base64url
+//   VAPID_SUBJECT                 contact for push services, e.g. "mailto:hello@example.com"
+import crypto from "node:crypto";
+
+export type VapidKeys = { publicKey: string; privateKey: string; subject: string };
+
+/** What the browser hands out on subscribe (PushSubscription.toJSON(), flattened). */
+export type WebPushTarget = { endpoint: string; p256dh: string; auth: string };
+
+export type WebPushResult = {
+  ok: boolean;
+  status: number;
+  gone: boolean; // the subscription expired or was revoked; stop sending to it
+};
+
+/** Thrown when VAPID keys are missing or malformed. */
+export class PushConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PushConfigError";
+  }
+}
+
+const DEV_SUBJECT = "mailto:dev@localhost";
+const RECORD_SIZE = 4096;
+const JWT_TTL_S = 12 * 60 * 60;
+
+function b64url(buf: Buffer | Uint8Array) {
+  return Buffer.from(buf).toString("base64url");
+}
+
+export function vapidKeysFromEnv(env: NodeJS.ProcessEnv = process.env): VapidKeys {
+  const publicKey = (env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || "").trim();
+  const privateKey = (env.VAPID_PRIVATE_KEY || "").trim();
+  if (!publicKey || !privateKey) {
+    throw new PushConfigError("Push is not configured: set NEXT_PUBLIC_VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY");
+  }
+  if (Buffer.from(publicKey, "base64url").length !== 65 || Buffer.from(privateKey, "base64url").length !== 32) {
+    throw new PushConfigError("VAPID keys must be a base64url P-256 key pair (65-byte public, 32-byte private)");
+  }
+
+  const subject = (env.VAPID_SUBJECT || "").trim();
+  if (!subject && env.NODE_ENV === "production") throw new PushConfigError("VAPID_SUBJECT is required");
+  return { publicKey, privateKey, subject: subject || DEV_SUBJECT };
+}
+
+function vapidAuthorization(endpoint: string, keys: VapidKeys) {
+  const pub = Buffer.from(keys.publicKey, "base64url");
+  const key = crypto.createPrivateKey({
+    format: "jwk",
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: keys.privateKey,
+      x: b64url(pub.subarray(1, 33)),
+      y: b64url(pub.subarray(33, 65)),
+    },
+  });
+
+  const header = b64url(Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+  const claims = b64url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + JWT_TTL_S,
+        sub: keys.subject,
+      })
+    )
+  );
+  const signature = crypto.sign("sha256", Buffer.from(`${header}.${claims}`), { key, dsaEncoding: "ieee-p1363" });
+  return `vapid t=${header}.${claims}.${b64url(signature)}, k=${keys.publicKey}`;
+}
+
+/** The request body for one push: a single aes128gcm record (RFC 8188) keyed to the subscription. */
+export function encryptPayload(target: Pick<WebPushTarget, "p256dh" | "auth">, payload: string): Buffer {
+  const uaPublic = Buffer.from(target.p256dh, "base64url");
+  const authSecret = Buffer.from(target.auth, "base64url");
+
+  const ecdh = crypto.createECDH("prime256v1");
+  const asPublic = ecdh.generateKeys();
+  const shared = ecdh.computeSecret(uaPublic);
+  const salt = crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), uaPublic, asPublic]);
+  const ikm = Buffer.from(crypto.hkdfSync("sha256", shared, authSecret, keyInfo, 32));
+  const cek = Buffer.from(crypto.hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(crypto.hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const cipher = crypto.createCipheriv("aes-128-gcm", cek, nonce);
+  // 0x02 marks the last (and only) record; no padding
+  const body = Buffer.concat([cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])), cipher.final()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(asPublic.length, 20);
+  return Buffer.concat([header, asPublic, body, cipher.getAuthTag()]);
+}
+
+/** Delivers one payload to one browser. Network errors throw; push-service refusals come back in the result. */
+export async function sendWebPush(
+  target: WebPushTarget,
+  payload: string,
+  keys: VapidKeys,
+  opts: { ttlSeconds?: number; urgency?: "low" | "normal" | "high"; topic?: string } = {}
+): Promise<WebPushResult> {
+  const headers: Record<string, string> = {
+    Authorization: vapidAuthorization(target.endpoint, keys),
+    "Content-Encoding": "aes128gcm",
+    "Content-Type": "application/octet-stream",
+    TTL: String(opts.ttlSeconds ?? 60 * 60),
+    Urgency: opts.urgency ?? "normal",
+  };
+  if (opts.topic) headers.Topic = opts.topic;
+
+  const res = await fetch(target.endpoint, {
+    method: "POST",
+    headers,
+    body: new Uint8Array(encryptPayload(target, payload)),
+  });
+  return { ok: res.ok, status: res.status, gone: res.status === 404 || res.status === 410 };
+}
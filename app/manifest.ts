@@ -0,0 +1,22 @@
+// app/manifest.ts
+// Web app manifest (served at /manifest.webmanifest): lets people install BirthdayScout to the home
+// screen for the birthday run. public/sw.js keeps the plan usable offline.
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "BirthdayScout",
+    short_name: "BirthdayScout",
+    description: "Plan your birthday freebie run",
+    start_url: "/app/plan",
+    scope: "/",
+    display: "standalone",
+    background_color: "#000000",
+    theme_color: "#000000",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png", purpose: "any" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "any" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { importPlan, syncPlan } from "@/app/lib/planSync";
+import type { RouteShareSnapshot } from "@/app/lib/routeShare";
+import { supabase } from "@/app/lib/supabaseClient";
+import { directionsUrl } from "@/app/lib/travelMode";
+
+function isProbablyIOS() {
+  if (typeof navigator === "undefined") return false;
+  return /iPhone|iPad|iPod/i.test(navigator.userAgent);
+}
+
+export default function SharedRouteActions({ slug, share }: { slug: string; share: RouteShareSnapshot }) {
+  const router = useRouter();
+  const [signedIn, setSignedIn] = useState<boolean | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setSignedIn(!!data.user));
+  }, []);
+
+  function openInMaps() {
+    const origin = share.start ? `${share.start.lat},${share.start.lon}` : null;
+    const stops = share.stops.map((s) =>
+      typeof s.lat === "number" && typeof s.lon === "number" ? `${s.lat},${s.lon}` : s.name
+    );
+    // Without a shared start the maps app starts from here; a round trip then comes back here too
+    const route =
+      share.endMode === "start" && origin
+        ? [...stops, origin]
+        : share.endMode === "address" && share.endAddress
+        ? [...stops, share.endAddress]
+        : stops;
+
+    window.open(directionsUrl(origin, route, share.travelMode, isProbablyIOS()), "_blank", "noopener,noreferrer");
+  }
+
+  async function importIntoPlan() {
+    setImporting(true);
+    // This page lives outside /app, so the plan cache may be stale or another account's
+    await syncPlan().catch(() => {});
+
+    const resolved: Record<string, { lat: number; lon: number }> = {};
+    for (const s of share.stops) {
+      if (typeof s.lat === "number" && typeof s.lon === "number") resolved[s.id] = { lat: s.lat, lon: s.lon };
+    }
+
+    importPlan(
+      share.title,
+      {
+        planIds: share.stops.map((s) => s.id),
+        destinationId: share.destinationId ?? "",
+        // a custom end someone kept private becomes "back at the start"
+        routeEnd:
+          share.endMode === "address" && !share.endAddress
+            ? { mode: "start", address: "" }
+            : { mode: share.endMode, address: share.endAddress ?? "" },
+        routeStats: {
+          optimizedAt: share.optimizedAt ? Date.parse(share.optimizedAt) : null,
+          distance_m: share.distance_m,
+          duration_s: share.duration_s,
+        },
+      },
+      resolved
+    );
+    router.push("/app/plan");
+  }
+
+  return (
+    <div className="fixed bottom-0 left-0 right-0 z-50">
+      <div className="mx-auto max-w-md px-4 pb-4">
+        <div className="rounded-3xl border border-white/10 bg-black/70 backdrop-blur-xl p-3 flex items-center justify-between gap-3">
+          <button
+            onClick={openInMaps}
+            className="rounded-2xl border border-white/15 px-4 py-2 text-sm font-semibold text-white hover:bg-white/10 transition"
+          >
+            Open in Maps
+          </button>
+          {signedIn === false ? (
+            <Link
+              href={`/login?next=${encodeURIComponent(`/r/${slug}`)}`}
+              className="rounded-2xl bg-white text-black px-4 py-2 text-sm font-semibold hover:bg-zinc-200 transition"
+            >
+              Sign in to import
+            </Link>
+          ) : (
+            <button
+              onClick={importIntoPlan}
+              disabled={signedIn === null || importing}
+              className="rounded-2xl bg-white text-black px-4 py-2 text-sm font-semibold hover:bg-zinc-200 transition disabled:opacity-50"
+            >
+              {importing ? "Importing..." : "Import into my plan"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
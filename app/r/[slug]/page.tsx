@@ -0,0 +1,107 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import RouteMap, { type MapStop } from "@/app/app/plan/RouteMap";
+import { decodePolyline } from "@/app/lib/routing/http";
+import { loadRouteShare } from "@/app/lib/routeShareServer";
+import { travelModeLabel } from "@/app/lib/travelMode";
+import SharedRouteActions from "./SharedRouteActions";
+
+function formatMinutes(totalS: number) {
+  const m = Math.round(totalS / 60);
+  if (m < 60) return `${m} min`;
+  const h = Math.floor(m / 60);
+  return m % 60 ? `${h} h ${m % 60} min` : `${h} h`;
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }): Promise<Metadata> {
+  const { slug } = await params;
+  const share = await loadRouteShare(slug);
+  return { title: share ? `${share.title} · BirthdayScout` : "Route not found · BirthdayScout" };
+}
+
+export default async function SharedRoutePage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+
+  const share = await loadRouteShare(slug);
+  if (!share) notFound();
+
+  const mapStops: MapStop[] = share.stops.flatMap((s, i) =>
+    typeof s.lat === "number" && typeof s.lon === "number"
+      ? [{ id: s.id, name: s.name, lat: s.lat, lon: s.lon, order: i + 1, state: "normal", isDest: s.id === share.destinationId }]
+      : []
+  );
+  const start = share.start ? { lat: share.start.lat, lon: share.start.lon } : null;
+
+  const stats = [
+    share.duration_s !== null ? `~${formatMinutes(share.duration_s)} on the road` : "",
+    share.distance_m !== null ? `${(share.distance_m / 1609.34).toFixed(1)} mi` : "",
+    share.total_s !== null ? `~${formatMinutes(share.total_s)} incl. stops` : "",
+  ].filter(Boolean);
+
+  const ends =
+    share.endMode === "start"
+      ? "Ends back at the start"
+      : share.endMode === "address"
+      ? `Ends at ${share.endAddress ?? "a custom address"}`
+      : null;
+
+  return (
+    <div className="mx-auto max-w-md px-4 pt-6 pb-32">
+      <div className="mb-4">
+        <Link href="/" className="text-sm text-zinc-400 underline underline-offset-4">
+          BirthdayScout
+        </Link>
+      </div>
+
+      <div className="rounded-3xl border border-white/10 bg-white/5 p-5 relative overflow-hidden">
+        <div className="pointer-events-none absolute -top-20 -right-24 h-56 w-56 rounded-full bg-gradient-to-br from-pink-500/25 via-purple-500/20 to-cyan-500/15 blur-2xl" />
+
+        <div className="relative">
+          <p className="text-xs text-zinc-400">
+            Shared route • {share.stops.length} stop{share.stops.length === 1 ? "" : "s"} •{" "}
+            {travelModeLabel(share.travelMode)}
+          </p>
+          <h1 className="text-2xl font-bold mt-1 leading-tight">{share.title}</h1>
+          {stats.length ? <p className="mt-2 text-sm text-zinc-300/90">{stats.join(" • ")}</p> : null}
+          {share.start ? <p className="mt-1 text-sm text-zinc-400">Starts at {share.start.label}</p> : null}
+          {ends ? <p className="mt-1 text-sm text-zinc-400">{ends}</p> : null}
+        </div>
+      </div>
+
+      {mapStops.length ? (
+        <div className="mt-4">
+          <RouteMap
+            start={start}
+            end={share.endMode === "start" ? start : null}
+            stops={mapStops}
+            geometry={decodePolyline(share.polyline)}
+          />
+        </div>
+      ) : null}
+
+      <div className="mt-4 rounded-3xl border border-white/10 bg-white/5 p-5">
+        <h2 className="text-base font-semibold mb-3">Stops</h2>
+        <ol className="space-y-3">
+          {share.stops.map((s, i) => (
+            <li key={s.id} className="flex gap-3">
+              <span className="mt-0.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-full border border-white/20 text-xs text-zinc-300">
+                {i + 1}
+              </span>
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-zinc-100">
+                  {s.name}
+                  {s.id === share.destinationId ? <span className="ml-2 text-xs text-zinc-400">(final stop)</span> : null}
+                </p>
+                {s.freebie ? <p className="text-sm text-zinc-300/90">{s.freebie}</p> : null}
+                {s.label ? <p className="text-xs text-zinc-500">{s.label}</p> : null}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <SharedRouteActions slug={slug} share={share} />
+    </div>
+  );
+}
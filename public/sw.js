@@ -0,0 +1,220 @@
+// public/sw.js
+// Service worker:
+// - offline: keeps the app shell (plan and deals pages, Next's scripts and styles), deal and brand
+//   images and visited pages, so /app/plan and deal pages open without a connection. The client
+//   (app/lib/offline.ts) posts the pages the open plan needs; their assets are found in the HTML.
+// - push: shows notifications sent by the server (app/lib/pushServer.ts) and opens their link on
+//   click, reusing an open BirthdayScout tab when there is one.
+// Bump VERSION when the caching rules change; old caches are dropped on activate.
+// Registered as /sw.js?offline=0 in development, where Next's chunks aren't content-hashed: push only.
+
+const OFFLINE = new URL(self.location.href).searchParams.get("offline") !== "0";
+const VERSION = "v1";
+const PAGES = `bs-pages-${VERSION}`; // HTML of /app/* pages
+const ASSETS = `bs-assets-${VERSION}`; // /_next/static (content-hashed, never changes)
+const IMAGES = `bs-images-${VERSION}`; // /deals, /brands, /icons and their /_next/image variants
+const TILES = `bs-tiles-${VERSION}`; // map tiles seen on the plan page
+const CACHES = [PAGES, ASSETS, IMAGES, TILES];
+
+const SHELL_PAGES = ["/app/plan", "/app/deals"];
+const SHELL_ASSETS = ["/manifest.webmanifest", "/icons/icon-192.png", "/icons/icon-512.png", "/favicon.ico"];
+const NETWORK_TIMEOUT_MS = 4000; // spotty coverage: fall back to the cached page instead of hanging
+const MAX_TILES = 400;
+
+const ASSET_RE = /^\/_next\/static\//;
+const IMAGE_RE = /^\/(deals|brands|icons)\/|^\/_next\/image/;
+const PAGE_RE = /^\/app(\/|$)/;
+
+const OFFLINE_HTML = `<!doctype html><html lang="en"><head><meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1"><title>Offline</title></head>
+<body style="background:#000;color:#e4e4e7;font-family:system-ui,sans-serif;display:grid;place-items:center;min-height:100vh;margin:0">
+<div style="text-align:center;padding:24px"><p>You’re offline and this page wasn’t saved.</p>
+<p><a href="/app/plan" style="color:#6ee7b7">Open your plan</a></p></div></body></html>`;
+
+// ---------- precache ----------
+
+/** Same-origin asset and image URLs referenced by a page's HTML (and its inline RSC payload). */
+function assetsIn(html) {
+  const out = new Set();
+  const re = /(?:\/_next\/static\/[^"'\s\\)]+|\/(?:deals|brands)\/[\w.%-]+\.(?:png|jpe?g|webp|svg|gif))/g;
+  for (const m of html.matchAll(re)) out.add(m[0]);
+  return Array.from(out);
+}
+
+/** Fetches and stores a page unless it's already cached (or `refresh`); returns its asset URLs. */
+async function cachePage(path, refresh) {
+  const cache = await caches.open(PAGES);
+  let res = refresh ? undefined : await cache.match(path);
+  if (!res) {
+    res = await fetch(path, { credentials: "same-origin" });
+    // signed out: /app/* redirects to /login, which must not be stored as the page
+    if (!res.ok || res.redirected) return [];
+    await cache.put(path, res.clone());
+  }
+  return assetsIn(await res.text());
+}
+
+async function cacheAssets(urls) {
+  const [assets, images] = await Promise.all([caches.open(ASSETS), caches.open(IMAGES)]);
+  await Promise.allSettled(
+    urls.map(async (url) => {
+      const cache = IMAGE_RE.test(new URL(url, self.location.origin).pathname) ? images : assets;
+      if (await cache.match(url)) return;
+      const res = await fetch(url);
+      if (res.ok) await cache.put(url, res);
+    })
+  );
+}
+
+async function precache(pages, assets, refresh) {
+  const found = await Promise.allSettled(pages.map((p) => cachePage(p, refresh)));
+  const urls = new Set(assets);
+  for (const r of found) if (r.status === "fulfilled") r.value.forEach((u) => urls.add(u));
+  await cacheAssets(Array.from(urls));
+}
+
+self.addEventListener("install", (event) => {
+  if (OFFLINE) event.waitUntil(precache(SHELL_PAGES, SHELL_ASSETS, true).catch(() => {}));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((k) => k.startsWith("bs-") && !(OFFLINE && CACHES.includes(k))).map((k) => caches.delete(k)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  const msg = event.data || {};
+  if (msg.type !== "precache" || !OFFLINE) return;
+  const pages = (Array.isArray(msg.pages) ? msg.pages : []).filter((p) => typeof p === "string" && PAGE_RE.test(p));
+  const assets = (Array.isArray(msg.assets) ? msg.assets : []).filter((a) => typeof a === "string" && a.startsWith("/"));
+  event.waitUntil(precache(pages, assets, false).catch(() => {}));
+});
+
+// ---------- fetch ----------
+
+/** From any of our caches, else the network (stored in `cacheName`), else `fallback`'s cached copy. */
+async function cacheFirst(cacheName, request, fallback) {
+  const hit = await caches.match(request);
+  if (hit) return hit;
+  try {
+    const res = await fetch(request);
+    if (res.ok || res.type === "opaque") await (await caches.open(cacheName)).put(request, res.clone());
+    return res;
+  } catch (e) {
+    const alt = fallback && (await caches.match(fallback));
+    if (alt) return alt;
+    throw e;
+  }
+}
+
+function withTimeout(promise, ms) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("timeout")), ms);
+    promise.then(
+      (v) => {
+        clearTimeout(timer);
+        resolve(v);
+      },
+      (e) => {
+        clearTimeout(timer);
+        reject(e);
+      }
+    );
+  });
+}
+
+/** Network first (so pages stay fresh), the saved copy when offline or too slow. */
+async function page(request) {
+  const cache = await caches.open(PAGES);
+  const url = new URL(request.url);
+  const network = fetch(request).then(async (res) => {
+    if (res.ok && !res.redirected) await cache.put(url.pathname, res.clone());
+    return res;
+  });
+  network.catch(() => {}); // handled below; silences the rejection when the cached copy wins
+  try {
+    return await withTimeout(network, NETWORK_TIMEOUT_MS);
+  } catch {
+    const hit = await cache.match(url.pathname);
+    if (hit) return hit;
+    // slow but not down: keep waiting for the network
+    return network.catch(() => new Response(OFFLINE_HTML, { headers: { "Content-Type": "text/html; charset=utf-8" } }));
+  }
+}
+
+async function trimTiles() {
+  const cache = await caches.open(TILES);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_TILES)).map((k) => cache.delete(k)));
+}
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (!OFFLINE || req.method !== "GET") return;
+  const url = new URL(req.url);
+
+  if (url.origin !== self.location.origin) {
+    if (req.destination === "image" && /tile/.test(url.hostname)) {
+      event.respondWith(cacheFirst(TILES, req));
+      event.waitUntil(trimTiles());
+    }
+    return;
+  }
+
+  // Client-side navigations (RSC) go to the network; when that fails Next reloads the page,
+  // which lands in page() below.
+  if (req.headers.get("RSC")) return;
+
+  if (req.mode === "navigate" && PAGE_RE.test(url.pathname)) {
+    event.respondWith(page(req));
+  } else if (ASSET_RE.test(url.pathname)) {
+    event.respondWith(cacheFirst(ASSETS, req));
+  } else if (IMAGE_RE.test(url.pathname)) {
+    // an optimized image that wasn't cached falls back to the original file
+    const original = url.pathname === "/_next/image" ? url.searchParams.get("url") : null;
+    event.respondWith(cacheFirst(IMAGES, req, original));
+  } else if (SHELL_ASSETS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(IMAGES, req));
+  }
+});
+
+// ---------- push ----------
+
+self.addEventListener("push", (event) => {
+  let msg = {};
+  try {
+    msg = event.data ? event.data.json() : {};
+  } catch {
+    msg = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(msg.title || "BirthdayScout", {
+      body: msg.body || "",
+      tag: msg.tag,
+      renotify: !!msg.tag,
+      icon: "/icons/icon-192.png",
+      data: { url: msg.url || "/app/plan" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/app/plan", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((tabs) => {
+      const tab = tabs.find((t) => t.url.startsWith(self.location.origin));
+      if (tab) return tab.navigate(url).then((t) => (t || tab).focus());
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,42 @@
+-- Deal catalog (replaces the hardcoded ALL_DEALS array; the app falls back to it when this table is empty).
+
+alter table public.profiles
+  add column if not exists is_admin boolean not null default false;
+
+create table if not exists public.deals (
+  id          text primary key,
+  name        text not null,
+  category    text not null default 'Other'
+              check (category in ('Food', 'Drinks', 'Dessert', 'Other')),
+  freebie     text not null,
+  conditions  text,
+  image       text,
+  map_query   text,
+  signup_url  text,
+  claim_steps text[],
+  sort_order  integer not null default 0,
+  archived    boolean not null default false,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+create index if not exists deals_sort_order_idx on public.deals (sort_order);
+
+alter table public.deals enable row level security;
+
+create policy "deals are readable by everyone"
+  on public.deals for select
+  using (true);
+
+create policy "admins can insert deals"
+  on public.deals for insert
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.is_admin));
+
+create policy "admins can update deals"
+  on public.deals for update
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.is_admin))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.is_admin));
+
+create policy "admins can delete deals"
+  on public.deals for delete
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.is_admin));
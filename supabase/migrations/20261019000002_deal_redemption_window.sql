@@ -0,0 +1,26 @@
+-- Structured redemption window per deal, relative to the user's birthday.
+-- Shape: {"kind":"day"} | {"kind":"week"} | {"kind":"month"} | {"kind":"range","daysBefore":N,"daysAfter":N}
+
+alter table public.deals
+  add column if not exists redemption_window jsonb;
+
+alter table public.deals
+  add constraint deals_redemption_window_kind_check
+  check (redemption_window is null or redemption_window->>'kind' in ('day', 'week', 'month', 'range'));
+
+-- Windows for the built-in deals, for catalogs imported before this column existed.
+update public.deals set redemption_window = '{"kind": "day"}'::jsonb where id = 'starbucks' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "range", "daysBefore": 0, "daysAfter": 14}'::jsonb where id = 'chipotle' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "range", "daysBefore": 7, "daysAfter": 7}'::jsonb where id = 'nothingbundt' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "day"}'::jsonb where id = 'krispykreme' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "range", "daysBefore": 0, "daysAfter": 7}'::jsonb where id = 'panera' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "month"}'::jsonb where id = 'sephora' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "month"}'::jsonb where id = 'ulta' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "day"}'::jsonb where id = 'ihop' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "week"}'::jsonb where id = 'jerseymikes' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "month"}'::jsonb where id = 'bathbodyworks' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "week"}'::jsonb where id = 'coldstone' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "day"}'::jsonb where id = 'jeremias' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "week"}'::jsonb where id = 'cinnabon' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "week"}'::jsonb where id = 'raisingcanes' and redemption_window is null;
+update public.deals set redemption_window = '{"kind": "range", "daysBefore": 0, "daysAfter": 14}'::jsonb where id = 'buffalowildwings' and redemption_window is null;
@@ -0,0 +1,36 @@
+-- Signup lead time per deal + per-user rewards signup status.
+
+alter table public.deals
+  add column if not exists signup_lead_days integer
+  check (signup_lead_days is null or signup_lead_days >= 0);
+
+-- Lead times for the built-in deals, for catalogs imported before this column existed.
+update public.deals set signup_lead_days = 7 where id = 'starbucks' and signup_lead_days is null;
+update public.deals set signup_lead_days = 14 where id = 'chipotle' and signup_lead_days is null;
+update public.deals set signup_lead_days = 7 where id = 'nothingbundt' and signup_lead_days is null;
+update public.deals set signup_lead_days = 7 where id = 'krispykreme' and signup_lead_days is null;
+update public.deals set signup_lead_days = 14 where id = 'panera' and signup_lead_days is null;
+update public.deals set signup_lead_days = 14 where id = 'ihop' and signup_lead_days is null;
+update public.deals set signup_lead_days = 30 where id = 'jerseymikes' and signup_lead_days is null;
+update public.deals set signup_lead_days = 30 where id = 'bathbodyworks' and signup_lead_days is null;
+update public.deals set signup_lead_days = 7 where id = 'coldstone' and signup_lead_days is null;
+update public.deals set signup_lead_days = 7 where id = 'jeremias' and signup_lead_days is null;
+update public.deals set signup_lead_days = 7 where id = 'cinnabon' and signup_lead_days is null;
+update public.deals set signup_lead_days = 14 where id = 'raisingcanes' and signup_lead_days is null;
+update public.deals set signup_lead_days = 14 where id = 'buffalowildwings' and signup_lead_days is null;
+
+create table if not exists public.deal_signups (
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  deal_id    text not null,
+  status     text not null default 'not_joined'
+             check (status in ('not_joined', 'joined', 'birthday_saved')),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, deal_id)
+);
+
+alter table public.deal_signups enable row level security;
+
+create policy "users manage their own signups"
+  on public.deal_signups for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,20 @@
+-- Per-user plan state, synced across devices (localStorage is only an offline cache now).
+
+create table if not exists public.plan_items (
+  user_id        uuid not null references auth.users (id) on delete cascade,
+  deal_id        text not null,
+  position       integer,              -- order in the plan; null = not planned, only claimed
+  skipped        boolean not null default false,
+  claimed_at     timestamptz,
+  is_destination boolean not null default false,
+  route_position integer,              -- order in the last optimized route
+  updated_at     timestamptz not null default now(),
+  primary key (user_id, deal_id)
+);
+
+alter table public.plan_items enable row level security;
+
+create policy "users manage their own plan items"
+  on public.plan_items for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
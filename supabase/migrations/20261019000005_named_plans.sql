@@ -0,0 +1,72 @@
+-- Named plans: a user can keep several plans ("Birthday Saturday", "Birthday week leftovers"),
+-- each with its own stops, destination, skipped set and last optimized route stats.
+-- Claims move to their own table since a deal claimed is claimed in every plan.
+
+create table if not exists public.plans (
+  id                    uuid primary key default gen_random_uuid(),
+  user_id               uuid not null references auth.users (id) on delete cascade,
+  name                  text not null check (char_length(name) between 1 and 60),
+  sort_order            integer not null default 0,
+  last_optimized_at     timestamptz,
+  last_route_distance_m double precision,
+  last_route_duration_s double precision,
+  created_at            timestamptz not null default now(),
+  updated_at            timestamptz not null default now()
+);
+
+create index if not exists plans_user_id_idx on public.plans (user_id);
+
+alter table public.plans enable row level security;
+
+create policy "users manage their own plans"
+  on public.plans for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table if not exists public.deal_claims (
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  deal_id    text not null,
+  claimed_at timestamptz not null default now(),
+  primary key (user_id, deal_id)
+);
+
+alter table public.deal_claims enable row level security;
+
+create policy "users manage their own claims"
+  on public.deal_claims for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Move existing single-plan data over.
+insert into public.deal_claims (user_id, deal_id, claimed_at)
+select user_id, deal_id, claimed_at from public.plan_items where claimed_at is not null
+on conflict do nothing;
+
+insert into public.plans (user_id, name)
+select distinct user_id, 'My plan' from public.plan_items where position is not null;
+
+alter table public.plan_items add column plan_id uuid references public.plans (id) on delete cascade;
+
+update public.plan_items pi
+set plan_id = p.id
+from public.plans p
+where p.user_id = pi.user_id;
+
+delete from public.plan_items where plan_id is null or position is null;
+
+alter table public.plan_items drop constraint plan_items_pkey;
+alter table public.plan_items drop column claimed_at;
+alter table public.plan_items alter column plan_id set not null;
+alter table public.plan_items alter column position set not null;
+alter table public.plan_items add primary key (plan_id, deal_id);
+
+-- Items may only be attached to the user's own plans.
+drop policy if exists "users manage their own plan items" on public.plan_items;
+
+create policy "users manage their own plan items"
+  on public.plan_items for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.plans p where p.id = plan_id and p.user_id = auth.uid())
+  );
@@ -0,0 +1,26 @@
+-- Dwell time per stop: a default on each deal, optionally overridden per plan item.
+
+alter table public.deals
+  add column if not exists service_minutes integer
+  check (service_minutes is null or service_minutes between 0 and 240);
+
+-- Dwell times for the built-in deals, for catalogs imported before this column existed.
+update public.deals set service_minutes = 5 where id = 'starbucks' and service_minutes is null;
+update public.deals set service_minutes = 15 where id = 'chipotle' and service_minutes is null;
+update public.deals set service_minutes = 5 where id = 'nothingbundt' and service_minutes is null;
+update public.deals set service_minutes = 10 where id = 'krispykreme' and service_minutes is null;
+update public.deals set service_minutes = 15 where id = 'panera' and service_minutes is null;
+update public.deals set service_minutes = 15 where id = 'sephora' and service_minutes is null;
+update public.deals set service_minutes = 15 where id = 'ulta' and service_minutes is null;
+update public.deals set service_minutes = 45 where id = 'ihop' and service_minutes is null;
+update public.deals set service_minutes = 15 where id = 'jerseymikes' and service_minutes is null;
+update public.deals set service_minutes = 10 where id = 'bathbodyworks' and service_minutes is null;
+update public.deals set service_minutes = 10 where id = 'coldstone' and service_minutes is null;
+update public.deals set service_minutes = 5 where id = 'jeremias' and service_minutes is null;
+update public.deals set service_minutes = 5 where id = 'cinnabon' and service_minutes is null;
+update public.deals set service_minutes = 20 where id = 'raisingcanes' and service_minutes is null;
+update public.deals set service_minutes = 45 where id = 'buffalowildwings' and service_minutes is null;
+
+alter table public.plan_items
+  add column if not exists service_minutes integer
+  check (service_minutes is null or service_minutes between 0 and 240);
@@ -0,0 +1,5 @@
+-- How the user gets between stores; picks the routing profile and the Maps travel mode.
+
+alter table public.profiles
+  add column if not exists travel_mode text not null default 'driving'
+  check (travel_mode in ('driving', 'walking', 'cycling', 'transit'));
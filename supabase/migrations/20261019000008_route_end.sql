@@ -0,0 +1,9 @@
+-- Where a plan's route finishes: at its destination stop, back at the start, or at a custom address.
+
+alter table public.plans
+  add column if not exists end_mode text not null default 'stop'
+  check (end_mode in ('stop', 'start', 'address'));
+
+alter table public.plans
+  add column if not exists end_address text
+  check (end_address is null or char_length(end_address) <= 200);
@@ -0,0 +1,23 @@
+-- Brand per deal ({ name, aliases?, wikidata? }); drives chain detection when optimizing routes.
+-- Unbranded deals (null) are geocoded from map_query / name.
+
+alter table public.deals
+  add column if not exists brand jsonb
+  check (brand is null or (jsonb_typeof(brand) = 'object' and brand ? 'name'));
+
+-- Brands for the built-in deals, for catalogs imported before this column existed.
+update public.deals set brand = '{"name": "Starbucks", "aliases": ["Starbucks Coffee"]}'::jsonb where id = 'starbucks' and brand is null;
+update public.deals set brand = '{"name": "Chipotle", "aliases": ["Chipotle Mexican Grill"]}'::jsonb where id = 'chipotle' and brand is null;
+update public.deals set brand = '{"name": "Nothing Bundt Cakes", "aliases": ["Nothing Bundt"]}'::jsonb where id = 'nothingbundt' and brand is null;
+update public.deals set brand = '{"name": "Krispy Kreme", "aliases": ["Krispy Kreme Doughnuts"]}'::jsonb where id = 'krispykreme' and brand is null;
+update public.deals set brand = '{"name": "Panera Bread", "aliases": ["Panera"]}'::jsonb where id = 'panera' and brand is null;
+update public.deals set brand = '{"name": "Sephora"}'::jsonb where id = 'sephora' and brand is null;
+update public.deals set brand = '{"name": "Ulta Beauty", "aliases": ["Ulta"]}'::jsonb where id = 'ulta' and brand is null;
+update public.deals set brand = '{"name": "IHOP", "aliases": ["International House of Pancakes"]}'::jsonb where id = 'ihop' and brand is null;
+update public.deals set brand = '{"name": "Jersey Mike''s", "aliases": ["Jersey Mike''s Subs"]}'::jsonb where id = 'jerseymikes' and brand is null;
+update public.deals set brand = '{"name": "Bath & Body Works", "aliases": ["Bath and Body Works"]}'::jsonb where id = 'bathbodyworks' and brand is null;
+update public.deals set brand = '{"name": "Cold Stone Creamery", "aliases": ["Cold Stone", "Coldstone"]}'::jsonb where id = 'coldstone' and brand is null;
+update public.deals set brand = '{"name": "Jeremiah''s Italian Ice", "aliases": ["Jeremiah''s"]}'::jsonb where id = 'jeremias' and brand is null;
+update public.deals set brand = '{"name": "Cinnabon"}'::jsonb where id = 'cinnabon' and brand is null;
+update public.deals set brand = '{"name": "Raising Cane''s", "aliases": ["Raising Cane''s Chicken Fingers"]}'::jsonb where id = 'raisingcanes' and brand is null;
+update public.deals set brand = '{"name": "Buffalo Wild Wings", "aliases": ["BWW", "B-Dubs"]}'::jsonb where id = 'buffalowildwings' and brand is null;
@@ -0,0 +1,19 @@
+-- Shared cache for routing lookups (store search, opening hours, geocodes, travel-time matrices).
+-- Only the server writes it, with the service-role key; RLS is on with no policies so clients can't.
+
+create table if not exists public.routing_cache (
+  key         text primary key,
+  kind        text not null check (kind in ('places', 'hours', 'geocode', 'matrix')),
+  name        text,
+  lat         double precision,
+  lon         double precision,
+  value       jsonb,
+  expires_at  timestamptz not null,
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists routing_cache_name_idx on public.routing_cache (kind, name);
+create index if not exists routing_cache_area_idx on public.routing_cache (lat, lon);
+create index if not exists routing_cache_expires_idx on public.routing_cache (expires_at);
+
+alter table public.routing_cache enable row level security;
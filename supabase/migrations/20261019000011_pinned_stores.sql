@@ -0,0 +1,19 @@
+-- A specific store location a user picked for a deal (instead of the nearest one).
+
+create table if not exists public.pinned_stores (
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  deal_id    text not null,
+  lat        double precision not null check (lat between -90 and 90),
+  lon        double precision not null check (lon between -180 and 180),
+  place_id   text check (place_id is null or char_length(place_id) <= 300),
+  label      text check (label is null or char_length(label) <= 200),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, deal_id)
+);
+
+alter table public.pinned_stores enable row level security;
+
+create policy "users manage their own pinned stores"
+  on public.pinned_stores for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
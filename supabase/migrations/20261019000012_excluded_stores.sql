@@ -0,0 +1,20 @@
+-- Store locations a user never wants to be routed to (store_key = place id, else "lat,lon").
+
+create table if not exists public.excluded_stores (
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  store_key  text not null check (char_length(store_key) <= 300),
+  deal_id    text,
+  lat        double precision not null check (lat between -90 and 90),
+  lon        double precision not null check (lon between -180 and 180),
+  place_id   text check (place_id is null or char_length(place_id) <= 300),
+  label      text check (label is null or char_length(label) <= 200),
+  created_at timestamptz not null default now(),
+  primary key (user_id, store_key)
+);
+
+alter table public.excluded_stores enable row level security;
+
+create policy "users manage their own excluded stores"
+  on public.excluded_stores for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,26 @@
+-- Read-only snapshots of an optimized route, shown to anyone with the link at /r/<slug>.
+-- The slug is random and unguessable; the snapshot only carries the start / end address when the
+-- sharer opted in.
+
+create table if not exists public.route_shares (
+  slug       text primary key check (char_length(slug) = 10),
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  snapshot   jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists route_shares_user_idx on public.route_shares (user_id, created_at desc);
+
+alter table public.route_shares enable row level security;
+
+create policy "anyone can read shared routes"
+  on public.route_shares for select
+  using (true);
+
+create policy "users create their own shared routes"
+  on public.route_shares for insert
+  with check (auth.uid() = user_id);
+
+create policy "users delete their own shared routes"
+  on public.route_shares for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,184 @@
+-- Group plans: a plan owner invites friends with a link. Members are editors (add, remove and skip
+-- stops) or viewers (see the plan and suggest stops). Claims stay per user, but people on the same
+-- plan can see each other's claims for that plan's deals.
+
+create table if not exists public.plan_members (
+  plan_id      uuid not null references public.plans (id) on delete cascade,
+  user_id      uuid not null references auth.users (id) on delete cascade,
+  role         text not null check (role in ('editor', 'viewer')),
+  display_name text check (display_name is null or char_length(display_name) <= 60),
+  joined_at    timestamptz not null default now(),
+  primary key (plan_id, user_id)
+);
+
+create index if not exists plan_members_user_idx on public.plan_members (user_id);
+
+create table if not exists public.plan_invites (
+  token      text primary key check (char_length(token) between 16 and 64),
+  plan_id    uuid not null references public.plans (id) on delete cascade,
+  role       text not null check (role in ('editor', 'viewer')),
+  created_by uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '14 days'
+);
+
+create table if not exists public.plan_suggestions (
+  plan_id      uuid not null references public.plans (id) on delete cascade,
+  deal_id      text not null,
+  user_id      uuid not null references auth.users (id) on delete cascade,
+  display_name text check (display_name is null or char_length(display_name) <= 60),
+  created_at   timestamptz not null default now(),
+  primary key (plan_id, deal_id, user_id)
+);
+
+-- How the owner is shown to members
+alter table public.plans
+  add column if not exists owner_name text check (owner_name is null or char_length(owner_name) <= 60);
+
+-- Who put each stop on the plan
+alter table public.plan_items
+  add column if not exists added_by uuid default auth.uid() references auth.users (id) on delete set null;
+
+update public.plan_items set added_by = user_id where added_by is null;
+
+-- 'owner', 'editor', 'viewer' or null. Security definer so policies can call it without recursing
+-- into each other's RLS.
+create or replace function public.plan_role(p_plan uuid, p_user uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (select 1 from public.plans where id = p_plan and user_id = p_user) then 'owner'
+    else (select role from public.plan_members where plan_id = p_plan and user_id = p_user)
+  end
+$$;
+
+-- ---------- plans ----------
+create policy "members read shared plans"
+  on public.plans for select
+  using (public.plan_role(id, auth.uid()) is not null);
+
+-- ---------- plan_items (rows always carry the plan owner's user_id) ----------
+drop policy if exists "users manage their own plan items" on public.plan_items;
+
+create policy "members read plan items"
+  on public.plan_items for select
+  using (public.plan_role(plan_id, auth.uid()) is not null);
+
+create policy "owners and editors change plan items"
+  on public.plan_items for all
+  using (public.plan_role(plan_id, auth.uid()) in ('owner', 'editor'))
+  with check (
+    public.plan_role(plan_id, auth.uid()) in ('owner', 'editor')
+    and exists (select 1 from public.plans p where p.id = plan_id and p.user_id = plan_items.user_id)
+  );
+
+-- ---------- plan_members (rows are created by accept_plan_invite) ----------
+alter table public.plan_members enable row level security;
+
+create policy "members see each other"
+  on public.plan_members for select
+  using (public.plan_role(plan_id, auth.uid()) is not null);
+
+create policy "owners change roles"
+  on public.plan_members for update
+  using (public.plan_role(plan_id, auth.uid()) = 'owner')
+  with check (public.plan_role(plan_id, auth.uid()) = 'owner');
+
+create policy "owners remove members, members leave"
+  on public.plan_members for delete
+  using (auth.uid() = user_id or public.plan_role(plan_id, auth.uid()) = 'owner');
+
+-- ---------- plan_invites (redeemed through accept_plan_invite) ----------
+alter table public.plan_invites enable row level security;
+
+create policy "owners manage invites"
+  on public.plan_invites for all
+  using (public.plan_role(plan_id, auth.uid()) = 'owner')
+  with check (public.plan_role(plan_id, auth.uid()) = 'owner' and auth.uid() = created_by);
+
+-- ---------- plan_suggestions ----------
+alter table public.plan_suggestions enable row level security;
+
+create policy "members read suggestions"
+  on public.plan_suggestions for select
+  using (public.plan_role(plan_id, auth.uid()) is not null);
+
+create policy "members suggest deals"
+  on public.plan_suggestions for insert
+  with check (auth.uid() = user_id and public.plan_role(plan_id, auth.uid()) is not null);
+
+create policy "suggesters withdraw, owners and editors resolve"
+  on public.plan_suggestions for delete
+  using (auth.uid() = user_id or public.plan_role(plan_id, auth.uid()) in ('owner', 'editor'));
+
+-- ---------- deal_claims: visible to people sharing a plan that has the deal ----------
+create policy "plan members see claims for shared stops"
+  on public.deal_claims for select
+  using (
+    exists (
+      select 1 from public.plan_items i
+      where i.deal_id = deal_claims.deal_id
+        and public.plan_role(i.plan_id, auth.uid()) is not null
+        and public.plan_role(i.plan_id, deal_claims.user_id) is not null
+    )
+  );
+
+-- ---------- invites ----------
+-- What an invite link is for, shown before joining.
+create or replace function public.plan_invite_preview(p_token text)
+returns table (plan_id uuid, plan_name text, owner_name text, role text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.name, p.owner_name, i.role
+  from public.plan_invites i
+  join public.plans p on p.id = i.plan_id
+  where i.token = p_token and i.expires_at > now()
+$$;
+
+-- Joins the caller to the invite's plan and returns the plan id. Re-joining never downgrades an editor.
+create or replace function public.accept_plan_invite(p_token text, p_display_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inv public.plan_invites;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to join a plan';
+  end if;
+
+  select * into inv from public.plan_invites where token = p_token and expires_at > now();
+  if not found then
+    raise exception 'This invite link is invalid or has expired';
+  end if;
+
+  if public.plan_role(inv.plan_id, auth.uid()) = 'owner' then
+    return inv.plan_id;
+  end if;
+
+  insert into public.plan_members (plan_id, user_id, role, display_name)
+  values (inv.plan_id, auth.uid(), inv.role, left(nullif(trim(p_display_name), ''), 60))
+  on conflict (plan_id, user_id) do update
+    set role = case when public.plan_members.role = 'editor' then 'editor' else excluded.role end,
+        display_name = coalesce(excluded.display_name, public.plan_members.display_name);
+
+  return inv.plan_id;
+end
+$$;
+
+revoke execute on function public.plan_invite_preview(text) from public;
+revoke execute on function public.accept_plan_invite(text, text) from public;
+grant execute on function public.plan_invite_preview(text) to authenticated;
+grant execute on function public.accept_plan_invite(text, text) to authenticated;
+
+-- Live updates on the plan page
+alter publication supabase_realtime add table public.plan_items, public.deal_claims, public.plan_suggestions, public.plan_members;
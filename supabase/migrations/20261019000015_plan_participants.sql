@@ -0,0 +1,10 @@
+-- Shared-birthday mode: a plan can carry other birthday people (twins, a partner) besides its owner.
+-- Each participant is { id, name, birthday }; claims for them live on the plan's stops, while the
+-- user's own claims stay in deal_claims.
+
+alter table public.plans
+  add column if not exists participants jsonb not null default '[]'::jsonb
+  check (jsonb_typeof(participants) = 'array' and jsonb_array_length(participants) <= 8);
+
+alter table public.plan_items
+  add column if not exists claimed_by text[] not null default '{}';
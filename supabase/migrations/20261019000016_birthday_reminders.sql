@@ -0,0 +1,29 @@
+-- Birthday reminder emails (opt-in): a digest N days before the birthday with rewards programs that
+-- still need joining, and one the morning of with the user's plan. Sent by /api/cron/birthday-reminders.
+
+alter table public.profiles
+  add column if not exists remind_email boolean not null default false;
+
+alter table public.profiles
+  add column if not exists remind_days_before integer not null default 7
+  check (remind_days_before between 1 and 30);
+
+-- IANA zone from the browser, so "the morning of" is the user's morning
+alter table public.profiles
+  add column if not exists timezone text check (timezone is null or char_length(timezone) <= 64);
+
+-- One row per email sent, so reruns of the job don't send twice.
+create table if not exists public.birthday_reminders (
+  user_id  uuid not null references auth.users (id) on delete cascade,
+  kind     text not null check (kind in ('lead', 'day_of')),
+  birthday date not null, -- the birthday the reminder was for
+  sent_at  timestamptz not null default now(),
+  primary key (user_id, kind, birthday)
+);
+
+-- Written by the job with the service role only.
+alter table public.birthday_reminders enable row level security;
+
+create policy "users see their reminders"
+  on public.birthday_reminders for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,52 @@
+-- Web Push: one row per browser that turned notifications on, plus per-user preferences.
+-- Sent by /api/push/next-stop (after a claim) and /api/cron/expiring-deals.
+
+create table if not exists public.push_subscriptions (
+  endpoint     text primary key check (char_length(endpoint) <= 1024),
+  user_id      uuid not null references auth.users (id) on delete cascade,
+  p256dh       text not null, -- browser's public key (base64url)
+  auth         text not null, -- auth secret (base64url)
+  user_agent   text,
+  created_at   timestamptz not null default now(),
+  last_used_at timestamptz
+);
+
+create index if not exists push_subscriptions_user_idx on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "users see their push subscriptions"
+  on public.push_subscriptions for select
+  using (auth.uid() = user_id);
+
+create policy "users add their push subscriptions"
+  on public.push_subscriptions for insert
+  with check (auth.uid() = user_id);
+
+-- re-subscribing refreshes the keys
+create policy "users update their push subscriptions"
+  on public.push_subscriptions for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "users remove their push subscriptions"
+  on public.push_subscriptions for delete
+  using (auth.uid() = user_id);
+
+alter table public.profiles
+  add column if not exists push_next_stop boolean not null default true;
+
+alter table public.profiles
+  add column if not exists push_expiring boolean not null default true;
+
+-- One row per deal window a user was warned about, so the hourly job warns once.
+create table if not exists public.expiring_deal_pushes (
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  deal_id    text not null,
+  window_end date not null,
+  sent_at    timestamptz not null default now(),
+  primary key (user_id, deal_id, window_end)
+);
+
+-- Written by the job with the service role only.
+alter table public.expiring_deal_pushes enable row level security;
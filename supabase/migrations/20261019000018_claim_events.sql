@@ -0,0 +1,51 @@
+-- Claim history: every claim as an event (deal, time, store, note, proof photo), kept across years.
+-- deal_claims stays the "claimed on the current plan" flag and is cleared by "Reset claimed" or when a
+-- stop is removed; claim_events is never cleared by the plan.
+
+create table if not exists public.claim_events (
+  id               uuid primary key default gen_random_uuid(),
+  user_id          uuid not null references auth.users (id) on delete cascade,
+  deal_id          text not null,
+  claimed_at       timestamptz not null default now(),
+  birthday_year    integer not null, -- the birthday the freebie counted toward
+  participant_id   text,             -- set when claimed for another birthday person on the plan
+  participant_name text,
+  store_label      text check (store_label is null or char_length(store_label) <= 200),
+  store_lat        double precision,
+  store_lon        double precision,
+  store_place_id   text,
+  note             text check (note is null or char_length(note) <= 500),
+  photo_path       text,             -- object in the claim-photos bucket: <user id>/<event id>/<file>
+  created_at       timestamptz not null default now()
+);
+
+create index if not exists claim_events_user_year_idx on public.claim_events (user_id, birthday_year, claimed_at);
+
+alter table public.claim_events enable row level security;
+
+create policy "users manage their own claim events"
+  on public.claim_events for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Existing claims become the first events (no store recorded; year of the claim).
+insert into public.claim_events (user_id, deal_id, claimed_at, birthday_year)
+select user_id, deal_id, claimed_at, extract(year from claimed_at)::integer
+from public.deal_claims;
+
+-- ---------- proof photos ----------
+insert into storage.buckets (id, name, public)
+values ('claim-photos', 'claim-photos', false)
+on conflict (id) do nothing;
+
+create policy "users read their claim photos"
+  on storage.objects for select
+  using (bucket_id = 'claim-photos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "users upload their claim photos"
+  on storage.objects for insert
+  with check (bucket_id = 'claim-photos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "users delete their claim photos"
+  on storage.objects for delete
+  using (bucket_id = 'claim-photos' and (storage.foldername(name))[1] = auth.uid()::text);
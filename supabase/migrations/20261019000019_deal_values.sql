@@ -0,0 +1,30 @@
+-- Estimated retail value per deal ({ usd, low?, high? } in US dollars; low/high for rewards that vary),
+-- and what each claim was actually worth when the user corrected it.
+
+alter table public.deals
+  add column if not exists estimated_value jsonb
+  check (
+    estimated_value is null
+    or (jsonb_typeof(estimated_value) = 'object' and jsonb_typeof(estimated_value -> 'usd') = 'number')
+  );
+
+alter table public.claim_events
+  add column if not exists value_usd numeric(8, 2)
+  check (value_usd is null or value_usd between 0 and 1000); -- null = the deal's estimate
+
+-- Values for the built-in deals, for catalogs imported before this column existed.
+update public.deals set estimated_value = '{"usd": 6, "low": 4, "high": 8}'::jsonb where id = 'starbucks' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 5, "low": 3, "high": 12}'::jsonb where id = 'chipotle' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 6}'::jsonb where id = 'nothingbundt' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 2}'::jsonb where id = 'krispykreme' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 5, "low": 3, "high": 8}'::jsonb where id = 'panera' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 15, "low": 10, "high": 25}'::jsonb where id = 'sephora' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 10, "low": 6, "high": 20}'::jsonb where id = 'ulta' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 8}'::jsonb where id = 'ihop' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 9, "low": 7, "high": 13}'::jsonb where id = 'jerseymikes' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 15, "low": 10, "high": 20}'::jsonb where id = 'bathbodyworks' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 6, "low": 5, "high": 9}'::jsonb where id = 'coldstone' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 4, "low": 3, "high": 6}'::jsonb where id = 'jeremias' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 5, "low": 4, "high": 7}'::jsonb where id = 'cinnabon' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 4, "low": 3, "high": 11}'::jsonb where id = 'raisingcanes' and estimated_value is null;
+update public.deals set estimated_value = '{"usd": 9, "low": 7, "high": 13}'::jsonb where id = 'buffalowildwings' and estimated_value is null;
@@ -0,0 +1,38 @@
+-- Admin flag out of `profiles`: users upsert their own profile row, so a column there could be set by
+-- anyone. `admins` has no insert/update/delete policy, so only the service role (SQL editor, dashboard)
+-- can grant or revoke it; users can only see their own row.
+
+create table if not exists public.admins (
+  user_id    uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.admins enable row level security;
+
+create policy "users see whether they are admin"
+  on public.admins for select
+  using (auth.uid() = user_id);
+
+-- Existing flags carry over. Self-granted ones can't be told apart, so review `admins` after applying.
+insert into public.admins (user_id)
+select user_id from public.profiles where is_admin
+on conflict (user_id) do nothing;
+
+drop policy if exists "admins can insert deals" on public.deals;
+drop policy if exists "admins can update deals" on public.deals;
+drop policy if exists "admins can delete deals" on public.deals;
+
+create policy "admins can insert deals"
+  on public.deals for insert
+  with check (exists (select 1 from public.admins a where a.user_id = auth.uid()));
+
+create policy "admins can update deals"
+  on public.deals for update
+  using (exists (select 1 from public.admins a where a.user_id = auth.uid()))
+  with check (exists (select 1 from public.admins a where a.user_id = auth.uid()));
+
+create policy "admins can delete deals"
+  on public.deals for delete
+  using (exists (select 1 from public.admins a where a.user_id = auth.uid()));
+
+alter table public.profiles drop column if exists is_admin;
@@ -0,0 +1,22 @@
+-- Shared routes were readable by anyone as a table, so every share could be listed. Links now read
+-- one snapshot by its slug through get_route_share(); the table itself is only readable by its owner.
+
+drop policy if exists "anyone can read shared routes" on public.route_shares;
+
+create policy "users read their own shared routes"
+  on public.route_shares for select
+  using (auth.uid() = user_id);
+
+-- The snapshot behind a share link (null when the slug is unknown).
+create or replace function public.get_route_share(p_slug text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select snapshot from public.route_shares where slug = p_slug
+$$;
+
+revoke execute on function public.get_route_share(text) from public;
+grant execute on function public.get_route_share(text) to anon, authenticated;